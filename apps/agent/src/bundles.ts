@@ -2,33 +2,23 @@ import { createReadStream, createWriteStream, existsSync, mkdirSync, readFileSyn
 import { join } from 'path';
 import { pipeline } from 'stream/promises';
 
-import { extract } from 'tar-stream';
+import { extractAndVerifyBundle } from '@gapjunction/bundle-integrity';
 
-import type { BundleManifest, CredentialsMap, AgentConfig } from './types.js';
+import type { BundleInfo, BundleManifest, CredentialsMap, AgentConfig, TrustedBundleKey } from './types.js';
 import { createModuleLogger } from './logger.js';
 import { getConfigPaths } from './config.js';
 import { decryptSecretPayload } from './identity.js';
 
 const logger = createModuleLogger('bundles');
 
-export interface BundleInfo {
-  channelId: string;
-  buildId: string;
-  mode: 'TEST' | 'PROD';
-  buildDir: string;
-  manifest: BundleManifest;
-  flowsPath: string;
-  settingsPath: string;
-  credentialsMapPath?: string;
-}
-
 /**
- * Extract bundle from base64 content
+ * Extract bundle from base64 content. The bundle must be intact and signed by one of `trustedKeys`.
  */
 async function extractBundle(
   channelId: string,
   buildId: string,
   bundleContent: string,
+  trustedKeys: TrustedBundleKey[],
   secretPayload?: Uint8Array,
   devicePrivateKey?: string
 ): Promise<BundleInfo> {
@@ -45,83 +35,84 @@ async function extractBundle(
 
     // Decode base64 bundle content
     const bundleBuffer = Buffer.from(bundleContent, 'base64');
-    
-    // Extract tar stream
-    const extractStream = extract();
-    const files: Record<string, Buffer> = {};
-
-    extractStream.on('entry', (header, stream, next) => {
-      const chunks: Buffer[] = [];
-      
-      stream.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
-      
-      stream.on('end', () => {
-        files[header.name] = Buffer.concat(chunks);
-        next();
+
+    // Decompress (gzip/zstd detected from the content), unpack and check every file against the
+    // bundle's integrity manifest and signature before anything touches disk
+    const { compression, files, verification } = await extractAndVerifyBundle(bundleBuffer, { trustedKeys });
+    if (!verification.valid) {
+      logger.error('Bundle failed verification', {
+        channelId,
+        buildId,
+        tamperedFiles: verification.tamperedFiles,
+        signature: verification.signature?.status,
+        signatureKeyId: verification.signature?.keyId,
+        errors: verification.errors,
       });
-      
-      stream.resume();
-    });
+      throw new Error(
+        verification.tamperedFiles.length > 0
+          ? `Bundle integrity check failed for: ${verification.tamperedFiles.join(', ')}`
+          : `Bundle verification failed: ${verification.errors.join('; ')}`
+      );
+    }
+    logger.info('Bundle verified', { channelId, buildId, compression, signatureKeyId: verification.signature?.keyId });
 
-    // Process the bundle
-    await new Promise<void>((resolve, reject) => {
-      extractStream.on('finish', () => resolve());
-      extractStream.on('error', reject);
-      extractStream.write(bundleBuffer);
-      extractStream.end();
-    });
+    const manifestFile = files.get('manifest.json');
+    const flowsFile = files.get('flows.json');
+    const settingsFile = files.get('settings.js');
+    const credentialsMapFile = files.get('credentials.map.json');
 
     // Validate required files
-    if (!files['manifest.json']) {
+    if (!manifestFile) {
       throw new Error('Bundle missing manifest.json');
     }
 
-    if (!files['flows.json']) {
+    if (!flowsFile) {
       throw new Error('Bundle missing flows.json');
     }
 
-    if (!files['settings.js']) {
+    if (!settingsFile) {
       throw new Error('Bundle missing settings.js');
     }
 
     // Parse manifest
-    const manifest = JSON.parse(files['manifest.json'].toString('utf8')) as BundleManifest;
+    const manifest = JSON.parse(manifestFile.toString('utf8')) as BundleManifest;
     
-    // Validate manifest
-    if (manifest.channelId !== channelId || manifest.buildId !== buildId) {
-      throw new Error('Bundle manifest does not match expected channel/build IDs');
+    // Validate manifest; the build id is not part of the bundle and comes from the deploy command
+    if (manifest.channelId !== channelId) {
+      throw new Error('Bundle manifest does not match expected channel ID');
+    }
+    if (manifest.compression && manifest.compression !== compression) {
+      logger.warn('Bundle was recompressed after build', { channelId, buildId, built: manifest.compression, received: compression });
     }
 
     // Write manifest
     const manifestPath = join(buildDir, 'manifest.json');
     writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
 
-    // Write flows.json
+    // Write flows.json as compiled: it only contains ${GJ_SECRET_*} env references
     const flowsPath = join(buildDir, 'flows.json');
-    let flowsContent = files['flows.json'].toString('utf8');
-
-    // Process credentials if we have secrets
-    if (files['credentials.map.json'] && secretPayload && devicePrivateKey) {
-      logger.info('Processing encrypted secrets');
-      
-      const credentialsMap = JSON.parse(files['credentials.map.json'].toString('utf8')) as CredentialsMap;
-      const secrets = decryptSecretPayload(secretPayload, devicePrivateKey);
-      
-      // Replace credential references in flows
-      flowsContent = replaceCredentialReferences(flowsContent, credentialsMap, secrets);
-      
-      // Write credentials map for reference
+    writeFileSync(flowsPath, flowsFile);
+
+    let credentialsMap: CredentialsMap | undefined;
+    let secretEnv: Record<string, string> | undefined;
+
+    if (credentialsMapFile) {
+      credentialsMap = JSON.parse(credentialsMapFile.toString('utf8')) as CredentialsMap;
+
+      // Write credentials map for reference (secret references only, no values)
       const credentialsMapPath = join(buildDir, 'credentials.map.json');
       writeFileSync(credentialsMapPath, JSON.stringify(credentialsMap, null, 2));
-    }
 
-    writeFileSync(flowsPath, flowsContent);
+      if (secretPayload && devicePrivateKey) {
+        logger.info('Processing encrypted secrets');
+        const secrets = decryptSecretPayload(secretPayload, devicePrivateKey);
+        secretEnv = resolveSecretEnv(credentialsMap, secrets);
+      }
+    }
 
     // Write settings.js
     const settingsPath = join(buildDir, 'settings.js');
-    writeFileSync(settingsPath, files['settings.js']);
+    writeFileSync(settingsPath, settingsFile);
 
     logger.info('Bundle extracted successfully', { channelId, buildId, buildDir });
 
@@ -133,7 +124,9 @@ async function extractBundle(
       manifest,
       flowsPath,
       settingsPath,
-      credentialsMapPath: files['credentials.map.json'] ? join(buildDir, 'credentials.map.json') : undefined,
+      credentialsMapPath: credentialsMapFile ? join(buildDir, 'credentials.map.json') : undefined,
+      secretEnv,
+      nodeCredentials: credentialsMap?.nodeCredentials,
     };
 
   } catch (error) {
@@ -147,34 +140,25 @@ async function extractBundle(
 }
 
 /**
- * Replace credential references in flows JSON with actual secrets
+ * Map decrypted secrets onto the env vars referenced by the compiled flows.
+ * The secret payload is keyed by secret reference (falling back to the env var name).
  */
-function replaceCredentialReferences(
-  flowsContent: string,
+function resolveSecretEnv(
   credentialsMap: CredentialsMap,
   secrets: Record<string, string>
-): string {
-  let processedContent = flowsContent;
-
-  // Replace each credential reference with the actual secret value
-  for (const [credentialRef, secretKey] of Object.entries(credentialsMap)) {
-    if (secrets[secretKey]) {
-      // Replace all occurrences of the credential reference
-      const regex = new RegExp(escapeRegExp(credentialRef), 'g');
-      processedContent = processedContent.replace(regex, secrets[secretKey]);
-    } else {
-      logger.warn(`Secret not found for credential reference: ${credentialRef} -> ${secretKey}`);
+): Record<string, string> {
+  const secretEnv: Record<string, string> = {};
+
+  for (const [credentialKey, entry] of Object.entries(credentialsMap.credentials ?? {})) {
+    const value = secrets[entry.ref] ?? secrets[entry.envVar];
+    if (value === undefined) {
+      logger.warn(`Secret not found for credential reference: ${credentialKey} -> ${entry.ref}`);
+      continue;
     }
+    secretEnv[entry.envVar] = value;
   }
 
-  return processedContent;
-}
-
-/**
- * Escape special regex characters
- */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return secretEnv;
 }
 
 /**
@@ -279,6 +263,7 @@ function setCurrentBuild(channelId: string, buildId: string): void {
 
 export {
   extractBundle,
+  resolveSecretEnv,
   getCurrentBuild,
   setCurrentBuild,
 };
\ No newline at end of file
@@ -69,9 +69,7 @@ export class CommandDispatcher {
         }
 
         default: {
-          logger.warn(`Unknown command: ${(command as any).op}`);
-          this._sendAck(`Unknown command: ${(command as any).op}`);
-          break;
+          throw new Error(`Unknown command: ${(command as any).op}`);
         }
       }
 
@@ -81,12 +79,23 @@ export class CommandDispatcher {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Command dispatch failed: ${command.op}`, { error: errorMessage });
-      
-      // Send error acknowledgment
-      this._sendAck(`Error: ${errorMessage}`);
+      this._sendError(command, errorMessage);
     }
   }
 
+  /**
+   * Report a failed command; `error` is reserved by Socket.IO, so failures go out as `command_error`
+   */
+  private _sendError(command: ControlToAgent, message: string): void {
+    const error: AgentToControl = {
+      op: 'command_error',
+      ...('correlationId' in command && { ref: command.correlationId }),
+      message,
+    };
+
+    this._sendMessage(error);
+  }
+
   /**
    * Send acknowledgment message
    */
@@ -5,7 +5,7 @@ import { join } from 'path';
 import { cosmiconfigSync } from 'cosmiconfig';
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
 
-import type { AgentConfig } from './types.js';
+import type { AgentConfig, TrustedBundleKey } from './types.js';
 import { createModuleLogger } from './logger.js';
 
 const logger = createModuleLogger('config');
@@ -55,6 +55,26 @@ function getConfigPaths(): ConfigPaths {
   };
 }
 
+/**
+ * Validate security.trustedBundleKeys
+ */
+function validateTrustedBundleKeys(value: unknown): TrustedBundleKey[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('security.trustedBundleKeys must be a list');
+  }
+
+  return value.map((key: unknown, index) => {
+    const entry = key as Record<string, unknown> | null;
+    if (!entry || typeof entry['keyId'] !== 'string' || typeof entry['publicKey'] !== 'string') {
+      throw new Error(`security.trustedBundleKeys[${index}] needs a keyId and a publicKey`);
+    }
+    return { keyId: entry['keyId'], publicKey: entry['publicKey'] };
+  });
+}
+
 /**
  * Validate agent configuration
  */
@@ -116,6 +136,7 @@ function validateConfig(config: unknown): AgentConfig {
       apiAdminPort: security && typeof security['apiAdminPort'] === 'string'
         ? security['apiAdminPort'] as string
         : DEFAULT_ADMIN_PORT,
+      trustedBundleKeys: validateTrustedBundleKeys(security?.['trustedBundleKeys']),
     },
   };
 
@@ -213,6 +234,7 @@ function createDefaultConfig(runtimeId: string, bootstrapToken: string, sidecars
       nodeRedAdminPath: `/${runtimeId}__gj_admin__${Math.random().toString(36).substring(2)}`,
       apiAdminHost: '127.0.0.1',
       apiAdminPort: DEFAULT_ADMIN_PORT,
+      trustedBundleKeys: [],
     },
   };
 
@@ -289,4 +311,28 @@ function updateConfigWithSidecars(installOrthanc?: boolean, installSyncthing?: b
   }
 }
 
-export { getConfigPaths, loadConfig, createDefaultConfig, writeConfig, updateConfigWithSidecars };
\ No newline at end of file
+/**
+ * Add the bundle signing keys provisioned at enrollment to security.trustedBundleKeys.
+ * Keys already in the configuration are kept, so manually added keys survive re-enrollment.
+ */
+function updateConfigWithTrustedBundleKeys(keys: unknown, configPath?: string): void {
+  try {
+    const provisioned = validateTrustedBundleKeys(keys);
+    const config = loadConfig(configPath);
+    const known = new Set(config.security.trustedBundleKeys.map((key) => key.keyId));
+
+    config.security.trustedBundleKeys.push(...provisioned.filter((key) => !known.has(key.keyId)));
+    writeConfig(config, configPath);
+
+    if (config.security.trustedBundleKeys.length === 0) {
+      logger.warn('No trusted bundle keys configured, every deployment will be rejected');
+    } else {
+      logger.info(`Trusting ${config.security.trustedBundleKeys.length} bundle signing key(s)`);
+    }
+  } catch (error) {
+    logger.error('Failed to update configuration with trusted bundle keys', { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+export { getConfigPaths, loadConfig, createDefaultConfig, writeConfig, updateConfigWithSidecars, updateConfigWithTrustedBundleKeys };
\ No newline at end of file
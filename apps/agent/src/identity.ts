@@ -4,9 +4,9 @@ import { platform, hostname, arch } from 'os';
 import { join } from 'path';
 
 import { Entry } from '@napi-rs/keyring';
-import { box } from 'tweetnacl';
+import nacl from 'tweetnacl';
 
-import { getConfigPaths, updateConfigWithSidecars } from './config.js';
+import { getConfigPaths, updateConfigWithSidecars, updateConfigWithTrustedBundleKeys } from './config.js';
 import { createModuleLogger } from './logger.js';
 import type { DeviceIdentity, TokenState, AgentConfig } from './types.js';
 
@@ -38,7 +38,7 @@ function generateMachineFingerprint(): string {
  * Generate X25519 keypair for device identity
  */
 function generateDeviceKeypair(): { publicKey: string; privateKey: string } {
-  const keypair = box.keyPair();
+  const keypair = nacl.box.keyPair();
   
   return {
     publicKey: Buffer.from(keypair.publicKey).toString('base64'),
@@ -201,8 +201,12 @@ async function enrollDevice(config: AgentConfig, identity: DeviceIdentity): Prom
       expiresAt: string;
       installOrthanc?: boolean;
       installSyncthing?: boolean;
+      trustedBundleKeys?: unknown;
     };
     
+    // Bundles are only deployed when signed by a trusted key: keep the compiler's signing keys
+    updateConfigWithTrustedBundleKeys(result.trustedBundleKeys ?? []);
+    
     const tokens: TokenState = {
       agentJwt: result.agentJwt,
       refreshToken: result.refreshToken,
@@ -319,12 +323,25 @@ async function refreshToken(config: AgentConfig, tokens: TokenState): Promise<To
 }
 
 /**
- * Decrypt sealed secret payload using device private key
+ * Decrypt sealed secret payload using device private key.
+ * Layout (sealed by the control API): ephemeral public key | nonce | NaCl box ciphertext.
  */
 function decryptSecretPayload(encryptedPayload: Uint8Array, devicePrivateKey: string): Record<string, string> {
   try {
-    const privateKey = Buffer.from(devicePrivateKey, 'base64');
-    const decrypted = box.open(encryptedPayload, new Uint8Array(24), new Uint8Array(32), privateKey);
+    const privateKey = new Uint8Array(Buffer.from(devicePrivateKey, 'base64'));
+    const nonceOffset = nacl.box.publicKeyLength;
+    const ciphertextOffset = nonceOffset + nacl.box.nonceLength;
+
+    if (encryptedPayload.length <= ciphertextOffset) {
+      throw new Error('Secret payload is truncated');
+    }
+
+    const decrypted = nacl.box.open(
+      encryptedPayload.subarray(ciphertextOffset),
+      encryptedPayload.subarray(nonceOffset, ciphertextOffset),
+      encryptedPayload.subarray(0, nonceOffset),
+      privateKey
+    );
     
     if (!decrypted) {
       throw new Error('Failed to decrypt secret payload');
@@ -2,7 +2,7 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 
-import type { AgentConfig, DeviceIdentity, TokenState, CommandHandlers } from './types.js';
+import type { AgentConfig, DeviceIdentity, TokenState, CommandHandlers, TrustedBundleKey } from './types.js';
 import { createLogger, createModuleLogger } from './logger.js';
 import { loadConfig, getConfigPaths } from './config.js';
 import { 
@@ -26,6 +26,7 @@ const logger = createModuleLogger('main');
 
 class GapJunctionAgent {
   private _config: AgentConfig | null = null;
+  private _configPath: string | undefined;
   private _identity: DeviceIdentity | null = null;
   private _tokens: TokenState | null = null;
   private _wsClient: WSClient | null = null;
@@ -46,6 +47,7 @@ class GapJunctionAgent {
       logger.info('Starting GapJunction Agent');
 
       // Load configuration
+      this._configPath = configPath;
       this._config = loadConfig(configPath);
       logger.info('Configuration loaded', { runtimeId: this._config.runtimeId });
 
@@ -229,6 +231,21 @@ class GapJunctionAgent {
     logger.info('Services started');
   }
 
+  /**
+   * Trusted bundle signing keys, re-read from the config file on every deploy so keys can be
+   * rotated by updating the config without restarting or re-enrolling the agent
+   */
+  private _trustedBundleKeys(): TrustedBundleKey[] {
+    try {
+      this._config!.security.trustedBundleKeys = loadConfig(this._configPath).security.trustedBundleKeys;
+    } catch (error) {
+      logger.warn('Could not reload configuration, using the trusted bundle keys loaded at startup', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return this._config!.security.trustedBundleKeys;
+  }
+
   /**
    * Create command handlers
    */
@@ -243,6 +260,7 @@ class GapJunctionAgent {
             channelId,
             buildId,
             bundleContent,
+            this._trustedBundleKeys(),
             secretPayload,
             this._identity!.devicePrivateKey
           );
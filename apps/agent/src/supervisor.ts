@@ -46,7 +46,7 @@ export class NodeRedSupervisor {
       const port = await getPort({ port: getPort.makeRange(3000, 4000) });
 
       // Prepare Node-RED settings
-      await this._prepareSettings(bundleInfo, adminPassword, credSecret, port);
+      await this._prepareSettings(bundleInfo, adminPassword, port);
 
       // Start Node-RED process
       const nodeRedProcess = await this._startNodeRed(bundleInfo, port, adminPassword, credSecret);
@@ -249,19 +249,25 @@ export class NodeRedSupervisor {
   private async _prepareSettings(
     bundleInfo: BundleInfo,
     adminPassword: string,
-    credSecret: string,
     port: number
   ): Promise<void> {
     try {
       // Read original settings
       let settings = readFileSync(bundleInfo.settingsPath, 'utf8');
 
+      // The credential secret is read from the process env so it is never written to disk
+      settings = settings
+        .replace(/["']?credentialSecret["']?\s*:\s*[^,\n]*,?\n?/g, '')
+        .replace(
+          /module\.exports\s*=\s*\{/,
+          'module.exports = {\n  credentialSecret: process.env.NODE_RED_CREDENTIAL_SECRET,'
+        );
+
       // Hash admin password (simplified - in real implementation use bcrypt)
       const hashedPassword = Buffer.from(adminPassword).toString('base64');
 
       // Replace placeholders
       settings = settings
-        .replace(/credentialSecret:\s*['"][^'"]*['"]/, `credentialSecret: '${credSecret}'`)
         .replace(/adminAuth:\s*{[^}]*}/, `adminAuth: {
           type: "credentials",
           users: [{
@@ -320,9 +326,13 @@ export class NodeRedSupervisor {
     ], {
       cwd: bundleInfo.buildDir,
       stdio: ['ignore', 'pipe', 'pipe'],
+      // Secrets only reach Node-RED through its environment (${GJ_SECRET_*} references in flows)
       env: {
         ...process.env,
+        ...bundleInfo.secretEnv,
         NODE_RED_CREDENTIAL_SECRET: credSecret,
+        // Bundles do not carry their build id; flows read it with env.get('GJ_BUILD_ID')
+        GJ_BUILD_ID: bundleInfo.buildId,
       },
     });
 
@@ -392,7 +402,10 @@ export class NodeRedSupervisor {
    */
   private async _deployFlows(bundleInfo: BundleInfo, port: number, adminPassword: string): Promise<void> {
     try {
-      const flows = JSON.parse(readFileSync(bundleInfo.flowsPath, 'utf8'));
+      const flows = this._attachCredentials(
+        JSON.parse(readFileSync(bundleInfo.flowsPath, 'utf8')) as Array<Record<string, unknown>>,
+        bundleInfo
+      );
       const auth = Buffer.from(`gapjunction-agent:${adminPassword}`).toString('base64');
 
       const response = await fetch(`http://127.0.0.1:${port}/flows`, {
@@ -419,6 +432,33 @@ export class NodeRedSupervisor {
     }
   }
 
+  /**
+   * Attach node credentials (with env references resolved) to the flows sent to the admin API.
+   * Node-RED stores them in its credentials file, encrypted with the process credSecret.
+   */
+  private _attachCredentials(
+    flows: Array<Record<string, unknown>>,
+    bundleInfo: BundleInfo
+  ): Array<Record<string, unknown>> {
+    const nodeCredentials = bundleInfo.nodeCredentials ?? {};
+    const secretEnv = bundleInfo.secretEnv ?? {};
+
+    return flows.map((node) => {
+      const fields = nodeCredentials[String(node['id'])];
+      if (!fields) {
+        return node;
+      }
+
+      const credentials = Object.fromEntries(
+        Object.entries(fields).map(([field, value]) => [
+          field,
+          value.replace(/\$\{([A-Z0-9_]+)\}/g, (_match, envVar: string) => secretEnv[envVar] ?? ''),
+        ])
+      );
+      return { ...node, credentials };
+    });
+  }
+
   /**
    * Set flows state (start/stop)
    */
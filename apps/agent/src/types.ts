@@ -37,6 +37,8 @@ export type ControlToAgent =
 export type AgentToControl =
   | { op: 'hello'; payload: AgentHello }
   | { op: 'ack'; ref?: string }
+  // A command that failed; `ref` is the correlation ID of the command when it carries one
+  | { op: 'command_error'; ref?: string; message: string }
   | { op: 'status'; correlationId?: string; summary: RuntimeSummary }
   | { op: 'deploy-result'; channelId: string; buildId: string; ok: boolean; details?: string }
   | { op: 'log'; channelId?: string; level: 'info' | 'warn' | 'error'; msg: string }
@@ -84,6 +86,8 @@ export interface AgentConfig {
     nodeRedAdminPath: string;
     apiAdminHost: string;
     apiAdminPort: string;
+    // Public keys bundles must be signed with; list old and new keys together while rotating
+    trustedBundleKeys: TrustedBundleKey[];
   };
   sidecars?: {
     installOrthanc?: boolean;
@@ -91,6 +95,12 @@ export interface AgentConfig {
   };
 }
 
+export interface TrustedBundleKey {
+  keyId: string;
+  // SPKI PEM, as published by the compiler's /compiler/signing-keys
+  publicKey: string;
+}
+
 export interface DeviceIdentity {
   deviceId: string;
   devicePublicKey: string;
@@ -114,8 +124,9 @@ export interface OverlayState {
 export interface BundleManifest {
   version: number;
   channelId: string;
-  buildId: string;
   mode: 'TEST' | 'PROD';
+  // Compression the bundle was shipped with
+  compression?: 'gzip' | 'zstd' | 'none';
   artifacts: {
     flowsJsonPath: string;
     settingsPath: string;
@@ -123,7 +134,22 @@ export interface BundleManifest {
   };
 }
 
-export type CredentialsMap = Record<string, string>;
+export interface SecretReferenceEntry {
+  type: 'secretRef';
+  ref: string;
+  envVar: string;
+}
+
+/**
+ * credentials.map.json emitted by the compiler. It only contains references:
+ * secret values arrive in the encrypted deploy payload and are never written to disk.
+ */
+export interface CredentialsMap {
+  version: number;
+  channelId: string;
+  credentials: Record<string, SecretReferenceEntry>;
+  nodeCredentials?: Record<string, Record<string, string>>;
+}
 
 export interface NodeRedProcess {
   channelId: string;
@@ -165,6 +191,10 @@ export interface BundleInfo {
   flowsPath: string;
   settingsPath: string;
   credentialsMapPath?: string;
+  // In-memory only: env var -> decrypted secret, passed to the Node-RED child process
+  secretEnv?: Record<string, string>;
+  // In-memory only: node id -> credential fields (env references), encrypted by Node-RED with credSecret
+  nodeCredentials?: Record<string, Record<string, string>>;
 }
 
 export interface HealthStatus {
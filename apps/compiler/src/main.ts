@@ -1,3 +1,5 @@
+import { readFile } from 'fs/promises';
+
 import cors from '@fastify/cors';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
@@ -5,14 +7,42 @@ import * as dotenv from 'dotenv';
 import fastify, { type FastifyInstance } from 'fastify';
 import * as winston from 'winston';
 
+import { COMPRESSION_FORMATS, bundleContentType, bundleFileExtension } from '@gapjunction/bundle-integrity';
+import type { CompressionFormat } from '@gapjunction/bundle-integrity';
+
+import {
+  artifactDiffSchema,
+  buildRecordSchema,
+  compileRequestProperties,
+  securityAckSchema,
+  signatureSchema,
+  signingKeysSchema,
+  stageCacheSchema
+} from './schemas.js';
 import { ArtifactsService } from './services/artifacts.service.js';
+import { BUILD_STATUSES, BuildRegistryService, isTerminalStatus, type BuildQuery, type BuildRecord } from './services/build-registry.service.js';
+import { BundleSigningService } from './services/bundle-signing.service.js';
 import { BundlingService } from './services/bundling.service.js';
+import { CapabilityPolicyService } from './services/capability-policy.service.js';
+import { FileCompileJobStore } from './services/compile-job-store.service.js';
+import { CompileQueueService, type CompileProgressEvent } from './services/compile-queue.service.js';
 import { CompilerService } from './services/compiler.service.js';
+import { CustomPolicyRuleService } from './services/custom-policy-rule.service.js';
+import { FlowDiffService } from './services/flow-diff.service.js';
+import { FlowLayoutService } from './services/flow-layout.service.js';
 import { HashingService } from './services/hashing.service.js';
 import { IdGeneratorService } from './services/id-generator.service.js';
 import { NexonTemplateService } from './services/nexon-template.service.js';
 import { ParameterSubstitutionService } from './services/parameter-substitution.service.js';
+import { ParameterValidationService } from './services/parameter-validation.service.js';
+import { PolicyStoreService } from './services/policy-store.service.js';
 import { PolicyService } from './services/policy.service.js';
+import { RuntimeExpressionService } from './services/runtime-expression.service.js';
+import { SecretReferenceService } from './services/secret-reference.service.js';
+import { SecurityAckService, type SecurityAckQuery } from './services/security-ack.service.js';
+import { StageArtifactCacheService } from './services/stage-artifact-cache.service.js';
+import { StagePortService } from './services/stage-port.service.js';
+import { TemplateExpressionService } from './services/template-expression.service.js';
 import { ValidationService } from './services/validation.service.js';
 
 // Load environment variables
@@ -47,14 +77,27 @@ interface CompileRequestBody {
   channel: unknown;
   orgId: string;
   userId: string;
-  acknowledgedViolations: string[];
+  policyProfile?: string;
+  compression?: CompressionFormat;
+  maxStagesPerTab?: number;
+  wait?: boolean;
+}
+
+interface PreviewRequestBody {
+  channel: unknown;
+  orgId: string;
+  userId: string;
+  policyProfile?: string;
+  maxStagesPerTab?: number;
+  previousBuildId?: string;
 }
 
 interface SecurityAckRequestBody {
   channelId: string;
   userId: string;
-  violationIds: string[];
   reason: string;
+  expiresAt?: string;
+  violations: Array<{ ruleId: string; stageId?: string; contentHash: string }>;
 }
 
 interface StatusRequestParams {
@@ -94,26 +137,66 @@ async function registerSwagger(server: FastifyInstance): Promise<void> {
   }
 }
 
-function initializeServices(): CompilerService {
+interface Services {
+  compilerService: CompilerService;
+  compileQueue: CompileQueueService;
+  securityAckService: SecurityAckService;
+  bundleSigningService: BundleSigningService;
+}
+
+function initializeServices(): Services {
   const idGenerator = new IdGeneratorService();
   const hashingService = new HashingService();
   const nexonTemplateService = new NexonTemplateService();
-  const parameterSubstitutionService = new ParameterSubstitutionService();
-  const validationService = new ValidationService();
-  const policyService = new PolicyService();
-  const artifactsService = new ArtifactsService(
+  const templateExpressionService = new TemplateExpressionService();
+  const runtimeExpressionService = new RuntimeExpressionService();
+  const secretReferenceService = new SecretReferenceService();
+  const parameterSubstitutionService = new ParameterSubstitutionService(
+    templateExpressionService,
+    runtimeExpressionService,
+    secretReferenceService
+  );
+  const parameterValidationService = new ParameterValidationService(
     nexonTemplateService,
-    parameterSubstitutionService,
-    idGenerator
+    runtimeExpressionService
   );
-  const bundlingService = new BundlingService(hashingService);
+  const stagePortService = new StagePortService(nexonTemplateService);
+  const validationService = new ValidationService(parameterValidationService, stagePortService);
+  const policyStoreService = new PolicyStoreService();
+  const securityAckService = new SecurityAckService(hashingService);
+  const policyService = new PolicyService(
+    policyStoreService,
+    new CapabilityPolicyService(nexonTemplateService),
+    new CustomPolicyRuleService(policyStoreService),
+    securityAckService
+  );
+  const artifactsService = new ArtifactsService({
+    nexonTemplateService,
+    parameterSubstitutionService,
+    idGenerator,
+    stagePortService,
+    secretReferenceService,
+    stageCache: new StageArtifactCacheService(hashingService),
+    flowLayoutService: new FlowLayoutService(idGenerator),
+  });
+  const bundleSigningService = new BundleSigningService();
+  const bundlingService = new BundlingService(hashingService, bundleSigningService);
   
-  return new CompilerService(
+  const compilerService = new CompilerService({
     validationService,
     policyService,
     artifactsService,
-    bundlingService
-  );
+    bundlingService,
+    buildRegistry: new BuildRegistryService(),
+    flowDiffService: new FlowDiffService(hashingService),
+  });
+
+  return {
+    compilerService,
+    compileQueue: new CompileQueueService(compilerService, new FileCompileJobStore()),
+    securityAckService,
+    bundleSigningService,
+  };
 }
 
 function registerHealthEndpoints(server: FastifyInstance): void {
@@ -184,7 +267,9 @@ function registerHealthEndpoints(server: FastifyInstance): void {
   }));
 }
 
-function registerCompilerEndpoints(server: FastifyInstance, compilerService: CompilerService): void {
+function registerCompilerEndpoints(server: FastifyInstance, services: Services): void {
+  const { compilerService, compileQueue, securityAckService } = services;
+
   server.post<{ Body: CompileRequestBody }>('/compiler/compile', {
     schema: {
       tags: ['compiler'],
@@ -194,16 +279,30 @@ function registerCompilerEndpoints(server: FastifyInstance, compilerService: Com
         type: 'object',
         required: ['channel', 'orgId', 'userId'],
         properties: {
-          channel: { type: 'object' },
-          orgId: { type: 'string' },
-          userId: { type: 'string' },
-          acknowledgedViolations: {
-            type: 'array',
-            items: { type: 'string' }
-          }
+          ...compileRequestProperties,
+          compression: {
+            type: 'string',
+            enum: [...COMPRESSION_FORMATS],
+            description: 'Bundle compression, defaults to BUNDLE_COMPRESSION (gzip)'
+          },
+          wait: { type: 'boolean', description: 'Respond with the compile result instead of the queued build id' }
         }
       },
       response: {
+        202: {
+          type: 'object',
+          properties: {
+            buildId: { type: 'string' },
+            status: { type: 'string' },
+            position: { type: 'integer' }
+          }
+        },
+        503: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' }
+          }
+        },
         200: {
           type: 'object',
           properties: {
@@ -217,30 +316,45 @@ function registerCompilerEndpoints(server: FastifyInstance, compilerService: Com
             artifactHashes: { type: 'object' },
             bundleHash: { type: 'string' },
             merkleRoot: { type: 'string' },
+            signature: signatureSchema,
+            stageCache: stageCacheSchema,
             metadata: { type: 'object' },
             compiledArtifacts: { type: 'object' }
           }
         }
       }
     }
-  }, async (request) => {
-    const { channel, orgId, userId, acknowledgedViolations } = request.body;
+  }, async (request, reply) => {
+    const { channel, orgId, userId, policyProfile, compression, maxStagesPerTab, wait } = request.body;
     
     logger.info('Received compile request', {
       orgId,
       userId,
-      hasChannel: Boolean(channel),
-      acknowledgedCount: acknowledgedViolations?.length ?? 0
+      policyProfile,
+      hasChannel: Boolean(channel)
     });
 
+    if (compileQueue.isFull()) {
+      logger.warn('Compile queue is full, rejecting request', { orgId, ...compileQueue.stats() });
+      return await reply.code(503).send({ message: 'Compile queue is full, retry later' });
+    }
+
     try {
-      const result = await compilerService.compile({
+      const enqueued = await compileQueue.enqueue({
         channel,
         orgId,
         userId,
-        acknowledgedViolations: acknowledgedViolations ?? []
-      });
+        ...(policyProfile ? { policyProfile } : {}),
+        ...(compression ? { compression } : {}),
+        ...(maxStagesPerTab === undefined ? {} : { maxStagesPerTab })
+      }, { wait: wait ?? false });
+
+      if (!enqueued.result) {
+        logger.info('Compile request queued', { buildId: enqueued.buildId, position: enqueued.position });
+        return await reply.code(202).send({ buildId: enqueued.buildId, status: 'queued', position: enqueued.position });
+      }
 
+      const result = await enqueued.result;
       logger.info('Compile request completed', {
         success: result.success,
         buildId: result.buildId,
@@ -257,19 +371,82 @@ function registerCompilerEndpoints(server: FastifyInstance, compilerService: Com
     }
   });
 
+  server.post<{ Body: PreviewRequestBody }>('/compiler/preview', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'Preview a compile',
+      description: 'Validates, lints and generates artifacts without bundling or recording a build, ' +
+        'and diffs flows.json, settings and the credentials map against a previous build',
+      body: {
+        type: 'object',
+        required: ['channel', 'orgId', 'userId'],
+        properties: {
+          ...compileRequestProperties,
+          previousBuildId: { type: 'string', description: "Build to compare against, defaults to the channel's latest successful build" }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            validation: { type: 'object' },
+            policyLint: { type: 'object' },
+            errors: { type: 'array', items: { type: 'string' } },
+            warnings: { type: 'array', items: { type: 'string' } },
+            previousBuildId: { type: ['string', 'null'] },
+            diff: artifactDiffSchema,
+            stageCache: stageCacheSchema,
+            compiledArtifacts: { type: 'object' }
+          }
+        }
+      }
+    }
+  }, async (request) => {
+    const { channel, orgId, userId, policyProfile, maxStagesPerTab, previousBuildId } = request.body;
+    const result = await compilerService.preview({
+      channel,
+      orgId,
+      userId,
+      ...(policyProfile ? { policyProfile } : {}),
+      ...(maxStagesPerTab === undefined ? {} : { maxStagesPerTab }),
+      ...(previousBuildId ? { previousBuildId } : {})
+    });
+
+    logger.info('Compile preview completed', {
+      orgId,
+      success: result.success,
+      previousBuildId: result.previousBuildId,
+      identical: result.diff?.identical
+    });
+    return result;
+  });
+
   server.post<{ Body: SecurityAckRequestBody }>('/compiler/verifySecurityAck', {
     schema: {
       tags: ['compiler'],
-      summary: 'Verify security acknowledgment',
-      description: 'Acknowledges policy violations to allow compilation to proceed',
+      summary: 'Acknowledge policy violations',
+      description: 'Records acknowledgments for violations of a channel, bound to the content hash reported by policy lint',
       body: {
         type: 'object',
-        required: ['channelId', 'userId', 'violationIds', 'reason'],
+        required: ['channelId', 'userId', 'violations', 'reason'],
         properties: {
           channelId: { type: 'string' },
           userId: { type: 'string' },
-          violationIds: { type: 'array', items: { type: 'string' } },
-          reason: { type: 'string' }
+          reason: { type: 'string', minLength: 1 },
+          expiresAt: { type: 'string', format: 'date-time' },
+          violations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['ruleId', 'contentHash'],
+              properties: {
+                ruleId: { type: 'string' },
+                stageId: { type: 'string' },
+                contentHash: { type: 'string' }
+              }
+            }
+          }
         }
       },
       response: {
@@ -277,82 +454,293 @@ function registerCompilerEndpoints(server: FastifyInstance, compilerService: Com
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            acknowledgedViolations: { type: 'array', items: { type: 'string' } },
+            acknowledgements: { type: 'array', items: securityAckSchema },
             message: { type: 'string' }
           }
         }
       }
     }
-  }, (request) => {
-   const { channelId, userId, violationIds, reason } = request.body;
-   
-   logger.info('Received security acknowledgment request', {
-     channelId,
-     userId,
-     violationCount: violationIds.length
-   });
-
-   try {
-     const result = compilerService.verifySecurityAck({
-       channelId,
-       userId,
-       violationIds,
-       reason
-     });
-
-     logger.info('Security acknowledgment completed', {
-       success: result.success,
-       acknowledgedCount: result.acknowledgedViolations.length
-     });
-
-     return result;
-   } catch (error: unknown) {
-     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-     logger.error('Security acknowledgment failed', { error: errorMessage });
-     throw new Error('Security acknowledgment failed');
-   }
- });
+  }, async (request) => {
+    const { channelId, userId, violations } = request.body;
+
+    logger.info('Received security acknowledgment request', {
+      channelId,
+      userId,
+      violationCount: violations.length
+    });
+
+    try {
+      const result = await securityAckService.acknowledge(request.body);
+
+      logger.info('Security acknowledgment completed', {
+        channelId,
+        userId,
+        acknowledgementIds: result.acknowledgements.map((ack) => ack.id)
+      });
+
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Security acknowledgment failed', { error: errorMessage });
+      return {
+        success: false,
+        acknowledgements: [],
+        message: `Failed to process acknowledgment: ${errorMessage}`
+      };
+    }
+  });
+
+  server.get<{ Querystring: SecurityAckQuery }>('/compiler/securityAcks', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'Query security acknowledgments',
+      description: 'Audit trail of acknowledgments, including expired and invalidated ones',
+      querystring: {
+        type: 'object',
+        properties: {
+          channelId: { type: 'string' },
+          ruleId: { type: 'string' },
+          stageId: { type: 'string' },
+          acknowledgedBy: { type: 'string' },
+          status: { type: 'string', enum: ['active', 'expired', 'invalidated'] }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            acknowledgements: {
+              type: 'array',
+              items: {
+                ...securityAckSchema,
+                properties: { ...securityAckSchema.properties, status: { type: 'string' } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request) => {
+    try {
+      return { acknowledgements: await securityAckService.listAcknowledgements(request.query) };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to query security acknowledgments', { error: errorMessage });
+      throw new Error('Failed to query security acknowledgments');
+    }
+  });
 
   server.get<{ Params: StatusRequestParams }>('/compiler/status/:buildId', {
     schema: {
       tags: ['compiler'],
       summary: 'Get compilation status',
-      description: 'Retrieves the status of a compilation build',
+      description: 'Retrieves the lifecycle, phase timings and results of a build',
       params: {
         type: 'object',
         properties: {
           buildId: { type: 'string' }
         }
       },
+      response: {
+        200: buildRecordSchema,
+        404: {
+          type: 'object',
+          properties: {
+            buildId: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { buildId } = request.params;
+
+    logger.debug('Retrieving build status', { buildId });
+
+    let build: BuildRecord | null;
+    try {
+      build = await compilerService.getCompilationStatus(buildId);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to retrieve build status', { error: errorMessage, buildId });
+      throw new Error('Failed to retrieve build status');
+    }
+
+    if (!build) {
+      return await reply.code(404).send({ buildId, message: `Build "${buildId}" not found` });
+    }
+    return build;
+  });
+
+  server.get<{ Querystring: BuildQuery }>('/compiler/builds', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'List builds',
+      description: 'Build history, newest first',
+      querystring: {
+        type: 'object',
+        properties: {
+          channelId: { type: 'string' },
+          orgId: { type: 'string' },
+          status: {
+            type: 'string',
+            enum: BUILD_STATUSES
+          },
+          limit: { type: 'integer', minimum: 1, maximum: 500 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            builds: { type: 'array', items: buildRecordSchema }
+          }
+        }
+      }
+    }
+  }, async (request) => {
+    try {
+      return { builds: await compilerService.listBuilds(request.query) };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to list builds', { error: errorMessage });
+      throw new Error('Failed to list builds');
+    }
+  });
+
+  server.post<{ Params: StatusRequestParams }>('/compiler/builds/:buildId/cancel', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'Cancel a build',
+      description: 'Removes a queued build from the queue or stops a running build at its next phase',
       response: {
         200: {
           type: 'object',
           properties: {
             buildId: { type: 'string' },
-            status: { type: 'string' },
-            timestamp: { type: 'string' }
+            cancelled: { type: 'boolean' }
           }
         }
       }
     }
-  }, (request) => {
-   const { buildId } = request.params;
-   
-   if (!buildId) {
-     throw new Error('Build ID is required');
-   }
-
-   logger.debug('Retrieving build status', { buildId });
-
-   try {
-     const status = compilerService.getCompilationStatus(buildId);
-     return status;
-   } catch (error: unknown) {
-     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-     logger.error('Failed to retrieve build status', { error: errorMessage, buildId });
-     throw new Error('Failed to retrieve build status');
-   }
- });
+  }, async (request) => {
+    const { buildId } = request.params;
+    const cancelled = await compileQueue.cancel(buildId);
+    logger.info('Build cancellation requested', { buildId, cancelled });
+    return { buildId, cancelled };
+  });
+
+  server.get<{ Params: StatusRequestParams }>('/compiler/builds/:buildId/events', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'Stream build progress',
+      description: 'Server-sent events with the current status of a build followed by every status change'
+    }
+  }, async (request, reply) => {
+    const { buildId } = request.params;
+    // Subscribe before reading the status, so a build finishing in between is not missed
+    const missed: CompileProgressEvent[] = [];
+    let forward: ((event: CompileProgressEvent) => void) | null = null;
+    const unsubscribe = compileQueue.subscribe(buildId, (event) => {
+      if (forward) {
+        forward(event);
+      } else {
+        missed.push(event);
+      }
+    });
+
+    const build = await compilerService.getCompilationStatus(buildId);
+    if (!build) {
+      unsubscribe();
+      return await reply.code(404).send({ buildId, message: `Build "${buildId}" not found` });
+    }
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+
+    const send = (event: Omit<CompileProgressEvent, 'timestamp'> & { timestamp?: string }): void => {
+      reply.raw.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+      if (isTerminalStatus(event.status)) {
+        reply.raw.end();
+      }
+    };
+
+    const position = compileQueue.position(buildId);
+    send({
+      buildId,
+      status: build.status,
+      timestamp: build.updatedAt,
+      ...(position === null ? {} : { position })
+    });
+    // Earlier changes are part of the status just sent, unless the build finished while it was read
+    const finished = missed.find((event) => isTerminalStatus(event.status));
+    if (!isTerminalStatus(build.status) && finished) {
+      send(finished);
+    }
+    if (isTerminalStatus(build.status) || finished) {
+      unsubscribe();
+      return;
+    }
+
+    forward = send;
+    await new Promise<void>((resolve) => {
+      reply.raw.on('close', resolve);
+    });
+    unsubscribe();
+  });
+
+  server.get<{ Params: StatusRequestParams }>('/compiler/builds/:buildId/bundle', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'Download a build bundle',
+      description: 'Returns the bundle of a completed build (tar, tar.gz or tar.zst)'
+    }
+  }, async (request, reply) => {
+    const { buildId } = request.params;
+    const build = await compilerService.getCompilationStatus(buildId);
+    if (!build?.bundle) {
+      return await reply.code(404).send({ buildId, message: `Build "${buildId}" has no bundle` });
+    }
+
+    const bundle = await readFile(build.bundle.location);
+    return await reply
+      .header('Content-Type', bundleContentType(build.bundle.compression))
+      .header('Content-Disposition', `attachment; filename="${buildId}${bundleFileExtension(build.bundle.compression)}"`)
+      .header('X-Bundle-Hash', build.bundleHash ?? '')
+      .send(bundle);
+  });
+}
+
+function registerSigningKeyEndpoints(server: FastifyInstance, services: Services): void {
+  const { bundleSigningService } = services;
+
+  server.get('/compiler/signing-keys', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'List bundle signing keys',
+      description: 'Public keys agents should trust: the key currently signing bundles and every retired key',
+      response: { 200: signingKeysSchema }
+    }
+  }, async () => {
+    return { keys: await bundleSigningService.publicKeys() };
+  });
+
+  server.post('/compiler/signing-keys/rotate', {
+    schema: {
+      tags: ['compiler'],
+      summary: 'Rotate the bundle signing key',
+      description: 'Generates a new signing key; the previous public key stays listed as retired',
+      response: { 200: signingKeysSchema }
+    }
+  }, async () => {
+    const key = await bundleSigningService.rotate();
+    logger.info('Bundle signing key rotated', { keyId: key.keyId });
+    return { keys: await bundleSigningService.publicKeys() };
+  });
 }
 
 async function createServer(): Promise<FastifyInstance> {
@@ -365,10 +753,15 @@ async function createServer(): Promise<FastifyInstance> {
   await registerCors(server);
   await registerSwagger(server);
 
-  const compilerService = initializeServices();
+  const services = initializeServices();
+  const resumedBuilds = await services.compileQueue.start();
+  if (resumedBuilds > 0) {
+    logger.info('Resumed queued builds', { count: resumedBuilds });
+  }
 
   registerHealthEndpoints(server);
-  registerCompilerEndpoints(server, compilerService);
+  registerCompilerEndpoints(server, services);
+  registerSigningKeyEndpoints(server, services);
 
   return server;
 }
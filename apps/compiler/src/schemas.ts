@@ -0,0 +1,166 @@
+// JSON schemas of the compiler API's responses. Fastify drops properties a response schema does not declare,
+// so every field returned to clients needs to be listed here.
+
+const securityAckSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    channelId: { type: 'string' },
+    ruleId: { type: 'string' },
+    stageId: { type: ['string', 'null'] },
+    contentHash: { type: 'string' },
+    acknowledgedBy: { type: 'string' },
+    reason: { type: 'string' },
+    acknowledgedAt: { type: 'string' },
+    expiresAt: { type: ['string', 'null'] },
+    invalidatedAt: { type: 'string' },
+    invalidatedByHash: { type: 'string' }
+  }
+};
+
+const stageCacheSchema = {
+  type: 'object',
+  properties: {
+    hits: { type: 'integer' },
+    misses: { type: 'integer' },
+    hitStageIds: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+const signatureSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer' },
+    algorithm: { type: 'string' },
+    keyId: { type: 'string' },
+    merkleRoot: { type: 'string' },
+    manifestHash: { type: 'string' },
+    signature: { type: 'string' }
+  }
+};
+
+const signingKeysSchema = {
+  type: 'object',
+  properties: {
+    keys: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          keyId: { type: 'string' },
+          algorithm: { type: 'string' },
+          publicKey: { type: 'string' },
+          current: { type: 'boolean' }
+        }
+      }
+    }
+  }
+};
+
+const compileRequestProperties = {
+  channel: { type: 'object' },
+  orgId: { type: 'string' },
+  userId: { type: 'string' },
+  policyProfile: { type: 'string', description: 'Named policy profile, e.g. hipaa-strict' },
+  maxStagesPerTab: {
+    type: 'integer',
+    minimum: 0,
+    description: 'Split the flow across tabs of at most this many stages, defaults to FLOW_MAX_STAGES_PER_TAB (0: one tab)'
+  }
+};
+
+const keyDiffSchema = {
+  type: 'object',
+  properties: {
+    added: { type: 'array', items: { type: 'string' } },
+    removed: { type: 'array', items: { type: 'string' } },
+    changed: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+const flowNodeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string' },
+    z: { type: 'string' },
+    name: { type: 'string' },
+    fields: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+const flowWireSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string' },
+    output: { type: 'integer' },
+    to: { type: 'string' }
+  }
+};
+
+const artifactDiffSchema = {
+  type: 'object',
+  properties: {
+    identical: { type: 'boolean' },
+    flows: {
+      type: 'object',
+      properties: {
+        added: { type: 'array', items: flowNodeSchema },
+        removed: { type: 'array', items: flowNodeSchema },
+        changed: { type: 'array', items: flowNodeSchema },
+        wires: {
+          type: 'object',
+          properties: {
+            added: { type: 'array', items: flowWireSchema },
+            removed: { type: 'array', items: flowWireSchema }
+          }
+        }
+      }
+    },
+    settings: keyDiffSchema,
+    credentialsMap: keyDiffSchema
+  }
+};
+
+const buildRecordSchema = {
+  type: 'object',
+  properties: {
+    buildId: { type: 'string' },
+    channelId: { type: ['string', 'null'] },
+    orgId: { type: 'string' },
+    userId: { type: 'string' },
+    policyProfile: { type: 'string' },
+    status: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+    completedAt: { type: 'string' },
+    durationMs: { type: 'number' },
+    phases: { type: 'object', additionalProperties: true },
+    validation: { type: 'object', additionalProperties: true },
+    policyLint: { type: 'object', additionalProperties: true },
+    stageCache: stageCacheSchema,
+    artifactHashes: { type: 'object', additionalProperties: { type: 'string' } },
+    bundleHash: { type: 'string' },
+    merkleRoot: { type: 'string' },
+    signature: signatureSchema,
+    bundle: {
+      type: 'object',
+      properties: {
+        location: { type: 'string' },
+        size: { type: 'number' },
+        compression: { type: 'string' }
+      }
+    },
+    error: { type: 'string' }
+  }
+};
+
+export {
+  artifactDiffSchema,
+  buildRecordSchema,
+  compileRequestProperties,
+  securityAckSchema,
+  signatureSchema,
+  signingKeysSchema,
+  stageCacheSchema
+};
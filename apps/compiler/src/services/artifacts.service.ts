@@ -1,13 +1,30 @@
-import type { ChannelIR, Stage, Edge, BundleManifest } from '@gapjunction/ir-schema';
+import type { ChannelIR, Edge, Stage, BundleManifest } from '@gapjunction/ir-schema';
 
+import type { FlowLayoutService } from './flow-layout.service.js';
 import type { IdGeneratorService } from './id-generator.service.js';
-import type { NexonTemplateService } from './nexon-template.service.js';
+import type { NexonManifest, NexonTemplate, NexonTemplateService } from './nexon-template.service.js';
 import type { ParameterSubstitutionService, SubstitutionContext } from './parameter-substitution.service.js';
+import type { RuntimeExpression } from './runtime-expression.service.js';
+import type { NodeCredentials, SecretReferenceService } from './secret-reference.service.js';
+import type { StageArtifactCacheService, StageCacheStats } from './stage-artifact-cache.service.js';
+import type { ResolvedPort, StagePortService } from './stage-port.service.js';
+
+interface ArtifactsServiceDependencies {
+  nexonTemplateService: NexonTemplateService;
+  parameterSubstitutionService: ParameterSubstitutionService;
+  idGenerator: IdGeneratorService;
+  stagePortService: StagePortService;
+  secretReferenceService: SecretReferenceService;
+  stageCache: StageArtifactCacheService;
+  flowLayoutService: FlowLayoutService;
+}
 
 interface ArtifactGenerationOptions {
   buildId: string;
   mode: 'TEST' | 'PROD';
   target?: 'onprem' | 'cloud';
+  // Split the channel across tabs of at most this many stages; unset or 0 keeps a single tab
+  maxStagesPerTab?: number;
 }
 
 interface GeneratedArtifacts {
@@ -15,6 +32,7 @@ interface GeneratedArtifacts {
   settings: unknown;
   manifest: BundleManifest;
   credentialsMap: unknown;
+  stageCache: StageCacheStats;
 }
 
 interface NodeRedFlow {
@@ -37,34 +55,80 @@ interface NodeRedNode {
   [key: string]: unknown;
 }
 
+interface GeneratedStage {
+  stage: Stage;
+  manifest: NexonManifest | null;
+  nodeIds: string[];
+  // Change node evaluating runtime expressions in front of the stage's default inlet
+  resolver?: { nodeId: string; targetId: string };
+  // Outlet names of a subflow template, in the order of the instance node's outputs
+  subflowOutlets?: string[];
+}
+
+interface StageNodes {
+  nodes: NodeRedNode[];
+  resolver: NodeRedNode | null;
+}
+
+interface SubflowEnvEntry {
+  name: string;
+  type: 'str' | 'num' | 'bool' | 'json' | 'env';
+  value: string;
+}
+
+interface PortEndpoint {
+  nodeId: string | undefined;
+  output: number;
+}
+
 const POSITION_OFFSET = 100;
 const DEFAULT_POSITION = { x: POSITION_OFFSET, y: POSITION_OFFSET };
+const SUBFLOW_CATEGORY = 'GapJunction';
+const ENV_REFERENCE = /^\$\{(\w+)\}$/;
 
 class ArtifactsService {
-  constructor(
-    private readonly _nexonTemplateService: NexonTemplateService,
-    private readonly _parameterSubstitutionService: ParameterSubstitutionService,
-    private readonly _idGenerator: IdGeneratorService,
-  ) {}
+  private readonly _nexonTemplateService: NexonTemplateService;
+  private readonly _parameterSubstitutionService: ParameterSubstitutionService;
+  private readonly _idGenerator: IdGeneratorService;
+  private readonly _stagePortService: StagePortService;
+  private readonly _secretReferenceService: SecretReferenceService;
+  private readonly _stageCache: StageArtifactCacheService;
+  private readonly _flowLayoutService: FlowLayoutService;
+
+  constructor(dependencies: ArtifactsServiceDependencies) {
+    this._nexonTemplateService = dependencies.nexonTemplateService;
+    this._parameterSubstitutionService = dependencies.parameterSubstitutionService;
+    this._idGenerator = dependencies.idGenerator;
+    this._stagePortService = dependencies.stagePortService;
+    this._secretReferenceService = dependencies.secretReferenceService;
+    this._stageCache = dependencies.stageCache;
+    this._flowLayoutService = dependencies.flowLayoutService;
+  }
 
   /**
-   * Generate all artifacts for a compiled channel
+   * Generate all artifacts for a compiled channel. The build id stays out of the generated files,
+   * so compiling the same channel again produces the same bundle.
    */
   async generateArtifacts(
     channel: ChannelIR,
     options: ArtifactGenerationOptions,
   ): Promise<GeneratedArtifacts> {
     try {
-      const flowsJson = await this._generateFlowsJson(channel, options);
+      const stageCache: StageCacheStats = { hits: 0, misses: 0, hitStageIds: [] };
+      const flowsJson = await this._generateFlowsJson(channel, options, stageCache);
+      const nodeCredentials = this._secretReferenceService.extractNodeCredentials(
+        flowsJson as Array<Record<string, unknown>>,
+      );
       const settings = this._generateSettings(channel, options);
       const manifest = this._generateManifest(channel, options);
-      const credentialsMap = this._generateCredentialsMap(channel, options);
+      const credentialsMap = this._generateCredentialsMap(channel, nodeCredentials);
 
       return {
         flowsJson,
         settings,
         manifest,
         credentialsMap,
+        stageCache,
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -78,133 +142,390 @@ class ArtifactsService {
   private async _generateFlowsJson(
     channel: ChannelIR,
     options: ArtifactGenerationOptions,
+    stageCache: StageCacheStats,
   ): Promise<unknown[]> {
-    const flows: unknown[] = [];
-
-    // Create main flow tab
-    const flowTab: NodeRedFlow = {
-      id: this._idGenerator.generateFlowId(channel.channelId),
-      label: channel.title,
-      type: 'tab',
-      disabled: false,
-      info: channel.documentation ?? '',
-    };
-    flows.push(flowTab);
+    const layout = this._flowLayoutService.layoutTabs(channel, options.maxStagesPerTab);
+    const subflows = new Map<string, unknown[]>();
+    const stageNodes: NodeRedNode[] = [];
 
     // Generate nodes for each stage
-    const nodeIdMap = new Map<string, string[]>(); // stageId -> nodeIds[]
+    const generatedStages = new Map<string, GeneratedStage>();
 
     for (const stage of channel.stages) {
-      try {
-        const stageNodes = await this._generateStageNodes(
+      const flowTabId = layout.stageTabs.get(stage.id) ?? '';
+      const nexonTemplate = await this._loadStageTemplate(stage);
+
+      if (nexonTemplate) {
+        if (nexonTemplate.manifest.subflow) {
+          this._addSubflowDefinition(subflows, stage, nexonTemplate, { channel, options });
+        }
+
+        const { nodes, resolver } = this._cachedStageNodes(
           stage,
-          channel,
-          flowTab.id,
-          options,
+          nexonTemplate,
+          { channel, flowTabId },
+          { options, stageCache },
         );
-        flows.push(...stageNodes);
+        stageNodes.push(...nodes, ...(resolver ? [resolver] : []));
 
         // Track node IDs for wiring
-        nodeIdMap.set(
-          stage.id,
-          stageNodes.map((node) => node.id),
-        );
-      } catch (_error: unknown) {
+        generatedStages.set(stage.id, this._generatedStage(stage, nexonTemplate.manifest, nodes, resolver));
+      } else {
         // Generate fallback node
         const fallbackNode = this._generateFallbackNode(
           stage,
-          flowTab.id,
+          flowTabId,
           options,
         );
-        flows.push(fallbackNode);
-        nodeIdMap.set(stage.id, [fallbackNode.id]);
+        stageNodes.push(fallbackNode);
+        generatedStages.set(stage.id, { stage, manifest: null, nodeIds: [fallbackNode.id] });
       }
     }
 
+    // Tabs first, then the subflow definitions the stage nodes instantiate
+    const flows: unknown[] = [...layout.tabs, ...[...subflows.values()].flat(), ...stageNodes];
+
     // Wire nodes based on channel edges
-    this._wireNodes(flows, channel.edges, nodeIdMap);
+    this._wireNodes(flows, channel, generatedStages);
 
     return flows;
   }
 
+  /**
+   * Fetch and validate the Nexon template for a stage; returns null when unavailable
+   */
+  private async _loadStageTemplate(stage: Stage): Promise<NexonTemplate | null> {
+    try {
+      const nexonTemplate = await this._nexonTemplateService.fetchTemplate(
+        stage.nexonId,
+        stage.nexonVersion,
+      );
+
+      const validation = this._nexonTemplateService.validateTemplate(nexonTemplate);
+      return validation.valid ? nexonTemplate : null;
+    } catch (_error: unknown) {
+      return null;
+    }
+  }
+
+  /**
+   * Track the nodes generated for a stage, for wiring
+   */
+  private _generatedStage(
+    stage: Stage,
+    manifest: NexonManifest,
+    nodes: NodeRedNode[],
+    resolver: NodeRedNode | null,
+  ): GeneratedStage {
+    return {
+      stage,
+      manifest,
+      nodeIds: nodes.map((node) => node.id),
+      ...(resolver ? { resolver: { nodeId: resolver.id, targetId: resolver.wires[0]?.[0] ?? '' } } : {}),
+      ...(manifest.subflow ? { subflowOutlets: Object.keys(manifest.continuation?.outlets ?? {}) } : {}),
+    };
+  }
+
+  /**
+   * Reuse the nodes generated for an unchanged stage by a previous build, or generate and cache them
+   */
+  private _cachedStageNodes(
+    stage: Stage,
+    nexonTemplate: NexonTemplate,
+    target: { channel: ChannelIR; flowTabId: string },
+    build: { options: ArtifactGenerationOptions; stageCache: StageCacheStats },
+  ): StageNodes {
+    const { options, stageCache } = build;
+    const key = this._stageCache.key(stage, nexonTemplate, {
+      channelId: target.channel.channelId,
+      channelTitle: target.channel.title,
+      flowTabId: target.flowTabId,
+      target: options.target ?? target.channel.runtime.target,
+    });
+
+    const cached = this._stageCache.get(key);
+    if (cached) {
+      stageCache.hits += 1;
+      stageCache.hitStageIds.push(stage.id);
+      return cached;
+    }
+
+    const stageNodes = this._generateStageNodes(stage, nexonTemplate, target, options);
+    this._stageCache.set(key, stageNodes);
+    stageCache.misses += 1;
+    return stageNodes;
+  }
+
   /**
    * Generate Node-RED nodes for a stage using Nexon templates
    */
-  private async _generateStageNodes(
+  private _generateStageNodes(
     stage: Stage,
-    channel: ChannelIR,
-    flowTabId: string,
+    nexonTemplate: NexonTemplate,
+    target: { channel: ChannelIR; flowTabId: string },
     options: ArtifactGenerationOptions,
-  ): Promise<NodeRedNode[]> {
-    // Fetch and validate Nexon template
-    const nexonTemplate = await this._nexonTemplateService.fetchTemplate(
-      stage.nexonId,
-      stage.nexonVersion,
+  ): StageNodes {
+    if (nexonTemplate.manifest.subflow) {
+      return this._generateSubflowInstance(stage, nexonTemplate, target, options);
+    }
+
+    // Substitute parameters in template
+    const substitutionResult =
+       this._parameterSubstitutionService.substituteParameters(
+        nexonTemplate.template,
+        this._substitutionContext(stage, target, options),
+        nexonTemplate.manifest.parameters,
+      );
+
+    if (!substitutionResult.success) {
+      throw new Error(
+        `Stage "${stage.id}" (${stage.nexonId}): ${substitutionResult.errors?.join('; ')}`,
+      );
+    }
+
+    // Process template nodes (template is now a flat array of nodes)
+    const templateNodes = Array.isArray(substitutionResult.value)
+      ? (substitutionResult.value as Array<Record<string, unknown>>)
+      : [];
+    const namespaced = this._idGenerator.namespaceTemplateNodes(stage.id, templateNodes);
+
+    if (namespaced.errors.length > 0) {
+      throw new Error(`Stage "${stage.id}" (${stage.nexonId}): ${namespaced.errors.join('; ')}`);
+    }
+
+    const processedNodes: NodeRedNode[] = namespaced.nodes.map(
+      (node) => ({
+        ...node,
+        z: target.flowTabId,
+        x: (stage.position?.x ?? DEFAULT_POSITION.x) + (Number(node['x']) || 0),
+        y: (stage.position?.y ?? DEFAULT_POSITION.y) + (Number(node['y']) || 0),
+        wires: Array.isArray(node['wires']) ? (node['wires'] as string[][]) : [[]],
+      }) as NodeRedNode,
     );
 
-    const validation =  this._nexonTemplateService.validateTemplate(
-      nexonTemplate,
+    const resolver = substitutionResult.runtimeExpressions
+      ? this._generateExpressionResolver(
+        stage,
+        this._inletNode(stage, nexonTemplate.manifest, processedNodes),
+        substitutionResult.runtimeExpressions,
+      )
+      : null;
+
+    return { nodes: processedNodes, resolver };
+  }
+
+  /**
+   * Generate the subflow instance node for a stage of a subflow template.
+   * Parameters are rendered as they would be inlined into the template and passed as instance env.
+   */
+  private _generateSubflowInstance(
+    stage: Stage,
+    nexonTemplate: NexonTemplate,
+    target: { channel: ChannelIR; flowTabId: string },
+    options: ArtifactGenerationOptions,
+  ): StageNodes {
+    const { manifest } = nexonTemplate;
+    const substitutionResult = this._parameterSubstitutionService.substituteParameters(
+      '{{params}}',
+      this._substitutionContext(stage, target, options),
+      manifest.parameters,
     );
-    if (!validation.valid) {
-      throw new Error(`Invalid template: ${validation.errors?.join(', ')}`);
+
+    if (!substitutionResult.success) {
+      throw new Error(
+        `Stage "${stage.id}" (${stage.nexonId}): ${substitutionResult.errors?.join('; ')}`,
+      );
     }
 
-    // Create substitution context
-    const substitutionContext: SubstitutionContext = {
-      parameters: {
-        ...(stage.params ?? {}),
-        // Add flow context for template substitution
-        flow: {
-          id: flowTabId,
-        },
+    const parameters = (substitutionResult.value ?? {}) as Record<string, unknown>;
+    const outputs = Math.max(Object.keys(manifest.continuation?.outlets ?? {}).length, 1);
+    const instance: NodeRedNode = {
+      id: this._idGenerator.generateNodeId(stage.id, 'gj-subflow'),
+      type: `subflow:${this._idGenerator.generateSubflowId(manifest.id, manifest.version)}`,
+      z: target.flowTabId,
+      name: stage.title ?? stage.id,
+      env: Object.entries(parameters).map(([name, value]) => this._subflowEnvEntry(name, value)),
+      x: stage.position?.x ?? DEFAULT_POSITION.x,
+      y: stage.position?.y ?? DEFAULT_POSITION.y,
+      wires: Array.from({ length: outputs }, () => []),
+    };
+
+    const resolver = substitutionResult.runtimeExpressions
+      ? this._generateExpressionResolver(stage, instance, substitutionResult.runtimeExpressions)
+      : null;
+
+    return { nodes: [instance], resolver };
+  }
+
+  /**
+   * Generate the subflow definition of a template version once per build, with its internal nodes
+   */
+  private _addSubflowDefinition(
+    subflows: Map<string, unknown[]>,
+    stage: Stage,
+    nexonTemplate: NexonTemplate,
+    build: { channel: ChannelIR; options: ArtifactGenerationOptions },
+  ): void {
+    const { manifest } = nexonTemplate;
+    const subflowId = this._idGenerator.generateSubflowId(manifest.id, manifest.version);
+    if (subflows.has(subflowId)) {
+      return;
+    }
+
+    // Inside the definition every parameter reads the instance env of the same name
+    const substitutionResult = this._parameterSubstitutionService.substituteParameters(
+      nexonTemplate.template,
+      {
+        parameters: Object.fromEntries(Object.keys(manifest.parameters).map((name) => [name, `\${${name}}`])),
+        stage: { id: subflowId, title: manifest.title },
+        channel: { channelId: build.channel.channelId, title: build.channel.title },
+        runtime: { target: build.options.target ?? build.channel.runtime.target },
+        flow: { id: subflowId },
       },
+    );
+    const scope = `subflow:${manifest.id}@${manifest.version}`;
+    const namespaced = this._idGenerator.namespaceTemplateNodes(
+      scope,
+      Array.isArray(substitutionResult.value) ? (substitutionResult.value as Array<Record<string, unknown>>) : [],
+    );
+    const errors = [...(substitutionResult.errors ?? []), ...namespaced.errors];
+
+    if (errors.length > 0) {
+      throw new Error(`Subflow ${manifest.id}@${manifest.version}: ${errors.join('; ')}`);
+    }
+
+    const nodes: NodeRedNode[] = namespaced.nodes.map((node) => ({
+      ...node,
+      z: subflowId,
+      x: Number(node['x']) || DEFAULT_POSITION.x,
+      y: Number(node['y']) || DEFAULT_POSITION.y,
+      wires: Array.isArray(node['wires']) ? (node['wires'] as string[][]) : [[]],
+    }) as NodeRedNode);
+
+    subflows.set(subflowId, [this._subflowDefinition(subflowId, manifest, stage, nodes), ...nodes]);
+  }
+
+  /**
+   * Node-RED subflow definition: a single input at the default inlet and one output per declared outlet
+   */
+  private _subflowDefinition(
+    subflowId: string,
+    manifest: NexonManifest,
+    stage: Stage,
+    nodes: NodeRedNode[],
+  ): Record<string, unknown> {
+    const scope = `subflow:${manifest.id}@${manifest.version}`;
+    const inlet = this._stagePortService.resolveInlet(stage, manifest);
+    const inletNodeId = inlet.nodeId === null ? nodes[0]?.id : this._idGenerator.generateNodeId(scope, inlet.nodeId);
+    const lastNodeId = nodes[nodes.length - 1]?.id ?? '';
+    const outlets = Object.values(manifest.continuation?.outlets ?? {});
+    const outputX = Math.max(...nodes.map((node) => node.x), DEFAULT_POSITION.x) + POSITION_OFFSET;
+
+    const out = (outlets.length > 0 ? outlets : [{}]).map((port, index) => ({
+      x: outputX,
+      y: DEFAULT_POSITION.y + index * POSITION_OFFSET,
+      wires: [{
+        id: port.node === undefined ? lastNodeId : this._idGenerator.generateNodeId(scope, port.node),
+        port: port.output ?? 0,
+      }],
+    }));
+
+    return {
+      id: subflowId,
+      type: 'subflow',
+      name: manifest.title,
+      info: manifest.description,
+      category: SUBFLOW_CATEGORY,
+      in: inletNodeId ? [{ x: DEFAULT_POSITION.x - POSITION_OFFSET / 2, y: DEFAULT_POSITION.y, wires: [{ id: inletNodeId }] }] : [],
+      out,
+      env: Object.entries(manifest.parameters).map(([name, definition]) => this._subflowEnvEntry(name, definition.default ?? '')),
+    };
+  }
+
+  /**
+   * Subflow env entry for a parameter value; `${VAR}` references stay env references
+   */
+  private _subflowEnvEntry(name: string, value: unknown): SubflowEnvEntry {
+    if (typeof value === 'string') {
+      const variable = ENV_REFERENCE.exec(value)?.[1];
+      return variable === undefined ? { name, type: 'str', value } : { name, type: 'env', value: variable };
+    }
+    if (typeof value === 'number') {
+      return { name, type: 'num', value: String(value) };
+    }
+    if (typeof value === 'boolean') {
+      return { name, type: 'bool', value: String(value) };
+    }
+    return { name, type: 'json', value: JSON.stringify(value ?? null) };
+  }
+
+  /**
+   * Substitution context for a stage's template placeholders
+   */
+  private _substitutionContext(
+    stage: Stage,
+    target: { channel: ChannelIR; flowTabId: string },
+    options: ArtifactGenerationOptions,
+  ): SubstitutionContext {
+    return {
+      parameters: stage.params ?? {},
       stage: {
         id: stage.id,
         ...(stage.title ? { title: stage.title } : {}),
       },
       channel: {
-        channelId: channel.channelId,
-        title: channel.title,
+        channelId: target.channel.channelId,
+        title: target.channel.title,
       },
       runtime: {
-        buildId: options.buildId,
-        target: options.target ?? channel.runtime.target,
+        target: options.target ?? target.channel.runtime.target,
+      },
+      flow: {
+        id: target.flowTabId,
       },
     };
+  }
 
-    // Substitute parameters in template
-    const substitutionResult =
-       this._parameterSubstitutionService.substituteParameters(
-        nexonTemplate.template,
-        substitutionContext,
-        nexonTemplate.manifest.parameters,
-      );
+  /**
+   * Node behind the stage's default inlet
+   */
+  private _inletNode(stage: Stage, manifest: NexonManifest, nodes: NodeRedNode[]): NodeRedNode | undefined {
+    const inlet = this._stagePortService.resolveInlet(stage, manifest);
+    const targetId = inlet.nodeId === null
+      ? nodes[0]?.id
+      : this._idGenerator.generateNodeId(stage.id, inlet.nodeId);
+    return nodes.find((node) => node.id === targetId);
+  }
 
-    if (!substitutionResult.success) {
-      throw new Error(
-        `Parameter substitution failed: ${substitutionResult.errors?.join(', ')}`,
-      );
+  /**
+   * Generate a change node that evaluates runtime expressions against msg (as JSONata)
+   * and stores the results on `msg.gjParams` before the stage's default inlet.
+   */
+  private _generateExpressionResolver(
+    stage: Stage,
+    target: NodeRedNode | undefined,
+    expressions: RuntimeExpression[],
+  ): NodeRedNode | null {
+    if (!target) {
+      return null;
     }
 
-    // Process template nodes (template is now a flat array of nodes)
-    const templateNodes = Array.isArray(substitutionResult.value) ? substitutionResult.value : [];
-    const processedNodes: NodeRedNode[] = templateNodes.map(
-      (templateNode: unknown) => {
-        const node = templateNode as Record<string, unknown>;
-        const nodeId = this._idGenerator.generateNodeId(stage.id, String(node['id']));
-
-        return {
-          ...node,
-          id: nodeId,
-          z: flowTabId,
-          x: (stage.position?.x ?? DEFAULT_POSITION.x) + (Number(node['x']) || 0),
-          y: (stage.position?.y ?? DEFAULT_POSITION.y) + (Number(node['y']) || 0),
-          wires: Array.isArray(node['wires']) ? (node['wires'] as string[][]) : [[]],
-        } as NodeRedNode;
-      },
-    );
-
-    return processedNodes;
+    return {
+      id: this._idGenerator.generateNodeId(stage.id, 'gj-expression-resolver'),
+      type: 'change',
+      z: target.z,
+      name: `${stage.title ?? stage.id} expressions`,
+      rules: expressions.map(({ param, jsonata }) => ({
+        t: 'set',
+        p: `gjParams.${param}`,
+        pt: 'msg',
+        to: jsonata,
+        tot: 'jsonata',
+      })),
+      x: target.x - POSITION_OFFSET,
+      y: target.y,
+      wires: [[target.id]],
+    };
   }
 
   /**
@@ -230,48 +551,102 @@ class ArtifactsService {
   }
 
   /**
-   * Wire nodes based on channel edges
+   * Wire nodes based on channel edges, honouring named outlets and inlets
    */
   private _wireNodes(
     flows: unknown[],
-    edges: Edge[],
-    nodeIdMap: Map<string, string[]>,
+    channel: ChannelIR,
+    generatedStages: Map<string, GeneratedStage>,
   ): void {
     const nodeMap = new Map<string, Record<string, unknown>>();
     flows.forEach((flow) => {
       const flowObj = flow as Record<string, unknown>;
-      if (flowObj['type'] !== 'tab') {
+      if (flowObj['type'] !== 'tab' && flowObj['type'] !== 'subflow') {
         nodeMap.set(String(flowObj['id']), flowObj);
       }
     });
 
-    // Process each edge
-    edges.forEach((edge) => {
-      const fromNodeIds = nodeIdMap.get(edge.from.stageId) ?? [];
-      const toNodeIds = nodeIdMap.get(edge.to.stageId) ?? [];
-
-      // Wire from last node of source stage to first node of target stage
-      if (fromNodeIds.length > 0 && toNodeIds.length > 0) {
-        const fromNodeId = fromNodeIds[fromNodeIds.length - 1];
-        const toNodeId = toNodeIds[0];
-        const fromNode = fromNodeId ? nodeMap.get(fromNodeId) : undefined;
-
-        if (fromNode) {
-          // Ensure wires array exists
-          fromNode['wires'] ??= [[]];
-          
-          const wires = fromNode['wires'] as string[][];
-          if (!Array.isArray(wires[0])) {
-            wires[0] = [];
-          }
-
-          // Add connection
-          if (toNodeId && !wires[0].includes(toNodeId)) {
-            wires[0].push(toNodeId);
-          }
-        }
+    for (const edge of channel.edges) {
+      const from = generatedStages.get(edge.from.stageId);
+      const to = generatedStages.get(edge.to.stageId);
+      if (!from || !to) {
+        continue;
       }
-    });
+
+      const outlet = this._stagePortService.resolveOutlet(from.stage, from.manifest, edge.from.outlet);
+      const inlet = this._stagePortService.resolveInlet(to.stage, to.manifest, edge.to.inlet);
+      const source = this._portEndpoint(from, outlet, 'last');
+      const inletNodeId = this._portEndpoint(to, inlet, 'first').nodeId;
+      // Messages entering the default inlet pass through the expression resolver first
+      const toNodeId = to.resolver && to.resolver.targetId === inletNodeId ? to.resolver.nodeId : inletNodeId;
+      const fromNode = source.nodeId ? nodeMap.get(source.nodeId) : undefined;
+      const toNode = toNodeId ? nodeMap.get(toNodeId) : undefined;
+
+      if (fromNode && toNode) {
+        this._connect(flows, edge, { node: fromNode, output: source.output }, toNode);
+      }
+    }
+  }
+
+  /**
+   * Wire a node output to a target node; nodes on different tabs are joined through a link out/link in pair
+   */
+  private _connect(
+    flows: unknown[],
+    edge: Edge,
+    source: { node: Record<string, unknown>; output: number },
+    target: Record<string, unknown>,
+  ): void {
+    if (source.node['z'] === target['z']) {
+      this._addWire(source.node, source.output, String(target['id']));
+      return;
+    }
+
+    const { linkOut, linkIn } = this._flowLayoutService.createLinkNodes(edge, source.node, target);
+    flows.push(linkOut, linkIn);
+    this._addWire(source.node, source.output, String(linkOut['id']));
+  }
+
+  /**
+   * Node and output an edge attaches to; a subflow instance exposes the template's outlets as its outputs
+   */
+  private _portEndpoint(generated: GeneratedStage, port: ResolvedPort, fallback: 'first' | 'last'): PortEndpoint {
+    if (generated.subflowOutlets) {
+      return {
+        nodeId: generated.nodeIds[0],
+        output: Math.max(generated.subflowOutlets.indexOf(port.name ?? ''), 0),
+      };
+    }
+    return { nodeId: this._portNodeId(generated, port, fallback), output: port.output };
+  }
+
+  /**
+   * Map a resolved port to a generated node id; ports without a node use the first/last stage node
+   */
+  private _portNodeId(generated: GeneratedStage, port: ResolvedPort, fallback: 'first' | 'last'): string | undefined {
+    if (port.nodeId !== null) {
+      return this._idGenerator.generateNodeId(generated.stage.id, port.nodeId);
+    }
+    return fallback === 'first'
+      ? generated.nodeIds[0]
+      : generated.nodeIds[generated.nodeIds.length - 1];
+  }
+
+  /**
+   * Append a wire on the given output of a node, padding missing outputs
+   */
+  private _addWire(node: Record<string, unknown>, output: number, targetId: string): void {
+    const wires = Array.isArray(node['wires']) ? (node['wires'] as string[][]) : [];
+    while (wires.length <= output) {
+      wires.push([]);
+    }
+
+    const outputWires = wires[output] ?? [];
+    if (!outputWires.includes(targetId)) {
+      outputWires.push(targetId);
+    }
+    wires[output] = outputWires;
+    node['wires'] = wires;
   }
 
   /**
@@ -353,7 +728,6 @@ class ArtifactsService {
       functionGlobalContext: {
         // Channel metadata
         channelId: channel.channelId,
-        buildId: options.buildId,
         mode: options.mode,
         target: options.target ?? channel.runtime.target,
 
@@ -363,12 +737,13 @@ class ArtifactsService {
           allowInternetTcpOut: channel.security?.allowInternetTcpOut ?? false,
           allowInternetUdpOut: channel.security?.allowInternetUdpOut ?? false,
           allowHttpInPublic: channel.security?.allowHttpInPublic ?? false,
+          allowTcpIn: channel.security?.allowTcpIn ?? false,
         },
       },
 
       // Cloud-specific settings
+      // credentialSecret is injected by the agent per process so credentials stay encrypted at rest
       ...(isCloud && {
-        credentialSecret: false,
         userDir: '/app/data',
       }),
 
@@ -389,7 +764,6 @@ class ArtifactsService {
     return {
       version: 1,
       channelId: channel.channelId,
-      buildId: options.buildId,
       mode: options.mode,
       artifacts: {
         flowsJsonPath: './flows.json',
@@ -402,70 +776,17 @@ class ArtifactsService {
   /**
    * Generate credentials.map.json for secret reference mapping
    */
-  private _generateCredentialsMap(
-    channel: ChannelIR,
-    options: ArtifactGenerationOptions,
-  ): Record<string, unknown> {
-    const credentialsMap: Record<string, unknown> = {};
-
-    // Extract secret references from stage parameters
-    channel.stages.forEach((stage: Stage) => {
-      if (stage.params) {
-        this._extractSecretReferences(
-          stage.params,
-          stage.id,
-          credentialsMap,
-        );
-      }
-    });
-
+  private _generateCredentialsMap(channel: ChannelIR, nodeCredentials: NodeCredentials): Record<string, unknown> {
     return {
-      version: 1,
+      version: 2,
       channelId: channel.channelId,
-      buildId: options.buildId,
-      credentials: credentialsMap,
+      // <stageId>.<param> -> secret reference and the env var the agent must provide
+      credentials: this._secretReferenceService.collectSecretReferences(channel),
+      // nodeId -> Node-RED credential fields, delivered to the runtime's encrypted credentials store
+      nodeCredentials,
     };
   }
 
-  /**
-   * Recursively extract secret references from parameters
-   */
-  private _extractSecretReferences(
-    params: unknown,
-    prefix: string,
-    credentialsMap: Record<string, unknown>,
-  ): void {
-    if (!params || typeof params !== 'object') {
-      return;
-    }
-
-    Object.entries(params as Record<string, unknown>).forEach(([key, value]) => {
-      const fullKey = `${prefix}.${key}`;
-
-      if (value && typeof value === 'object') {
-        if ('secret' in value) {
-          // This is a secret reference
-          const secretRef = (value as Record<string, unknown>)['secret'] as Record<string, unknown>;
-          credentialsMap[fullKey] = {
-            type: 'secretRef',
-            ref: secretRef['ref'],
-            envVar: this._generateEnvVarName(fullKey),
-          };
-        } else {
-          // Recurse into nested objects
-          this._extractSecretReferences(value, fullKey, credentialsMap);
-        }
-      }
-    });
-  }
-
-  /**
-   * Generate environment variable name for secret reference
-   */
-  private _generateEnvVarName(key: string): string {
-    return `GJ_SECRET_${key.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
-  }
-
   /**
    * Map Nexon ID to Node-RED node type
    */
@@ -491,23 +812,11 @@ class ArtifactsService {
    * Map stage parameters to Node-RED node properties
    */
   private _mapStageParams(stage: Stage): Record<string, unknown> {
-    // Basic parameter mapping - this would be expanded based on nexon types
-    const params = stage.params ?? {};
-    const mapped: Record<string, unknown> = {};
-
-    // Common parameter mappings
-    Object.entries(params).forEach(([key, value]) => {
-      if (value && typeof value === 'object' && 'secret' in value) {
-        // Handle secret references - map to environment variable
-        mapped[key] = `\${${this._generateEnvVarName(`${stage.id}.${key}`)}}`;
-      } else {
-        mapped[key] = value;
-      }
-    });
-
-    return mapped;
+    // Basic parameter mapping - this would be expanded based on nexon types.
+    // Secret references become env references resolved by the agent at runtime.
+    return this._secretReferenceService.replaceWithEnvReferences(stage.id, stage.params ?? {}) as Record<string, unknown>;
   }
 }
 
-export type { ArtifactGenerationOptions, GeneratedArtifacts, NodeRedFlow, NodeRedNode };
+export type { ArtifactGenerationOptions, ArtifactsServiceDependencies, GeneratedArtifacts, NodeRedFlow, NodeRedNode, StageNodes };
 export { ArtifactsService };
\ No newline at end of file
@@ -0,0 +1,294 @@
+import { mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+
+import { bundleFileExtension } from '@gapjunction/bundle-integrity';
+import type { BundleSignature, CompressionFormat } from '@gapjunction/bundle-integrity';
+
+import type { BundleResult } from './bundling.service.js';
+import type { PolicyLintResult } from './policy.service.js';
+import type { StageCacheStats } from './stage-artifact-cache.service.js';
+
+/**
+ * Lifecycle of a build: queued → validating → linting → generating → bundling → done,
+ * or failed/cancelled from any phase.
+ */
+
+type BuildPhase = 'validating' | 'linting' | 'generating' | 'bundling';
+
+type BuildStatus = (typeof BUILD_STATUSES)[number];
+
+interface PhaseTiming {
+  startedAt: string;
+  completedAt?: string;
+  durationMs?: number;
+}
+
+interface BuildRecord {
+  buildId: string;
+  channelId: string | null;
+  orgId: string;
+  userId: string;
+  policyProfile?: string;
+  status: BuildStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  durationMs?: number;
+  phases: Partial<Record<BuildPhase, PhaseTiming>>;
+  validation?: { valid: boolean; errors: string[]; warnings: string[] };
+  policyLint?: PolicyLintResult;
+  stageCache?: StageCacheStats;
+  artifactHashes?: Record<string, string>;
+  bundleHash?: string;
+  merkleRoot?: string;
+  signature?: BundleSignature;
+  bundle?: { location: string; size: number; compression: CompressionFormat };
+  error?: string;
+}
+
+interface BuildQuery {
+  channelId?: string;
+  orgId?: string;
+  status?: BuildStatus;
+  limit?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+const RECORD_EXTENSION = '.json';
+const BUILD_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const BUILD_PHASES: readonly BuildPhase[] = ['validating', 'linting', 'generating', 'bundling'];
+const BUILD_STATUSES = ['queued', 'validating', 'linting', 'generating', 'bundling', 'done', 'failed', 'cancelled'] as const;
+const TERMINAL_STATUSES: readonly BuildStatus[] = ['done', 'failed', 'cancelled'];
+
+function isBuildPhase(status: BuildStatus): status is BuildPhase {
+  return (BUILD_PHASES as readonly string[]).includes(status);
+}
+
+function isTerminalStatus(status: BuildStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+function isMissingFile(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+/**
+ * File-backed build history:
+ *
+ *   <root>/<buildId>.json             (build record)
+ *   <root>/bundles/<buildId>.tar[.gz|.zst]  (bundle of successful builds)
+ */
+class BuildRegistryService {
+  private readonly _rootPath: string;
+
+  constructor(rootPath?: string) {
+    this._rootPath = rootPath ?? process.env['BUILD_REGISTRY_PATH'] ?? './data/builds';
+  }
+
+  async createBuild(build: {
+    buildId: string;
+    channelId: string | null;
+    orgId: string;
+    userId: string;
+    policyProfile?: string;
+  }): Promise<BuildRecord> {
+    const now = new Date().toISOString();
+    const record: BuildRecord = { ...build, status: 'queued', createdAt: now, updatedAt: now, phases: {} };
+    await this._write(record);
+    return record;
+  }
+
+  /**
+   * Move a build into its next phase, closing the timing of the current one
+   */
+  async startPhase(buildId: string, phase: BuildPhase): Promise<BuildRecord> {
+    return await this._update(buildId, (record, now) => {
+      this._closePhase(record, now);
+      record.status = phase;
+      record.phases[phase] = { startedAt: now.toISOString() };
+    });
+  }
+
+  async recordValidation(buildId: string, validation: BuildRecord['validation']): Promise<BuildRecord> {
+    return await this._update(buildId, (record) => {
+      if (validation) {
+        record.validation = validation;
+      }
+    });
+  }
+
+  async recordPolicyLint(buildId: string, policyLint: PolicyLintResult): Promise<BuildRecord> {
+    return await this._update(buildId, (record) => {
+      record.policyLint = policyLint;
+    });
+  }
+
+  async recordStageCache(buildId: string, stageCache: StageCacheStats): Promise<BuildRecord> {
+    return await this._update(buildId, (record) => {
+      record.stageCache = stageCache;
+    });
+  }
+
+  /**
+   * Store the bundle next to the build record and mark the build done
+   */
+  async completeBuild(buildId: string, bundleResult: BundleResult): Promise<BuildRecord> {
+    const bundlesPath = join(this._rootPath, 'bundles');
+    const { compression } = bundleResult.metadata;
+    const location = resolve(bundlesPath, `${this._checkBuildId(buildId)}${bundleFileExtension(compression)}`);
+    await mkdir(bundlesPath, { recursive: true });
+    await writeFile(location, bundleResult.bundleBuffer);
+
+    return await this._update(buildId, (record, now) => {
+      this._finish(record, now, 'done');
+      record.artifactHashes = Object.fromEntries(
+        Object.entries(bundleResult.hashes.artifactHashes).map(([name, fileHash]) => [name, fileHash.hash])
+      );
+      record.bundleHash = bundleResult.hashes.bundleHash.hash;
+      record.merkleRoot = bundleResult.hashes.merkleRoot;
+      if (bundleResult.signature) {
+        record.signature = bundleResult.signature;
+      }
+      record.bundle = { location, size: bundleResult.bundleSize, compression };
+    });
+  }
+
+  async failBuild(buildId: string, error: string): Promise<BuildRecord> {
+    return await this._update(buildId, (record, now) => {
+      this._finish(record, now, 'failed');
+      record.error = error;
+    });
+  }
+
+  async cancelBuild(buildId: string): Promise<BuildRecord> {
+    return await this._update(buildId, (record, now) => {
+      this._finish(record, now, 'cancelled');
+    });
+  }
+
+  async getBuild(buildId: string): Promise<BuildRecord | null> {
+    if (!BUILD_ID_PATTERN.test(buildId)) {
+      return null;
+    }
+
+    try {
+      const content = await readFile(this._recordPath(buildId), 'utf8');
+      return JSON.parse(content) as BuildRecord;
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Bundle of a completed build, or null when the build has none
+   */
+  async readBundle(buildId: string): Promise<Buffer | null> {
+    const build = await this.getBuild(buildId);
+    if (!build?.bundle) {
+      return null;
+    }
+
+    try {
+      return await readFile(build.bundle.location);
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Builds matching the query, newest first
+   */
+  async listBuilds(query: BuildQuery = {}): Promise<BuildRecord[]> {
+    const limit = query.limit ?? DEFAULT_LIST_LIMIT;
+    const builds: BuildRecord[] = [];
+
+    // Build ids are ULIDs, so sorting file names sorts by creation time
+    for (const buildId of (await this._listBuildIds()).sort().reverse()) {
+      if (builds.length >= limit) {
+        break;
+      }
+      const build = await this.getBuild(buildId);
+      if (
+        build &&
+        (!query.channelId || build.channelId === query.channelId) &&
+        (!query.orgId || build.orgId === query.orgId) &&
+        (!query.status || build.status === query.status)
+      ) {
+        builds.push(build);
+      }
+    }
+
+    return builds;
+  }
+
+  private _closePhase(record: BuildRecord, now: Date): void {
+    const current = isBuildPhase(record.status) ? record.phases[record.status] : undefined;
+    if (current && !current.completedAt) {
+      current.completedAt = now.toISOString();
+      current.durationMs = now.getTime() - new Date(current.startedAt).getTime();
+    }
+  }
+
+  private _finish(record: BuildRecord, now: Date, status: 'done' | 'failed' | 'cancelled'): void {
+    this._closePhase(record, now);
+    record.status = status;
+    record.completedAt = now.toISOString();
+    record.durationMs = now.getTime() - new Date(record.createdAt).getTime();
+  }
+
+  private async _update(buildId: string, change: (record: BuildRecord, now: Date) => void): Promise<BuildRecord> {
+    const record = await this.getBuild(buildId);
+    if (!record) {
+      throw new Error(`Build "${buildId}" not found`);
+    }
+
+    const now = new Date();
+    change(record, now);
+    record.updatedAt = now.toISOString();
+    await this._write(record);
+    return record;
+  }
+
+  private async _write(record: BuildRecord): Promise<void> {
+    const recordPath = this._recordPath(record.buildId);
+    await mkdir(this._rootPath, { recursive: true });
+    const temporaryPath = `${recordPath}.tmp`;
+    await writeFile(temporaryPath, `${JSON.stringify(record, null, 2)}\n`, 'utf8');
+    await rename(temporaryPath, recordPath);
+  }
+
+  private async _listBuildIds(): Promise<string[]> {
+    try {
+      const files = await readdir(this._rootPath);
+      return files
+        .filter((file) => file.endsWith(RECORD_EXTENSION))
+        .map((file) => file.slice(0, -RECORD_EXTENSION.length));
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private _recordPath(buildId: string): string {
+    return join(this._rootPath, `${this._checkBuildId(buildId)}${RECORD_EXTENSION}`);
+  }
+
+  private _checkBuildId(buildId: string): string {
+    if (!BUILD_ID_PATTERN.test(buildId)) {
+      throw new Error(`Invalid build id "${buildId}"`);
+    }
+    return buildId;
+  }
+}
+
+export type { BuildPhase, BuildQuery, BuildRecord, BuildStatus, PhaseTiming };
+export { BUILD_STATUSES, BuildRegistryService, isTerminalStatus };
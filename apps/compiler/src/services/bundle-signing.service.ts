@@ -0,0 +1,140 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync } from 'crypto';
+import { mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { SIGNATURE_ALGORITHM, computeKeyId, signBundle } from '@gapjunction/bundle-integrity';
+import type { BundleSignature, SigningKey, TrustedKey } from '@gapjunction/bundle-integrity';
+
+import type { KeyObject } from 'crypto';
+
+interface PublishedKey extends TrustedKey {
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  current: boolean;
+}
+
+const CURRENT_KEY_FILE = 'current.pem';
+const RETIRED_DIR = 'retired';
+const PUBLIC_KEY_SUFFIX = '.pub.pem';
+
+function isMissingFile(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+function publicKeyPem(privateKey: KeyObject): string {
+  return createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * Ed25519 build key that signs bundles. The key comes from `BUNDLE_SIGNING_KEY` (PKCS#8 PEM) or is
+ * generated on first use and kept in the key store:
+ *
+ *   <root>/current.pem                    (private key currently signing)
+ *   <root>/retired/<keyId>.pub.pem        (public keys of rotated-out keys)
+ *
+ * Agents verify signatures against the public keys they are configured to trust.
+ */
+class BundleSigningService {
+  private readonly _rootPath: string;
+  private _key: Promise<SigningKey> | null = null;
+
+  constructor(rootPath?: string) {
+    this._rootPath = rootPath ?? process.env['BUNDLE_SIGNING_KEY_PATH'] ?? './data/signing';
+  }
+
+  async sign(merkleRoot: string, manifestContent: string | Buffer): Promise<BundleSignature> {
+    return signBundle(merkleRoot, manifestContent, await this.signingKey());
+  }
+
+  /**
+   * Key used for new bundles, loaded once
+   */
+  async signingKey(): Promise<SigningKey> {
+    this._key ??= this._loadKey();
+    return await this._key;
+  }
+
+  /**
+   * Public keys to distribute to agents: the current key and every retired one
+   */
+  async publicKeys(): Promise<PublishedKey[]> {
+    const current = await this.signingKey();
+    const keys: PublishedKey[] = [{
+      keyId: current.keyId,
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey: publicKeyPem(current.privateKey),
+      current: true,
+    }];
+
+    let retired: string[] = [];
+    try {
+      retired = await readdir(join(this._rootPath, RETIRED_DIR));
+    } catch (error: unknown) {
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+    }
+
+    for (const file of retired.filter((name) => name.endsWith(PUBLIC_KEY_SUFFIX)).sort()) {
+      const publicKey = await readFile(join(this._rootPath, RETIRED_DIR, file), 'utf8');
+      keys.push({ keyId: computeKeyId(publicKey), algorithm: SIGNATURE_ALGORITHM, publicKey, current: false });
+    }
+    return keys;
+  }
+
+  /**
+   * Replace the stored key with a new one. The old public key stays published so agents keep
+   * accepting bundles it signed until they drop it from their trusted keys.
+   */
+  async rotate(): Promise<SigningKey> {
+    if (process.env['BUNDLE_SIGNING_KEY']) {
+      throw new Error('Signing key rotation: BUNDLE_SIGNING_KEY is set, rotate it where it is managed');
+    }
+
+    const previous = await this.signingKey();
+    await mkdir(join(this._rootPath, RETIRED_DIR), { recursive: true });
+    await writeFile(
+      join(this._rootPath, RETIRED_DIR, `${previous.keyId}${PUBLIC_KEY_SUFFIX}`),
+      publicKeyPem(previous.privateKey),
+      'utf8'
+    );
+
+    this._key = this._generateKey();
+    return await this._key;
+  }
+
+  private async _loadKey(): Promise<SigningKey> {
+    const configured = process.env['BUNDLE_SIGNING_KEY'];
+    if (configured) {
+      return this._toSigningKey(createPrivateKey(configured));
+    }
+
+    try {
+      return this._toSigningKey(createPrivateKey(await readFile(join(this._rootPath, CURRENT_KEY_FILE), 'utf8')));
+    } catch (error: unknown) {
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+      return await this._generateKey();
+    }
+  }
+
+  private async _generateKey(): Promise<SigningKey> {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const path = join(this._rootPath, CURRENT_KEY_FILE);
+
+    await mkdir(this._rootPath, { recursive: true });
+    await writeFile(`${path}.tmp`, privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+    return this._toSigningKey(privateKey);
+  }
+
+  private _toSigningKey(privateKey: KeyObject): SigningKey {
+    if (privateKey.asymmetricKeyType !== SIGNATURE_ALGORITHM) {
+      throw new Error(`Signing key must be ${SIGNATURE_ALGORITHM}, got ${privateKey.asymmetricKeyType ?? 'unknown'}`);
+    }
+    return { keyId: computeKeyId(createPublicKey(privateKey)), privateKey };
+  }
+}
+
+export type { PublishedKey };
+export { BundleSigningService };
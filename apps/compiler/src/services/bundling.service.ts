@@ -1,34 +1,81 @@
 import tarStream from 'tar-stream';
 
+import {
+  INTEGRITY_FILE,
+  SIGNATURE_FILE,
+  compressBundle,
+  createIntegrityManifest,
+  extractAndVerifyBundle
+} from '@gapjunction/bundle-integrity';
+import type { BundleSignature, BundleVerificationResult, CompressionFormat, VerifyOptions } from '@gapjunction/bundle-integrity';
+
+import type { BundleSigningService } from './bundle-signing.service.js';
 import type { BundleHashes, HashingService } from './hashing.service.js';
 
+const JSON_INDENT = 2;
+const SETTINGS_PREFIX = 'module.exports = ';
+
+// Fixed header metadata so the tar bytes depend only on file names and contents
+const TAR_ENTRY_HEADER = {
+  type: 'file',
+  mtime: new Date(0),
+  mode: 0o644,
+  uid: 0,
+  gid: 0,
+  uname: '',
+  gname: ''
+} as const;
+
 export interface BundleOptions {
   buildId: string;
-  compression?: 'gzip' | 'none';
+  // Defaults to 'none' (plain tar)
+  compression?: CompressionFormat;
   includeMetadata?: boolean;
 }
 
 export interface BundleMetadata {
   buildId: string;
   timestamp: string;
+  compression: CompressionFormat;
   artifacts: {
     count: number;
     totalSize: number;
   };
 }
 
+export interface BundleArtifacts {
+  flowsJson: unknown;
+  settings: unknown;
+  manifest: unknown;
+  credentialsMap: unknown;
+}
+
 export interface BundleResult {
   bundleBuffer: Buffer;
   bundleSize: number;
   hashes: BundleHashes;
   metadata: BundleMetadata;
+  // Present when the bundling service has a signing key
+  signature?: BundleSignature;
+}
+
+export interface ExtractedBundle {
+  compression: CompressionFormat;
+  // File name -> content, integrity.json and signature.json excluded
+  artifacts: Record<string, string>;
+  // Parsed manifest.json, empty when the bundle has none
+  metadata: Record<string, unknown>;
+  verification: BundleVerificationResult;
 }
 
 export class BundlingService {
-  constructor(private readonly _hashingService: HashingService) {}
+  constructor(
+    private readonly _hashingService: HashingService,
+    private readonly _signingService?: BundleSigningService
+  ) {}
 
   /**
-   * Create a compressed bundle from artifacts
+   * Create a bundle from artifacts, compressed as requested. The format is recorded in manifest.json.
    */
   async createBundle(
     artifacts: {
@@ -40,36 +87,38 @@ export class BundlingService {
     options: BundleOptions
   ): Promise<BundleResult> {
     try {
-      // Convert artifacts to files
+      // Canonical JSON (sorted keys) so identical content always produces identical bytes
+      const json = (value: unknown): string => this._hashingService.canonicalJson(value, JSON_INDENT);
+      const compression = options.compression ?? 'none';
       const files = [
-        {
-          name: 'flows.json',
-          content: JSON.stringify(artifacts.flowsJson, null, 2)
-        },
-        {
-          name: 'settings.js',
-          content: `module.exports = ${JSON.stringify(artifacts.settings, null, 2)};`
-        },
-        {
-          name: 'manifest.json',
-          content: JSON.stringify(artifacts.manifest, null, 2)
-        },
-        {
-          name: 'credentials.map.json',
-          content: JSON.stringify(artifacts.credentialsMap, null, 2)
-        }
+        { name: 'flows.json', content: json(artifacts.flowsJson) },
+        { name: 'settings.js', content: `${SETTINGS_PREFIX}${json(artifacts.settings)};` },
+        { name: 'manifest.json', content: json({ ...(artifacts.manifest as Record<string, unknown>), compression }) },
+        { name: 'credentials.map.json', content: json(artifacts.credentialsMap) }
       ];
 
-      // Create tar stream
-      const bundleBuffer = await this._createTarBundle(files, options);
+      // Hash the exact bytes written to the tar so the bundle can be verified offline
+      const integrity = createIntegrityManifest(files);
+      const bundleFiles = [...files, { name: INTEGRITY_FILE, content: json(integrity) }];
+
+      // Detached signature over the Merkle root and manifest; not listed in integrity.json
+      const manifestFile = files.find((file) => file.name === 'manifest.json');
+      const signature = this._signingService && manifestFile
+        ? await this._signingService.sign(integrity.merkleRoot, manifestFile.content)
+        : undefined;
+      if (signature) {
+        bundleFiles.push({ name: SIGNATURE_FILE, content: json(signature) });
+      }
 
-      // Compute hashes
-      const hashes = this._hashingService.computeBundleHashes(artifacts, bundleBuffer);
+      const bundleBuffer = await compressBundle(await this._createTarBundle(bundleFiles), compression);
+
+      const hashes = this._hashingService.computeBundleHashes(integrity, bundleBuffer, compression);
 
       // Create metadata
       const metadata: BundleMetadata = {
         buildId: options.buildId,
         timestamp: new Date().toISOString(),
+        compression,
         artifacts: {
           count: files.length,
           totalSize: files.reduce((sum, file) => sum + Buffer.byteLength(file.content, 'utf8'), 0)
@@ -80,7 +129,8 @@ export class BundlingService {
         bundleBuffer,
         bundleSize: bundleBuffer.length,
         hashes,
-        metadata
+        metadata,
+        ...(signature ? { signature } : {})
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -89,33 +139,66 @@ export class BundlingService {
   }
 
   /**
-   * Extract and verify bundle contents
+   * Decompress and extract bundle contents and verify every file against the bundle's integrity manifest.
+   * Pass the Merkle root recorded at build time to also detect a rewritten integrity.json.
+   */
+  async extractBundle(bundleBuffer: Buffer, options: VerifyOptions = {}): Promise<ExtractedBundle> {
+    const { compression, files, verification } = await extractAndVerifyBundle(bundleBuffer, options);
+
+    const artifacts: Record<string, string> = {};
+    for (const [name, content] of files) {
+      if (name !== INTEGRITY_FILE && name !== SIGNATURE_FILE) {
+        artifacts[name] = content.toString('utf8');
+      }
+    }
+
+    let metadata: Record<string, unknown> = {};
+    const manifest = artifacts['manifest.json'];
+    if (manifest !== undefined) {
+      try {
+        metadata = JSON.parse(manifest) as Record<string, unknown>;
+      } catch {
+        verification.valid = false;
+        verification.errors.push('manifest.json is not valid JSON');
+      }
+    }
+
+    return { compression, artifacts, metadata, verification };
+  }
+
+  /**
+   * Read back the artifacts a bundle was created from. Fails when the bundle does not verify.
    */
-  extractBundle(_bundleBuffer: Buffer): {
-    artifacts: Record<string, string>;
-    metadata: Record<string, unknown>;
-  } {
-    // For now, return a placeholder - full tar extraction would be implemented here
+  async readArtifacts(bundleBuffer: Buffer, options: VerifyOptions = {}): Promise<BundleArtifacts> {
+    const { artifacts, verification } = await this.extractBundle(bundleBuffer, options);
+    if (!verification.valid) {
+      throw new Error(`Bundle verification failed: ${verification.errors.join('; ')}`);
+    }
+
+    const parse = (name: string): unknown => JSON.parse(artifacts[name] ?? 'null');
+    const settings = artifacts['settings.js'] ?? '';
+
     return {
-      artifacts: {},
-      metadata: {}
+      flowsJson: parse('flows.json'),
+      settings: settings.startsWith(SETTINGS_PREFIX)
+        ? JSON.parse(settings.slice(SETTINGS_PREFIX.length).replace(/;\s*$/, ''))
+        : null,
+      manifest: parse('manifest.json'),
+      credentialsMap: parse('credentials.map.json'),
     };
   }
 
   /**
    * Create tar bundle from files
    */
-  private async _createTarBundle(
-    files: Array<{ name: string; content: string }>,
-    _options: BundleOptions
-  ): Promise<Buffer> {
+  private async _createTarBundle(files: Array<{ name: string; content: string }>): Promise<Buffer> {
     // Use tar-stream to create a tarball from in-memory files
     const pack = tarStream.pack();
     const buffers: Buffer[] = [];
 
     // Add each file to the tarball
     for (const file of files) {
-      pack.entry({ name: file.name }, file.content);
+      pack.entry({ ...TAR_ENTRY_HEADER, name: file.name }, file.content);
     }
     pack.finalize();
 
@@ -0,0 +1,165 @@
+import type { ChannelIR, SecurityIntent } from '@gapjunction/ir-schema';
+
+import type { NexonManifest, NexonTemplateService } from './nexon-template.service.js';
+import type { OrgSecurityPolicy, PolicyRule, PolicyViolation } from './policy.service.js';
+
+/**
+ * Capabilities are declared by nexon manifests and named `<group>.<capability>`,
+ * e.g. `network.httpOut` or `filesystem.write`.
+ */
+const NEXON_CAPABILITIES = [
+  'network.httpOut',
+  'network.tcpOut',
+  'network.udpOut',
+  'network.tcpIn',
+  'filesystem.read',
+  'filesystem.write',
+] as const;
+
+type NexonCapability = typeof NEXON_CAPABILITIES[number];
+
+interface ChannelCapabilities {
+  // Union of every stage's capabilities
+  effective: NexonCapability[];
+  byStage: Record<string, NexonCapability[]>;
+  // Stages whose manifest could not be loaded
+  unresolvedStages: string[];
+}
+
+// SecurityIntent flag a channel sets to opt into a capability; capabilities without one can only be denied
+const CAPABILITY_INTENTS: Partial<Record<NexonCapability, keyof SecurityIntent>> = {
+  'network.httpOut': 'allowInternetHttpOut',
+  'network.tcpOut': 'allowInternetTcpOut',
+  'network.udpOut': 'allowInternetUdpOut',
+  'network.tcpIn': 'allowTcpIn',
+};
+
+const SEVERITIES = { deny: 'error', warn: 'warning', allow: null } as const;
+
+function isNexonCapability(value: string): value is NexonCapability {
+  return (NEXON_CAPABILITIES as readonly string[]).includes(value);
+}
+
+class CapabilityPolicyService {
+  constructor(private readonly _nexonTemplateService: NexonTemplateService) {}
+
+  /**
+   * Aggregate the capabilities declared by the template of every stage
+   */
+  async collectCapabilities(channel: ChannelIR): Promise<ChannelCapabilities> {
+    const result: ChannelCapabilities = { effective: [], byStage: {}, unresolvedStages: [] };
+    const effective = new Set<NexonCapability>();
+
+    for (const stage of channel.stages) {
+      try {
+        const { manifest } = await this._nexonTemplateService.fetchTemplate(stage.nexonId, stage.nexonVersion);
+        const capabilities = this.manifestCapabilities(manifest);
+        result.byStage[stage.id] = capabilities;
+        capabilities.forEach((capability) => effective.add(capability));
+      } catch {
+        result.unresolvedStages.push(stage.id);
+      }
+    }
+
+    result.effective = NEXON_CAPABILITIES.filter((capability) => effective.has(capability));
+    return result;
+  }
+
+  manifestCapabilities(manifest: NexonManifest): NexonCapability[] {
+    const groups: Record<string, Record<string, boolean | undefined> | undefined> = manifest.capabilities;
+    const declared = Object.entries(groups).flatMap(([group, flags]) =>
+      Object.entries(flags ?? {})
+        .filter(([, enabled]) => enabled)
+        .map(([name]) => `${group}.${name}`)
+    );
+    return declared.filter(isNexonCapability);
+  }
+
+  /**
+   * CAP001: capability the channel's SecurityIntent did not opt into
+   * CAP002: capability denied by org policy
+   * CAP003: capabilities of a stage could not be verified
+   */
+  checkCapabilities(
+    channel: ChannelIR,
+    capabilities: ChannelCapabilities,
+    orgPolicy: OrgSecurityPolicy
+  ): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const security = channel.security ?? {};
+    const undeclaredSeverity = SEVERITIES[orgPolicy.policies.undeclaredCapabilities];
+
+    for (const stage of channel.stages) {
+      for (const capability of capabilities.byStage[stage.id] ?? []) {
+        if (orgPolicy.policies.deniedCapabilities.includes(capability)) {
+          violations.push({
+            ruleId: 'CAP002',
+            ruleName: 'Denied Capability',
+            severity: 'error',
+            category: 'security',
+            message: `Stage "${stage.id}" (${stage.nexonId}) uses capability "${capability}", which is denied by organization policy`,
+            stageId: stage.id,
+            suggestion: 'Use a nexon without this capability or request a policy exception',
+          });
+          continue;
+        }
+
+        const intent = CAPABILITY_INTENTS[capability];
+        if (intent && !security[intent] && undeclaredSeverity) {
+          violations.push({
+            ruleId: 'CAP001',
+            ruleName: 'Undeclared Capability',
+            severity: undeclaredSeverity,
+            category: 'security',
+            message: `Stage "${stage.id}" (${stage.nexonId}) uses capability "${capability}" but the channel does not allow it`,
+            stageId: stage.id,
+            suggestion: `Set security.${intent} to true if this is intended`,
+          });
+        }
+      }
+    }
+
+    for (const stageId of capabilities.unresolvedStages) {
+      violations.push({
+        ruleId: 'CAP003',
+        ruleName: 'Unverified Capabilities',
+        severity: 'warning',
+        category: 'security',
+        message: `Capabilities of stage "${stageId}" could not be verified because its nexon template is unavailable`,
+        stageId,
+        suggestion: 'Make sure the nexon template is published to the catalog',
+      });
+    }
+
+    return violations;
+  }
+
+  getPolicyRules(): PolicyRule[] {
+    return [
+      {
+        id: 'CAP001',
+        name: 'Undeclared Capability',
+        description: 'Checks stage capabilities against the channel security intent',
+        severity: 'warning',
+        category: 'security',
+      },
+      {
+        id: 'CAP002',
+        name: 'Denied Capability',
+        description: 'Checks stage capabilities against capabilities denied by organization policy',
+        severity: 'error',
+        category: 'security',
+      },
+      {
+        id: 'CAP003',
+        name: 'Unverified Capabilities',
+        description: 'Checks that the capabilities of every stage could be loaded from its manifest',
+        severity: 'warning',
+        category: 'security',
+      },
+    ];
+  }
+}
+
+export type { ChannelCapabilities, NexonCapability };
+export { CapabilityPolicyService, NEXON_CAPABILITIES, isNexonCapability };
@@ -0,0 +1,96 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import type { CompileRequest } from './compiler.service.js';
+
+/**
+ * A compile request waiting in (or taken from) the compile queue
+ */
+interface CompileJob {
+  buildId: string;
+  request: CompileRequest;
+  enqueuedAt: string;
+}
+
+/**
+ * Persistence adapter of the compile queue. Jobs are saved when enqueued and removed once
+ * they finish or are cancelled; whatever is left is re-queued when the service starts.
+ */
+interface CompileJobStore {
+  save: (job: CompileJob) => Promise<void>;
+  remove: (buildId: string) => Promise<void>;
+  list: () => Promise<CompileJob[]>;
+}
+
+const JOB_EXTENSION = '.json';
+
+function isMissingFile(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+/**
+ * Keeps jobs for the lifetime of the process only
+ */
+class InMemoryCompileJobStore implements CompileJobStore {
+  private readonly _jobs = new Map<string, CompileJob>();
+
+  async save(job: CompileJob): Promise<void> {
+    this._jobs.set(job.buildId, job);
+    await Promise.resolve();
+  }
+
+  async remove(buildId: string): Promise<void> {
+    this._jobs.delete(buildId);
+    await Promise.resolve();
+  }
+
+  async list(): Promise<CompileJob[]> {
+    return await Promise.resolve([...this._jobs.values()]);
+  }
+}
+
+/**
+ * One JSON file per pending job in `<root>/<buildId>.json`
+ */
+class FileCompileJobStore implements CompileJobStore {
+  private readonly _rootPath: string;
+
+  constructor(rootPath?: string) {
+    this._rootPath = rootPath ?? process.env['COMPILE_QUEUE_PATH'] ?? './data/compile-queue';
+  }
+
+  async save(job: CompileJob): Promise<void> {
+    const jobPath = join(this._rootPath, `${job.buildId}${JOB_EXTENSION}`);
+    await mkdir(this._rootPath, { recursive: true });
+    const temporaryPath = `${jobPath}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(job), 'utf8');
+    await rename(temporaryPath, jobPath);
+  }
+
+  async remove(buildId: string): Promise<void> {
+    await rm(join(this._rootPath, `${buildId}${JOB_EXTENSION}`), { force: true });
+  }
+
+  async list(): Promise<CompileJob[]> {
+    let files: string[];
+    try {
+      files = await readdir(this._rootPath);
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const jobs = await Promise.all(
+      files
+        .filter((file) => file.endsWith(JOB_EXTENSION))
+        .map(async (file) => JSON.parse(await readFile(join(this._rootPath, file), 'utf8')) as CompileJob)
+    );
+    // Build ids are monotonic ULIDs, so this restores the enqueue order
+    return jobs.sort((left, right) => left.buildId.localeCompare(right.buildId));
+  }
+}
+
+export type { CompileJob, CompileJobStore };
+export { FileCompileJobStore, InMemoryCompileJobStore };
@@ -0,0 +1,235 @@
+import { EventEmitter } from 'events';
+
+import type { BuildStatus } from './build-registry.service.js';
+import type { CompileJob, CompileJobStore } from './compile-job-store.service.js';
+import type { CompileRequest, CompileResult, CompilerService } from './compiler.service.js';
+
+/**
+ * In-process compile queue. Compile requests get a build id as soon as they are queued;
+ * at most `concurrency` builds run at a time and the queue rejects work beyond `maxQueueSize`.
+ * Every status change is emitted as a `progress` event and passed to the subscribers of its build.
+ */
+
+interface CompileQueueOptions {
+  concurrency: number;
+  maxQueueSize: number;
+}
+
+interface CompileProgressEvent {
+  buildId: string;
+  status: BuildStatus;
+  timestamp: string;
+  // Position in the queue (0 = next to run) while the build is queued
+  position?: number;
+  success?: boolean;
+  errors?: string[];
+}
+
+interface EnqueueResult {
+  buildId: string;
+  position: number;
+  // Settles when the build finishes; only created when the caller asked to wait
+  result?: Promise<CompileResult>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+class CompileQueueService extends EventEmitter {
+  private readonly _options: CompileQueueOptions;
+  private readonly _pending: CompileJob[] = [];
+  // Slots held by enqueue calls that are still creating their build
+  private _reserved = 0;
+  private readonly _running = new Map<string, AbortController>();
+  private readonly _waiters = new Map<string, (result: CompileResult) => void>();
+  // Per-build listeners, so one stream per build does not add a `progress` listener each
+  private readonly _subscribers = new Map<string, Set<(event: CompileProgressEvent) => void>>();
+
+  constructor(
+    private readonly _compilerService: CompilerService,
+    private readonly _jobStore: CompileJobStore,
+    options: Partial<CompileQueueOptions> = {}
+  ) {
+    super();
+    this._options = {
+      concurrency: options.concurrency ?? positiveInteger(process.env['COMPILE_CONCURRENCY'], DEFAULT_CONCURRENCY),
+      maxQueueSize: options.maxQueueSize ?? positiveInteger(process.env['COMPILE_MAX_QUEUE_SIZE'], DEFAULT_MAX_QUEUE_SIZE),
+    };
+  }
+
+  /**
+   * Re-queue jobs persisted by a previous run. Their builds start again from the first phase.
+   */
+  async start(): Promise<number> {
+    const jobs = await this._jobStore.list();
+    this._pending.push(...jobs);
+    this._pump();
+    return jobs.length;
+  }
+
+  isFull(): boolean {
+    return this._pending.length + this._reserved >= this._options.maxQueueSize;
+  }
+
+  stats(): { running: number; queued: number } & CompileQueueOptions {
+    return { running: this._running.size, queued: this._pending.length, ...this._options };
+  }
+
+  async enqueue(request: CompileRequest, options: { wait?: boolean } = {}): Promise<EnqueueResult> {
+    if (this.isFull()) {
+      throw new Error(`Compile queue is full (${this._options.maxQueueSize} builds waiting)`);
+    }
+
+    // Hold the slot while the build is created, so concurrent calls cannot overfill the queue
+    this._reserved += 1;
+    let job: CompileJob;
+    try {
+      const buildId = await this._compilerService.createBuild(request);
+      job = { buildId, request, enqueuedAt: new Date().toISOString() };
+      await this._jobStore.save(job);
+    } finally {
+      this._reserved -= 1;
+    }
+
+    const { buildId } = job;
+
+    const enqueued: EnqueueResult = { buildId, position: this._pending.length };
+    if (options.wait) {
+      enqueued.result = new Promise((resolve) => {
+        this._waiters.set(buildId, resolve);
+      });
+    }
+
+    this._pending.push(job);
+    this._emitProgress({ buildId, status: 'queued', position: enqueued.position });
+    this._pump();
+    return enqueued;
+  }
+
+  /**
+   * Cancel a queued or running build. Running builds stop at the next phase boundary.
+   */
+  async cancel(buildId: string): Promise<boolean> {
+    const running = this._running.get(buildId);
+    if (running) {
+      running.abort();
+      return true;
+    }
+
+    const index = this._pending.findIndex((job) => job.buildId === buildId);
+    if (index === -1) {
+      return false;
+    }
+
+    this._pending.splice(index, 1);
+    await this._jobStore.remove(buildId);
+    const result = await this._compilerService.cancelBuild(buildId);
+    this._emitProgress({ buildId, status: 'cancelled' });
+    this._waiters.get(buildId)?.(result);
+    this._waiters.delete(buildId);
+    return true;
+  }
+
+  /**
+   * Position of a queued build (0 = next to run), or null when it is not queued
+   */
+  position(buildId: string): number | null {
+    const index = this._pending.findIndex((job) => job.buildId === buildId);
+    return index === -1 ? null : index;
+  }
+
+  /**
+   * Listen to the progress of one build; returns the function that unsubscribes
+   */
+  subscribe(buildId: string, listener: (event: CompileProgressEvent) => void): () => void {
+    const listeners = this._subscribers.get(buildId) ?? new Set();
+    listeners.add(listener);
+    this._subscribers.set(buildId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this._subscribers.get(buildId) === listeners) {
+        this._subscribers.delete(buildId);
+      }
+    };
+  }
+
+  private _pump(): void {
+    while (this._running.size < this._options.concurrency) {
+      const job = this._pending.shift();
+      if (!job) {
+        return;
+      }
+      this._running.set(job.buildId, new AbortController());
+      void this._run(job);
+    }
+  }
+
+  private async _run(job: CompileJob): Promise<void> {
+    const controller = this._running.get(job.buildId);
+    let result: CompileResult;
+
+    try {
+      result = await this._compilerService.runBuild(job.buildId, job.request, {
+        ...(controller ? { signal: controller.signal } : {}),
+        onPhase: (phase) => {
+          this._emitProgress({ buildId: job.buildId, status: phase });
+        },
+      });
+    } catch (error: unknown) {
+      // runBuild records its own failures; this only happens when the registry itself is unavailable
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result = {
+        success: false,
+        buildId: job.buildId,
+        validation: { valid: false, errors: [errorMessage] },
+        policyLint: { passed: false, violations: [], summary: { errors: 0, warnings: 0, info: 0 } },
+        errors: [errorMessage],
+      };
+    }
+
+    try {
+      this._running.delete(job.buildId);
+      await this._jobStore.remove(job.buildId).catch(() => undefined);
+
+      let status: BuildStatus = result.success ? 'done' : 'failed';
+      if (!result.success && controller?.signal.aborted) {
+        status = 'cancelled';
+      }
+      this._emitProgress({
+        buildId: job.buildId,
+        status,
+        success: result.success,
+        ...(result.errors ? { errors: result.errors } : {}),
+      });
+    } finally {
+      this._waiters.get(job.buildId)?.(result);
+      this._waiters.delete(job.buildId);
+      this._pump();
+    }
+  }
+
+  private _emitProgress(event: Omit<CompileProgressEvent, 'timestamp'>): void {
+    const progress: CompileProgressEvent = { ...event, timestamp: new Date().toISOString() };
+    // A failing listener (e.g. a closed event stream) must not stop the queue or the other listeners
+    const listeners = [
+      ...(this.rawListeners('progress') as Array<(event: CompileProgressEvent) => void>),
+      ...(this._subscribers.get(event.buildId) ?? []),
+    ];
+    for (const listener of listeners) {
+      try {
+        listener(progress);
+      } catch {
+        // Listeners own their errors; the build goes on
+      }
+    }
+  }
+}
+
+export type { CompileProgressEvent, CompileQueueOptions, EnqueueResult };
+export { CompileQueueService };
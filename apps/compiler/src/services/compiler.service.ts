@@ -1,17 +1,51 @@
-import { ulid } from 'ulid';
+import { monotonicFactory } from 'ulid';
 
+import { isCompressionFormat } from '@gapjunction/bundle-integrity';
+import type { BundleSignature, CompressionFormat } from '@gapjunction/bundle-integrity';
 import type { ChannelIR } from '@gapjunction/ir-schema';
 
 import type { ArtifactsService } from './artifacts.service.js';
-import type { BundlingService, BundleResult } from './bundling.service.js';
-import type { PolicyService, PolicyLintResult } from './policy.service.js';
+import type { BuildPhase, BuildQuery, BuildRecord, BuildRegistryService } from './build-registry.service.js';
+import type { BundlingService, BundleArtifacts, BundleResult } from './bundling.service.js';
+import type { ArtifactDiff, ArtifactSnapshot, FlowDiffService } from './flow-diff.service.js';
+import type { AppliedPolicy } from './policy-store.service.js';
+import type { PolicyService, PolicyLintOptions, PolicyLintResult } from './policy.service.js';
+import type { StageCacheStats } from './stage-artifact-cache.service.js';
 import type { ValidationService, ChannelValidationResult } from './validation.service.js';
 
+// Monotonic so build ids created in the same millisecond still sort by creation order
+const generateBuildId = monotonicFactory();
+
+const DEFAULT_COMPRESSION: CompressionFormat = 'gzip';
+
+// Build id the artifacts of a preview are generated with; previews are not recorded
+const PREVIEW_BUILD_ID = 'preview';
+const EMPTY_SNAPSHOT: ArtifactSnapshot = { flowsJson: [], settings: {}, credentialsMap: {} };
+const EMPTY_POLICY_LINT: PolicyLintResult = { passed: false, violations: [], summary: { errors: 0, warnings: 0, info: 0 } };
+
+/**
+ * Compression of a build's bundle: the request's choice, else BUNDLE_COMPRESSION, else gzip
+ */
+function bundleCompression(request: CompileRequest): CompressionFormat {
+  const configured = process.env['BUNDLE_COMPRESSION'];
+  return request.compression ?? (isCompressionFormat(configured) ? configured : DEFAULT_COMPRESSION);
+}
+
+/**
+ * Stages per flow tab: the request's limit, else FLOW_MAX_STAGES_PER_TAB; 0 keeps every stage on one tab
+ */
+function maxStagesPerTab(request: CompileRequest): number {
+  const configured = Number(process.env['FLOW_MAX_STAGES_PER_TAB'] ?? 0);
+  return request.maxStagesPerTab ?? (Number.isInteger(configured) && configured > 0 ? configured : 0);
+}
+
 export interface CompileRequest {
   channel: unknown;
   orgId: string;
   userId: string;
-  acknowledgedViolations?: string[];
+  policyProfile?: string;
+  compression?: CompressionFormat;
+  maxStagesPerTab?: number;
 }
 
 export interface CompileResult {
@@ -30,6 +64,8 @@ export interface CompileResult {
   };
   bundleHash?: string;
   merkleRoot?: string;
+  signature?: BundleSignature;
+  stageCache?: StageCacheStats;
   metadata?: {
     orgId?: string;
     userId?: string;
@@ -42,6 +78,7 @@ export interface CompileResult {
       warnings: number;
       info: number;
     };
+    policy?: AppliedPolicy;
     bundleSize?: number;
     artifactCount?: number;
     timestamp?: string;
@@ -54,55 +91,120 @@ export interface CompileResult {
   };
 }
 
-export interface SecurityAckRequest {
-  channelId: string;
-  userId: string;
-  violationIds: string[];
-  reason: string;
+export interface PreviewRequest extends CompileRequest {
+  // Build to compare against; defaults to the channel's latest successful build
+  previousBuildId?: string;
 }
 
-export interface SecurityAckResult {
+export interface PreviewResult {
   success: boolean;
-  acknowledgedViolations: string[];
-  message: string;
+  validation: ChannelValidationResult;
+  policyLint: PolicyLintResult;
+  errors?: string[];
+  warnings?: string[];
+  // Build the diff is against; null when the channel has no successful build yet
+  previousBuildId?: string | null;
+  diff?: ArtifactDiff;
+  stageCache?: StageCacheStats;
+  compiledArtifacts?: BundleArtifacts;
+}
+
+export interface CompileOptions {
+  signal?: AbortSignal;
+  onPhase?: (phase: BuildPhase) => void;
+}
+
+export interface CompilerServiceDependencies {
+  validationService: ValidationService;
+  policyService: PolicyService;
+  artifactsService: ArtifactsService;
+  bundlingService: BundlingService;
+  buildRegistry: BuildRegistryService;
+  flowDiffService: FlowDiffService;
 }
 
 export class CompilerService {
-  constructor(
-    private readonly _validationService: ValidationService,
-    private readonly _policyService: PolicyService,
-    private readonly _artifactsService: ArtifactsService,
-    private readonly _bundlingService: BundlingService,
-  ) {}
+  private readonly _validationService: ValidationService;
+  private readonly _policyService: PolicyService;
+  private readonly _artifactsService: ArtifactsService;
+  private readonly _bundlingService: BundlingService;
+  private readonly _buildRegistry: BuildRegistryService;
+  private readonly _flowDiffService: FlowDiffService;
+
+  constructor(dependencies: CompilerServiceDependencies) {
+    this._validationService = dependencies.validationService;
+    this._policyService = dependencies.policyService;
+    this._artifactsService = dependencies.artifactsService;
+    this._bundlingService = dependencies.bundlingService;
+    this._buildRegistry = dependencies.buildRegistry;
+    this._flowDiffService = dependencies.flowDiffService;
+  }
 
   /**
    * Main compilation endpoint - validates and compiles a channel
    */
   async compile(request: CompileRequest): Promise<CompileResult> {
-    const buildId = ulid();
-    
+    const buildId = await this.createBuild(request);
+    return await this.runBuild(buildId, request);
+  }
+
+  /**
+   * Register a queued build and return its id
+   */
+  async createBuild(request: CompileRequest): Promise<string> {
+    const buildId = generateBuildId();
+    await this._buildRegistry.createBuild({
+      buildId,
+      channelId: this._channelId(request.channel),
+      orgId: request.orgId,
+      userId: request.userId,
+      ...(request.policyProfile ? { policyProfile: request.policyProfile } : {}),
+    });
+    return buildId;
+  }
+
+  /**
+   * Run a registered build. The signal is checked between phases; an aborted build is recorded as cancelled.
+   */
+  async runBuild(buildId: string, request: CompileRequest, options: CompileOptions = {}): Promise<CompileResult> {
     try {
+      await this._startPhase(buildId, 'validating', options);
       const validation = await this._validateChannel(request.channel, buildId);
+      await this._buildRegistry.recordValidation(buildId, {
+        valid: validation.valid,
+        errors: validation.errors ?? [],
+        warnings: validation.warnings ?? [],
+      });
       if (!validation.valid) {
+        await this._buildRegistry.failBuild(buildId, 'Channel validation failed');
         return this._createValidationFailureResult(buildId, validation);
       }
 
-      const policyLint = await this._performPolicyLinting(request, validation, buildId);
+      await this._startPhase(buildId, 'linting', options);
+      const policyLint = await this._performPolicyLinting(request, validation);
+      await this._buildRegistry.recordPolicyLint(buildId, policyLint);
       // validation.valid is always true here due to the previous check, so we can simplify:
       const canProceed = policyLint.passed || policyLint.summary.errors === 0;
 
       if (!canProceed) {
+        await this._buildRegistry.failBuild(buildId, 'Policy lint failed');
         return this._createPolicyFailureResult(buildId, validation, policyLint);
       }
 
-      const artifacts = await this._generateArtifacts(validation.channel as ChannelIR, buildId);
+      await this._startPhase(buildId, 'generating', options);
+      const artifacts = await this._generateArtifacts(validation.channel as ChannelIR, buildId, maxStagesPerTab(request));
+      await this._buildRegistry.recordStageCache(buildId, artifacts.stageCache);
+
+      await this._startPhase(buildId, 'bundling', options);
       const bundleResult = await this._createBundle(artifacts, {
         buildId,
         orgId: request.orgId,
         userId: request.userId,
         channel: validation.channel as ChannelIR,
         policyLint,
+        compression: bundleCompression(request),
       });
+      await this._buildRegistry.completeBuild(buildId, bundleResult);
 
       return this._createSuccessResult(buildId, validation, policyLint, {
         artifacts,
@@ -111,53 +213,135 @@ export class CompilerService {
       });
 
     } catch (error: unknown) {
+      if (options.signal?.aborted) {
+        return await this.cancelBuild(buildId);
+      }
+      await this._buildRegistry.failBuild(buildId, error instanceof Error ? error.message : 'Unknown error');
       return this._createErrorResult(buildId, error);
     }
   }
 
   /**
-   * Verify security acknowledgment for policy violations
+   * Dry run: validate, lint and generate artifacts without bundling or recording a build,
+   * and diff the artifacts against a previous build
    */
-  verifySecurityAck(request: SecurityAckRequest): SecurityAckResult {
+  async preview(request: PreviewRequest): Promise<PreviewResult> {
+    let validation: ChannelValidationResult = { valid: false, errors: [] };
+    let policyLint = EMPTY_POLICY_LINT;
+
     try {
-      // In a real implementation, this would:
-      // 1. Validate the user has permission to acknowledge violations
-      // 2. Store the acknowledgment in a database with audit trail
-      // 3. Notify relevant stakeholders
-      // 4. Return the list of successfully acknowledged violations
+      validation = await this._validateChannel(request.channel, PREVIEW_BUILD_ID);
+      if (!validation.valid) {
+        return { success: false, validation, policyLint, errors: validation.errors ?? [] };
+      }
 
-      // For now, we'll simulate successful acknowledgment
-      const acknowledgedViolations = request.violationIds;
+      // A preview must not invalidate acknowledgments the way a build does
+      policyLint = await this._performPolicyLinting(request, validation, { readOnly: true });
+      if (!policyLint.passed && policyLint.summary.errors > 0) {
+        return { success: false, validation, policyLint, errors: this._policyErrors(policyLint) };
+      }
+
+      const channel = validation.channel as ChannelIR;
+      const artifacts = await this._generateArtifacts(channel, PREVIEW_BUILD_ID, maxStagesPerTab(request));
+      const previous = await this._previousArtifacts(channel.channelId, request.previousBuildId);
 
       return {
         success: true,
-        acknowledgedViolations,
-        message: `Successfully acknowledged ${acknowledgedViolations.length} policy violations`,
+        validation,
+        policyLint,
+        warnings: this._warnings(validation, policyLint),
+        previousBuildId: previous?.buildId ?? null,
+        diff: this._flowDiffService.diffArtifacts(previous?.artifacts ?? EMPTY_SNAPSHOT, artifacts),
+        stageCache: artifacts.stageCache,
+        compiledArtifacts: {
+          flowsJson: artifacts.flowsJson,
+          settings: artifacts.settings,
+          credentialsMap: artifacts.credentialsMap,
+          manifest: artifacts.manifest,
+        },
       };
-
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        success: false,
-        acknowledgedViolations: [],
-        message: `Failed to process acknowledgment: ${errorMessage}`,
-      };
+      return { success: false, validation, policyLint, errors: [`Preview failed: ${errorMessage}`] };
     }
   }
 
   /**
-   * Get compilation status (for monitoring/debugging)
+   * Record a build as cancelled and return its (failed) compile result
    */
-  getCompilationStatus(buildId: string): { buildId: string; status: string; timestamp: string } {
-    // In a real implementation, this would fetch status from a database
-    // For now, return a placeholder
+  async cancelBuild(buildId: string): Promise<CompileResult> {
+    await this._buildRegistry.cancelBuild(buildId);
     return {
+      success: false,
       buildId,
-      status: 'completed',
-      timestamp: new Date().toISOString(),
+      validation: { valid: false, errors: ['Build cancelled'] },
+      policyLint: { passed: false, violations: [], summary: { errors: 0, warnings: 0, info: 0 } },
+      errors: ['Build cancelled'],
     };
   }
 
+  /**
+   * Get the recorded lifecycle of a build, or null when it is unknown
+   */
+  async getCompilationStatus(buildId: string): Promise<BuildRecord | null> {
+    return await this._buildRegistry.getBuild(buildId);
+  }
+
+  /**
+   * Build history, newest first, optionally filtered by channel, org and status
+   */
+  async listBuilds(query: BuildQuery): Promise<BuildRecord[]> {
+    return await this._buildRegistry.listBuilds(query);
+  }
+
+  private async _startPhase(buildId: string, phase: BuildPhase, options: CompileOptions): Promise<void> {
+    if (options.signal?.aborted) {
+      throw new Error('Build cancelled');
+    }
+    await this._buildRegistry.startPhase(buildId, phase);
+    options.onPhase?.(phase);
+  }
+
+  /**
+   * Artifacts of the build a preview compares against, read back from its bundle
+   */
+  private async _previousArtifacts(
+    channelId: string,
+    previousBuildId: string | undefined,
+  ): Promise<{ buildId: string; artifacts: BundleArtifacts } | null> {
+    const build = previousBuildId === undefined
+      ? (await this._buildRegistry.listBuilds({ channelId, status: 'done', limit: 1 }))[0]
+      : await this._buildRegistry.getBuild(previousBuildId);
+
+    if (!build) {
+      if (previousBuildId !== undefined) {
+        throw new Error(`Build "${previousBuildId}" not found`);
+      }
+      return null;
+    }
+    if (build.channelId !== channelId) {
+      throw new Error(`Build "${build.buildId}" is of channel "${build.channelId ?? 'unknown'}", not "${channelId}"`);
+    }
+
+    const bundle = await this._buildRegistry.readBundle(build.buildId);
+    if (!bundle) {
+      throw new Error(`Build "${build.buildId}" has no bundle`);
+    }
+
+    const artifacts = await this._bundlingService.readArtifacts(
+      bundle,
+      build.merkleRoot ? { merkleRoot: build.merkleRoot } : {},
+    );
+    return { buildId: build.buildId, artifacts };
+  }
+
+  private _channelId(channel: unknown): string | null {
+    if (channel && typeof channel === 'object' && 'channelId' in channel && typeof channel.channelId === 'string') {
+      return channel.channelId;
+    }
+    return null;
+  }
+
   private async _validateChannel(channel: unknown, _buildId: string): Promise<ChannelValidationResult> {
     return await this._validationService.validateChannelComprehensive(channel);
   }
@@ -165,12 +349,13 @@ export class CompilerService {
   private async _performPolicyLinting(
     request: CompileRequest,
     validation: ChannelValidationResult,
-    _buildId: string
+    options: PolicyLintOptions = {}
   ): Promise<PolicyLintResult> {
     return await this._policyService.lintChannel(
       validation.channel as ChannelIR,
       request.orgId,
-      request.acknowledgedViolations ?? []
+      request.policyProfile,
+      options
     );
   }
 
@@ -194,18 +379,31 @@ export class CompilerService {
       buildId,
       validation,
       policyLint,
-      errors: policyLint.violations
-        .filter(v => v.severity === 'error' && !v.acknowledged)
-        .map(v => v.message),
+      errors: this._policyErrors(policyLint),
     };
   }
 
+  private _policyErrors(policyLint: PolicyLintResult): string[] {
+    return policyLint.violations
+      .filter(v => v.severity === 'error' && !v.acknowledged)
+      .map(v => v.message);
+  }
+
+  private _warnings(validation: ChannelValidationResult, policyLint: PolicyLintResult): string[] {
+    return [
+      ...(validation.warnings ?? []),
+      ...policyLint.violations
+        .filter(v => v.severity === 'warning' && !v.acknowledged)
+        .map(v => v.message),
+    ];
+  }
+
   private _createSuccessResult(
     buildId: string,
     validation: ChannelValidationResult,
     policyLint: PolicyLintResult,
     context: {
-      artifacts: { flowsJson: unknown; settings: unknown; credentialsMap: unknown; manifest: unknown };
+      artifacts: { flowsJson: unknown; settings: unknown; credentialsMap: unknown; manifest: unknown; stageCache: StageCacheStats };
       bundleResult: BundleResult;
       request: CompileRequest;
     }
@@ -217,12 +415,7 @@ export class CompilerService {
       buildId,
       validation,
       policyLint,
-      warnings: [
-        ...(validation.warnings ?? []),
-        ...policyLint.violations
-          .filter(v => v.severity === 'warning' && !v.acknowledged)
-          .map(v => v.message),
-      ],
+      warnings: this._warnings(validation, policyLint),
       bundle: bundleResult.bundleBuffer.toString('base64'),
       artifactHashes: {
         flowsJson: bundleResult.hashes.artifactHashes.flowsJson.hash,
@@ -232,6 +425,8 @@ export class CompilerService {
       },
       bundleHash: bundleResult.hashes.bundleHash.hash,
       merkleRoot: bundleResult.hashes.merkleRoot,
+      ...(bundleResult.signature ? { signature: bundleResult.signature } : {}),
+      stageCache: artifacts.stageCache,
       metadata: {
         orgId: request.orgId,
         userId: request.userId,
@@ -244,6 +439,7 @@ export class CompilerService {
           warnings: policyLint.summary.warnings,
           info: policyLint.summary.info,
         },
+        ...(policyLint.appliedPolicy ? { policy: policyLint.appliedPolicy } : {}),
         bundleSize: bundleResult.bundleSize,
         artifactCount: bundleResult.metadata.artifacts.count,
         timestamp: bundleResult.metadata.timestamp,
@@ -275,17 +471,19 @@ export class CompilerService {
   /**
    * Generate compiled artifacts from validated channel
    */
-  private async _generateArtifacts(channel: ChannelIR, buildId: string): Promise<{
+  private async _generateArtifacts(channel: ChannelIR, buildId: string, stagesPerTab: number): Promise<{
     flowsJson: unknown;
     settings: unknown;
     credentialsMap: unknown;
     manifest: unknown;
+    stageCache: StageCacheStats;
   }> {
     try {
       const artifacts = await this._artifactsService.generateArtifacts(channel, {
         buildId,
         mode: 'TEST', // TODO: Make this configurable
         target: channel.runtime.target,
+        maxStagesPerTab: stagesPerTab,
       });
 
       return {
@@ -293,6 +491,7 @@ export class CompilerService {
         settings: artifacts.settings,
         credentialsMap: artifacts.credentialsMap,
         manifest: artifacts.manifest,
+        stageCache: artifacts.stageCache,
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -316,12 +515,13 @@ export class CompilerService {
       userId: string;
       channel: ChannelIR;
       policyLint: PolicyLintResult;
+      compression: CompressionFormat;
     }
   ): Promise<BundleResult> {
     try {
       const bundleResult = await this._bundlingService.createBundle(artifacts, {
         buildId: context.buildId,
-        compression: 'gzip',
+        compression: context.compression,
         includeMetadata: true,
       });
 
@@ -0,0 +1,392 @@
+import type { ChannelIR, Stage } from '@gapjunction/ir-schema';
+
+import type { PolicyStoreService } from './policy-store.service.js';
+import type { PolicyRule, PolicyViolation } from './policy.service.js';
+
+/**
+ * Declarative policy rules maintained outside the compiler (`<POLICY_STORE_PATH>/rules/*.yaml`).
+ *
+ * A rule is evaluated once per channel (`scope: channel`) or once per stage (`scope: stage`).
+ * It is violated when its `when` condition holds and its `require` condition does not.
+ * Conditions read `channel.*` and `stage.*` paths and can walk the stage graph with
+ * `hasStage`, `upstream` and `downstream`.
+ */
+
+interface FieldCondition {
+  path: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  matches?: string;
+  contains?: unknown;
+  exists?: boolean;
+}
+
+type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { hasStage: RuleCondition }
+  | { upstream: RuleCondition }
+  | { downstream: RuleCondition }
+  | FieldCondition;
+
+interface CustomPolicyRule extends PolicyRule {
+  scope: 'channel' | 'stage';
+  when?: RuleCondition;
+  require?: RuleCondition;
+  // Supports `{{channel.*}}` and `{{stage.*}}` placeholders
+  message: string;
+  suggestion?: string;
+  // Name of the rule set the rule was loaded from
+  source: string;
+}
+
+interface PolicyRuleSet {
+  name: string;
+  version: string;
+  description?: string;
+  rules: CustomPolicyRule[];
+}
+
+interface RuleContext {
+  channel: ChannelIR;
+  stage?: Stage;
+  graph: StageGraph;
+}
+
+interface StageGraph {
+  stages: Map<string, Stage>;
+  downstream: Map<string, string[]>;
+  upstream: Map<string, string[]>;
+}
+
+const RULE_ID_PATTERN = /^[A-Z][A-Z0-9_-]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+const SEVERITIES: ReadonlyArray<PolicyRule['severity']> = ['error', 'warning', 'info'];
+const CATEGORIES: ReadonlyArray<PolicyRule['category']> = ['security', 'compliance', 'performance', 'best-practice'];
+const FIELD_OPERATORS = ['equals', 'notEquals', 'in', 'matches', 'contains', 'exists'];
+const GRAPH_OPERATORS = ['upstream', 'downstream'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function resolvePath(context: RuleContext, path: string): unknown {
+  let value: unknown = { channel: context.channel, stage: context.stage };
+  for (const key of path.split('.')) {
+    if (!isRecord(value) && !Array.isArray(value)) {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return left === right || JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Validate a condition; `upstream`/`downstream` need a stage in context (stage scope or inside `hasStage`)
+ */
+function parseCondition(label: string, value: unknown, hasStage: boolean): RuleCondition {
+  if (!isRecord(value)) {
+    throw new Error(`${label}: condition must be an object`);
+  }
+
+  const keys = Object.keys(value);
+  const [operator] = keys;
+  if (operator === 'all' || operator === 'any') {
+    const conditions = value[operator];
+    if (keys.length !== 1 || !Array.isArray(conditions) || conditions.length === 0) {
+      throw new Error(`${label}: "${operator}" must be the only key and a non-empty list of conditions`);
+    }
+    const parsed = conditions.map((condition) => parseCondition(label, condition, hasStage));
+    return operator === 'all' ? { all: parsed } : { any: parsed };
+  }
+  if (operator === 'not' || operator === 'hasStage' || operator === 'upstream' || operator === 'downstream') {
+    if (keys.length !== 1) {
+      throw new Error(`${label}: "${operator}" must be the only key of a condition`);
+    }
+    if (GRAPH_OPERATORS.includes(operator) && !hasStage) {
+      throw new Error(`${label}: "${operator}" can only be used in stage-scoped rules or inside "hasStage"`);
+    }
+    const nested = parseCondition(label, value[operator], hasStage || operator === 'hasStage');
+    return { [operator]: nested } as RuleCondition;
+  }
+
+  return parseFieldCondition(label, value);
+}
+
+function parseFieldCondition(label: string, value: Record<string, unknown>): FieldCondition {
+  const { path, ...operators } = value;
+  if (typeof path !== 'string' || !/^(channel|stage)(\.[\w-]+)*$/.test(path)) {
+    throw new Error(`${label}: condition needs a "path" starting with "channel" or "stage"`);
+  }
+
+  const names = Object.keys(operators);
+  if (names.length === 0) {
+    throw new Error(`${label}: condition on "${path}" has no operator`);
+  }
+  for (const name of names) {
+    if (!FIELD_OPERATORS.includes(name)) {
+      throw new Error(`${label}: unknown condition operator "${name}"`);
+    }
+  }
+  if (operators['in'] !== undefined && !Array.isArray(operators['in'])) {
+    throw new Error(`${label}: "in" must be a list`);
+  }
+  if (operators['exists'] !== undefined && typeof operators['exists'] !== 'boolean') {
+    throw new Error(`${label}: "exists" must be true or false`);
+  }
+  if (operators['matches'] !== undefined) {
+    if (typeof operators['matches'] !== 'string') {
+      throw new Error(`${label}: "matches" must be a regular expression string`);
+    }
+    try {
+      new RegExp(operators['matches']);
+    } catch {
+      throw new Error(`${label}: invalid regular expression "${operators['matches']}"`);
+    }
+  }
+
+  return { path, ...operators } as FieldCondition;
+}
+
+function parseRule(source: string, value: unknown): CustomPolicyRule {
+  if (!isRecord(value)) {
+    throw new Error(`Policy rule set "${source}": rules must be objects`);
+  }
+
+  const { id, name, description, severity, category, scope = 'channel', when, require, message, suggestion } = value;
+  if (typeof id !== 'string' || !RULE_ID_PATTERN.test(id)) {
+    throw new Error(`Policy rule set "${source}": invalid rule id "${String(id)}"`);
+  }
+
+  const label = `Policy rule "${id}" (${source})`;
+  if (typeof name !== 'string' || typeof message !== 'string') {
+    throw new Error(`${label}: "name" and "message" are required`);
+  }
+  if (!SEVERITIES.includes(severity as PolicyRule['severity'])) {
+    throw new Error(`${label}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (!CATEGORIES.includes(category as PolicyRule['category'])) {
+    throw new Error(`${label}: "category" must be one of ${CATEGORIES.join(', ')}`);
+  }
+  if (scope !== 'channel' && scope !== 'stage') {
+    throw new Error(`${label}: "scope" must be channel or stage`);
+  }
+  if (when === undefined && require === undefined) {
+    throw new Error(`${label}: needs a "when" or "require" condition`);
+  }
+
+  const rule: CustomPolicyRule = {
+    id,
+    name,
+    description: typeof description === 'string' ? description : name,
+    severity: severity as PolicyRule['severity'],
+    category: category as PolicyRule['category'],
+    scope,
+    message,
+    source,
+  };
+  if (when !== undefined) {
+    rule.when = parseCondition(label, when, scope === 'stage');
+  }
+  if (require !== undefined) {
+    rule.require = parseCondition(label, require, scope === 'stage');
+  }
+  if (typeof suggestion === 'string') {
+    rule.suggestion = suggestion;
+  }
+  return rule;
+}
+
+/**
+ * Validate a rule set document (`version`, optional `description`, `rules`)
+ */
+function parseRuleSet(name: string, document: Record<string, unknown>): PolicyRuleSet {
+  const version = document['version'];
+  if (typeof version !== 'string' && typeof version !== 'number') {
+    throw new Error(`Policy rule set "${name}" must declare a version`);
+  }
+  if (!Array.isArray(document['rules'])) {
+    throw new Error(`Policy rule set "${name}" must have a "rules" list`);
+  }
+
+  const ruleSet: PolicyRuleSet = {
+    name,
+    version: String(version),
+    rules: document['rules'].map((rule) => parseRule(name, rule)),
+  };
+  if (typeof document['description'] === 'string') {
+    ruleSet.description = document['description'];
+  }
+  return ruleSet;
+}
+
+class CustomPolicyRuleService {
+  constructor(private readonly _policyStore: PolicyStoreService) {}
+
+  /**
+   * Load every rule set from the policy store, rejecting duplicate rule ids
+   */
+  async loadRules(): Promise<CustomPolicyRule[]> {
+    const rules = (await this._policyStore.listRuleSets()).flatMap((ruleSet) => ruleSet.rules);
+    const sources = new Map<string, string>();
+
+    for (const rule of rules) {
+      const existing = sources.get(rule.id);
+      if (existing) {
+        throw new Error(`Policy rule "${rule.id}" is defined in both "${existing}" and "${rule.source}"`);
+      }
+      sources.set(rule.id, rule.source);
+    }
+
+    return rules;
+  }
+
+  /**
+   * Evaluate rules over the channel graph
+   */
+  evaluate(channel: ChannelIR, rules: CustomPolicyRule[]): PolicyViolation[] {
+    const graph = this._buildGraph(channel);
+    const violations: PolicyViolation[] = [];
+
+    for (const rule of rules) {
+      const contexts: RuleContext[] = rule.scope === 'stage'
+        ? channel.stages.map((stage) => ({ channel, stage, graph }))
+        : [{ channel, graph }];
+
+      for (const context of contexts) {
+        const applies = !rule.when || this._matches(rule.when, context);
+        if (!applies || (rule.require && this._matches(rule.require, context))) {
+          continue;
+        }
+
+        const violation: PolicyViolation = {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          severity: rule.severity,
+          category: rule.category,
+          message: this._interpolate(rule.message, context),
+        };
+        if (context.stage) {
+          violation.stageId = context.stage.id;
+        }
+        if (rule.suggestion) {
+          violation.suggestion = this._interpolate(rule.suggestion, context);
+        }
+        violations.push(violation);
+      }
+    }
+
+    return violations;
+  }
+
+  private _matches(condition: RuleCondition, context: RuleContext): boolean {
+    if ('all' in condition) {
+      return condition.all.every((nested) => this._matches(nested, context));
+    }
+    if ('any' in condition) {
+      return condition.any.some((nested) => this._matches(nested, context));
+    }
+    if ('not' in condition) {
+      return !this._matches(condition.not, context);
+    }
+    if ('hasStage' in condition) {
+      return context.channel.stages.some((stage) => this._matches(condition.hasStage, { ...context, stage }));
+    }
+    if ('upstream' in condition || 'downstream' in condition) {
+      const direction = 'upstream' in condition ? 'upstream' : 'downstream';
+      const nested = 'upstream' in condition ? condition.upstream : condition.downstream;
+      return this._reachable(context, direction).some((stage) => this._matches(nested, { ...context, stage }));
+    }
+    return this._matchesField(condition, resolvePath(context, condition.path));
+  }
+
+  private _matchesField(condition: FieldCondition, value: unknown): boolean {
+    if (condition.exists !== undefined && (value !== undefined && value !== null) !== condition.exists) {
+      return false;
+    }
+    if ('equals' in condition && !isEqual(value, condition.equals)) {
+      return false;
+    }
+    if ('notEquals' in condition && isEqual(value, condition.notEquals)) {
+      return false;
+    }
+    if (condition.in && !condition.in.some((candidate) => isEqual(value, candidate))) {
+      return false;
+    }
+    if (condition.matches !== undefined && (typeof value !== 'string' || !new RegExp(condition.matches).test(value))) {
+      return false;
+    }
+    if ('contains' in condition) {
+      const contains = Array.isArray(value)
+        ? value.some((item) => isEqual(item, condition.contains))
+        : typeof value === 'string' && typeof condition.contains === 'string' && value.includes(condition.contains);
+      if (!contains) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Stages reachable from the context stage by following edges in one direction
+   */
+  private _reachable(context: RuleContext, direction: 'upstream' | 'downstream'): Stage[] {
+    if (!context.stage) {
+      return [];
+    }
+
+    const visited = new Set<string>([context.stage.id]);
+    const queue = [context.stage.id];
+    const reachable: Stage[] = [];
+
+    for (let stageId = queue.shift(); stageId !== undefined; stageId = queue.shift()) {
+      for (const nextId of context.graph[direction].get(stageId) ?? []) {
+        const next = context.graph.stages.get(nextId);
+        if (!visited.has(nextId) && next) {
+          visited.add(nextId);
+          queue.push(nextId);
+          reachable.push(next);
+        }
+      }
+    }
+
+    return reachable;
+  }
+
+  private _buildGraph(channel: ChannelIR): StageGraph {
+    const graph: StageGraph = {
+      stages: new Map(channel.stages.map((stage) => [stage.id, stage])),
+      downstream: new Map(),
+      upstream: new Map(),
+    };
+
+    for (const edge of channel.edges) {
+      graph.downstream.set(edge.from.stageId, [...graph.downstream.get(edge.from.stageId) ?? [], edge.to.stageId]);
+      graph.upstream.set(edge.to.stageId, [...graph.upstream.get(edge.to.stageId) ?? [], edge.from.stageId]);
+    }
+
+    return graph;
+  }
+
+  private _interpolate(template: string, context: RuleContext): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+      const value = resolvePath(context, path);
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+}
+
+export type { CustomPolicyRule, FieldCondition, PolicyRuleSet, RuleCondition };
+export { CustomPolicyRuleService, parseRuleSet };
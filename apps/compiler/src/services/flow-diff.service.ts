@@ -0,0 +1,184 @@
+import type { HashingService } from './hashing.service.js';
+
+/**
+ * The generated artifacts a preview compares
+ */
+interface ArtifactSnapshot {
+  flowsJson: unknown;
+  settings: unknown;
+  credentialsMap: unknown;
+}
+
+interface FlowNodeSummary {
+  id: string;
+  type: string;
+  z?: string;
+  name?: string;
+}
+
+interface FlowNodeChange extends FlowNodeSummary {
+  // Top-level node properties whose value changed, wires excluded
+  fields: string[];
+}
+
+interface FlowWire {
+  from: string;
+  output: number;
+  to: string;
+}
+
+interface FlowsDiff {
+  added: FlowNodeSummary[];
+  removed: FlowNodeSummary[];
+  changed: FlowNodeChange[];
+  wires: {
+    added: FlowWire[];
+    removed: FlowWire[];
+  };
+}
+
+/**
+ * Dotted key paths of a JSON document that were added, removed or changed
+ */
+interface KeyDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+interface ArtifactDiff {
+  identical: boolean;
+  flows: FlowsDiff;
+  settings: KeyDiff;
+  credentialsMap: KeyDiff;
+}
+
+// Bundles built before build ids were kept out of the artifacts still carry theirs; it is not a change
+const IGNORED_KEYS = new Set(['buildId']);
+
+function flowEntries(flowsJson: unknown): Map<string, Record<string, unknown>> {
+  const entries = Array.isArray(flowsJson) ? (flowsJson as Array<Record<string, unknown>>) : [];
+  return new Map(entries.map((entry) => [String(entry['id']), entry]));
+}
+
+function summarize(entry: Record<string, unknown>): FlowNodeSummary {
+  return {
+    id: String(entry['id']),
+    type: String(entry['type']),
+    ...(typeof entry['z'] === 'string' && entry['z'] !== '' ? { z: entry['z'] } : {}),
+    ...(typeof entry['name'] === 'string' && entry['name'] !== '' ? { name: entry['name'] } : {}),
+  };
+}
+
+function wireKey(wire: FlowWire): string {
+  return `${wire.from}:${wire.output}:${wire.to}`;
+}
+
+function flowWires(entries: Map<string, Record<string, unknown>>): Map<string, FlowWire> {
+  const wires = new Map<string, FlowWire>();
+  for (const [from, entry] of entries) {
+    const outputs = Array.isArray(entry['wires']) ? (entry['wires'] as unknown[][]) : [];
+    outputs.forEach((targets, output) => {
+      for (const to of Array.isArray(targets) ? targets : []) {
+        const wire = { from, output, to: String(to) };
+        wires.set(wireKey(wire), wire);
+      }
+    });
+  }
+  return wires;
+}
+
+/**
+ * Leaf values of a JSON document by dotted path; arrays are compared as a whole.
+ * Undefined values are skipped, as they are when the artifacts are written to the bundle.
+ */
+function flatten(value: unknown, prefix = '', leaves = new Map<string, unknown>()): Map<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (item !== undefined && !IGNORED_KEYS.has(key)) {
+        flatten(item, prefix ? `${prefix}.${key}` : key, leaves);
+      }
+    }
+  } else if (prefix) {
+    leaves.set(prefix, value);
+  }
+  return leaves;
+}
+
+/**
+ * Structural diff of generated artifacts. Node ids are deterministic (derived from stage and template node ids),
+ * so a node that keeps its id across builds is the same node and only its properties and wires are compared.
+ */
+class FlowDiffService {
+  constructor(private readonly _hashingService: HashingService) {}
+
+  diffArtifacts(previous: ArtifactSnapshot, current: ArtifactSnapshot): ArtifactDiff {
+    const flows = this.diffFlows(previous.flowsJson, current.flowsJson);
+    const settings = this.diffKeys(previous.settings, current.settings);
+    const credentialsMap = this.diffKeys(previous.credentialsMap, current.credentialsMap);
+    const changes = [
+      flows.added, flows.removed, flows.changed, flows.wires.added, flows.wires.removed,
+      settings.added, settings.removed, settings.changed,
+      credentialsMap.added, credentialsMap.removed, credentialsMap.changed,
+    ];
+
+    return { identical: changes.every((list) => list.length === 0), flows, settings, credentialsMap };
+  }
+
+  /**
+   * Added, removed and changed flow entries (tabs, subflows and nodes) and wires
+   */
+  diffFlows(previousFlows: unknown, currentFlows: unknown): FlowsDiff {
+    const previous = flowEntries(previousFlows);
+    const current = flowEntries(currentFlows);
+    const changed: FlowNodeChange[] = [];
+
+    for (const [id, entry] of current) {
+      const before = previous.get(id);
+      const fields = before ? this._changedFields(before, entry) : [];
+      if (fields.length > 0) {
+        changed.push({ ...summarize(entry), fields });
+      }
+    }
+
+    const previousWires = flowWires(previous);
+    const currentWires = flowWires(current);
+
+    return {
+      added: [...current.entries()].filter(([id]) => !previous.has(id)).map(([, entry]) => summarize(entry)),
+      removed: [...previous.entries()].filter(([id]) => !current.has(id)).map(([, entry]) => summarize(entry)),
+      changed,
+      wires: {
+        added: [...currentWires.entries()].filter(([key]) => !previousWires.has(key)).map(([, wire]) => wire),
+        removed: [...previousWires.entries()].filter(([key]) => !currentWires.has(key)).map(([, wire]) => wire),
+      },
+    };
+  }
+
+  /**
+   * Dotted key paths added, removed or changed between two JSON documents
+   */
+  diffKeys(previousValue: unknown, currentValue: unknown): KeyDiff {
+    const previous = flatten(previousValue);
+    const current = flatten(currentValue);
+
+    return {
+      added: [...current.keys()].filter((key) => !previous.has(key)),
+      removed: [...previous.keys()].filter((key) => !current.has(key)),
+      changed: [...current.keys()].filter((key) => previous.has(key) && !this._equal(previous.get(key), current.get(key))),
+    };
+  }
+
+  private _changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    fields.delete('wires');
+    return [...fields].filter((field) => !this._equal(before[field], after[field])).sort();
+  }
+
+  private _equal(left: unknown, right: unknown): boolean {
+    return this._hashingService.canonicalJson(left ?? null) === this._hashingService.canonicalJson(right ?? null);
+  }
+}
+
+export type { ArtifactDiff, ArtifactSnapshot, FlowNodeChange, FlowNodeSummary, FlowWire, FlowsDiff, KeyDiff };
+export { FlowDiffService };
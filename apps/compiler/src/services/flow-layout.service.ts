@@ -0,0 +1,88 @@
+import type { ChannelIR, Edge } from '@gapjunction/ir-schema';
+
+import type { IdGeneratorService } from './id-generator.service.js';
+
+interface FlowTab {
+  id: string;
+  label: string;
+  type: 'tab';
+  disabled: boolean;
+  info?: string;
+}
+
+/**
+ * Tabs of a channel's flow and the tab each stage is placed on
+ */
+interface FlowLayout {
+  tabs: FlowTab[];
+  stageTabs: Map<string, string>;
+}
+
+type FlowNode = Record<string, unknown>;
+
+const LINK_NODE_OFFSET = 150;
+
+class FlowLayoutService {
+  constructor(private readonly _idGenerator: IdGeneratorService) {}
+
+  /**
+   * Place the channel's stages on tabs of at most `maxStagesPerTab` stages, in channel order.
+   * Without a limit every stage goes on a single tab.
+   */
+  layoutTabs(channel: ChannelIR, maxStagesPerTab?: number): FlowLayout {
+    const perTab = maxStagesPerTab && maxStagesPerTab > 0 ? maxStagesPerTab : Math.max(channel.stages.length, 1);
+    const tabCount = Math.max(Math.ceil(channel.stages.length / perTab), 1);
+
+    const tabs: FlowTab[] = Array.from({ length: tabCount }, (_, index) => ({
+      id: this._idGenerator.generateTabId(channel.channelId, index),
+      label: tabCount === 1 ? channel.title : `${channel.title} (${index + 1}/${tabCount})`,
+      type: 'tab',
+      disabled: false,
+      info: channel.documentation ?? '',
+    }));
+
+    const stageTabs = new Map<string, string>();
+    channel.stages.forEach((stage, index) => {
+      stageTabs.set(stage.id, tabs[Math.floor(index / perTab)]?.id ?? '');
+    });
+
+    return { tabs, stageTabs };
+  }
+
+  /**
+   * Link out/in pair carrying an edge from a node on one tab to a node on another.
+   * The source node is wired to the link out node; the link in node is wired to the target.
+   */
+  createLinkNodes(edge: Edge, fromNode: FlowNode, toNode: FlowNode): { linkOut: FlowNode; linkIn: FlowNode } {
+    const linkOutId = this._idGenerator.generateLinkNodeId(edge.id, 'out');
+    const linkInId = this._idGenerator.generateLinkNodeId(edge.id, 'in');
+    const name = `${edge.from.stageId} → ${edge.to.stageId}`;
+
+    return {
+      linkOut: {
+        id: linkOutId,
+        type: 'link out',
+        z: fromNode['z'],
+        name,
+        mode: 'link',
+        links: [linkInId],
+        x: Number(fromNode['x']) + LINK_NODE_OFFSET,
+        y: Number(fromNode['y']),
+        wires: [],
+      },
+      linkIn: {
+        id: linkInId,
+        type: 'link in',
+        z: toNode['z'],
+        name,
+        links: [linkOutId],
+        x: Number(toNode['x']) - LINK_NODE_OFFSET,
+        y: Number(toNode['y']),
+        wires: [[String(toNode['id'])]],
+      },
+    };
+  }
+}
+
+export type { FlowLayout, FlowTab };
+export { FlowLayoutService };
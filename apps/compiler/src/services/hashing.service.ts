@@ -2,6 +2,9 @@ import { createHash } from 'crypto';
 
 import { MerkleTree } from 'merkletreejs';
 
+import { bundleFileExtension } from '@gapjunction/bundle-integrity';
+import type { CompressionFormat, IntegrityManifest } from '@gapjunction/bundle-integrity';
+
 interface FileHash {
   filename: string;
   hash: string;
@@ -22,6 +25,26 @@ interface BundleHashes {
 const HASH_ALGORITHM = 'sha256';
 const NODE_RED_ID_LENGTH = 15;
 
+/**
+ * Deep copy with object keys in sorted order; `undefined` properties are dropped as JSON.stringify would
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item !== undefined) {
+        sorted[key] = sortKeys(item);
+      }
+    }
+    return sorted;
+  }
+  return value;
+}
+
 class HashingService {
   private readonly _hashAlgorithm = HASH_ALGORITHM;
   private readonly _nodeRedIdLength = NODE_RED_ID_LENGTH;
@@ -35,6 +58,21 @@ class HashingService {
       .digest('hex');
   }
 
+  /**
+   * Serialize JSON with sorted object keys, so identical content always yields identical bytes
+   * regardless of the order keys were written in. Array order is preserved.
+   */
+  canonicalJson(value: unknown, indent?: number): string {
+    return JSON.stringify(sortKeys(value), null, indent);
+  }
+
+  /**
+   * Hash of the canonical JSON serialization of a value
+   */
+  computeCanonicalHash(value: unknown): string {
+    return this.computeHash(this.canonicalJson(value));
+  }
+
   /**
    * Compute hash with file metadata
    */
@@ -62,58 +100,30 @@ class HashingService {
   }
 
   /**
-   * Compute comprehensive bundle hashes including Merkle root
+   * Bundle hashes from the integrity manifest written into the bundle, plus the hash of the
+   * bundle itself as shipped (after compression)
    */
-  computeBundleHashes(artifacts: {
-    flowsJson: unknown;
-    settings: unknown;
-    manifest: unknown;
-    credentialsMap: unknown;
-  }, bundleBuffer: Buffer): BundleHashes {
-    // Compute individual artifact hashes
-    const artifactHashes = {
-      flowsJson: this.computeFileHash('flows.json', JSON.stringify(artifacts.flowsJson)),
-      settings: this.computeFileHash('settings.js', JSON.stringify(artifacts.settings)),
-      manifest: this.computeFileHash('manifest.json', JSON.stringify(artifacts.manifest)),
-      credentialsMap: this.computeFileHash('credentials.map.json', JSON.stringify(artifacts.credentialsMap))
+  computeBundleHashes(integrity: IntegrityManifest, bundleBuffer: Buffer, compression: CompressionFormat): BundleHashes {
+    const fileHash = (filename: string): FileHash => {
+      const entry = integrity.files.find((file) => file.path === filename);
+      if (!entry) {
+        throw new Error(`Integrity manifest has no entry for ${filename}`);
+      }
+      return { filename, hash: entry.hash, size: entry.size };
     };
 
-    // Compute bundle hash
-    const bundleHash = this.computeFileHash('bundle.tgz', bundleBuffer);
-
-    // Create Merkle tree for integrity verification
-    const fileHashes = Object.values(artifactHashes);
-    const { root: merkleRoot } = this.createMerkleTree(fileHashes);
-
     return {
-      artifactHashes,
-      bundleHash,
-      merkleRoot
+      artifactHashes: {
+        flowsJson: fileHash('flows.json'),
+        settings: fileHash('settings.js'),
+        manifest: fileHash('manifest.json'),
+        credentialsMap: fileHash('credentials.map.json')
+      },
+      bundleHash: this.computeFileHash(`bundle${bundleFileExtension(compression)}`, bundleBuffer),
+      merkleRoot: integrity.merkleRoot
     };
   }
 
-  /**
-   * Verify bundle integrity using Merkle proof
-   */
-  verifyBundleIntegrity(
-    fileHash: string,
-    merkleRoot: string,
-    proof: string[],
-    allFileHashes: FileHash[]
-  ): boolean {
-    try {
-      const leaves = allFileHashes.map(fh => Buffer.from(fh.hash, 'hex'));
-      const hashFunction = (data: Buffer): Buffer => createHash(this._hashAlgorithm).update(data).digest();
-      const tree = new MerkleTree(leaves, hashFunction);
-      const leaf = Buffer.from(fileHash, 'hex');
-      const proofBuffers = proof.map(p => Buffer.from(p, 'hex'));
-      
-      return tree.verify(proofBuffers, leaf, Buffer.from(merkleRoot, 'hex'));
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Generate deterministic Node-RED compatible ID
    */
@@ -1,5 +1,17 @@
 import { createHash } from 'crypto';
 
+// Scalar config-node references that must resolve to a template node when set
+const REFERENCE_FIELDS = ['tls', 'proxy', 'broker', 'g'];
+// Array fields listing node ids (link in/out/call targets, catch/status/complete scopes)
+const REFERENCE_LIST_FIELDS = ['links', 'scope'];
+// Fields that never hold a node reference
+const NON_REFERENCE_FIELDS = new Set(['id', 'type', 'z', 'name', 'wires', ...REFERENCE_LIST_FIELDS]);
+
+export interface NamespacedNodesResult {
+  nodes: Array<Record<string, unknown>>;
+  errors: string[];
+}
+
 export class IdGeneratorService {
   /**
    * Generate deterministic flow ID for a channel
@@ -8,6 +20,27 @@ export class IdGeneratorService {
     return this._generateDeterministicId('flow', channelId);
   }
 
+  /**
+   * Generate deterministic ID for a channel's flow tab; the first tab keeps the channel's flow ID
+   */
+  generateTabId(channelId: string, index: number): string {
+    return index === 0 ? this.generateFlowId(channelId) : this.generateFlowId(`${channelId}:${index + 1}`);
+  }
+
+  /**
+   * Generate deterministic ID for the subflow definition of a template version
+   */
+  generateSubflowId(nexonId: string, version: string): string {
+    return this._generateDeterministicId('subflow', `${nexonId}@${version}`);
+  }
+
+  /**
+   * Generate deterministic ID for the link node joining the two ends of an edge across tabs
+   */
+  generateLinkNodeId(edgeId: string, direction: 'in' | 'out'): string {
+    return this._generateDeterministicId('link', `${edgeId}:${direction}`);
+  }
+
   /**
    * Generate deterministic node ID for a stage
    */
@@ -16,6 +49,39 @@ export class IdGeneratorService {
     return this._generateDeterministicId('node', `${stageId}${suffix}`);
   }
 
+  /**
+   * Namespace template node IDs for a stage and rewrite template-local references
+   * (wires, link targets, catch/status scopes and config-node fields) to match.
+   * References that do not resolve to a node in the same template are reported as errors.
+   */
+  namespaceTemplateNodes(stageId: string, nodes: Array<Record<string, unknown>>): NamespacedNodesResult {
+    const idMap = new Map<string, string>(
+      nodes.map((node) => [String(node['id']), this.generateNodeId(stageId, String(node['id']))])
+    );
+    const errors: string[] = [];
+
+    const namespaced = nodes.map((node) => {
+      const templateId = String(node['id']);
+      const resolve = (field: string, ref: string): string => {
+        const mapped = idMap.get(ref);
+        if (mapped === undefined) {
+          errors.push(`Template node "${templateId}" field "${field}" references unknown node "${ref}"`);
+          return ref;
+        }
+        return mapped;
+      };
+
+      return {
+        ...node,
+        ...this._rewriteScalarReferences(node, idMap, resolve),
+        ...this._rewriteListReferences(node, resolve),
+        id: idMap.get(templateId),
+      };
+    });
+
+    return { nodes: namespaced, errors };
+  }
+
   /**
    * Generate fallback node ID when template processing fails
    */
@@ -30,6 +96,51 @@ export class IdGeneratorService {
   // eslint-disable-next-line @typescript-eslint/naming-convention, no-magic-numbers
   private static readonly NODE_RED_ID_LENGTH = 15 as const;
 
+  private _rewriteScalarReferences(
+    node: Record<string, unknown>,
+    idMap: Map<string, string>,
+    resolve: (field: string, ref: string) => string,
+  ): Record<string, unknown> {
+    const rewritten: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(node)) {
+      if (typeof value !== 'string' || value === '' || NON_REFERENCE_FIELDS.has(field)) {
+        continue;
+      }
+      // Fields such as `server` are only references when they name a template node
+      if (REFERENCE_FIELDS.includes(field) || idMap.has(value)) {
+        rewritten[field] = resolve(field, value);
+      }
+    }
+
+    return rewritten;
+  }
+
+  private _rewriteListReferences(
+    node: Record<string, unknown>,
+    resolve: (field: string, ref: string) => string,
+  ): Record<string, unknown> {
+    const rewritten: Record<string, unknown> = {};
+    const wires = node['wires'];
+
+    if (Array.isArray(wires)) {
+      rewritten['wires'] = wires.map((output: unknown, index) =>
+        Array.isArray(output)
+          ? output.map((ref: unknown) => resolve(`wires[${index}]`, String(ref)))
+          : output
+      );
+    }
+
+    for (const field of REFERENCE_LIST_FIELDS) {
+      const refs = node[field];
+      if (Array.isArray(refs)) {
+        rewritten[field] = refs.map((ref: unknown) => resolve(field, String(ref)));
+      }
+    }
+
+    return rewritten;
+  }
+
   private _generateDeterministicId(prefix: string, input: string): string {
     const hash = createHash('sha256')
       .update(`${prefix}:${input}`)
@@ -13,20 +13,49 @@ export interface NexonManifest {
       httpOut?: boolean;
       tcpOut?: boolean;
       udpOut?: boolean;
+      tcpIn?: boolean;
     };
     filesystem?: {
       read?: boolean;
       write?: boolean;
     };
   };
-  parameters: Record<string, {
-    type: string;
-    title: string;
-    description: string;
-    required: boolean;
-    default?: unknown;
-    validation?: unknown;
-  }>;
+  parameters: Record<string, NexonParameterDefinition>;
+  // Compile to one shared subflow definition plus a subflow instance per stage; parameters become subflow env
+  subflow?: boolean;
+  continuation?: {
+    outlets?: Record<string, NexonPortDefinition>;
+    inlets?: Record<string, NexonPortDefinition>;
+  };
+}
+
+export interface NexonParameterDefinition {
+  type: string;
+  title: string;
+  description: string;
+  required: boolean;
+  default?: unknown;
+  validation?: NexonParameterValidation;
+}
+
+export interface NexonParameterValidation {
+  min?: number;
+  max?: number;
+  enum?: unknown[];
+  pattern?: string;
+}
+
+/**
+ * A named entry or exit point of a template.
+ * `node` is the template-local node id; `output` is the output index for outlets (default 0).
+ */
+export interface NexonPortDefinition {
+  title?: string;
+  description?: string;
+  required?: boolean;
+  default?: boolean;
+  node?: string;
+  output?: number;
 }
 
 export interface NexonTemplate {
@@ -109,6 +138,8 @@ export class NexonTemplateService {
     }
     if (!Array.isArray(template.template)) {
       errors.push('Template must be an array of Node-RED nodes');
+    } else {
+      errors.push(...this._validatePorts(template));
     }
 
     return {
@@ -117,6 +148,30 @@ export class NexonTemplateService {
     };
   }
 
+  /**
+   * Check that continuation outlets and inlets point at nodes declared in the template,
+   * and that subflow templates have a single inlet
+   */
+  private _validatePorts(template: NexonTemplate): string[] {
+    const nodeIds = new Set(
+      template.template.map((node) => String((node as Record<string, unknown>)['id']))
+    );
+    const ports = [
+      ...Object.entries(template.manifest.continuation?.outlets ?? {}).map(([name, port]) => ({ kind: 'Outlet', name, port })),
+      ...Object.entries(template.manifest.continuation?.inlets ?? {}).map(([name, port]) => ({ kind: 'Inlet', name, port })),
+    ];
+
+    const errors = ports
+      .filter(({ port }) => port.node !== undefined && !nodeIds.has(port.node))
+      .map(({ kind, name, port }) => `${kind} "${name}" references unknown template node "${port.node}"`);
+
+    // Node-RED subflows have a single input
+    if (template.manifest.subflow && Object.keys(template.manifest.continuation?.inlets ?? {}).length > 1) {
+      errors.push('Subflow templates can declare at most one inlet');
+    }
+    return errors;
+  }
+
   /**
    * List available templates (local only for now)
    */
@@ -1,3 +1,15 @@
+import { applyParameterDefaults } from './parameter-validation.service.js';
+
+import type { NexonParameterDefinition } from './nexon-template.service.js';
+import type { RuntimeExpression, RuntimeExpressionService } from './runtime-expression.service.js';
+import type { SecretReferenceService } from './secret-reference.service.js';
+import type { ExpressionScope, TemplateExpressionService } from './template-expression.service.js';
+
+interface SubstitutionLocation {
+  nodeId?: string;
+  field: string;
+}
+
 export interface SubstitutionContext {
   parameters: Record<string, unknown>;
   stage: {
@@ -9,42 +21,61 @@ export interface SubstitutionContext {
     title: string;
   };
   runtime?: {
-    buildId: string;
     target: string;
   };
+  flow?: {
+    id: string;
+  };
 }
 
 export interface SubstitutionResult {
   success: boolean;
   value?: unknown;
   errors?: string[];
+  runtimeExpressions?: RuntimeExpression[];
 }
 
 export class ParameterSubstitutionService {
+  constructor(
+    private readonly _expressionService: TemplateExpressionService,
+    private readonly _runtimeExpressionService: RuntimeExpressionService,
+    private readonly _secretReferenceService: SecretReferenceService,
+  ) {}
+
   /**
-   * Substitute parameters in a template
+   * Substitute parameters in a template, collecting one error per failing placeholder
    */
   substituteParameters(
     template: unknown,
     context: SubstitutionContext,
-    _paramDefinitions?: Record<string, unknown>
+    paramDefinitions?: Record<string, NexonParameterDefinition>
   ): SubstitutionResult {
-    // logger.info('Substituting parameters in template', { stageId: context.stage.id, paramCount: Object.keys(context.parameters).length });
-
-    try {
-      const result = this._deepSubstitute(template, context);
+    const parameters = applyParameterDefaults(context.parameters, paramDefinitions);
+    const compiled = this._runtimeExpressionService.compileExpressions(parameters);
+    const errors = compiled.errors.map(({ param, message }) => `Parameter "${param}": ${message}`);
 
+    if (errors.length > 0) {
       return {
-        success: true,
-        value: result
+        success: false,
+        errors
       };
-    } catch (error: unknown) {
-      // logger.error('Parameter substitution failed', error);
+    }
+
+    const scope = this._buildScope(context, parameters);
+    const result = this._deepSubstitute(template, scope, { field: '' }, errors);
+
+    if (errors.length > 0) {
       return {
         success: false,
-        errors: [`Parameter substitution error: ${(error instanceof Error ? error.message : String(error))}`]
+        errors
       };
     }
+
+    return {
+      success: true,
+      value: result,
+      ...(compiled.expressions.length > 0 ? { runtimeExpressions: compiled.expressions } : {})
+    };
   }
 
   /**
@@ -53,7 +84,7 @@ export class ParameterSubstitutionService {
   substituteParameter(
     name: string,
     value: unknown,
-    context: SubstitutionContext,
+    _context: SubstitutionContext,
     _definition?: unknown
   ): SubstitutionResult {
     try {
@@ -68,11 +99,10 @@ export class ParameterSubstitutionService {
         }
 
         if ('expression' in (value as Record<string, unknown>)) {
-          // Expression token - evaluate at compile time
-          const evaluated = this._evaluateExpression((value as Record<string, unknown>)['expression'] as string, context);
+          // Expression token - validated now, evaluated against msg at runtime
           return {
             success: true,
-            value: evaluated
+            value: this._runtimeExpressionService.replaceWithJsonata(value)
           };
         }
       }
@@ -90,72 +120,100 @@ export class ParameterSubstitutionService {
     }
   }
 
+  /**
+   * Build the expression scope exposed to template placeholders
+   */
+  private _buildScope(context: SubstitutionContext, resolvedParameters: Record<string, unknown>): ExpressionScope {
+    // Expression tokens are exposed as their JSONata source for use in JSONata-typed properties,
+    // secret tokens only as `${GJ_SECRET_*}` env references resolved by the agent at runtime
+    const parameters = this._runtimeExpressionService.replaceWithJsonata(
+      this._secretReferenceService.replaceWithEnvReferences(context.stage.id, resolvedParameters)
+    );
+
+    return {
+      params: parameters,
+      parameters,
+      stage: context.stage,
+      channel: context.channel,
+      runtime: context.runtime,
+      flow: context.flow ?? context.parameters['flow']
+    };
+  }
+
   /**
    * Deep substitute parameters in nested objects/arrays
    */
-  private _deepSubstitute(obj: unknown, context: SubstitutionContext): unknown {
-    if (obj === null || obj === undefined) {
-      return obj;
+  private _deepSubstitute(
+    obj: unknown,
+    scope: ExpressionScope,
+    location: SubstitutionLocation,
+    errors: string[]
+  ): unknown {
+    if (typeof obj === 'string') {
+      return this._substituteString(obj, scope, location, errors);
     }
 
     if (Array.isArray(obj)) {
-      return obj.map(item => this._deepSubstitute(item, context));
+      return obj.map((item, index) => {
+        const itemLocation = this._itemLocation(item, index, location);
+        return this._deepSubstitute(item, scope, itemLocation, errors);
+      });
     }
 
-    if (typeof obj === 'object') {
+    if (obj && typeof obj === 'object') {
       const result: Record<string, unknown> = {};
 
       for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-        // Handle template placeholders
-        if (typeof value === 'string' && value.startsWith('{{') && value.endsWith('}}')) {
-          const PLACEHOLDER_OFFSET = 2;
-          const placeholder = value.slice(PLACEHOLDER_OFFSET, -PLACEHOLDER_OFFSET).trim();
-          result[key] = this._resolvePlaceholder(placeholder, context);
-        } else {
-          result[key] = this._deepSubstitute(value, context);
-        }
+        const field = location.field ? `${location.field}.${key}` : key;
+        result[key] = this._deepSubstitute(value, scope, { ...location, field }, errors);
       }
 
       return result;
     }
 
-    // Handle string placeholders
-    if (typeof obj === 'string' && obj.startsWith('{{') && obj.endsWith('}}')) {
-      const PLACEHOLDER_OFFSET = 2;
-      const placeholder = obj.slice(PLACEHOLDER_OFFSET, -PLACEHOLDER_OFFSET).trim();
-      return this._resolvePlaceholder(placeholder, context);
-    }
-
     return obj;
   }
 
   /**
-   * Resolve template placeholder
+   * Work out the location of an array item; items of the root node list are identified by node id
    */
-  private _resolvePlaceholder(placeholder: string, context: SubstitutionContext): unknown {
-    // Handle dot notation (e.g., "stage.id", "channel.title", "parameters.url")
-    const parts = placeholder.split('.');
-    let current: unknown = context;
-
-    for (const part of parts) {
-      if (current && typeof current === 'object' && part in (current as Record<string, unknown>)) {
-        current = (current as Record<string, unknown>)[part];
-      } else {
-        throw new Error(`Placeholder not found: ${placeholder}`);
-      }
+  private _itemLocation(item: unknown, index: number, parent: SubstitutionLocation): SubstitutionLocation {
+    const isRootNode = parent.field === '' && parent.nodeId === undefined;
+    const nodeId = item && typeof item === 'object' ? (item as Record<string, unknown>)['id'] : undefined;
+
+    if (isRootNode && typeof nodeId === 'string') {
+      return { nodeId, field: '' };
     }
 
-    return current;
+    return { ...parent, field: `${parent.field}[${index}]` };
   }
 
   /**
-   * Evaluate expression token (basic implementation)
+   * Render a single string value, recording an error instead of throwing
    */
-  private _evaluateExpression(expression: string, _context: SubstitutionContext): unknown {
-    // logger.info('Evaluating expression', { expression, context });
-  
-    // For now, just return the expression as-is
-    // In a real implementation, this would parse and evaluate JSONPath expressions
-    return expression;
+  private _substituteString(
+    text: string,
+    scope: ExpressionScope,
+    location: SubstitutionLocation,
+    errors: string[]
+  ): unknown {
+    if (!this._expressionService.hasPlaceholders(text)) {
+      return text;
+    }
+
+    try {
+      return this._expressionService.render(text, scope);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${this._describeLocation(location)}: ${message}`);
+      return text;
+    }
+  }
+
+  private _describeLocation(location: SubstitutionLocation): string {
+    const field = location.field || '<root>';
+    return location.nodeId === undefined
+      ? `Template field "${field}"`
+      : `Template node "${location.nodeId}" field "${field}"`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,206 @@
+import type { ChannelIR, ParamValue, Stage } from '@gapjunction/ir-schema';
+
+import { isExpressionToken } from './runtime-expression.service.js';
+
+import type {
+  NexonParameterDefinition,
+  NexonParameterValidation,
+  NexonTemplateService,
+} from './nexon-template.service.js';
+import type { RuntimeExpressionService } from './runtime-expression.service.js';
+
+interface StageParameterError {
+  stageId: string;
+  param: string;
+  message: string;
+}
+
+interface ParameterResolutionResult {
+  valid: boolean;
+  params: Record<string, unknown>;
+  errors: StageParameterError[];
+}
+
+interface ChannelParameterValidationResult {
+  valid: boolean;
+  channel: ChannelIR;
+  errors: StageParameterError[];
+  warnings: string[];
+}
+
+type ParameterDefinitions = Record<string, NexonParameterDefinition>;
+
+const TYPE_CHECKS = new Map<string, (value: unknown) => boolean>([
+  ['string', (value: unknown): boolean => typeof value === 'string'],
+  ['number', (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value)],
+  ['boolean', (value: unknown): boolean => typeof value === 'boolean'],
+  ['object', (value: unknown): boolean => typeof value === 'object' && value !== null && !Array.isArray(value)],
+  ['array', (value: unknown): boolean => Array.isArray(value)],
+  ['secretRef', (value: unknown): boolean => isSecretToken(value)],
+]);
+
+function isSecretToken(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && 'secret' in value;
+}
+
+/**
+ * Merge manifest defaults into a set of parameter values; explicit values always win
+ */
+function applyParameterDefaults(
+  params: Record<string, unknown>,
+  definitions: ParameterDefinitions | undefined,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...params };
+
+  for (const [name, definition] of Object.entries(definitions ?? {})) {
+    if (merged[name] === undefined && definition.default !== undefined) {
+      // Defaults come from JSON manifests, so a JSON round-trip is a faithful deep copy
+      merged[name] = JSON.parse(JSON.stringify(definition.default)) as unknown;
+    }
+  }
+
+  return merged;
+}
+
+class ParameterValidationService {
+  constructor(
+    private readonly _nexonTemplateService: NexonTemplateService,
+    private readonly _runtimeExpressionService: RuntimeExpressionService,
+  ) {}
+
+  /**
+   * Resolve and validate the parameters of every stage against its nexon manifest.
+   * The returned channel carries stage params with manifest defaults applied.
+   */
+  async validateChannelParameters(channel: ChannelIR): Promise<ChannelParameterValidationResult> {
+    const errors: StageParameterError[] = [];
+    const warnings: string[] = [];
+    const stages: Stage[] = [];
+
+    for (const stage of channel.stages) {
+      const definitions = await this._loadDefinitions(stage);
+      if (!definitions) {
+        warnings.push(
+          `Stage "${stage.id}": nexon template ${stage.nexonId} is unavailable, parameters were not validated`
+        );
+        stages.push(stage);
+        continue;
+      }
+
+      const resolution = this.resolveParameters(stage.id, stage.params ?? {}, definitions);
+      errors.push(...resolution.errors);
+      stages.push({ ...stage, params: resolution.params as Record<string, ParamValue> });
+    }
+
+    return {
+      valid: errors.length === 0,
+      channel: { ...channel, stages },
+      errors,
+      warnings,
+    };
+  }
+
+  /**
+   * Apply defaults, required checks and validation rules to a single stage's parameters
+   */
+  resolveParameters(
+    stageId: string,
+    params: Record<string, unknown>,
+    definitions: ParameterDefinitions,
+  ): ParameterResolutionResult {
+    const resolved = applyParameterDefaults(params, definitions);
+    const errors: StageParameterError[] = [];
+
+    for (const [param, definition] of Object.entries(definitions)) {
+      const messages = this._checkParameter(resolved[param], definition);
+      errors.push(...messages.map((message) => ({ stageId, param, message })));
+    }
+
+    // Runtime expressions are syntax-checked here so invalid ones fail before artifact generation
+    const expressions = this._runtimeExpressionService.compileExpressions(resolved);
+    errors.push(...expressions.errors.map(({ param, message }) => ({ stageId, param, message })));
+
+    return {
+      valid: errors.length === 0,
+      params: resolved,
+      errors,
+    };
+  }
+
+  /**
+   * Format a parameter error for the flat `errors` list of a validation result
+   */
+  formatError(error: StageParameterError): string {
+    return `Stage "${error.stageId}" parameter "${error.param}": ${error.message}`;
+  }
+
+  private async _loadDefinitions(stage: Stage): Promise<ParameterDefinitions | null> {
+    try {
+      const template = await this._nexonTemplateService.fetchTemplate(stage.nexonId, stage.nexonVersion);
+      return template.manifest.parameters;
+    } catch (_error: unknown) {
+      return null;
+    }
+  }
+
+  private _checkParameter(value: unknown, definition: NexonParameterDefinition): string[] {
+    if (value === undefined || value === null) {
+      return definition.required ? ['is required'] : [];
+    }
+
+    // Expressions are evaluated against msg at runtime, so only their syntax can be checked
+    if (isExpressionToken(value)) {
+      return [];
+    }
+    if (isSecretToken(value)) {
+      return definition.type === 'secretRef' || definition.type === 'string'
+        ? []
+        : [`expected ${definition.type} but got a secret reference`];
+    }
+
+    const typeCheck = TYPE_CHECKS.get(definition.type);
+    if (typeCheck && !typeCheck(value)) {
+      return [`expected ${definition.type} but got ${Array.isArray(value) ? 'array' : typeof value}`];
+    }
+
+    return definition.validation ? this._checkRules(value, definition.validation) : [];
+  }
+
+  private _checkRules(value: unknown, rules: NexonParameterValidation): string[] {
+    const messages: string[] = [];
+
+    if (typeof value === 'number') {
+      if (rules.min !== undefined && value < rules.min) {
+        messages.push(`must be >= ${rules.min} (got ${value})`);
+      }
+      if (rules.max !== undefined && value > rules.max) {
+        messages.push(`must be <= ${rules.max} (got ${value})`);
+      }
+    }
+
+    if (rules.enum && !rules.enum.includes(value)) {
+      messages.push(`must be one of ${rules.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (rules.pattern !== undefined && typeof value === 'string') {
+      messages.push(...this._checkPattern(value, rules.pattern));
+    }
+
+    return messages;
+  }
+
+  private _checkPattern(value: string, pattern: string): string[] {
+    try {
+      return new RegExp(pattern).test(value) ? [] : [`must match pattern ${pattern}`];
+    } catch (_error: unknown) {
+      return [`manifest pattern ${pattern} is not a valid regular expression`];
+    }
+  }
+}
+
+export type {
+  ChannelParameterValidationResult,
+  ParameterResolutionResult,
+  StageParameterError,
+};
+export { ParameterValidationService, applyParameterDefaults };
@@ -0,0 +1,249 @@
+import { copyFile, mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
+
+import { parse as parseYaml } from 'yaml';
+
+import { isNexonCapability } from './capability-policy.service.js';
+import { parseRuleSet } from './custom-policy-rule.service.js';
+
+import type { PolicyRuleSet } from './custom-policy-rule.service.js';
+import type { OrgSecurityPolicy } from './policy.service.js';
+
+type PolicyDocumentKind = 'profiles' | 'orgs' | 'rules';
+
+const DOCUMENT_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+const SETTING_TYPES: Record<keyof PolicySettings, (value: unknown) => boolean> = {
+  allowInternetAccess: (value): boolean => value === 'deny' || value === 'warn' || value === 'allow',
+  allowPublicEndpoints: (value): boolean => value === 'deny' || value === 'warn' || value === 'allow',
+  requireEncryption: (value): boolean => typeof value === 'boolean',
+  allowedNexonIds: (value): boolean => value === null || isStringArray(value),
+  blockedNexonIds: (value): boolean => isStringArray(value),
+  maxStagesPerChannel: (value): boolean => typeof value === 'number' && value > 0,
+  requireDocumentation: (value): boolean => typeof value === 'boolean',
+  allowedRuntimeTargets: (value): boolean => isStringArray(value),
+  deniedCapabilities: (value): boolean => isStringArray(value) && value.every(isNexonCapability),
+  undeclaredCapabilities: (value): boolean => value === 'deny' || value === 'warn' || value === 'allow',
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isMissingFile(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+export type PolicySettings = OrgSecurityPolicy['policies'];
+
+/**
+ * Named, versioned policy-as-code profile (e.g. `profiles/hipaa-strict.yaml`)
+ */
+export interface PolicyProfile {
+  name: string;
+  version: string;
+  description?: string;
+  policies: Partial<PolicySettings>;
+}
+
+/**
+ * Persisted org policy document (`orgs/<orgId>.json`). `version` is bumped on every save.
+ */
+export interface StoredOrgPolicy {
+  orgId: string;
+  version: number;
+  profile?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  policies: Partial<PolicySettings>;
+}
+
+export interface AppliedPolicy {
+  orgId: string;
+  orgPolicyVersion: number | null;
+  profile: { name: string; version: string } | null;
+}
+
+/**
+ * File-backed store for org policies, policy profiles and custom rule sets:
+ *
+ *   <root>/profiles/<name>.yaml|.yml|.json
+ *   <root>/rules/<name>.yaml|.yml|.json
+ *   <root>/orgs/<orgId>.json            (current document)
+ *   <root>/orgs/<orgId>.v<N>.json       (previous versions)
+ */
+export class PolicyStoreService {
+  private readonly _rootPath: string;
+
+  constructor(rootPath?: string) {
+    this._rootPath = rootPath ?? process.env['POLICY_STORE_PATH'] ?? './policies';
+  }
+
+  /**
+   * Load a named policy profile, failing when it does not exist or is malformed
+   */
+  async getProfile(name: string): Promise<PolicyProfile> {
+    const document = await this._readDocument('profiles', name);
+    if (!document) {
+      throw new Error(`Policy profile "${name}" not found`);
+    }
+    return this._parseProfile(name, document);
+  }
+
+  async listProfiles(): Promise<PolicyProfile[]> {
+    const names = await this._listDocuments('profiles');
+    return await Promise.all(names.map(async (name) => await this.getProfile(name)));
+  }
+
+  /**
+   * Load every custom rule set, failing on malformed rules so they are never silently skipped
+   */
+  async listRuleSets(): Promise<PolicyRuleSet[]> {
+    const names = await this._listDocuments('rules');
+    return await Promise.all(names.map(async (name) => {
+      const document = await this._readDocument('rules', name);
+      if (!document) {
+        throw new Error(`Policy rule set "${name}" not found`);
+      }
+      return parseRuleSet(name, document);
+    }));
+  }
+
+  /**
+   * Load the current policy document of an org, or null when the org has none
+   */
+  async getOrgPolicy(orgId: string): Promise<StoredOrgPolicy | null> {
+    const document = await this._readDocument('orgs', orgId);
+    return document ? this._parseOrgPolicy(orgId, document) : null;
+  }
+
+  /**
+   * Persist a new version of an org policy, keeping the previous version alongside it
+   */
+  async saveOrgPolicy(
+    orgId: string,
+    update: { policies: Partial<PolicySettings>; profile?: string; updatedBy?: string }
+  ): Promise<StoredOrgPolicy> {
+    const current = await this.getOrgPolicy(orgId);
+    const next = this._parseOrgPolicy(orgId, {
+      ...update,
+      orgId,
+      version: (current?.version ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    });
+
+    const orgsPath = join(this._rootPath, 'orgs');
+    const documentPath = join(orgsPath, `${orgId}.json`);
+    await mkdir(orgsPath, { recursive: true });
+
+    if (current) {
+      await copyFile(documentPath, join(orgsPath, `${orgId}.v${current.version}.json`));
+    }
+
+    const temporaryPath = `${documentPath}.tmp`;
+    await writeFile(temporaryPath, `${JSON.stringify(next, null, 2)}\n`, 'utf8');
+    await rename(temporaryPath, documentPath);
+
+    return next;
+  }
+
+  private async _readDocument(kind: PolicyDocumentKind, name: string): Promise<Record<string, unknown> | null> {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid policy document name "${name}"`);
+    }
+
+    for (const extension of DOCUMENT_EXTENSIONS) {
+      const path = join(this._rootPath, kind, `${name}${extension}`);
+      let content: string;
+      try {
+        content = await readFile(path, 'utf8');
+      } catch (error: unknown) {
+        if (isMissingFile(error)) {
+          continue;
+        }
+        throw error;
+      }
+
+      const document: unknown = extension === '.json' ? JSON.parse(content) : parseYaml(content);
+      if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        throw new Error(`Policy document ${path} must be an object`);
+      }
+      return document as Record<string, unknown>;
+    }
+
+    return null;
+  }
+
+  private async _listDocuments(kind: PolicyDocumentKind): Promise<string[]> {
+    try {
+      const files = await readdir(join(this._rootPath, kind));
+      return files
+        .filter((file) => DOCUMENT_EXTENSIONS.includes(extname(file)))
+        .map((file) => file.slice(0, -extname(file).length))
+        .sort();
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private _parseProfile(name: string, document: Record<string, unknown>): PolicyProfile {
+    const version = document['version'];
+    if (typeof version !== 'string' && typeof version !== 'number') {
+      throw new Error(`Policy profile "${name}" must declare a version`);
+    }
+
+    const profile: PolicyProfile = {
+      name,
+      version: String(version),
+      policies: this._parseSettings(`Policy profile "${name}"`, document['policies']),
+    };
+    if (typeof document['description'] === 'string') {
+      profile.description = document['description'];
+    }
+    return profile;
+  }
+
+  private _parseOrgPolicy(orgId: string, document: Record<string, unknown>): StoredOrgPolicy {
+    const version = document['version'];
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new Error(`Org policy "${orgId}" must have a positive integer version`);
+    }
+
+    const policy: StoredOrgPolicy = {
+      orgId,
+      version,
+      policies: this._parseSettings(`Org policy "${orgId}"`, document['policies']),
+    };
+    for (const field of ['profile', 'updatedAt', 'updatedBy'] as const) {
+      const value = document[field];
+      if (typeof value === 'string') {
+        policy[field] = value;
+      }
+    }
+    return policy;
+  }
+
+  private _parseSettings(label: string, value: unknown): Partial<PolicySettings> {
+    if (value === undefined) {
+      return {};
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`${label}: "policies" must be an object`);
+    }
+
+    for (const [key, setting] of Object.entries(value)) {
+      const isValid = SETTING_TYPES[key as keyof PolicySettings] as ((value: unknown) => boolean) | undefined;
+      if (!isValid) {
+        throw new Error(`${label}: unknown policy setting "${key}"`);
+      }
+      if (!isValid(setting)) {
+        throw new Error(`${label}: invalid value for "${key}"`);
+      }
+    }
+
+    return value as Partial<PolicySettings>;
+  }
+}
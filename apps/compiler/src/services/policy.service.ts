@@ -1,5 +1,10 @@
 import type { ChannelIR, RuntimeTarget } from '@gapjunction/ir-schema';
 
+import type { CapabilityPolicyService, ChannelCapabilities } from './capability-policy.service.js';
+import type { CustomPolicyRule, CustomPolicyRuleService } from './custom-policy-rule.service.js';
+import type { AppliedPolicy, PolicyStoreService } from './policy-store.service.js';
+import type { SecurityAckService } from './security-ack.service.js';
+
 export interface PolicyRule {
   id: string;
   name: string;
@@ -17,6 +22,9 @@ export interface PolicyViolation {
   stageId?: string;
   suggestion?: string;
   acknowledged?: boolean;
+  // Hash of the IR the violation depends on; acknowledgments are bound to it
+  contentHash?: string;
+  acknowledgementId?: string;
 }
 
 export interface PolicyLintResult {
@@ -27,6 +35,13 @@ export interface PolicyLintResult {
     warnings: number;
     info: number;
   };
+  appliedPolicy?: AppliedPolicy;
+  capabilities?: ChannelCapabilities;
+}
+
+export interface PolicyLintOptions {
+  // Lint without recording anything, e.g. acks invalidated by changed content
+  readOnly?: boolean;
 }
 
 export interface OrgSecurityPolicy {
@@ -40,14 +55,21 @@ export interface OrgSecurityPolicy {
     maxStagesPerChannel: number;
     requireDocumentation: boolean;
     allowedRuntimeTargets: RuntimeTarget[];
+    deniedCapabilities: string[]; // e.g. 'network.tcpIn', 'filesystem.write'
+    undeclaredCapabilities: 'deny' | 'warn' | 'allow';
   };
 }
 
 export class PolicyService {
   private readonly _defaultOrgPolicy: OrgSecurityPolicy;
 
-  constructor() {
-    // Default security policy - can be overridden by org-specific policies
+  constructor(
+    private readonly _policyStore: PolicyStoreService,
+    private readonly _capabilityPolicyService: CapabilityPolicyService,
+    private readonly _customPolicyRuleService: CustomPolicyRuleService,
+    private readonly _securityAckService: SecurityAckService
+  ) {
+    // Default security policy - overridden by the selected profile, then by the org's stored policy
    this._defaultOrgPolicy = {
       orgId: 'default',
       policies: {
@@ -59,6 +81,8 @@ export class PolicyService {
         maxStagesPerChannel: 50,
         requireDocumentation: false,
         allowedRuntimeTargets: ['onprem', 'cloud'],
+        deniedCapabilities: [],
+        undeclaredCapabilities: 'warn',
       },
     };
   }
@@ -69,18 +93,23 @@ export class PolicyService {
   async lintChannel(
     channel: ChannelIR,
     orgId?: string,
-    acknowledgedViolations: string[] = []
+    policyProfile?: string,
+    options: PolicyLintOptions = {}
   ): Promise<PolicyLintResult> {
-   // logger.info('Starting policy lint', { channelId: channel.channelId, orgId, acknowledgedCount: acknowledgedViolations.length });
+   // logger.info('Starting policy lint', { channelId: channel.channelId, orgId });
 
-    const orgPolicy = await this._getOrgPolicy(orgId);
+    const { policy: orgPolicy, appliedPolicy } = await this.resolveOrgPolicy(orgId, policyProfile);
     const violations: PolicyViolation[] = [];
 
     // Security policy checks
     violations.push(...this._checkSecurityPolicies(channel, orgPolicy));
     
-    // Nexon capability checks
+    // Nexon allow/block list checks
     violations.push(...this._checkNexonCapabilities(channel, orgPolicy));
+
+    // Capabilities declared by the stages' manifests
+    const capabilities = await this._capabilityPolicyService.collectCapabilities(channel);
+    violations.push(...this._capabilityPolicyService.checkCapabilities(channel, capabilities, orgPolicy));
     
     // Runtime target checks
     violations.push(...this._checkRuntimeTarget(channel, orgPolicy));
@@ -91,10 +120,13 @@ export class PolicyService {
     // Compliance checks
     violations.push(...this._checkCompliance(channel, orgPolicy));
 
-    // Mark acknowledged violations
-    violations.forEach(violation => {
-      violation.acknowledged = acknowledgedViolations.includes(violation.ruleId);
-    });
+    // Custom rules from the policy store
+    const customRules = await this._customPolicyRuleService.loadRules();
+    this._assertNoBuiltInRuleIds(customRules);
+    violations.push(...this._customPolicyRuleService.evaluate(channel, customRules));
+
+    // Mark violations covered by a stored acknowledgment of the same content
+    await this._securityAckService.applyAcknowledgements(channel, violations, options);
 
     const summary = this._calculateSummary(violations);
     const passed = summary.errors === 0;
@@ -105,6 +137,37 @@ export class PolicyService {
       passed,
       violations,
       summary,
+      appliedPolicy,
+      capabilities,
+    };
+  }
+
+  /**
+   * Build the effective policy for an org: defaults, then the profile (requested or the org's
+   * default profile), then the org's own stored settings. Reports the versions that were applied.
+   */
+  async resolveOrgPolicy(
+    orgId = this._defaultOrgPolicy.orgId,
+    policyProfile?: string
+  ): Promise<{ policy: OrgSecurityPolicy; appliedPolicy: AppliedPolicy }> {
+    const storedPolicy = await this._policyStore.getOrgPolicy(orgId);
+    const profileName = policyProfile ?? storedPolicy?.profile;
+    const profile = profileName ? await this._policyStore.getProfile(profileName) : null;
+
+    return {
+      policy: {
+        orgId,
+        policies: {
+          ...this._defaultOrgPolicy.policies,
+          ...profile?.policies,
+          ...storedPolicy?.policies,
+        },
+      },
+      appliedPolicy: {
+        orgId,
+        orgPolicyVersion: storedPolicy?.version ?? null,
+        profile: profile ? { name: profile.name, version: profile.version } : null,
+      },
     };
   }
 
@@ -322,15 +385,15 @@ export class PolicyService {
   }
 
   /**
-   * Get organization-specific policy (placeholder for future implementation)
+   * Custom rules must not shadow built-in rules, otherwise acknowledgments would cover both
    */
-    private async _getOrgPolicy(_orgId?: string): Promise<OrgSecurityPolicy> {
-      // In a real implementation, this would fetch from a database or config service
-      // For now, return the default policy
-      // logger.info('Using default org policy', { orgId });
-      await Promise.resolve(); // Satisfy require-await rule
-      return this._defaultOrgPolicy;
+  private _assertNoBuiltInRuleIds(customRules: CustomPolicyRule[]): void {
+    const builtInIds = new Set(this.getPolicyRules().map(rule => rule.id));
+    const clash = customRules.find(rule => builtInIds.has(rule.id));
+    if (clash) {
+      throw new Error(`Policy rule "${clash.id}" (${clash.source}) reuses the id of a built-in rule`);
     }
+  }
 
   /**
    * Convert policy setting to severity level
@@ -368,6 +431,7 @@ export class PolicyService {
    */
   getPolicyRules(): PolicyRule[] {
     return [
+      ...this._capabilityPolicyService.getPolicyRules(),
       {
         id: 'SEC001',
         name: 'Internet HTTP Access',
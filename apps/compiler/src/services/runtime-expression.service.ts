@@ -0,0 +1,224 @@
+/**
+ * Runtime expressions are JSONPath-style ExpressionTokens (`{ "expression": "$.payload.mrn" }`).
+ * They are validated at compile time and translated to JSONata, which Node-RED evaluates
+ * against `msg` at runtime (change node rules and other `jsonata` typed properties).
+ */
+
+type JsonPathSegment =
+  | { kind: 'property'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+interface RuntimeExpression {
+  param: string;
+  expression: string;
+  jsonata: string;
+}
+
+interface RuntimeExpressionCompileResult {
+  expressions: RuntimeExpression[];
+  errors: Array<{ param: string; message: string }>;
+}
+
+const ROOT = '$';
+const JSONATA_NAME_PATTERN = /^[A-Za-z_][\w]*$/;
+const DOT_NAME_PATTERN = /[A-Za-z_$][\w$-]*/y;
+const INDEX_PATTERN = /-?\d+/y;
+
+function isExpressionToken(value: unknown): value is { expression: string } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>)['expression'] === 'string';
+}
+
+/**
+ * Parses the supported JSONPath subset: `$`, `.name`, `['name']`, `[0]`, `[-1]`, `.*` and `[*]`
+ */
+class JsonPathParser {
+  private _index = 0;
+
+  constructor(private readonly _source: string) {}
+
+  parse(): JsonPathSegment[] {
+    if (!this._source.startsWith(ROOT)) {
+      throw new Error('must start with "$"');
+    }
+    this._index = ROOT.length;
+
+    const segments: JsonPathSegment[] = [];
+    while (this._index < this._source.length) {
+      segments.push(this._parseSegment());
+    }
+    return segments;
+  }
+
+  private _parseSegment(): JsonPathSegment {
+    const char = this._source.charAt(this._index);
+
+    if (char === '.') {
+      this._index++;
+      if (this._source.charAt(this._index) === '.') {
+        throw new Error(`recursive descent ".." at position ${this._index - 1} is not supported`);
+      }
+      return this._parseDotSegment();
+    }
+    if (char === '[') {
+      this._index++;
+      return this._parseBracketSegment();
+    }
+
+    throw new Error(`unexpected "${char}" at position ${this._index}`);
+  }
+
+  private _parseDotSegment(): JsonPathSegment {
+    if (this._source.charAt(this._index) === '*') {
+      this._index++;
+      return { kind: 'wildcard' };
+    }
+
+    const name = this._match(DOT_NAME_PATTERN);
+    if (!name) {
+      throw new Error(`expected a property name at position ${this._index}`);
+    }
+    return { kind: 'property', name };
+  }
+
+  private _parseBracketSegment(): JsonPathSegment {
+    const char = this._source.charAt(this._index);
+    let segment: JsonPathSegment;
+
+    if (char === '*') {
+      this._index++;
+      segment = { kind: 'wildcard' };
+    } else if (char === "'" || char === '"') {
+      segment = { kind: 'property', name: this._parseQuoted(char) };
+    } else {
+      const index = this._match(INDEX_PATTERN);
+      if (!index) {
+        throw new Error(`unsupported selector at position ${this._index}; filters and slices are not supported`);
+      }
+      segment = { kind: 'index', index: Number(index) };
+    }
+
+    if (this._source.charAt(this._index) !== ']') {
+      throw new Error(`expected "]" at position ${this._index}`);
+    }
+    this._index++;
+    return segment;
+  }
+
+  private _parseQuoted(quote: string): string {
+    const start = this._index;
+    const end = this._source.indexOf(quote, start + 1);
+    if (end === -1) {
+      throw new Error(`unterminated string at position ${start}`);
+    }
+    this._index = end + 1;
+    return this._source.slice(start + 1, end);
+  }
+
+  private _match(pattern: RegExp): string | null {
+    pattern.lastIndex = this._index;
+    const match = pattern.exec(this._source)?.[0] ?? null;
+    if (match) {
+      this._index += match.length;
+    }
+    return match;
+  }
+}
+
+class RuntimeExpressionService {
+  /**
+   * Parse and validate a JSONPath expression, throwing on invalid syntax
+   */
+  parse(expression: string): JsonPathSegment[] {
+    try {
+      return new JsonPathParser(expression.trim()).parse();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid expression "${expression}": ${message}`);
+    }
+  }
+
+  /**
+   * Translate a JSONPath expression into the equivalent JSONata path evaluated against `msg`
+   */
+  toJsonata(expression: string): string {
+    const parts: string[] = [];
+
+    for (const segment of this.parse(expression)) {
+      if (segment.kind === 'index') {
+        const previous = parts.pop() ?? ROOT;
+        parts.push(`${previous}[${segment.index}]`);
+      } else {
+        parts.push(segment.kind === 'wildcard' ? '*' : this._jsonataName(segment.name));
+      }
+    }
+
+    return parts.length > 0 ? parts.join('.') : ROOT;
+  }
+
+  /**
+   * Find and compile every expression token in a parameter set (including nested values)
+   */
+  compileExpressions(params: Record<string, unknown>): RuntimeExpressionCompileResult {
+    const result: RuntimeExpressionCompileResult = { expressions: [], errors: [] };
+
+    for (const [param, value] of Object.entries(params)) {
+      this._collect(param, value, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace expression tokens with their JSONata source so templates can place them in JSONata properties
+   */
+  replaceWithJsonata(value: unknown): unknown {
+    if (isExpressionToken(value)) {
+      return this.toJsonata(value.expression);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.replaceWithJsonata(item));
+    }
+    if (value && typeof value === 'object' && !('secret' in value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.replaceWithJsonata(item)])
+      );
+    }
+    return value;
+  }
+
+  private _collect(param: string, value: unknown, result: RuntimeExpressionCompileResult): void {
+    if (isExpressionToken(value)) {
+      try {
+        result.expressions.push({ param, expression: value.expression, jsonata: this.toJsonata(value.expression) });
+      } catch (error: unknown) {
+        result.errors.push({ param, message: error instanceof Error ? error.message : String(error) });
+      }
+      return;
+    }
+
+    if (value && typeof value === 'object' && !('secret' in value)) {
+      for (const [key, item] of Object.entries(value)) {
+        this._collect(this._childPath(param, key, Array.isArray(value)), item, result);
+      }
+    }
+  }
+
+  /**
+   * Build a Node-RED property path for a nested parameter value
+   */
+  private _childPath(parent: string, key: string, isIndex: boolean): string {
+    if (isIndex) {
+      return `${parent}[${key}]`;
+    }
+    return JSONATA_NAME_PATTERN.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+  }
+
+  private _jsonataName(name: string): string {
+    return JSONATA_NAME_PATTERN.test(name) ? name : `\`${name}\``;
+  }
+}
+
+export type { JsonPathSegment, RuntimeExpression, RuntimeExpressionCompileResult };
+export { RuntimeExpressionService, isExpressionToken };
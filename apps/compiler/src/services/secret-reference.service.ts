@@ -0,0 +1,120 @@
+import type { ChannelIR } from '@gapjunction/ir-schema';
+
+/**
+ * Secrets never appear in compiled artifacts. Each secret reference in stage params is
+ * assigned an environment variable; flows only contain `${GJ_SECRET_*}` references and
+ * the agent supplies the values at runtime (child process env or Node-RED's encrypted
+ * credentials file).
+ */
+
+interface SecretReferenceEntry {
+  type: 'secretRef';
+  ref: string;
+  envVar: string;
+}
+
+// nodeId -> credential field -> value (usually an env reference)
+type NodeCredentials = Record<string, Record<string, string>>;
+
+const ENV_VAR_PREFIX = 'GJ_SECRET_';
+
+function isSecretToken(value: unknown): value is { secret: { ref: string } } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'secret' in value;
+}
+
+class SecretReferenceService {
+  /**
+   * Deterministic environment variable name for a secret parameter of a stage
+   */
+  envVarName(stageId: string, paramPath: string): string {
+    return `${ENV_VAR_PREFIX}${`${stageId}.${paramPath}`.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  }
+
+  /**
+   * Node-RED environment reference for a variable
+   */
+  envReference(envVar: string): string {
+    return `\${${envVar}}`;
+  }
+
+  /**
+   * Replace secret tokens in stage params with env references, so templates can only see references
+   */
+  replaceWithEnvReferences(stageId: string, value: unknown, path = ''): unknown {
+    if (isSecretToken(value)) {
+      return this.envReference(this.envVarName(stageId, path));
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.replaceWithEnvReferences(stageId, item, `${path}.${index}`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.replaceWithEnvReferences(stageId, item, path ? `${path}.${key}` : key),
+        ])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Collect every secret reference in a channel, keyed by `<stageId>.<paramPath>`
+   */
+  collectSecretReferences(channel: ChannelIR): Record<string, SecretReferenceEntry> {
+    const references: Record<string, SecretReferenceEntry> = {};
+
+    for (const stage of channel.stages) {
+      this._collect(stage.id, stage.params ?? {}, '', references);
+    }
+
+    return references;
+  }
+
+  /**
+   * Move Node-RED `credentials` blocks out of flow nodes.
+   * Credentials are delivered separately so Node-RED stores them encrypted with the runtime credSecret.
+   */
+  extractNodeCredentials(nodes: Array<Record<string, unknown>>): NodeCredentials {
+    const credentials: NodeCredentials = {};
+
+    for (const node of nodes) {
+      const block = node['credentials'];
+      if (!block || typeof block !== 'object') {
+        continue;
+      }
+
+      credentials[String(node['id'])] = Object.fromEntries(
+        Object.entries(block).map(([field, value]) => [field, typeof value === 'string' ? value : JSON.stringify(value)])
+      );
+      delete node['credentials'];
+    }
+
+    return credentials;
+  }
+
+  private _collect(
+    stageId: string,
+    value: unknown,
+    path: string,
+    references: Record<string, SecretReferenceEntry>,
+  ): void {
+    if (isSecretToken(value)) {
+      references[`${stageId}.${path}`] = {
+        type: 'secretRef',
+        ref: value.secret.ref,
+        envVar: this.envVarName(stageId, path),
+      };
+      return;
+    }
+
+    if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        this._collect(stageId, item, path ? `${path}.${key}` : key, references);
+      }
+    }
+  }
+}
+
+export type { NodeCredentials, SecretReferenceEntry };
+export { SecretReferenceService, isSecretToken };
@@ -0,0 +1,297 @@
+import { mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { ulid } from 'ulid';
+
+import type { ChannelIR, Stage } from '@gapjunction/ir-schema';
+
+import type { HashingService } from './hashing.service.js';
+import type { PolicyViolation } from './policy.service.js';
+
+/**
+ * Security acknowledgments accept one policy violation for one piece of channel content.
+ *
+ * An ack is keyed by channel, rule, stage (null for channel-wide violations) and the hash of
+ * the IR the violation was raised on: the stage plus the channel's runtime and security intent
+ * for stage violations, the whole channel graph otherwise. When that content changes the ack
+ * no longer applies and is marked invalidated. Acks are never deleted so auditors can query them.
+ */
+
+interface SecurityAck {
+  id: string;
+  channelId: string;
+  ruleId: string;
+  stageId: string | null;
+  contentHash: string;
+  acknowledgedBy: string;
+  reason: string;
+  acknowledgedAt: string;
+  expiresAt: string | null;
+  invalidatedAt?: string;
+  invalidatedByHash?: string;
+}
+
+type SecurityAckStatus = 'active' | 'expired' | 'invalidated';
+
+interface SecurityAckRecord extends SecurityAck {
+  status: SecurityAckStatus;
+}
+
+interface SecurityAckRequest {
+  channelId: string;
+  userId: string;
+  reason: string;
+  expiresAt?: string;
+  violations: Array<{ ruleId: string; stageId?: string; contentHash: string }>;
+}
+
+interface SecurityAckResult {
+  success: boolean;
+  acknowledgements: SecurityAck[];
+  message: string;
+}
+
+interface SecurityAckQuery {
+  channelId?: string;
+  ruleId?: string;
+  stageId?: string;
+  acknowledgedBy?: string;
+  status?: SecurityAckStatus;
+}
+
+interface SecurityAckDocument {
+  channelId: string;
+  acks: SecurityAck[];
+}
+
+const CONTENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+const DOCUMENT_EXTENSION = '.json';
+
+function isMissingFile(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+// Stage fields that affect compiled output; titles, descriptions and positions are editor-only
+function stageContent(stage: Stage): Record<string, unknown> {
+  return {
+    id: stage.id,
+    nexonId: stage.nexonId,
+    nexonVersion: stage.nexonVersion,
+    params: stage.params ?? {},
+    continuation: stage.continuation,
+  };
+}
+
+class SecurityAckService {
+  private readonly _rootPath: string;
+  private readonly _writes = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly _hashingService: HashingService,
+    rootPath?: string
+  ) {
+    this._rootPath = rootPath ?? process.env['SECURITY_ACK_STORE_PATH'] ?? './data/security-acks';
+  }
+
+  /**
+   * Hash of the part of the channel a violation depends on
+   */
+  contentHash(channel: ChannelIR, stageId?: string): string {
+    const context = { runtime: channel.runtime, security: channel.security ?? {} };
+
+    if (stageId) {
+      const stage = channel.stages.find((candidate) => candidate.id === stageId);
+      return this._hashingService.computeCanonicalHash({ ...context, stage: stage ? stageContent(stage) : null });
+    }
+
+    const edgeKey = (edge: { from: unknown; to: unknown }): string => this._hashingService.canonicalJson(edge);
+    return this._hashingService.computeCanonicalHash({
+      ...context,
+      stages: [...channel.stages].sort((left, right) => (left.id < right.id ? -1 : 1)).map(stageContent),
+      edges: channel.edges
+        .map((edge) => ({ from: edge.from, to: edge.to }))
+        .sort((left, right) => (edgeKey(left) < edgeKey(right) ? -1 : 1)),
+      metadata: channel.metadata ?? {},
+    });
+  }
+
+  /**
+   * Record acknowledgments for violations of a channel
+   */
+  async acknowledge(request: SecurityAckRequest): Promise<SecurityAckResult> {
+    const reason = request.reason.trim();
+    if (!reason) {
+      throw new Error('Security acknowledgment requires a reason');
+    }
+
+    const expiresAt = request.expiresAt ? new Date(request.expiresAt) : null;
+    if (expiresAt && (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now())) {
+      throw new Error(`Invalid expiry "${request.expiresAt ?? ''}": must be a future ISO date`);
+    }
+
+    for (const violation of request.violations) {
+      if (!CONTENT_HASH_PATTERN.test(violation.contentHash)) {
+        throw new Error(`Invalid content hash for rule "${violation.ruleId}"`);
+      }
+    }
+
+    const acknowledgedAt = new Date().toISOString();
+    const acknowledgements: SecurityAck[] = request.violations.map((violation) => ({
+      id: ulid(),
+      channelId: request.channelId,
+      ruleId: violation.ruleId,
+      stageId: violation.stageId ?? null,
+      contentHash: violation.contentHash,
+      acknowledgedBy: request.userId,
+      reason,
+      acknowledgedAt,
+      expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    }));
+
+    await this._updateDocument(request.channelId, (acks) => [...acks, ...acknowledgements]);
+
+    return {
+      success: true,
+      acknowledgements,
+      message: `Successfully acknowledged ${acknowledgements.length} policy violations`,
+    };
+  }
+
+  /**
+   * Attach content hashes to violations and mark those covered by an active ack.
+   * Acks for the same rule and stage whose content hash no longer matches are invalidated,
+   * unless `readOnly` is set (previews), in which case they only stop covering the violation.
+   */
+  async applyAcknowledgements(
+    channel: ChannelIR,
+    violations: PolicyViolation[],
+    options: { readOnly?: boolean } = {}
+  ): Promise<void> {
+    const acks = await this._readAcks(channel.channelId);
+    const now = new Date();
+    const invalidated = new Map<string, string>();
+
+    for (const violation of violations) {
+      const stageId = violation.stageId ?? null;
+      violation.contentHash = this.contentHash(channel, violation.stageId);
+      violation.acknowledged = false;
+
+      for (const ack of acks) {
+        if (ack.ruleId !== violation.ruleId || ack.stageId !== stageId || this._status(ack, now) !== 'active') {
+          continue;
+        }
+        if (ack.contentHash === violation.contentHash) {
+          violation.acknowledged = true;
+          violation.acknowledgementId = ack.id;
+        } else {
+          invalidated.set(ack.id, violation.contentHash);
+        }
+      }
+    }
+
+    if (invalidated.size > 0 && !options.readOnly) {
+      const invalidatedAt = now.toISOString();
+      await this._updateDocument(channel.channelId, (current) => current.map((ack) => {
+        const hash = invalidated.get(ack.id);
+        return hash && !ack.invalidatedAt ? { ...ack, invalidatedAt, invalidatedByHash: hash } : ack;
+      }));
+    }
+  }
+
+  /**
+   * Audit query over all recorded acknowledgments, newest first
+   */
+  async listAcknowledgements(query: SecurityAckQuery = {}): Promise<SecurityAckRecord[]> {
+    const channelIds = query.channelId ? [query.channelId] : await this._listChannels();
+    const now = new Date();
+    const records: SecurityAckRecord[] = [];
+
+    for (const channelId of channelIds) {
+      for (const ack of await this._readAcks(channelId)) {
+        const record = { ...ack, status: this._status(ack, now) };
+        if (
+          (!query.ruleId || record.ruleId === query.ruleId) &&
+          (!query.stageId || record.stageId === query.stageId) &&
+          (!query.acknowledgedBy || record.acknowledgedBy === query.acknowledgedBy) &&
+          (!query.status || record.status === query.status)
+        ) {
+          records.push(record);
+        }
+      }
+    }
+
+    return records.sort((left, right) => right.acknowledgedAt.localeCompare(left.acknowledgedAt));
+  }
+
+  private _status(ack: SecurityAck, now: Date): SecurityAckStatus {
+    if (ack.invalidatedAt) {
+      return 'invalidated';
+    }
+    return ack.expiresAt && new Date(ack.expiresAt) <= now ? 'expired' : 'active';
+  }
+
+  private _documentPath(channelId: string): string {
+    return join(this._rootPath, `${encodeURIComponent(channelId)}${DOCUMENT_EXTENSION}`);
+  }
+
+  private async _readAcks(channelId: string): Promise<SecurityAck[]> {
+    try {
+      const document = JSON.parse(await readFile(this._documentPath(channelId), 'utf8')) as SecurityAckDocument;
+      return document.acks;
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async _listChannels(): Promise<string[]> {
+    try {
+      const files = await readdir(this._rootPath);
+      return files
+        .filter((file) => file.endsWith(DOCUMENT_EXTENSION))
+        .map((file) => decodeURIComponent(file.slice(0, -DOCUMENT_EXTENSION.length)));
+    } catch (error: unknown) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write of a channel's ack document; writes to the same channel are serialized
+   */
+  private async _updateDocument(channelId: string, update: (acks: SecurityAck[]) => SecurityAck[]): Promise<void> {
+    const documentPath = this._documentPath(channelId);
+    const previous = this._writes.get(channelId) ?? Promise.resolve();
+
+    const write = previous.catch(() => undefined).then(async () => {
+      const document: SecurityAckDocument = { channelId, acks: update(await this._readAcks(channelId)) };
+      await mkdir(this._rootPath, { recursive: true });
+      const temporaryPath = `${documentPath}.tmp`;
+      await writeFile(temporaryPath, `${JSON.stringify(document, null, 2)}\n`, 'utf8');
+      await rename(temporaryPath, documentPath);
+    });
+
+    this._writes.set(channelId, write);
+    try {
+      await write;
+    } finally {
+      if (this._writes.get(channelId) === write) {
+        this._writes.delete(channelId);
+      }
+    }
+  }
+}
+
+export type {
+  SecurityAck,
+  SecurityAckQuery,
+  SecurityAckRecord,
+  SecurityAckRequest,
+  SecurityAckResult,
+  SecurityAckStatus,
+};
+export { SecurityAckService };
@@ -0,0 +1,115 @@
+import type { Stage } from '@gapjunction/ir-schema';
+
+import type { StageNodes } from './artifacts.service.js';
+import type { HashingService } from './hashing.service.js';
+import type { NexonTemplate } from './nexon-template.service.js';
+
+/**
+ * In-memory cache of the Node-RED nodes generated for a stage, so recompiles only regenerate
+ * stages whose inputs changed. Entries are keyed by everything stage generation reads:
+ *
+ *   - nexon id/version and the hash of the template content (template + manifest)
+ *   - the stage id, title, position and normalized params
+ *   - the channel context exposed to templates (channel id/title, flow tab, runtime target)
+ *
+ * Templates cannot read the build id, so unchanged stages hit across builds.
+ * Least recently used entries are evicted beyond `maxEntries`.
+ */
+
+interface StageCacheContext {
+  channelId: string;
+  channelTitle: string;
+  flowTabId: string;
+  target: string;
+}
+
+interface StageCacheStats {
+  hits: number;
+  misses: number;
+  // Stages whose nodes were reused from a previous build
+  hitStageIds: string[];
+}
+
+const DEFAULT_MAX_ENTRIES = 2000;
+
+class StageArtifactCacheService {
+  private readonly _maxEntries: number;
+  private readonly _entries = new Map<string, StageNodes>();
+  // Templates are cached by NexonTemplateService, so the same object is hashed once
+  private readonly _templateHashes = new WeakMap<NexonTemplate, string>();
+
+  constructor(
+    private readonly _hashingService: HashingService,
+    maxEntries?: number
+  ) {
+    const configured = Number(process.env['STAGE_CACHE_MAX_ENTRIES']);
+    this._maxEntries = maxEntries ?? (Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_ENTRIES);
+  }
+
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Cache key of a stage's generated nodes
+   */
+  key(stage: Stage, template: NexonTemplate, context: StageCacheContext): string {
+    return this._hashingService.computeCanonicalHash({
+      nexonId: stage.nexonId,
+      nexonVersion: stage.nexonVersion,
+      templateHash: this._templateHash(template),
+      stage: { id: stage.id, title: stage.title, position: stage.position, params: stage.params ?? {} },
+      context,
+    });
+  }
+
+  /**
+   * Copy of the cached nodes; callers are free to mutate it (wiring appends to `wires`)
+   */
+  get(key: string): StageNodes | undefined {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    return JSON.parse(JSON.stringify(entry)) as StageNodes;
+  }
+
+  set(key: string, stageNodes: StageNodes): void {
+    if (this._maxEntries === 0) {
+      return;
+    }
+
+    this._entries.delete(key);
+    // Generated nodes end up in flows.json, so a JSON round trip copies them faithfully
+    this._entries.set(key, JSON.parse(JSON.stringify(stageNodes)) as StageNodes);
+
+    for (const oldest of this._entries.keys()) {
+      if (this._entries.size <= this._maxEntries) {
+        break;
+      }
+      this._entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this._entries.clear();
+  }
+
+  private _templateHash(template: NexonTemplate): string {
+    let hash = this._templateHashes.get(template);
+    if (hash === undefined) {
+      hash = this._hashingService.computeHash(
+        this._hashingService.canonicalJson({ manifest: template.manifest, template: template.template })
+      );
+      this._templateHashes.set(template, hash);
+    }
+    return hash;
+  }
+}
+
+export type { StageCacheContext, StageCacheStats };
+export { StageArtifactCacheService };
@@ -0,0 +1,134 @@
+import type { ChannelIR, Edge, Stage } from '@gapjunction/ir-schema';
+
+import type { NexonManifest, NexonTemplateService } from './nexon-template.service.js';
+
+/**
+ * A resolved connection point of a stage.
+ * `nodeId` is the template-local node id, or null when the template declares no node for the port.
+ */
+interface ResolvedPort {
+  name: string | null;
+  nodeId: string | null;
+  output: number;
+}
+
+interface PortValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+type PortKind = 'outlet' | 'inlet';
+
+class StagePortService {
+  constructor(private readonly _nexonTemplateService: NexonTemplateService) {}
+
+  /**
+   * Resolve the outlet an edge leaves a stage from.
+   * Falls back to the stage's continuation outlet, then the manifest's default outlet.
+   */
+  resolveOutlet(stage: Stage, manifest: NexonManifest | null, outlet?: string): ResolvedPort {
+    const name = outlet ?? stage.continuation?.outlet;
+    return this._resolvePort(stage, 'outlet', manifest, name);
+  }
+
+  /**
+   * Resolve the inlet an edge enters a stage through, defaulting to the manifest's default inlet
+   */
+  resolveInlet(stage: Stage, manifest: NexonManifest | null, inlet?: string): ResolvedPort {
+    return this._resolvePort(stage, 'inlet', manifest, inlet);
+  }
+
+  /**
+   * Check that every edge references outlets and inlets declared by the stages' manifests
+   */
+  async validateChannelPorts(channel: ChannelIR): Promise<PortValidationResult> {
+    const errors: string[] = [];
+    const stages = new Map(channel.stages.map((stage) => [stage.id, stage]));
+    const manifests = new Map<string, NexonManifest | null>();
+
+    for (const stage of channel.stages) {
+      manifests.set(stage.id, await this._loadManifest(stage));
+    }
+
+    for (const edge of channel.edges) {
+      errors.push(...this._validateEdge(edge, stages, manifests));
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  private _validateEdge(
+    edge: Edge,
+    stages: Map<string, Stage>,
+    manifests: Map<string, NexonManifest | null>,
+  ): string[] {
+    const errors: string[] = [];
+    const fromStage = stages.get(edge.from.stageId);
+    const toStage = stages.get(edge.to.stageId);
+
+    try {
+      if (fromStage) {
+        this.resolveOutlet(fromStage, manifests.get(fromStage.id) ?? null, edge.from.outlet);
+      }
+    } catch (error: unknown) {
+      errors.push(`Edge "${edge.id}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      if (toStage) {
+        this.resolveInlet(toStage, manifests.get(toStage.id) ?? null, edge.to.inlet);
+      }
+    } catch (error: unknown) {
+      errors.push(`Edge "${edge.id}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return errors;
+  }
+
+  private _resolvePort(
+    stage: Stage,
+    kind: PortKind,
+    manifest: NexonManifest | null,
+    name: string | undefined,
+  ): ResolvedPort {
+    const ports = kind === 'outlet' ? manifest?.continuation?.outlets : manifest?.continuation?.inlets;
+    const declared = Object.entries(ports ?? {});
+
+    // Templates without declared ports (or without a manifest) use the legacy first/last node wiring
+    if (declared.length === 0) {
+      if (name !== undefined && manifest !== null) {
+        throw new Error(`Stage "${stage.id}" (${stage.nexonId}) declares no ${kind}s, cannot use ${kind} "${name}"`);
+      }
+      return { name: name ?? null, nodeId: null, output: 0 };
+    }
+
+    const entry = name === undefined
+      ? declared.find(([, port]) => port.default === true) ?? declared[0]
+      : declared.find(([portName]) => portName === name);
+
+    if (!entry) {
+      throw new Error(
+        `Stage "${stage.id}" (${stage.nexonId}) has no ${kind} "${String(name)}"; ` +
+        `available: ${declared.map(([portName]) => portName).join(', ')}`
+      );
+    }
+
+    const [portName, port] = entry;
+    return { name: portName, nodeId: port.node ?? null, output: port.output ?? 0 };
+  }
+
+  private async _loadManifest(stage: Stage): Promise<NexonManifest | null> {
+    try {
+      const template = await this._nexonTemplateService.fetchTemplate(stage.nexonId, stage.nexonVersion);
+      return template.manifest;
+    } catch (_error: unknown) {
+      return null;
+    }
+  }
+}
+
+export type { PortValidationResult, ResolvedPort };
+export { StagePortService };
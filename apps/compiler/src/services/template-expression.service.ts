@@ -0,0 +1,632 @@
+/**
+ * Sandboxed expression language used inside nexon template placeholders.
+ *
+ * Placeholders look like `{{params.port}}` or `{{stage.title || 'TCP Listener'}}` and may be
+ * embedded anywhere inside a string. Expressions are parsed into a small AST and evaluated
+ * against an explicit scope; there is no access to globals, prototypes or arbitrary functions.
+ */
+
+type ExpressionScope = Record<string, unknown>;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'punctuator' | 'end';
+  value: string;
+  position: number;
+  end: number;
+}
+
+type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'identifier'; name: string; position: number }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { kind: 'call'; callee: string; args: ExpressionNode[] }
+  | { kind: 'unary'; operator: string; argument: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { kind: 'object'; properties: Array<{ key: string; value: ExpressionNode }> }
+  | { kind: 'array'; elements: ExpressionNode[] };
+
+type TemplateSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'expression'; source: string; ast: ExpressionNode };
+
+interface CompiledTemplate {
+  segments: TemplateSegment[];
+}
+
+const PLACEHOLDER_OPEN = '{{';
+const PLACEHOLDER_CLOSE = '}}';
+
+// Ordered longest-first so multi-character operators win over their prefixes
+const PUNCTUATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}',
+];
+
+// Lowest to highest precedence; `??` shares a level with `||`
+const BINARY_PRECEDENCE: ReadonlyArray<readonly string[]> = [
+  ['||', '??'],
+  ['&&'],
+  ['==', '!=', '===', '!=='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const UNARY_OPERATORS = ['!', '-', '+'];
+
+const KEYWORD_LITERALS = new Map<string, unknown>([
+  ['true', true],
+  ['false', false],
+  ['null', null],
+  ['undefined', undefined],
+]);
+
+const STRING_ESCAPES = new Map<string, string>([
+  ['n', '\n'],
+  ['r', '\r'],
+  ['t', '\t'],
+]);
+
+const FORBIDDEN_MEMBERS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const NUMBER_PATTERN = /\d+(?:\.\d+)?/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/y;
+const WHITESPACE_PATTERN = /\s/;
+
+// The only callable functions; all are pure
+const ALLOWED_FUNCTIONS = new Map<string, (...args: unknown[]) => unknown>([
+  ['JSON.stringify', (value: unknown, _replacer: unknown, space: unknown): string | undefined =>
+    JSON.stringify(value, null, typeof space === 'number' ? space : undefined)],
+  ['String', (value: unknown): string => stringifyValue(value)],
+  ['Number', (value: unknown): number => Number(value)],
+  ['Boolean', (value: unknown): boolean => Boolean(value)],
+  ['encodeURIComponent', (value: unknown): string => encodeURIComponent(stringifyValue(value))],
+]);
+
+const BINARY_OPERATIONS = new Map<string, (left: unknown, right: unknown) => unknown>([
+  // Equality is always strict so templates never depend on JS coercion rules
+  ['==', (left, right): unknown => left === right],
+  ['===', (left, right): unknown => left === right],
+  ['!=', (left, right): unknown => left !== right],
+  ['!==', (left, right): unknown => left !== right],
+  ['<', (left, right): unknown => compareValues(left, right) < 0],
+  ['>', (left, right): unknown => compareValues(left, right) > 0],
+  ['<=', (left, right): unknown => compareValues(left, right) <= 0],
+  ['>=', (left, right): unknown => compareValues(left, right) >= 0],
+  ['+', (left, right): unknown =>
+    typeof left === 'string' || typeof right === 'string'
+      ? `${stringifyValue(left)}${stringifyValue(right)}`
+      : Number(left) + Number(right)],
+  ['-', (left, right): unknown => Number(left) - Number(right)],
+  ['*', (left, right): unknown => Number(left) * Number(right)],
+  ['/', (left, right): unknown => Number(left) / Number(right)],
+  ['%', (left, right): unknown => Number(left) % Number(right)],
+]);
+
+function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.localeCompare(right);
+  }
+  return Number(left) - Number(right);
+}
+
+/**
+ * Convert an evaluated value into text for interpolation inside a larger string
+ */
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value as string | number | boolean | bigint | symbol);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    if (WHITESPACE_PATTERN.test(source.charAt(index))) {
+      index++;
+      continue;
+    }
+    const token = readToken(source, index);
+    tokens.push(token);
+    index = token.end;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length, end: source.length });
+  return tokens;
+}
+
+function readToken(source: string, start: number): Token {
+  const char = source.charAt(start);
+
+  if (char === '"' || char === "'") {
+    return readString(source, start);
+  }
+
+  const number = matchAt(NUMBER_PATTERN, source, start);
+  if (number) {
+    return { type: 'number', value: number, position: start, end: start + number.length };
+  }
+
+  const identifier = matchAt(IDENTIFIER_PATTERN, source, start);
+  if (identifier) {
+    return { type: 'identifier', value: identifier, position: start, end: start + identifier.length };
+  }
+
+  const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, start));
+  if (!punctuator) {
+    throw new Error(`Unexpected character "${char}" at position ${start}`);
+  }
+  return { type: 'punctuator', value: punctuator, position: start, end: start + punctuator.length };
+}
+
+function matchAt(pattern: RegExp, source: string, start: number): string | null {
+  pattern.lastIndex = start;
+  return pattern.exec(source)?.[0] ?? null;
+}
+
+function readString(source: string, start: number): Token {
+  const quote = source.charAt(start);
+  let value = '';
+  let index = start + 1;
+
+  while (index < source.length) {
+    const char = source.charAt(index);
+    if (char === quote) {
+      return { type: 'string', value, position: start, end: index + 1 };
+    }
+    if (char === '\\') {
+      const escaped = source.charAt(index + 1);
+      value += STRING_ESCAPES.get(escaped) ?? escaped;
+      index += 2;
+      continue;
+    }
+    value += char;
+    index++;
+  }
+
+  throw new Error(`Unterminated string starting at position ${start}`);
+}
+
+class ExpressionParser {
+  private _index = 0;
+
+  constructor(private readonly _tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this._parseConditional();
+    const next = this._peek();
+    if (next.type !== 'end') {
+      throw this._unexpected(next);
+    }
+    return node;
+  }
+
+  private _parseConditional(): ExpressionNode {
+    const test = this._parseBinary(0);
+    if (!this._match('?')) {
+      return test;
+    }
+    const consequent = this._parseConditional();
+    this._expect(':');
+    const alternate = this._parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private _parseBinary(level: number): ExpressionNode {
+    const operators = BINARY_PRECEDENCE[level];
+    if (!operators) {
+      return this._parseUnary();
+    }
+
+    let left = this._parseBinary(level + 1);
+    let token = this._peek();
+    while (token.type === 'punctuator' && operators.includes(token.value)) {
+      this._index++;
+      const right = this._parseBinary(level + 1);
+      left = { kind: 'binary', operator: token.value, left, right };
+      token = this._peek();
+    }
+    return left;
+  }
+
+  private _parseUnary(): ExpressionNode {
+    const token = this._peek();
+    if (token.type === 'punctuator' && UNARY_OPERATORS.includes(token.value)) {
+      this._index++;
+      return { kind: 'unary', operator: token.value, argument: this._parseUnary() };
+    }
+    return this._parsePostfix();
+  }
+
+  private _parsePostfix(): ExpressionNode {
+    let node = this._parsePrimary();
+
+    for (;;) {
+      if (this._match('.')) {
+        const name = this._advance();
+        if (name.type !== 'identifier') {
+          throw this._unexpected(name);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: name.value } };
+      } else if (this._match('[')) {
+        const property = this._parseConditional();
+        this._expect(']');
+        node = { kind: 'member', object: node, property };
+      } else if (this._check('(')) {
+        node = this._parseCall(node);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private _parseCall(callee: ExpressionNode): ExpressionNode {
+    const open = this._advance();
+    const name = this._calleeName(callee);
+    if (!name || !ALLOWED_FUNCTIONS.has(name)) {
+      throw new Error(
+        `Function call at position ${open.position} is not allowed; ` +
+        `permitted functions: ${Array.from(ALLOWED_FUNCTIONS.keys()).join(', ')}`
+      );
+    }
+    const args = this._parseList(')');
+    return { kind: 'call', callee: name, args };
+  }
+
+  private _calleeName(node: ExpressionNode): string | null {
+    if (node.kind === 'identifier') {
+      return node.name;
+    }
+    if (node.kind === 'member' && node.property.kind === 'literal') {
+      const objectName = this._calleeName(node.object);
+      return objectName ? `${objectName}.${String(node.property.value)}` : null;
+    }
+    return null;
+  }
+
+  private _parsePrimary(): ExpressionNode {
+    const token = this._advance();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        return KEYWORD_LITERALS.has(token.value)
+          ? { kind: 'literal', value: KEYWORD_LITERALS.get(token.value) }
+          : { kind: 'identifier', name: token.value, position: token.position };
+      case 'punctuator':
+        return this._parseGrouping(token);
+      case 'end':
+        throw new Error('Unexpected end of expression');
+    }
+  }
+
+  private _parseGrouping(token: Token): ExpressionNode {
+    if (token.value === '(') {
+      const node = this._parseConditional();
+      this._expect(')');
+      return node;
+    }
+    if (token.value === '[') {
+      return { kind: 'array', elements: this._parseList(']') };
+    }
+    if (token.value === '{') {
+      return this._parseObject();
+    }
+    throw this._unexpected(token);
+  }
+
+  private _parseObject(): ExpressionNode {
+    const properties: Array<{ key: string; value: ExpressionNode }> = [];
+
+    while (!this._match('}')) {
+      if (properties.length > 0) {
+        this._expect(',');
+      }
+      const key = this._advance();
+      if (key.type !== 'identifier' && key.type !== 'string') {
+        throw this._unexpected(key);
+      }
+      this._expect(':');
+      properties.push({ key: key.value, value: this._parseConditional() });
+    }
+
+    return { kind: 'object', properties };
+  }
+
+  private _parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+
+    while (!this._match(closing)) {
+      if (items.length > 0) {
+        this._expect(',');
+      }
+      items.push(this._parseConditional());
+    }
+
+    return items;
+  }
+
+  private _peek(): Token {
+    return this._tokens[this._index] ?? this._endToken();
+  }
+
+  private _advance(): Token {
+    const token = this._peek();
+    if (token.type !== 'end') {
+      this._index++;
+    }
+    return token;
+  }
+
+  private _check(value: string): boolean {
+    const token = this._peek();
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private _match(value: string): boolean {
+    if (!this._check(value)) {
+      return false;
+    }
+    this._index++;
+    return true;
+  }
+
+  private _expect(value: string): void {
+    if (!this._match(value)) {
+      const token = this._peek();
+      throw new Error(`Expected "${value}" at position ${token.position}`);
+    }
+  }
+
+  private _unexpected(token: Token): Error {
+    return token.type === 'end'
+      ? new Error('Unexpected end of expression')
+      : new Error(`Unexpected token "${token.value}" at position ${token.position}`);
+  }
+
+  private _endToken(): Token {
+    const last = this._tokens[this._tokens.length - 1];
+    const position = last?.end ?? 0;
+    return { type: 'end', value: '', position, end: position };
+  }
+}
+
+class TemplateExpressionService {
+  private readonly _compiledTemplates = new Map<string, CompiledTemplate>();
+
+  /**
+   * Check whether a string contains any template placeholders
+   */
+  hasPlaceholders(text: string): boolean {
+    return text.includes(PLACEHOLDER_OPEN);
+  }
+
+  /**
+   * Parse a template string into literal text and expression segments
+   */
+  compile(template: string): CompiledTemplate {
+    const cached = this._compiledTemplates.get(template);
+    if (cached) {
+      return cached;
+    }
+
+    const compiled: CompiledTemplate = { segments: this._splitSegments(template) };
+    this._compiledTemplates.set(template, compiled);
+    return compiled;
+  }
+
+  /**
+   * Render a template string against a scope.
+   * A string made of a single placeholder keeps the evaluated value's type, so
+   * `"{{params.port}}"` yields a number; otherwise results are interpolated as text.
+   */
+  render(template: string, scope: ExpressionScope): unknown {
+    const { segments } = this.compile(template);
+    const [onlySegment] = segments;
+
+    if (segments.length === 1 && onlySegment?.kind === 'expression') {
+      return this._evaluateSegment(onlySegment, scope);
+    }
+
+    return segments
+      .map((segment) => segment.kind === 'text'
+        ? segment.text
+        : stringifyValue(this._evaluateSegment(segment, scope)))
+      .join('');
+  }
+
+  /**
+   * Evaluate a bare expression (without surrounding braces) against a scope
+   */
+  evaluate(expression: string, scope: ExpressionScope): unknown {
+    const ast = this._parseExpression(expression);
+    return this._evaluateNode(ast, scope);
+  }
+
+  private _splitSegments(template: string): TemplateSegment[] {
+    const segments: TemplateSegment[] = [];
+    let cursor = 0;
+
+    while (cursor < template.length) {
+      const open = template.indexOf(PLACEHOLDER_OPEN, cursor);
+      if (open === -1) {
+        segments.push({ kind: 'text', text: template.slice(cursor) });
+        break;
+      }
+      if (open > cursor) {
+        segments.push({ kind: 'text', text: template.slice(cursor, open) });
+      }
+
+      const bodyStart = open + PLACEHOLDER_OPEN.length;
+      const close = this._findPlaceholderClose(template, bodyStart);
+      const source = template.slice(bodyStart, close).trim();
+      segments.push({ kind: 'expression', source, ast: this._parseExpression(source) });
+      cursor = close + PLACEHOLDER_CLOSE.length;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Find the closing braces of a placeholder, skipping object literals and quoted strings
+   */
+  private _findPlaceholderClose(template: string, start: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let index = start; index < template.length; index++) {
+      const char = template.charAt(index);
+      if (quote) {
+        quote = this._advanceQuote(template, index, quote);
+        index += char === '\\' ? 1 : 0;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (depth === 0 && template.startsWith(PLACEHOLDER_CLOSE, index)) {
+        return index;
+      } else {
+        depth += this._braceDelta(char);
+      }
+    }
+
+    throw new Error(`Unterminated placeholder starting at position ${start - PLACEHOLDER_OPEN.length}`);
+  }
+
+  private _advanceQuote(template: string, index: number, quote: string): string | null {
+    return template.charAt(index) === quote ? null : quote;
+  }
+
+  private _braceDelta(char: string): number {
+    if (char === '{') {
+      return 1;
+    }
+    return char === '}' ? -1 : 0;
+  }
+
+  private _parseExpression(source: string): ExpressionNode {
+    if (source.length === 0) {
+      throw new Error('Empty expression');
+    }
+    return new ExpressionParser(tokenize(source)).parse();
+  }
+
+  private _evaluateSegment(
+    segment: Extract<TemplateSegment, { kind: 'expression' }>,
+    scope: ExpressionScope
+  ): unknown {
+    try {
+      return this._evaluateNode(segment.ast, scope);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${message} in expression "${segment.source}"`);
+    }
+  }
+
+  private _evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'identifier':
+        return this._resolveIdentifier(node.name, node.position, scope);
+      case 'member':
+        return this._readMember(
+          this._evaluateNode(node.object, scope),
+          this._evaluateNode(node.property, scope)
+        );
+      case 'call':
+        return this._evaluateCall(node.callee, node.args, scope);
+      case 'unary':
+        return this._evaluateUnary(node.operator, this._evaluateNode(node.argument, scope));
+      case 'binary':
+        return this._evaluateBinary(node, scope);
+      case 'conditional':
+        return this._evaluateNode(
+          this._evaluateNode(node.test, scope) ? node.consequent : node.alternate,
+          scope
+        );
+      case 'object':
+        return Object.fromEntries(
+          node.properties.map(({ key, value }) => [key, this._evaluateNode(value, scope)])
+        );
+      case 'array':
+        return node.elements.map((element) => this._evaluateNode(element, scope));
+    }
+  }
+
+  private _resolveIdentifier(name: string, position: number, scope: ExpressionScope): unknown {
+    if (!Object.hasOwn(scope, name)) {
+      throw new Error(
+        `Unknown identifier "${name}" at position ${position}; ` +
+        `available: ${Object.keys(scope).join(', ')}`
+      );
+    }
+    return scope[name];
+  }
+
+  private _readMember(target: unknown, key: unknown): unknown {
+    const name = String(key);
+
+    if (target === null || target === undefined) {
+      throw new Error(`Cannot read "${name}" of ${String(target)}`);
+    }
+    if (FORBIDDEN_MEMBERS.has(name)) {
+      throw new Error(`Access to "${name}" is not allowed`);
+    }
+    if ((typeof target === 'string' || Array.isArray(target)) && name === 'length') {
+      return target.length;
+    }
+    if (typeof target === 'object' && Object.hasOwn(target, name)) {
+      return (target as Record<string, unknown>)[name];
+    }
+    return undefined;
+  }
+
+  private _evaluateCall(callee: string, args: ExpressionNode[], scope: ExpressionScope): unknown {
+    const fn = ALLOWED_FUNCTIONS.get(callee);
+    if (!fn) {
+      throw new Error(`Function "${callee}" is not allowed`);
+    }
+    return fn(...args.map((arg) => this._evaluateNode(arg, scope)));
+  }
+
+  private _evaluateUnary(operator: string, value: unknown): unknown {
+    if (operator === '!') {
+      return !value;
+    }
+    return operator === '-' ? -Number(value) : Number(value);
+  }
+
+  private _evaluateBinary(
+    node: Extract<ExpressionNode, { kind: 'binary' }>,
+    scope: ExpressionScope
+  ): unknown {
+    const left = this._evaluateNode(node.left, scope);
+
+    // Logical operators short-circuit so fallbacks are only evaluated when needed
+    if (node.operator === '||' || node.operator === '&&') {
+      const shortCircuits = node.operator === '||' ? Boolean(left) : !left;
+      return shortCircuits ? left : this._evaluateNode(node.right, scope);
+    }
+    if (node.operator === '??') {
+      return left ?? this._evaluateNode(node.right, scope);
+    }
+
+    const operation = BINARY_OPERATIONS.get(node.operator);
+    if (!operation) {
+      throw new Error(`Unsupported operator "${node.operator}"`);
+    }
+    return operation(left, this._evaluateNode(node.right, scope));
+  }
+}
+
+export type { CompiledTemplate, ExpressionScope };
+export { TemplateExpressionService };
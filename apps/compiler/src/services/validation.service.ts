@@ -8,6 +8,9 @@ import {
   type Edge
 } from '@gapjunction/ir-schema';
 
+import type { ParameterValidationService, StageParameterError } from './parameter-validation.service.js';
+import type { StagePortService } from './stage-port.service.js';
+
 export interface ValidationResult {
   valid: boolean;
   errors?: string[];
@@ -16,6 +19,7 @@ export interface ValidationResult {
 
 export interface ChannelValidationResult extends ValidationResult {
   channel?: ChannelIR;
+  parameterErrors?: StageParameterError[];
 }
 
 export interface StageValidationResult extends ValidationResult {
@@ -27,6 +31,11 @@ export interface EdgeValidationResult extends ValidationResult {
 }
 
 export class ValidationService {
+  constructor(
+    private readonly _parameterValidationService: ParameterValidationService,
+    private readonly _stagePortService: StagePortService,
+  ) {}
+
   /**
    * Validates a complete Channel IR document
    */
@@ -160,8 +169,26 @@ export class ValidationService {
       warnings.push(`Comprehensive validation warning: ${errorMessage}`);
     }
 
+    const parameters = await this._parameterValidationService.validateChannelParameters(channel);
+    const ports = await this._stagePortService.validateChannelPorts(channel);
+    warnings.push(...parameters.warnings);
+
+    if (!parameters.valid || !ports.valid) {
+      return {
+        valid: false,
+        channel,
+        errors: [
+          ...parameters.errors.map((error) => this._parameterValidationService.formatError(error)),
+          ...ports.errors,
+        ],
+        warnings,
+        parameterErrors: parameters.errors,
+      };
+    }
+
     return {
       ...result,
+      channel: parameters.channel,
       warnings: warnings,
     };
   }
@@ -199,14 +199,29 @@ describe('Compiler API (e2e)', () => {
         });
     });
 
-    it('should proceed with compilation when violations are acknowledged', () => {
-      return request(app.getHttpServer())
+    it('should proceed with compilation when violations are acknowledged', async () => {
+      const linted = await request(app.getHttpServer())
         .post('/compiler/compile')
+        .send({ channel: channelWithPolicyViolations, orgId: 'strict-org', userId: 'test-user' })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post('/compiler/verifySecurityAck')
         .send({
-          channel: channelWithPolicyViolations,
-          orgId: 'strict-org',
-          acknowledgedViolations: ['SEC001', 'SEC002', 'SEC003', 'SEC004', 'COMP001'],
+          channelId: channelWithPolicyViolations.channelId,
+          userId: 'security-user',
+          reason: 'Approved by security team for testing',
+          violations: linted.body.policyLint.violations.map((v: any) => ({
+            ruleId: v.ruleId,
+            stageId: v.stageId,
+            contentHash: v.contentHash,
+          })),
         })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .post('/compiler/compile')
+        .send({ channel: channelWithPolicyViolations, orgId: 'strict-org', userId: 'test-user' })
         .expect(200)
         .expect((res) => {
           expect(res.body.success).toBe(true);
@@ -346,13 +361,19 @@ describe('Compiler API (e2e)', () => {
         .send({
           channelId: 'test-channel',
           userId: 'security-user',
-          violationIds: ['SEC001', 'SEC002'],
+          violations: [
+            { ruleId: 'SEC001', contentHash: 'a'.repeat(64) },
+            { ruleId: 'CAP001', stageId: 'http-1', contentHash: 'b'.repeat(64) },
+          ],
           reason: 'Approved by security team for testing',
         })
         .expect(200)
         .expect((res) => {
           expect(res.body.success).toBe(true);
-          expect(res.body.acknowledgedViolations).toEqual(['SEC001', 'SEC002']);
+          expect(res.body.acknowledgements.map((ack: any) => [ack.ruleId, ack.stageId])).toEqual([
+            ['SEC001', null],
+            ['CAP001', 'http-1'],
+          ]);
           expect(res.body.message).toContain('Successfully acknowledged 2 policy violations');
         });
     });
@@ -363,17 +384,28 @@ describe('Compiler API (e2e)', () => {
         .send({
           channelId: 'test-channel',
           userId: 'security-user',
-          violationIds: [],
+          violations: [],
           reason: 'No violations to acknowledge',
         })
         .expect(200)
         .expect((res) => {
           expect(res.body.success).toBe(true);
-          expect(res.body.acknowledgedViolations).toEqual([]);
+          expect(res.body.acknowledgements).toEqual([]);
           expect(res.body.message).toContain('Successfully acknowledged 0 policy violations');
         });
     });
 
+    it('should list recorded acknowledgments for auditors', () => {
+      return request(app.getHttpServer())
+        .get('/compiler/securityAcks')
+        .query({ channelId: 'test-channel', acknowledgedBy: 'security-user' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.acknowledgements.length).toBeGreaterThan(0);
+          expect(res.body.acknowledgements[0].reason).toBe('Approved by security team for testing');
+        });
+    });
+
     it('should validate request body for security acknowledgment', () => {
       return request(app.getHttpServer())
         .post('/compiler/verifySecurityAck')
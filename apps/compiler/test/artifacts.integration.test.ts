@@ -270,7 +270,7 @@ describe('Artifacts Integration Tests', () => {
 
       // Verify function global context
       expect(settings.functionGlobalContext.channelId).toBe(testChannel.channelId);
-      expect(settings.functionGlobalContext.buildId).toBe(options.buildId);
+      expect(settings.functionGlobalContext.buildId).toBeUndefined();
       expect(settings.functionGlobalContext.mode).toBe(options.mode);
       expect(settings.functionGlobalContext.target).toBe(options.target);
       expect(settings.functionGlobalContext.security).toEqual(testChannel.security);
@@ -290,7 +290,7 @@ describe('Artifacts Integration Tests', () => {
       // Verify manifest structure
       expect(manifest.version).toBe(1);
       expect(manifest.channelId).toBe(testChannel.channelId);
-      expect(manifest.buildId).toBe(options.buildId);
+      expect(manifest).not.toHaveProperty('buildId');
       expect(manifest.mode).toBe(options.mode);
 
       // Verify artifact paths
@@ -312,7 +312,7 @@ describe('Artifacts Integration Tests', () => {
       // Verify credentials map structure
       expect(credentialsMap.version).toBe(1);
       expect(credentialsMap.channelId).toBe(testChannel.channelId);
-      expect(credentialsMap.buildId).toBe(options.buildId);
+      expect(credentialsMap).not.toHaveProperty('buildId');
       expect(credentialsMap.credentials).toEqual({});
     });
 
@@ -0,0 +1,114 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { ArtifactsService } from '../src/services/artifacts.service.js';
+import { BuildRegistryService } from '../src/services/build-registry.service.js';
+import type { BundleResult, BundlingService } from '../src/services/bundling.service.js';
+import { CompilerService } from '../src/services/compiler.service.js';
+import { FlowDiffService } from '../src/services/flow-diff.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import type { PolicyLintResult, PolicyService } from '../src/services/policy.service.js';
+import type { ValidationService } from '../src/services/validation.service.js';
+
+const fileHash = (filename: string): { filename: string; hash: string; size: number } => ({ filename, hash: `${filename}-hash`, size: 1 });
+
+const bundleResult: BundleResult = {
+  bundleBuffer: Buffer.from('bundle'),
+  bundleSize: 6,
+  hashes: {
+    artifactHashes: {
+      flowsJson: fileHash('flows.json'),
+      settings: fileHash('settings.js'),
+      manifest: fileHash('manifest.json'),
+      credentialsMap: fileHash('credentials.map.json'),
+    },
+    bundleHash: fileHash('bundle.tar'),
+    merkleRoot: 'merkle-root',
+  },
+  metadata: { buildId: 'build', timestamp: '2026-01-01T00:00:00.000Z', artifacts: { count: 4, totalSize: 4 } },
+};
+
+const passedLint: PolicyLintResult = { passed: true, violations: [], summary: { errors: 0, warnings: 0, info: 0 } };
+
+function createCompiler(registry: BuildRegistryService, valid = true): CompilerService {
+  const channel = { channelId: 'channel-1', runtime: { target: 'onprem' }, stages: [], edges: [] };
+  return new CompilerService({
+    validationService: { validateChannelComprehensive: async () => ({ valid, channel, errors: valid ? [] : ['Missing title'], warnings: [] }) } as unknown as ValidationService,
+    policyService: { lintChannel: async () => passedLint } as unknown as PolicyService,
+    artifactsService: { generateArtifacts: async () => ({ flowsJson: [], settings: {}, credentialsMap: {}, manifest: {}, stageCache: { hits: 0, misses: 0, hitStageIds: [] } }) } as unknown as ArtifactsService,
+    bundlingService: { createBundle: async () => bundleResult } as unknown as BundlingService,
+    buildRegistry: registry,
+    flowDiffService: new FlowDiffService(new HashingService()),
+  });
+}
+
+describe('BuildRegistryService', () => {
+  let rootPath: string;
+  let registry: BuildRegistryService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'gj-builds-'));
+    registry = new BuildRegistryService(rootPath);
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('records phase timings, results, hashes and the bundle location of a compile', async () => {
+    const result = await createCompiler(registry).compile({ channel: { channelId: 'channel-1' }, orgId: 'acme', userId: 'alice' });
+    const build = await registry.getBuild(result.buildId ?? '');
+
+    expect(build).toMatchObject({
+      buildId: result.buildId,
+      channelId: 'channel-1',
+      orgId: 'acme',
+      userId: 'alice',
+      status: 'done',
+      validation: { valid: true, errors: [], warnings: [] },
+      policyLint: passedLint,
+      artifactHashes: { flowsJson: 'flows.json-hash', credentialsMap: 'credentials.map.json-hash' },
+      bundleHash: 'bundle.tar-hash',
+      merkleRoot: 'merkle-root',
+      bundle: { size: 6 },
+    });
+    expect(Object.keys(build?.phases ?? {})).toEqual(['validating', 'linting', 'generating', 'bundling']);
+    expect(Object.values(build?.phases ?? {}).every((phase) => typeof phase.durationMs === 'number')).toBe(true);
+    expect(build?.durationMs).toBeGreaterThanOrEqual(0);
+    await expect(readFile(build?.bundle?.location ?? '', 'utf8')).resolves.toBe('bundle');
+  });
+
+  it('marks builds that fail validation as failed', async () => {
+    const result = await createCompiler(registry, false).compile({ channel: {}, orgId: 'acme', userId: 'alice' });
+    const build = await registry.getBuild(result.buildId ?? '');
+
+    expect(build).toMatchObject({
+      channelId: null,
+      status: 'failed',
+      error: 'Channel validation failed',
+      validation: { valid: false, errors: ['Missing title'] },
+    });
+    expect(build?.phases.validating?.completedAt).toBeDefined();
+    expect(build?.bundle).toBeUndefined();
+  });
+
+  it('lists builds newest first filtered by channel, org and status', async () => {
+    const compiler = createCompiler(registry);
+    const first = await compiler.compile({ channel: { channelId: 'channel-1' }, orgId: 'acme', userId: 'alice' });
+    const second = await compiler.compile({ channel: { channelId: 'channel-2' }, orgId: 'acme', userId: 'alice' });
+    const third = await compiler.compile({ channel: { channelId: 'channel-1' }, orgId: 'globex', userId: 'bob' });
+
+    expect((await registry.listBuilds({ orgId: 'acme' })).map((build) => build.buildId)).toEqual([second.buildId, first.buildId]);
+    expect((await registry.listBuilds({ channelId: 'channel-1' })).map((build) => build.buildId)).toEqual([third.buildId, first.buildId]);
+    expect(await registry.listBuilds({ status: 'failed' })).toEqual([]);
+    expect(await registry.listBuilds({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('returns null for unknown builds', async () => {
+    await expect(registry.getBuild('01UNKNOWN')).resolves.toBeNull();
+    await expect(registry.getBuild('../secrets')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { detectCompression } from '@gapjunction/bundle-integrity';
+
+import { BundlingService } from '../src/services/bundling.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+
+const lookupTable = Object.fromEntries(Array.from({ length: 500 }, (_, index) => [`code-${index}`, `Description of code ${index}`]));
+
+const artifacts = {
+  flowsJson: [
+    { id: 'tab-1', type: 'tab', label: 'Channel' },
+    { id: 'fn-1', type: 'function', z: 'tab-1', func: `const table = ${JSON.stringify(lookupTable)};\nreturn msg;` },
+  ],
+  settings: { flowFile: 'flows.json' },
+  manifest: { version: 1, channelId: 'channel-1', mode: 'TEST' },
+  credentialsMap: { version: 2, channelId: 'channel-1', credentials: {} },
+};
+
+describe('Bundle compression', () => {
+  let bundlingService: BundlingService;
+
+  beforeEach(() => {
+    bundlingService = new BundlingService(new HashingService());
+  });
+
+  it.each(['gzip', 'zstd'] as const)('compresses with %s and extracts with format detection', async (compression) => {
+    const plain = await bundlingService.createBundle(artifacts, { buildId: 'build-1', compression: 'none' });
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1', compression });
+
+    expect(detectCompression(bundle.bundleBuffer)).toBe(compression);
+    expect(bundle.metadata.compression).toBe(compression);
+    expect(bundle.bundleSize).toBeLessThan(plain.bundleSize / 2);
+    expect(bundle.hashes.bundleHash.filename).toBe(compression === 'gzip' ? 'bundle.tar.gz' : 'bundle.tar.zst');
+
+    const extracted = await bundlingService.extractBundle(bundle.bundleBuffer, { merkleRoot: bundle.hashes.merkleRoot });
+    expect(extracted.compression).toBe(compression);
+    expect(extracted.verification.valid).toBe(true);
+    expect(extracted.metadata['compression']).toBe(compression);
+    expect(JSON.parse(extracted.artifacts['flows.json'] ?? '')).toEqual(artifacts.flowsJson);
+  });
+
+  it('keeps compressed bundles byte-stable', async () => {
+    const first = await bundlingService.createBundle(artifacts, { buildId: 'build-1', compression: 'gzip' });
+    const second = await bundlingService.createBundle(artifacts, { buildId: 'build-1', compression: 'gzip' });
+
+    expect(second.hashes.bundleHash.hash).toBe(first.hashes.bundleHash.hash);
+  });
+
+  it('writes a plain tar by default', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+
+    expect(detectCompression(bundle.bundleBuffer)).toBe('none');
+    expect(bundle.hashes.bundleHash.filename).toBe('bundle.tar');
+  });
+});
@@ -0,0 +1,104 @@
+import { generateKeyPairSync } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { extractAndVerifyBundle, readTarEntries, verifyBundleFiles } from '@gapjunction/bundle-integrity';
+
+import { BundleSigningService } from '../src/services/bundle-signing.service.js';
+import { BundlingService } from '../src/services/bundling.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+
+const artifacts = {
+  flowsJson: [{ id: 'tab-1', type: 'tab', label: 'Channel' }],
+  settings: { flowFile: 'flows.json' },
+  manifest: { version: 1, channelId: 'channel-1', mode: 'TEST' },
+  credentialsMap: { version: 2, channelId: 'channel-1', credentials: {} },
+};
+
+describe('Bundle signing', () => {
+  let rootPath: string;
+  let signingService: BundleSigningService;
+  let bundlingService: BundlingService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'bundle-signing-'));
+    signingService = new BundleSigningService(rootPath);
+    bundlingService = new BundlingService(new HashingService(), signingService);
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('signs the Merkle root and manifest and verifies against the published key', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const keys = await signingService.publicKeys();
+
+    expect(bundle.signature).toMatchObject({ version: 1, algorithm: 'ed25519', keyId: keys[0]?.keyId, merkleRoot: bundle.hashes.merkleRoot });
+
+    const { verification } = await extractAndVerifyBundle(bundle.bundleBuffer, { trustedKeys: keys });
+    expect(verification.valid).toBe(true);
+    expect(verification.signature).toEqual({ status: 'valid', keyId: keys[0]?.keyId, errors: [] });
+  });
+
+  it('rejects unsigned bundles and bundles signed by an untrusted key', async () => {
+    const trustedKeys = await signingService.publicKeys();
+    const unsigned = await new BundlingService(new HashingService()).createBundle(artifacts, { buildId: 'build-1' });
+    const otherSigner = new BundleSigningService(join(rootPath, 'other'));
+    const foreign = await new BundlingService(new HashingService(), otherSigner).createBundle(artifacts, { buildId: 'build-1' });
+
+    const unsignedResult = await extractAndVerifyBundle(unsigned.bundleBuffer, { trustedKeys });
+    expect(unsignedResult.verification.valid).toBe(false);
+    expect(unsignedResult.verification.signature?.status).toBe('unsigned');
+
+    const foreignResult = await extractAndVerifyBundle(foreign.bundleBuffer, { trustedKeys });
+    expect(foreignResult.verification.valid).toBe(false);
+    expect(foreignResult.verification.signature?.status).toBe('untrusted');
+  });
+
+  it('rejects a signature copied onto a different bundle', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const other = await bundlingService.createBundle({ ...artifacts, flowsJson: [] }, { buildId: 'build-1' });
+    const files = await readTarEntries(other.bundleBuffer);
+    files.set('signature.json', (await readTarEntries(bundle.bundleBuffer)).get('signature.json') ?? Buffer.alloc(0));
+
+    const { verification } = verifyBundleFiles(files, { trustedKeys: await signingService.publicKeys() });
+
+    expect(verification.valid).toBe(false);
+    expect(verification.signature?.status).toBe('invalid');
+    expect(verification.errors).toContain('signature.json: signed Merkle root does not match the bundle');
+  });
+
+  it('keeps the same key across restarts and publishes retired keys after rotation', async () => {
+    const first = await signingService.signingKey();
+    expect((await new BundleSigningService(rootPath).signingKey()).keyId).toBe(first.keyId);
+
+    const before = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const rotated = await signingService.rotate();
+    const after = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const keys = await new BundleSigningService(rootPath).publicKeys();
+
+    expect(rotated.keyId).not.toBe(first.keyId);
+    expect(after.signature?.keyId).toBe(rotated.keyId);
+    expect(keys.map((key) => [key.keyId, key.current])).toEqual([[rotated.keyId, true], [first.keyId, false]]);
+
+    // An agent trusting only the new key no longer accepts bundles signed with the old one
+    const newKeyOnly = keys.filter((key) => key.current);
+    expect((await extractAndVerifyBundle(after.bundleBuffer, { trustedKeys: newKeyOnly })).verification.valid).toBe(true);
+    expect((await extractAndVerifyBundle(before.bundleBuffer, { trustedKeys: newKeyOnly })).verification.valid).toBe(false);
+    expect((await extractAndVerifyBundle(before.bundleBuffer, { trustedKeys: keys })).verification.valid).toBe(true);
+  });
+
+  it('refuses signing keys that are not Ed25519', async () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    process.env['BUNDLE_SIGNING_KEY'] = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    try {
+      await expect(new BundleSigningService(rootPath).signingKey()).rejects.toThrow('Signing key must be ed25519');
+    } finally {
+      delete process.env['BUNDLE_SIGNING_KEY'];
+    }
+  });
+});
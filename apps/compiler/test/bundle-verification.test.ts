@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { readTarEntries, verifyBundleFiles } from '@gapjunction/bundle-integrity';
+import tarStream from 'tar-stream';
+
+import { BundlingService } from '../src/services/bundling.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+
+const artifacts = {
+  flowsJson: [{ id: 'tab-1', type: 'tab', label: 'Channel' }],
+  settings: { flowFile: 'flows.json' },
+  manifest: { version: 1, channelId: 'channel-1', mode: 'TEST' },
+  credentialsMap: { version: 2, channelId: 'channel-1', credentials: {} },
+};
+
+async function repack(files: Map<string, Buffer>): Promise<Buffer> {
+  const pack = tarStream.pack();
+  const chunks: Buffer[] = [];
+  pack.on('data', (chunk: Buffer) => chunks.push(chunk));
+  for (const [name, content] of files) {
+    pack.entry({ name }, content);
+  }
+  pack.finalize();
+  await new Promise((resolve) => pack.on('end', resolve));
+  return Buffer.concat(chunks);
+}
+
+describe('Bundle verification', () => {
+  let hashingService: HashingService;
+  let bundlingService: BundlingService;
+
+  beforeEach(() => {
+    hashingService = new HashingService();
+    bundlingService = new BundlingService(hashingService);
+  });
+
+  it('extracts a bundle and verifies every file and the Merkle root', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const extracted = await bundlingService.extractBundle(bundle.bundleBuffer, { merkleRoot: bundle.hashes.merkleRoot });
+
+    expect(extracted.verification).toMatchObject({ valid: true, tamperedFiles: [], errors: [] });
+    expect(extracted.verification.merkleRoot.computed).toBe(bundle.hashes.merkleRoot);
+    expect(Object.keys(extracted.artifacts)).toEqual(['flows.json', 'settings.js', 'manifest.json', 'credentials.map.json']);
+    expect(JSON.parse(extracted.artifacts['flows.json'] ?? '')).toEqual(artifacts.flowsJson);
+    expect(extracted.metadata).toEqual({ ...artifacts.manifest, compression: 'none' });
+  });
+
+  it('computes the same Merkle root as the hashing service', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const { root } = hashingService.createMerkleTree(Object.values(bundle.hashes.artifactHashes));
+
+    expect(bundle.hashes.merkleRoot).toBe(root);
+  });
+
+  it('produces byte-identical bundles for identical content regardless of key order and build id', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const reordered = await bundlingService.createBundle(
+      {
+        credentialsMap: { credentials: {}, channelId: 'channel-1', version: 2 },
+        manifest: { mode: 'TEST', channelId: 'channel-1', version: 1 },
+        settings: { flowFile: 'flows.json' },
+        flowsJson: [{ label: 'Channel', type: 'tab', id: 'tab-1' }],
+      },
+      { buildId: 'build-2' }
+    );
+
+    expect(reordered.bundleBuffer.equals(bundle.bundleBuffer)).toBe(true);
+    expect(reordered.hashes.bundleHash.hash).toBe(bundle.hashes.bundleHash.hash);
+    expect(reordered.hashes.artifactHashes).toEqual(bundle.hashes.artifactHashes);
+  });
+
+  it('hashes the canonical serialization of the files inside the tar', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const files = await readTarEntries(bundle.bundleBuffer);
+
+    expect(files.get('manifest.json')?.toString('utf8')).toBe(
+      hashingService.canonicalJson({ ...artifacts.manifest, compression: 'none' }, 2)
+    );
+    expect(hashingService.computeHash(files.get('manifest.json') ?? '')).toBe(bundle.hashes.artifactHashes.manifest.hash);
+    expect(hashingService.canonicalJson({ b: 1, a: { d: [2, { f: 3, e: undefined }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[2,{"f":3}]},"b":1}'
+    );
+  });
+
+  it('reports exactly which file was tampered with', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const files = await readTarEntries(bundle.bundleBuffer);
+    files.set('settings.js', Buffer.from('module.exports = { httpAdminRoot: "/admin" };'));
+    files.set('extra.js', Buffer.from('process.exit(1)'));
+
+    const extracted = await bundlingService.extractBundle(await repack(files));
+
+    expect(extracted.verification.valid).toBe(false);
+    expect(extracted.verification.tamperedFiles).toEqual(['settings.js', 'extra.js']);
+    expect(extracted.verification.files.find((file) => file.path === 'settings.js')).toMatchObject({
+      status: 'modified',
+      expectedHash: bundle.hashes.artifactHashes.settings.hash,
+    });
+    expect(extracted.verification.merkleRoot.computed).not.toBe(bundle.hashes.merkleRoot);
+  });
+
+  it('detects a rewritten integrity manifest when the build Merkle root is known', async () => {
+    const bundle = await bundlingService.createBundle(artifacts, { buildId: 'build-1' });
+    const forged = await bundlingService.createBundle({ ...artifacts, flowsJson: [] }, { buildId: 'build-1' });
+
+    expect((await bundlingService.extractBundle(forged.bundleBuffer)).verification.valid).toBe(true);
+
+    const { verification } = verifyBundleFiles(await readTarEntries(forged.bundleBuffer), { merkleRoot: bundle.hashes.merkleRoot });
+    expect(verification.valid).toBe(false);
+    expect(verification.tamperedFiles).toEqual(['integrity.json']);
+  });
+
+  it('rejects bundles without an integrity manifest', async () => {
+    const files = new Map([['flows.json', Buffer.from('[]')]]);
+    const extracted = await bundlingService.extractBundle(await repack(files));
+
+    expect(extracted.verification).toMatchObject({ valid: false, errors: ['Bundle has no integrity.json'] });
+  });
+});
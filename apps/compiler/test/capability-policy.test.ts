@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { ChannelIR, SecurityIntent } from '@gapjunction/ir-schema';
+
+import { CapabilityPolicyService } from '../src/services/capability-policy.service.js';
+import type { NexonManifest } from '../src/services/nexon-template.service.js';
+import type { OrgSecurityPolicy } from '../src/services/policy.service.js';
+
+import { createChannel } from './fixtures/channels.js';
+import { createManifest, createTemplateService } from './utils/nexon-templates.js';
+
+const capabilitiesByNexon: Record<string, NexonManifest['capabilities']> = {
+  'tcp.listener': { network: { tcpIn: true } },
+  'http.request': { network: { httpOut: true } },
+  'file.write': { filesystem: { write: true, read: false } },
+};
+
+const templateService = createTemplateService(
+  Object.entries(capabilitiesByNexon).map(([nexonId, capabilities]) => ({ manifest: createManifest(nexonId, { capabilities }), template: [] }))
+);
+
+function createNexonChannel(nexonIds: string[], security: SecurityIntent = {}): ChannelIR {
+  return createChannel(nexonIds.map((nexonId, index) => ({ id: `stage-${index + 1}`, nexonId, params: {} })), { security });
+}
+
+function createPolicy(overrides: Partial<OrgSecurityPolicy['policies']> = {}): OrgSecurityPolicy {
+  return {
+    orgId: 'acme',
+    policies: {
+      allowInternetAccess: 'warn',
+      allowPublicEndpoints: 'warn',
+      requireEncryption: true,
+      allowedNexonIds: null,
+      blockedNexonIds: [],
+      maxStagesPerChannel: 50,
+      requireDocumentation: false,
+      allowedRuntimeTargets: ['onprem', 'cloud'],
+      deniedCapabilities: [],
+      undeclaredCapabilities: 'warn',
+      ...overrides,
+    },
+  };
+}
+
+describe('CapabilityPolicyService', () => {
+  let service: CapabilityPolicyService;
+
+  beforeEach(() => {
+    service = new CapabilityPolicyService(templateService);
+  });
+
+  it('aggregates the capabilities of every stage template', async () => {
+    const capabilities = await service.collectCapabilities(createNexonChannel(['tcp.listener', 'http.request', 'file.write']));
+
+    expect(capabilities).toEqual({
+      effective: ['network.httpOut', 'network.tcpIn', 'filesystem.write'],
+      byStage: {
+        'stage-1': ['network.tcpIn'],
+        'stage-2': ['network.httpOut'],
+        'stage-3': ['filesystem.write'],
+      },
+      unresolvedStages: [],
+    });
+  });
+
+  it('flags capabilities the security intent did not opt into', async () => {
+    const channel = createNexonChannel(['tcp.listener', 'http.request'], { allowInternetHttpOut: true });
+    const violations = service.checkCapabilities(channel, await service.collectCapabilities(channel), createPolicy());
+
+    expect(violations).toEqual([
+      expect.objectContaining({
+        ruleId: 'CAP001',
+        severity: 'warning',
+        stageId: 'stage-1',
+        suggestion: 'Set security.allowTcpIn to true if this is intended',
+      }),
+    ]);
+  });
+
+  it('uses the org severity for undeclared capabilities', async () => {
+    const channel = createNexonChannel(['http.request']);
+    const capabilities = await service.collectCapabilities(channel);
+
+    expect(service.checkCapabilities(channel, capabilities, createPolicy({ undeclaredCapabilities: 'deny' }))[0]?.severity).toBe('error');
+    expect(service.checkCapabilities(channel, capabilities, createPolicy({ undeclaredCapabilities: 'allow' }))).toEqual([]);
+  });
+
+  it('rejects capabilities denied by the org even when declared', async () => {
+    const channel = createNexonChannel(['tcp.listener', 'file.write'], { allowTcpIn: true });
+    const violations = service.checkCapabilities(
+      channel,
+      await service.collectCapabilities(channel),
+      createPolicy({ deniedCapabilities: ['network.tcpIn', 'filesystem.write'] }),
+    );
+
+    expect(violations.map((violation) => [violation.ruleId, violation.stageId, violation.severity])).toEqual([
+      ['CAP002', 'stage-1', 'error'],
+      ['CAP002', 'stage-2', 'error'],
+    ]);
+  });
+
+  it('warns when a stage template is unavailable', async () => {
+    const channel = createNexonChannel(['unknown.nexon']);
+    const violations = service.checkCapabilities(channel, await service.collectCapabilities(channel), createPolicy());
+
+    expect(violations).toEqual([expect.objectContaining({ ruleId: 'CAP003', stageId: 'stage-1' })]);
+  });
+});
@@ -0,0 +1,157 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { ArtifactsService } from '../src/services/artifacts.service.js';
+import { BuildRegistryService } from '../src/services/build-registry.service.js';
+import { BundlingService } from '../src/services/bundling.service.js';
+import { CompilerService } from '../src/services/compiler.service.js';
+import { FlowDiffService } from '../src/services/flow-diff.service.js';
+import { FlowLayoutService } from '../src/services/flow-layout.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import { IdGeneratorService } from '../src/services/id-generator.service.js';
+import type { NexonTemplate } from '../src/services/nexon-template.service.js';
+import { ParameterSubstitutionService } from '../src/services/parameter-substitution.service.js';
+import type { PolicyService } from '../src/services/policy.service.js';
+import { RuntimeExpressionService } from '../src/services/runtime-expression.service.js';
+import { SecretReferenceService } from '../src/services/secret-reference.service.js';
+import { StageArtifactCacheService } from '../src/services/stage-artifact-cache.service.js';
+import { StagePortService } from '../src/services/stage-port.service.js';
+import { TemplateExpressionService } from '../src/services/template-expression.service.js';
+import type { ValidationService } from '../src/services/validation.service.js';
+
+import { createTcpChannel } from './fixtures/channels.js';
+import { createTemplateService } from './utils/nexon-templates.js';
+
+const listener: NexonTemplate = {
+  manifest: {
+    id: 'tcp.listener',
+    version: '1.0.0',
+    title: 'TCP Listener',
+    description: 'Listen for incoming TCP connections',
+    capabilities: {},
+    parameters: {},
+  },
+  template: [{ id: 'listener', type: 'tcp in', port: '{{params.port}}', wires: [[]] }],
+};
+
+function createCompiler(registry: BuildRegistryService, policyService?: PolicyService): CompilerService {
+  const nexonTemplateService = createTemplateService([listener]);
+  const secretReferenceService = new SecretReferenceService();
+  const hashingService = new HashingService();
+  const idGenerator = new IdGeneratorService();
+
+  return new CompilerService({
+    validationService: { validateChannelComprehensive: async (channel: unknown) => ({ valid: true, channel, errors: [], warnings: [] }) } as unknown as ValidationService,
+    policyService: policyService ?? { lintChannel: async () => ({ passed: true, violations: [], summary: { errors: 0, warnings: 0, info: 0 } }) } as unknown as PolicyService,
+    artifactsService: new ArtifactsService({
+      nexonTemplateService,
+      parameterSubstitutionService: new ParameterSubstitutionService(new TemplateExpressionService(), new RuntimeExpressionService(), secretReferenceService),
+      idGenerator,
+      stagePortService: new StagePortService(nexonTemplateService),
+      secretReferenceService,
+      stageCache: new StageArtifactCacheService(hashingService),
+      flowLayoutService: new FlowLayoutService(idGenerator),
+    }),
+    bundlingService: new BundlingService(hashingService),
+    buildRegistry: registry,
+    flowDiffService: new FlowDiffService(hashingService),
+  });
+}
+
+describe('Compile preview', () => {
+  const idGenerator = new IdGeneratorService();
+  let rootPath: string;
+  let registry: BuildRegistryService;
+  let compiler: CompilerService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'gj-preview-'));
+    registry = new BuildRegistryService(rootPath);
+    compiler = createCompiler(registry);
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it("diffs nodes, wires and settings against the channel's latest build without recording a build", async () => {
+    const build = await compiler.compile({ channel: createTcpChannel([1000, 2000]), orgId: 'acme', userId: 'alice' });
+
+    const preview = await compiler.preview({ channel: createTcpChannel([1000, 2001, 3000], { runtime: { target: 'cloud' } }), orgId: 'acme', userId: 'alice' });
+
+    expect(preview.success).toBe(true);
+    expect(preview.previousBuildId).toBe(build.buildId);
+    expect(preview.diff?.identical).toBe(false);
+    expect(preview.diff?.flows.added).toEqual([
+      { id: idGenerator.generateNodeId('tcp-2', 'listener'), type: 'tcp in', z: idGenerator.generateFlowId('channel-1') },
+    ]);
+    expect(preview.diff?.flows.removed).toEqual([]);
+    expect(preview.diff?.flows.changed).toEqual([
+      expect.objectContaining({ id: idGenerator.generateNodeId('tcp-1', 'listener'), fields: ['port'] }),
+    ]);
+    expect(preview.diff?.flows.wires).toEqual({
+      added: [{ from: idGenerator.generateNodeId('tcp-1', 'listener'), output: 0, to: idGenerator.generateNodeId('tcp-2', 'listener') }],
+      removed: [],
+    });
+    expect(preview.diff?.settings).toEqual({ added: [], removed: [], changed: ['functionGlobalContext.target', 'userDir'] });
+    expect(preview.diff?.credentialsMap).toEqual({ added: [], removed: [], changed: [] });
+
+    expect(await registry.listBuilds()).toHaveLength(1);
+  });
+
+  it('compiles an unchanged channel to the same bundle under a new build id', async () => {
+    const first = await compiler.compile({ channel: createTcpChannel([1000, 2000]), orgId: 'acme', userId: 'alice' });
+    const second = await compiler.compile({ channel: createTcpChannel([1000, 2000]), orgId: 'acme', userId: 'alice' });
+
+    expect(second.buildId).not.toBe(first.buildId);
+    expect(second.bundle).toBe(first.bundle);
+    expect(second.bundleHash).toEqual(first.bundleHash);
+  });
+
+  it('reports an unchanged channel as identical', async () => {
+    const build = await compiler.compile({ channel: createTcpChannel([1000, 2000]), orgId: 'acme', userId: 'alice' });
+
+    const preview = await compiler.preview({
+      channel: createTcpChannel([1000, 2000]),
+      orgId: 'acme',
+      userId: 'alice',
+      previousBuildId: build.buildId ?? '',
+    });
+
+    expect(preview.diff?.identical).toBe(true);
+  });
+
+  it('reports everything as added when the channel has no build yet, and fails for unknown builds', async () => {
+    const first = await compiler.preview({ channel: createTcpChannel([1000]), orgId: 'acme', userId: 'alice' });
+    expect(first.previousBuildId).toBeNull();
+    expect(first.diff?.flows.added.map((node) => node.type)).toEqual(['tab', 'tcp in']);
+
+    const unknown = await compiler.preview({
+      channel: createTcpChannel([1000]),
+      orgId: 'acme',
+      userId: 'alice',
+      previousBuildId: '01J00000000000000000000000',
+    });
+    expect(unknown.success).toBe(false);
+    expect(unknown.errors).toEqual(['Preview failed: Build "01J00000000000000000000000" not found']);
+  });
+
+  it('lints read-only and reports lint errors as a failed preview', async () => {
+    const lintOptions: unknown[] = [];
+    const failing = createCompiler(registry, {
+      lintChannel: async (...args: unknown[]) => {
+        lintOptions.push(args[3]);
+        throw new Error('Policy store unavailable');
+      },
+    } as unknown as PolicyService);
+
+    const preview = await failing.preview({ channel: createTcpChannel([1000]), orgId: 'acme', userId: 'alice' });
+
+    expect(lintOptions).toEqual([{ readOnly: true }]);
+    expect(preview.success).toBe(false);
+    expect(preview.errors).toEqual(['Preview failed: Policy store unavailable']);
+  });
+});
@@ -0,0 +1,247 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { ArtifactsService } from '../src/services/artifacts.service.js';
+import { BuildRegistryService } from '../src/services/build-registry.service.js';
+import type { BundleResult, BundlingService } from '../src/services/bundling.service.js';
+import { FileCompileJobStore, InMemoryCompileJobStore } from '../src/services/compile-job-store.service.js';
+import { CompileQueueService, type CompileProgressEvent } from '../src/services/compile-queue.service.js';
+import { CompilerService } from '../src/services/compiler.service.js';
+import { FlowDiffService } from '../src/services/flow-diff.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import type { PolicyService } from '../src/services/policy.service.js';
+import type { ValidationService } from '../src/services/validation.service.js';
+
+const fileHash = (filename: string): { filename: string; hash: string; size: number } => ({ filename, hash: `${filename}-hash`, size: 1 });
+
+const bundleResult: BundleResult = {
+  bundleBuffer: Buffer.from('bundle'),
+  bundleSize: 6,
+  hashes: {
+    artifactHashes: {
+      flowsJson: fileHash('flows.json'),
+      settings: fileHash('settings.js'),
+      manifest: fileHash('manifest.json'),
+      credentialsMap: fileHash('credentials.map.json'),
+    },
+    bundleHash: fileHash('bundle.tar'),
+    merkleRoot: 'merkle-root',
+  },
+  metadata: { buildId: 'build', timestamp: '2026-01-01T00:00:00.000Z', artifacts: { count: 4, totalSize: 4 } },
+};
+
+const request = { channel: { channelId: 'channel-1' }, orgId: 'acme', userId: 'alice' };
+
+/**
+ * Compiler whose artifact generation blocks until `release()` is called
+ */
+function createGatedCompiler(registry: BuildRegistryService): { compiler: CompilerService; running: () => number; release: () => void } {
+  const channel = { channelId: 'channel-1', runtime: { target: 'onprem' }, stages: [], edges: [] };
+  let running = 0;
+  let open = (): void => undefined;
+  let gate = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+
+  const compiler = new CompilerService({
+    validationService: { validateChannelComprehensive: async () => ({ valid: true, channel, errors: [], warnings: [] }) } as unknown as ValidationService,
+    policyService: { lintChannel: async () => ({ passed: true, violations: [], summary: { errors: 0, warnings: 0, info: 0 } }) } as unknown as PolicyService,
+    artifactsService: {
+      generateArtifacts: async () => {
+        running += 1;
+        await gate;
+        running -= 1;
+        return { flowsJson: [], settings: {}, credentialsMap: {}, manifest: {}, stageCache: { hits: 0, misses: 0, hitStageIds: [] } };
+      },
+    } as unknown as ArtifactsService,
+    bundlingService: { createBundle: async () => bundleResult } as unknown as BundlingService,
+    buildRegistry: registry,
+    flowDiffService: new FlowDiffService(new HashingService()),
+  });
+
+  return {
+    compiler,
+    running: () => running,
+    release: () => {
+      open();
+      gate = new Promise<void>((resolve) => {
+        open = resolve;
+      });
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('CompileQueueService', () => {
+  let rootPath: string;
+  let registry: BuildRegistryService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'gj-queue-'));
+    registry = new BuildRegistryService(join(rootPath, 'builds'));
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('returns build ids immediately and runs at most `concurrency` builds at a time', async () => {
+    const { compiler, running, release } = createGatedCompiler(registry);
+    const queue = new CompileQueueService(compiler, new InMemoryCompileJobStore(), { concurrency: 2 });
+    const events: CompileProgressEvent[] = [];
+    queue.on('progress', (event: CompileProgressEvent) => events.push(event));
+
+    const enqueued = await Promise.all([1, 2, 3].map(async () => await queue.enqueue(request)));
+    expect(new Set(enqueued.map((build) => build.buildId)).size).toBe(3);
+    await expect(registry.getBuild(enqueued[0]?.buildId ?? '')).resolves.toMatchObject({ channelId: 'channel-1' });
+
+    await waitFor(() => running() === 2);
+    expect(queue.stats()).toMatchObject({ running: 2, queued: 1 });
+    expect(queue.position(enqueued[2]?.buildId ?? '')).toBe(0);
+
+    release();
+    await waitFor(() => running() === 1);
+    release();
+    await waitFor(() => queue.stats().running === 0);
+
+    const last = enqueued[2]?.buildId;
+    expect(events.filter((event) => event.buildId === last).map((event) => event.status)).toEqual(
+      ['queued', 'validating', 'linting', 'generating', 'bundling', 'done'],
+    );
+    await expect(registry.getBuild(last ?? '')).resolves.toMatchObject({ status: 'done' });
+  });
+
+  it('passes progress only to the subscribers of the build', async () => {
+    const { compiler, running, release } = createGatedCompiler(registry);
+    const queue = new CompileQueueService(compiler, new InMemoryCompileJobStore(), { concurrency: 1 });
+
+    const first = await queue.enqueue(request);
+    const second = await queue.enqueue(request);
+    const statuses: string[] = [];
+    const unsubscribe = queue.subscribe(second.buildId, (event) => statuses.push(event.status));
+    const unsubscribed: string[] = [];
+    queue.subscribe(first.buildId, (event) => unsubscribed.push(event.status))();
+
+    await waitFor(() => running() === 1);
+    release();
+    await waitFor(() => running() === 1 && queue.position(second.buildId) === null);
+    release();
+    await waitFor(() => queue.stats().running === 0);
+    unsubscribe();
+
+    expect(statuses).toEqual(['validating', 'linting', 'generating', 'bundling', 'done']);
+    expect(unsubscribed).toEqual([]);
+  });
+
+  it('cancels queued and running builds', async () => {
+    const { compiler, running: generating, release } = createGatedCompiler(registry);
+    const queue = new CompileQueueService(compiler, new InMemoryCompileJobStore(), { concurrency: 1 });
+
+    const running = await queue.enqueue(request, { wait: true });
+    const queued = await queue.enqueue(request, { wait: true });
+    await waitFor(() => generating() === 1);
+
+    await expect(queue.cancel(queued.buildId)).resolves.toBe(true);
+    await expect(queued.result).resolves.toMatchObject({ success: false, errors: ['Build cancelled'] });
+    await expect(registry.getBuild(queued.buildId)).resolves.toMatchObject({ status: 'cancelled' });
+
+    await expect(queue.cancel(running.buildId)).resolves.toBe(true);
+    release();
+    await expect(running.result).resolves.toMatchObject({ success: false, errors: ['Build cancelled'] });
+    await expect(registry.getBuild(running.buildId)).resolves.toMatchObject({ status: 'cancelled' });
+
+    await expect(queue.cancel('01UNKNOWNBUILD')).resolves.toBe(false);
+  });
+
+  it('rejects builds once the queue is full', async () => {
+    const { compiler, running, release } = createGatedCompiler(registry);
+    const queue = new CompileQueueService(compiler, new InMemoryCompileJobStore(), { concurrency: 1, maxQueueSize: 1 });
+
+    await queue.enqueue(request);
+    await waitFor(() => running() === 1);
+    await queue.enqueue(request);
+
+    expect(queue.isFull()).toBe(true);
+    await expect(queue.enqueue(request)).rejects.toThrow('Compile queue is full');
+
+    release();
+    await waitFor(() => queue.stats().queued === 0 && running() === 1);
+    release();
+    await waitFor(() => queue.stats().running === 0);
+  });
+
+  it('does not let concurrent enqueue calls exceed the queue size', async () => {
+    const { compiler, running, release } = createGatedCompiler(registry);
+    const queue = new CompileQueueService(compiler, new InMemoryCompileJobStore(), { concurrency: 1, maxQueueSize: 1 });
+
+    await queue.enqueue(request);
+    await waitFor(() => running() === 1);
+    const results = await Promise.allSettled([queue.enqueue(request), queue.enqueue(request)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(queue.stats().queued).toBe(1);
+
+    release();
+    await waitFor(() => queue.stats().queued === 0 && running() === 1);
+    release();
+    await waitFor(() => queue.stats().running === 0);
+  });
+
+  it('keeps running builds when a progress listener throws', async () => {
+    const { compiler, running, release } = createGatedCompiler(registry);
+    const queue = new CompileQueueService(compiler, new InMemoryCompileJobStore(), { concurrency: 1 });
+    const statuses: string[] = [];
+    queue.on('progress', () => {
+      throw new Error('listener failed');
+    });
+
+    const first = await queue.enqueue(request, { wait: true });
+    const second = await queue.enqueue(request, { wait: true });
+    queue.subscribe(second.buildId, () => {
+      throw new Error('stream closed');
+    });
+    queue.subscribe(second.buildId, (event) => statuses.push(event.status));
+
+    await waitFor(() => running() === 1);
+    release();
+    await expect(first.result).resolves.toMatchObject({ success: true });
+    await waitFor(() => running() === 1);
+    release();
+    await expect(second.result).resolves.toMatchObject({ success: true });
+    expect(statuses).toContain('done');
+  });
+
+  it('resumes persisted builds after a restart', async () => {
+    const jobStore = new FileCompileJobStore(join(rootPath, 'queue'));
+    const { compiler, running, release } = createGatedCompiler(registry);
+
+    // Jobs left behind by a process that stopped before running them
+    const buildIds = [await compiler.createBuild(request), await compiler.createBuild(request)];
+    for (const buildId of buildIds) {
+      await jobStore.save({ buildId, request, enqueuedAt: new Date().toISOString() });
+    }
+
+    const queue = new CompileQueueService(compiler, jobStore, { concurrency: 1 });
+    await expect(queue.start()).resolves.toBe(2);
+    expect(queue.position(buildIds[1] ?? '')).toBe(0);
+
+    await waitFor(() => running() === 1);
+    release();
+    await waitFor(() => queue.position(buildIds[1] ?? '') === null && running() === 1);
+    release();
+    await waitFor(() => queue.stats().running === 0);
+
+    for (const buildId of buildIds) {
+      await expect(registry.getBuild(buildId)).resolves.toMatchObject({ status: 'done' });
+    }
+    await expect(jobStore.list()).resolves.toEqual([]);
+  });
+});
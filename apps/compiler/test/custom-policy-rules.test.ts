@@ -0,0 +1,177 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { ChannelIR } from '@gapjunction/ir-schema';
+
+import { CapabilityPolicyService } from '../src/services/capability-policy.service.js';
+import { CustomPolicyRuleService } from '../src/services/custom-policy-rule.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import { PolicyStoreService } from '../src/services/policy-store.service.js';
+import { PolicyService } from '../src/services/policy.service.js';
+import { SecurityAckService } from '../src/services/security-ack.service.js';
+
+import { chainEdges, createChannel } from './fixtures/channels.js';
+import { createManifest, createTemplateService } from './utils/nexon-templates.js';
+
+const complianceRules = `
+version: 1.0.0
+description: Compliance team rules
+rules:
+  - id: ORG-HTTP001
+    name: HTTPS Required
+    severity: error
+    category: security
+    scope: stage
+    when: { path: stage.nexonId, equals: http.request }
+    require: { path: stage.params.url, matches: '^https://' }
+    message: 'Stage "{{stage.id}}" calls {{stage.params.url}} without TLS'
+    suggestion: Use an https:// URL
+  - id: ORG-NET001
+    name: Listener With Internet Egress
+    severity: error
+    category: security
+    when:
+      all:
+        - hasStage: { path: stage.nexonId, equals: tcp.listener }
+        - any:
+            - { path: channel.security.allowInternetHttpOut, equals: true }
+            - { path: channel.security.allowInternetTcpOut, equals: true }
+    message: Channel "{{channel.title}}" combines a TCP listener with internet egress
+  - id: ORG-PHI001
+    name: PHI Redaction Required
+    severity: warning
+    category: compliance
+    when: { path: channel.metadata.tags, contains: PHI }
+    require:
+      hasStage: { path: stage.nexonId, matches: '^phi\\.redact' }
+    message: PHI channels must include a redaction stage
+  - id: ORG-PHI002
+    name: Redact Before Egress
+    severity: error
+    category: compliance
+    scope: stage
+    when: { path: stage.nexonId, in: [http.request, email.send] }
+    require:
+      upstream: { path: stage.nexonId, matches: '^phi\\.redact' }
+    message: Stage "{{stage.id}}" sends data that was not redacted
+`;
+
+function createFeedChannel(overrides: Partial<ChannelIR> = {}): ChannelIR {
+  const stages = [
+    { id: 'tcp-1', nexonId: 'tcp.listener', params: { port: 9000 } },
+    { id: 'redact-1', nexonId: 'phi.redact', params: {} },
+    { id: 'http-1', nexonId: 'http.request', params: { url: 'http://partner.example.com' } },
+  ];
+  return createChannel(stages, {
+    title: 'ADT Feed',
+    security: { allowInternetHttpOut: true },
+    edges: chainEdges(stages),
+    metadata: { tags: ['PHI'] },
+    ...overrides,
+  });
+}
+
+describe('CustomPolicyRuleService', () => {
+  let rootPath: string;
+  let store: PolicyStoreService;
+  let service: CustomPolicyRuleService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'gj-policy-rules-'));
+    await mkdir(join(rootPath, 'rules'));
+    await writeFile(join(rootPath, 'rules', 'compliance.yaml'), complianceRules);
+    store = new PolicyStoreService(rootPath);
+    service = new CustomPolicyRuleService(store);
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('evaluates stage and channel rules over the channel graph', async () => {
+    const violations = service.evaluate(createFeedChannel(), await service.loadRules());
+
+    expect(violations).toEqual([
+      {
+        ruleId: 'ORG-HTTP001',
+        ruleName: 'HTTPS Required',
+        severity: 'error',
+        category: 'security',
+        message: 'Stage "http-1" calls http://partner.example.com without TLS',
+        stageId: 'http-1',
+        suggestion: 'Use an https:// URL',
+      },
+      expect.objectContaining({ ruleId: 'ORG-NET001', message: 'Channel "ADT Feed" combines a TCP listener with internet egress' }),
+    ]);
+  });
+
+  it('requires stages that are missing from the graph', async () => {
+    const channel = createFeedChannel({
+      security: {},
+      stages: [
+        { id: 'tcp-1', nexonId: 'tcp.listener', params: {} },
+        { id: 'http-1', nexonId: 'http.request', params: { url: 'https://partner.example.com' } },
+        { id: 'redact-1', nexonId: 'phi.redact', params: {} },
+      ],
+      edges: [
+        { id: 'e1', from: { stageId: 'tcp-1' }, to: { stageId: 'http-1' } },
+        { id: 'e2', from: { stageId: 'http-1' }, to: { stageId: 'redact-1' } },
+      ],
+    });
+    const rules = await service.loadRules();
+
+    expect(service.evaluate(channel, rules).map((violation) => [violation.ruleId, violation.stageId])).toEqual([
+      ['ORG-PHI002', 'http-1'],
+    ]);
+
+    const withoutRedaction = { ...channel, stages: channel.stages.slice(0, 2), edges: channel.edges.slice(0, 1) };
+    expect(service.evaluate(withoutRedaction, rules).map((violation) => violation.ruleId)).toEqual([
+      'ORG-PHI001',
+      'ORG-PHI002',
+    ]);
+  });
+
+  it('rejects malformed rules and duplicate ids', async () => {
+    await writeFile(
+      join(rootPath, 'rules', 'broken.json'),
+      JSON.stringify({ version: 1, rules: [{ id: 'ORG-X1', name: 'X', severity: 'fatal', category: 'security', message: 'x', when: {} }] }),
+    );
+    await expect(service.loadRules()).rejects.toThrow('Policy rule "ORG-X1" (broken): "severity" must be one of error, warning, info');
+
+    await writeFile(
+      join(rootPath, 'rules', 'broken.json'),
+      JSON.stringify({ version: 1, rules: [{ id: 'ORG-X1', name: 'X', severity: 'info', category: 'security', message: 'x', when: { downstream: { path: 'stage.id', exists: true } } }] }),
+    );
+    await expect(service.loadRules()).rejects.toThrow('"downstream" can only be used in stage-scoped rules');
+
+    await writeFile(join(rootPath, 'rules', 'copy.yaml'), complianceRules);
+    await rm(join(rootPath, 'rules', 'broken.json'));
+    await expect(service.loadRules()).rejects.toThrow('Policy rule "ORG-HTTP001" is defined in both "compliance" and "copy"');
+  });
+
+  it('adds custom violations to the policy lint and protects built-in rule ids', async () => {
+    const templateService = createTemplateService(
+      ['tcp.listener', 'phi.redact', 'http.request'].map((nexonId) => ({ manifest: createManifest(nexonId), template: [] }))
+    );
+    const securityAckService = new SecurityAckService(new HashingService(), join(rootPath, 'acks'));
+    const policyService = new PolicyService(store, new CapabilityPolicyService(templateService), service, securityAckService);
+    await securityAckService.acknowledge({
+      channelId: 'channel-1',
+      userId: 'security-officer',
+      reason: 'Listener is only reachable over the VPN',
+      violations: [{ ruleId: 'ORG-NET001', contentHash: securityAckService.contentHash(createFeedChannel()) }],
+    });
+
+    const result = await policyService.lintChannel(createFeedChannel(), 'acme');
+    expect(result.violations.filter((violation) => violation.ruleId.startsWith('ORG-'))).toEqual([
+      expect.objectContaining({ ruleId: 'ORG-HTTP001', acknowledged: false }),
+      expect.objectContaining({ ruleId: 'ORG-NET001', acknowledged: true }),
+    ]);
+
+    await writeFile(join(rootPath, 'rules', 'shadow.yaml'), 'version: 1\nrules:\n  - { id: SEC001, name: X, severity: info, category: security, message: x, when: { path: channel.title, exists: true } }\n');
+    await expect(policyService.lintChannel(createFeedChannel())).rejects.toThrow('Policy rule "SEC001" (shadow) reuses the id of a built-in rule');
+  });
+});
@@ -1,4 +1,4 @@
-import { ChannelIR } from '@gj/ir-schema';
+import type { ChannelIR, Edge, Stage } from '@gapjunction/ir-schema';
 
 /**
  * Test fixture channels for comprehensive testing
@@ -546,4 +546,39 @@ export const testChannels = {
   channelWithExpressions,
   channelWithMissingNexon,
   invalidChannels,
-};
\ No newline at end of file
+};
+
+/**
+ * Minimal on-prem channel around the given stages, with `overrides` applied on top
+ */
+export function createChannel(stages: Stage[] = [], overrides: Partial<ChannelIR> = {}): ChannelIR {
+  return {
+    version: 1,
+    channelId: 'channel-1',
+    title: 'Channel',
+    runtime: { target: 'onprem' },
+    security: {},
+    stages,
+    edges: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Edges wiring the stages one after another through their default ports
+ */
+export function chainEdges(stages: Stage[]): Edge[] {
+  return stages.slice(1).map((stage, index) => ({
+    id: `edge-${index}`,
+    from: { stageId: stages[index]?.id ?? '' },
+    to: { stageId: stage.id },
+  }));
+}
+
+/**
+ * Chain of `tcp.listener` stages, one per port
+ */
+export function createTcpChannel(ports: number[], overrides: Partial<ChannelIR> = {}): ChannelIR {
+  const stages = ports.map((port, index) => ({ id: `tcp-${index}`, nexonId: 'tcp.listener', nexonVersion: '1.0.0', params: { port } }));
+  return createChannel(stages, { edges: chainEdges(stages), ...overrides });
+}
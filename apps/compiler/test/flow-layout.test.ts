@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { ChannelIR } from '@gapjunction/ir-schema';
+
+import { ArtifactsService } from '../src/services/artifacts.service.js';
+import { FlowLayoutService } from '../src/services/flow-layout.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import { IdGeneratorService } from '../src/services/id-generator.service.js';
+import type { NexonManifest, NexonTemplate } from '../src/services/nexon-template.service.js';
+import { ParameterSubstitutionService } from '../src/services/parameter-substitution.service.js';
+import { RuntimeExpressionService } from '../src/services/runtime-expression.service.js';
+import { SecretReferenceService } from '../src/services/secret-reference.service.js';
+import { StageArtifactCacheService } from '../src/services/stage-artifact-cache.service.js';
+import { StagePortService } from '../src/services/stage-port.service.js';
+import { TemplateExpressionService } from '../src/services/template-expression.service.js';
+
+import { createChannel } from './fixtures/channels.js';
+import { createTemplateService } from './utils/nexon-templates.js';
+
+type FlowEntry = Record<string, unknown>;
+
+const formatterManifest: NexonManifest = {
+  id: 'json.format',
+  version: '1.2.0',
+  title: 'JSON Formatter',
+  description: 'Pretty-print the payload',
+  capabilities: {},
+  parameters: {
+    indent: { type: 'number', title: 'Indent', description: 'Spaces per level', required: false, default: 2 },
+    label: { type: 'string', title: 'Label', description: 'Label', required: false },
+  },
+  subflow: true,
+  continuation: {
+    outlets: {
+      ok: { node: 'format', output: 0, default: true },
+      error: { node: 'format', output: 1 },
+    },
+  },
+};
+
+const listenerManifest: NexonManifest = {
+  id: 'tcp.listener',
+  version: '1.0.0',
+  title: 'TCP Listener',
+  description: 'Listen for incoming TCP connections',
+  capabilities: {},
+  parameters: {},
+};
+
+const templates = new Map<string, NexonTemplate>([
+  ['json.format', {
+    manifest: formatterManifest,
+    template: [{ id: 'format', type: 'function', name: '{{params.label}}', indent: '{{params.indent}}', wires: [[], []] }],
+  }],
+  ['tcp.listener', {
+    manifest: listenerManifest,
+    template: [{ id: 'listener', type: 'tcp in', port: '{{params.port}}', wires: [[]] }],
+  }],
+]);
+
+function createFormatterChannel(): ChannelIR {
+  return createChannel([
+    { id: 'listen', nexonId: 'tcp.listener', nexonVersion: '1.0.0', params: { port: 9000 } },
+    { id: 'format-a', nexonId: 'json.format', nexonVersion: '1.2.0', params: { indent: 4, label: 'A' } },
+    { id: 'format-b', nexonId: 'json.format', nexonVersion: '1.2.0', params: { label: { secret: 'LABEL' } } },
+  ], {
+    edges: [
+      { id: 'edge-1', from: { stageId: 'listen' }, to: { stageId: 'format-a' } },
+      { id: 'edge-2', from: { stageId: 'format-a', outlet: 'error' }, to: { stageId: 'format-b' } },
+    ],
+  });
+}
+
+function byType(flows: FlowEntry[], type: string): FlowEntry[] {
+  return flows.filter((entry) => entry['type'] === type);
+}
+
+describe('Flow layout', () => {
+  let idGenerator: IdGeneratorService;
+  let artifactsService: ArtifactsService;
+
+  beforeEach(() => {
+    const nexonTemplateService = createTemplateService(templates);
+    const secretReferenceService = new SecretReferenceService();
+    idGenerator = new IdGeneratorService();
+    artifactsService = new ArtifactsService({
+      nexonTemplateService,
+      parameterSubstitutionService: new ParameterSubstitutionService(new TemplateExpressionService(), new RuntimeExpressionService(), secretReferenceService),
+      idGenerator,
+      stagePortService: new StagePortService(nexonTemplateService),
+      secretReferenceService,
+      stageCache: new StageArtifactCacheService(new HashingService()),
+      flowLayoutService: new FlowLayoutService(idGenerator),
+    });
+  });
+
+  it('compiles subflow templates to one definition and an instance per stage', async () => {
+    const { flowsJson } = await artifactsService.generateArtifacts(createFormatterChannel(), { buildId: 'build-1', mode: 'TEST' });
+    const flows = flowsJson as FlowEntry[];
+    const subflowId = idGenerator.generateSubflowId('json.format', '1.2.0');
+    const [definition, ...others] = byType(flows, 'subflow');
+
+    expect(others).toEqual([]);
+    expect(definition).toMatchObject({
+      id: subflowId,
+      name: 'JSON Formatter',
+      in: [{ wires: [{ id: idGenerator.generateNodeId('subflow:json.format@1.2.0', 'format') }] }],
+      out: [
+        { wires: [{ id: idGenerator.generateNodeId('subflow:json.format@1.2.0', 'format'), port: 0 }] },
+        { wires: [{ id: idGenerator.generateNodeId('subflow:json.format@1.2.0', 'format'), port: 1 }] },
+      ],
+    });
+
+    // The template's nodes live once inside the definition and read parameters from env
+    const internal = flows.filter((entry) => entry['z'] === subflowId);
+    expect(internal).toEqual([expect.objectContaining({ type: 'function', name: '${label}', indent: '${indent}' })]);
+
+    const instances = byType(flows, `subflow:${subflowId}`);
+    expect(instances.map((instance) => instance['env'])).toEqual([
+      [{ name: 'indent', type: 'num', value: '4' }, { name: 'label', type: 'str', value: 'A' }],
+      [{ name: 'label', type: 'env', value: 'GJ_SECRET_FORMAT_B_LABEL' }, { name: 'indent', type: 'num', value: '2' }],
+    ]);
+  });
+
+  it('wires named outlets to the matching instance outputs', async () => {
+    const { flowsJson } = await artifactsService.generateArtifacts(createFormatterChannel(), { buildId: 'build-1', mode: 'TEST' });
+    const flows = flowsJson as FlowEntry[];
+    const formatA = flows.find((entry) => entry['id'] === idGenerator.generateNodeId('format-a', 'gj-subflow'));
+    const listener = flows.find((entry) => entry['id'] === idGenerator.generateNodeId('listen', 'listener'));
+
+    expect(listener?.['wires']).toEqual([[idGenerator.generateNodeId('format-a', 'gj-subflow')]]);
+    expect(formatA?.['wires']).toEqual([[], [idGenerator.generateNodeId('format-b', 'gj-subflow')]]);
+  });
+
+  it('splits large channels across tabs joined by link nodes with stable ids', async () => {
+    const options = { buildId: 'build-1', mode: 'TEST' as const, maxStagesPerTab: 2 };
+    const first = (await artifactsService.generateArtifacts(createFormatterChannel(), options)).flowsJson as FlowEntry[];
+    const second = (await artifactsService.generateArtifacts(createFormatterChannel(), options)).flowsJson as FlowEntry[];
+    const tabs = byType(first, 'tab');
+
+    expect(second).toEqual(first);
+    expect(tabs.map((tab) => [tab['id'], tab['label']])).toEqual([
+      [idGenerator.generateFlowId('channel-1'), 'Channel (1/2)'],
+      [idGenerator.generateTabId('channel-1', 1), 'Channel (2/2)'],
+    ]);
+
+    // format-a (tab 1) -> format-b (tab 2) crosses tabs
+    const linkOutId = idGenerator.generateLinkNodeId('edge-2', 'out');
+    const linkInId = idGenerator.generateLinkNodeId('edge-2', 'in');
+    const formatA = first.find((entry) => entry['id'] === idGenerator.generateNodeId('format-a', 'gj-subflow'));
+
+    expect(formatA?.['wires']).toEqual([[], [linkOutId]]);
+    expect(byType(first, 'link out')).toEqual([expect.objectContaining({ id: linkOutId, z: tabs[0]?.['id'], links: [linkInId] })]);
+    expect(byType(first, 'link in')).toEqual([expect.objectContaining({
+      id: linkInId,
+      z: tabs[1]?.['id'],
+      links: [linkOutId],
+      wires: [[idGenerator.generateNodeId('format-b', 'gj-subflow')]],
+    })]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { IdGeneratorService } from '../src/services/id-generator.service.js';
+
+describe('IdGeneratorService', () => {
+  let service: IdGeneratorService;
+
+  beforeEach(() => {
+    service = new IdGeneratorService();
+  });
+
+  describe('namespaceTemplateNodes', () => {
+    it('rewrites wires to the namespaced node ids', () => {
+      const result = service.namespaceTemplateNodes('tcp-1', [
+        { id: 'tcp-in-node', type: 'tcp in', server: 'server', wires: [['data-processor-node', 'connection-monitor-node']] },
+        { id: 'data-processor-node', type: 'function', wires: [[]] },
+        { id: 'connection-monitor-node', type: 'function', wires: [[]] },
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.nodes[0]).toMatchObject({
+        id: service.generateNodeId('tcp-1', 'tcp-in-node'),
+        server: 'server',
+        wires: [[
+          service.generateNodeId('tcp-1', 'data-processor-node'),
+          service.generateNodeId('tcp-1', 'connection-monitor-node'),
+        ]],
+      });
+    });
+
+    it('rewrites config-node and link references', () => {
+      const result = service.namespaceTemplateNodes('ws-1', [
+        { id: 'listener', type: 'websocket-listener' },
+        { id: 'ws-in', type: 'websocket in', server: 'listener', wires: [['out']] },
+        { id: 'out', type: 'link out', links: ['in'] },
+        { id: 'in', type: 'link in', links: ['out'], wires: [] },
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.nodes[1]?.['server']).toBe(service.generateNodeId('ws-1', 'listener'));
+      expect(result.nodes[2]?.['links']).toEqual([service.generateNodeId('ws-1', 'in')]);
+    });
+
+    it('reports references that do not resolve', () => {
+      const result = service.namespaceTemplateNodes('http-1', [
+        { id: 'request', type: 'http request', tls: 'missing-tls', wires: [['missing-node']] },
+      ]);
+
+      expect(result.errors).toEqual([
+        'Template node "request" field "tls" references unknown node "missing-tls"',
+        'Template node "request" field "wires[0]" references unknown node "missing-node"',
+      ]);
+    });
+
+    it('generates the same ids for the same stage', () => {
+      const nodes = [{ id: 'a', wires: [[]] }];
+
+      expect(service.namespaceTemplateNodes('s', nodes).nodes).toEqual(service.namespaceTemplateNodes('s', nodes).nodes);
+    });
+  });
+});
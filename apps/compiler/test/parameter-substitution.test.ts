@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ParameterSubstitutionService, type SubstitutionContext } from '../src/services/parameter-substitution.service.js';
+import { RuntimeExpressionService } from '../src/services/runtime-expression.service.js';
+import { SecretReferenceService } from '../src/services/secret-reference.service.js';
+import { TemplateExpressionService } from '../src/services/template-expression.service.js';
+
+describe('ParameterSubstitutionService', () => {
+  let service: ParameterSubstitutionService;
+
+  const context: SubstitutionContext = {
+    parameters: {
+      port: 8080,
+      host: 'api.example.com',
+      headers: { accept: 'application/json' },
+    },
+    stage: { id: 'stage-1' },
+    channel: { channelId: 'channel-1', title: 'Test Channel' },
+    runtime: { target: 'onprem' },
+    flow: { id: 'flow-1' },
+  };
+
+  beforeEach(() => {
+    service = new ParameterSubstitutionService(
+      new TemplateExpressionService(),
+      new RuntimeExpressionService(),
+      new SecretReferenceService(),
+    );
+  });
+
+  it('keeps the value type for a single placeholder', () => {
+    const result = service.substituteParameters({ port: '{{params.port}}' }, context);
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ port: 8080 });
+  });
+
+  it('supports the parameters alias and nested paths', () => {
+    const result = service.substituteParameters('{{parameters.headers.accept}}', context);
+
+    expect(result.value).toBe('application/json');
+  });
+
+  it('applies || defaults and object literal fallbacks', () => {
+    const result = service.substituteParameters(
+      {
+        name: "{{stage.title || 'TCP Listener'}}",
+        headers: '{{params.missing || {}}}',
+      },
+      context,
+    );
+
+    expect(result.value).toEqual({ name: 'TCP Listener', headers: {} });
+  });
+
+  it('evaluates ternaries', () => {
+    const result = service.substituteParameters(
+      "{{params.apiKey ? 'flow.get(\"apiKey\")' : 'null'}}",
+      context,
+    );
+
+    expect(result.value).toBe('null');
+  });
+
+  it('interpolates placeholders inside larger strings', () => {
+    const result = service.substituteParameters(
+      {
+        url: 'https://{{params.host}}:{{params.port}}/v1',
+        func: 'msg.headers = {{JSON.stringify(params.headers || {})}};',
+      },
+      context,
+    );
+
+    expect(result.value).toEqual({
+      url: 'https://api.example.com:8080/v1',
+      func: 'msg.headers = {"accept":"application/json"};',
+    });
+  });
+
+  it('exposes the flow tab id', () => {
+    const result = service.substituteParameters({ z: '{{flow.id}}' }, context);
+
+    expect(result.value).toEqual({ z: 'flow-1' });
+  });
+
+  it('reports the template node and field of a failing placeholder', () => {
+    const result = service.substituteParameters(
+      [{ id: 'tcp-in', type: 'tcp in', config: { port: '{{params.port.value.deep}}' } }],
+      context,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toContain('Template node "tcp-in" field "config.port"');
+    expect(result.errors?.[0]).toContain('params.port.value.deep');
+  });
+
+  it('rejects unknown identifiers and disallowed calls', () => {
+    const unknown = service.substituteParameters('{{process.env}}', context);
+    const call = service.substituteParameters('{{eval("1")}}', context);
+
+    expect(unknown.errors?.[0]).toContain('Unknown identifier "process"');
+    expect(call.errors?.[0]).toContain('is not allowed');
+  });
+
+  it('blocks prototype access', () => {
+    const result = service.substituteParameters('{{params.constructor}}', context);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('exposes expression tokens as JSONata and reports them for runtime resolution', () => {
+    const result = service.substituteParameters(
+      { to: '{{params.mrn}}' },
+      { ...context, parameters: { mrn: { expression: '$.payload.mrn' } } },
+    );
+
+    expect(result.value).toEqual({ to: 'payload.mrn' });
+    expect(result.runtimeExpressions).toEqual([
+      { param: 'mrn', expression: '$.payload.mrn', jsonata: 'payload.mrn' },
+    ]);
+  });
+
+  it('exposes secret tokens only as environment references', () => {
+    const result = service.substituteParameters(
+      { credentials: { password: '{{params.apiKey}}' } },
+      { ...context, parameters: { apiKey: { secret: { ref: 'vault://http/api-key' } } } },
+    );
+
+    expect(result.value).toEqual({ credentials: { password: '${GJ_SECRET_STAGE_1_APIKEY}' } });
+  });
+
+  it('fails with the parameter name for invalid expressions', () => {
+    const result = service.substituteParameters(
+      { to: '{{params.mrn}}' },
+      { ...context, parameters: { mrn: { expression: 'payload.mrn' } } },
+    );
+
+    expect(result.errors).toEqual(['Parameter "mrn": Invalid expression "payload.mrn": must start with "$"']);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { ChannelIR, ParamValue } from '@gapjunction/ir-schema';
+
+import type { NexonManifest } from '../src/services/nexon-template.service.js';
+import { ParameterValidationService } from '../src/services/parameter-validation.service.js';
+import { RuntimeExpressionService } from '../src/services/runtime-expression.service.js';
+
+import { createChannel } from './fixtures/channels.js';
+import { createTemplateService } from './utils/nexon-templates.js';
+
+const manifest: NexonManifest = {
+  id: 'tcp.listener',
+  version: '1.0.0',
+  title: 'TCP Listener',
+  description: 'Listen for incoming TCP connections',
+  capabilities: {},
+  parameters: {
+    port: {
+      type: 'number',
+      title: 'Port',
+      description: 'Port to listen on',
+      required: true,
+      validation: { min: 1, max: 65535 },
+    },
+    host: {
+      type: 'string',
+      title: 'Host',
+      description: 'Bind address',
+      required: false,
+      default: 'localhost',
+      validation: { pattern: '^[a-z0-9.]+$' },
+    },
+    datamode: {
+      type: 'string',
+      title: 'Data Mode',
+      description: 'How to handle data',
+      required: false,
+      default: 'stream',
+      validation: { enum: ['stream', 'single'] },
+    },
+  },
+};
+
+const templateService = createTemplateService([{ manifest, template: [] }]);
+
+function createStageChannel(params: Record<string, ParamValue>, nexonId = 'tcp.listener'): ChannelIR {
+  return createChannel([{ id: 'tcp-1', nexonId, params }]);
+}
+
+describe('ParameterValidationService', () => {
+  let service: ParameterValidationService;
+
+  beforeEach(() => {
+    service = new ParameterValidationService(templateService, new RuntimeExpressionService());
+  });
+
+  it('merges manifest defaults into stage params', async () => {
+    const result = await service.validateChannelParameters(createStageChannel({ port: 8080 }));
+
+    expect(result.valid).toBe(true);
+    expect(result.channel.stages[0]?.params).toEqual({ port: 8080, host: 'localhost', datamode: 'stream' });
+  });
+
+  it('rejects missing required params', async () => {
+    const result = await service.validateChannelParameters(createStageChannel({}));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{ stageId: 'tcp-1', param: 'port', message: 'is required' }]);
+  });
+
+  it('enforces min/max, enum, pattern and type rules', async () => {
+    const result = await service.validateChannelParameters(
+      createStageChannel({ port: 70000, host: 'Bad Host', datamode: 'chunked' }),
+    );
+    const messages = result.errors.map((error) => service.formatError(error));
+
+    expect(messages).toEqual([
+      'Stage "tcp-1" parameter "port": must be <= 65535 (got 70000)',
+      'Stage "tcp-1" parameter "host": must match pattern ^[a-z0-9.]+$',
+      'Stage "tcp-1" parameter "datamode": must be one of "stream", "single"',
+    ]);
+
+    const typed = await service.validateChannelParameters(createStageChannel({ port: '8080' }));
+    expect(typed.errors[0]?.message).toBe('expected number but got string');
+  });
+
+  it('only checks the syntax of expression tokens', async () => {
+    const result = await service.validateChannelParameters(createStageChannel({ port: { expression: '$.port' } }));
+    const invalid = await service.validateChannelParameters(createStageChannel({ port: { expression: '$.port[' } }));
+
+    expect(result.valid).toBe(true);
+    expect(invalid.errors[0]).toMatchObject({ stageId: 'tcp-1', param: 'port' });
+    expect(invalid.errors[0]?.message).toContain('Invalid expression "$.port["');
+  });
+
+  it('warns instead of failing when the template is unavailable', async () => {
+    const result = await service.validateChannelParameters(createStageChannel({}, 'unknown.nexon'));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings[0]).toContain('unknown.nexon is unavailable');
+  });
+});
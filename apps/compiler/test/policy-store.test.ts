@@ -0,0 +1,104 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { ChannelIR } from '@gapjunction/ir-schema';
+
+import { CapabilityPolicyService } from '../src/services/capability-policy.service.js';
+import { CustomPolicyRuleService } from '../src/services/custom-policy-rule.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import type { NexonTemplateService } from '../src/services/nexon-template.service.js';
+import { PolicyStoreService } from '../src/services/policy-store.service.js';
+import { PolicyService } from '../src/services/policy.service.js';
+import { SecurityAckService } from '../src/services/security-ack.service.js';
+
+const channel = {
+  version: 1,
+  channelId: 'channel-1',
+  title: 'Channel',
+  documentation: 'Receives ADT messages',
+  runtime: { target: 'cloud' },
+  security: { allowInternetHttpOut: true },
+  stages: [{ id: 'http-1', nexonId: 'http.request', nexonVersion: '1.0.0', description: 'Post', params: {} }],
+  edges: [],
+} as unknown as ChannelIR;
+
+describe('PolicyStoreService', () => {
+  let rootPath: string;
+  let store: PolicyStoreService;
+  let policyService: PolicyService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'gj-policy-store-'));
+    await mkdir(join(rootPath, 'profiles'));
+    await writeFile(
+      join(rootPath, 'profiles', 'hipaa-strict.yaml'),
+      'version: 2.1.0\npolicies:\n  allowInternetAccess: deny\n  allowedRuntimeTargets: [onprem]\n',
+    );
+    store = new PolicyStoreService(rootPath);
+    const templateService = {
+      fetchTemplate: async () => ({ manifest: { capabilities: { network: { httpOut: true } } }, template: [] }),
+    } as unknown as NexonTemplateService;
+    policyService = new PolicyService(
+      store,
+      new CapabilityPolicyService(templateService),
+      new CustomPolicyRuleService(store),
+      new SecurityAckService(new HashingService(), join(rootPath, 'acks')),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('loads versioned YAML profiles', async () => {
+    await expect(store.getProfile('hipaa-strict')).resolves.toEqual({
+      name: 'hipaa-strict',
+      version: '2.1.0',
+      policies: { allowInternetAccess: 'deny', allowedRuntimeTargets: ['onprem'] },
+    });
+    await expect(store.getProfile('missing')).rejects.toThrow('Policy profile "missing" not found');
+    await expect(store.getProfile('../orgs/acme')).rejects.toThrow('Invalid policy document name');
+  });
+
+  it('rejects unknown or mistyped settings', async () => {
+    await writeFile(join(rootPath, 'profiles', 'broken.json'), JSON.stringify({ version: 1, policies: { allowInternet: 'deny' } }));
+
+    await expect(store.getProfile('broken')).rejects.toThrow('Policy profile "broken": unknown policy setting "allowInternet"');
+  });
+
+  it('bumps the version on save and keeps the previous document', async () => {
+    const first = await store.saveOrgPolicy('acme', { policies: { requireDocumentation: true }, updatedBy: 'user-1' });
+    const second = await store.saveOrgPolicy('acme', { policies: { requireDocumentation: false }, profile: 'hipaa-strict' });
+
+    expect(first.version).toBe(1);
+    expect(second).toMatchObject({ orgId: 'acme', version: 2, profile: 'hipaa-strict' });
+    await expect(store.getOrgPolicy('acme')).resolves.toMatchObject({ version: 2 });
+
+    const archived = JSON.parse(await readFile(join(rootPath, 'orgs', 'acme.v1.json'), 'utf8'));
+    expect(archived).toMatchObject({ version: 1, updatedBy: 'user-1' });
+  });
+
+  it('applies the requested profile and records the applied versions', async () => {
+    const result = await policyService.lintChannel(channel, 'acme', 'hipaa-strict');
+
+    expect(result.appliedPolicy).toEqual({
+      orgId: 'acme',
+      orgPolicyVersion: null,
+      profile: { name: 'hipaa-strict', version: '2.1.0' },
+    });
+    expect(result.violations.find((violation) => violation.ruleId === 'SEC001')?.severity).toBe('error');
+    expect(result.violations.map((violation) => violation.ruleId)).toContain('RT001');
+  });
+
+  it('lets stored org settings override the org default profile', async () => {
+    await store.saveOrgPolicy('acme', { profile: 'hipaa-strict', policies: { allowedRuntimeTargets: ['onprem', 'cloud'] } });
+
+    const result = await policyService.lintChannel(channel, 'acme');
+
+    expect(result.appliedPolicy).toMatchObject({ orgPolicyVersion: 1, profile: { name: 'hipaa-strict' } });
+    expect(result.violations.map((violation) => violation.ruleId)).not.toContain('RT001');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RuntimeExpressionService } from '../src/services/runtime-expression.service.js';
+
+describe('RuntimeExpressionService', () => {
+  let service: RuntimeExpressionService;
+
+  beforeEach(() => {
+    service = new RuntimeExpressionService();
+  });
+
+  it('translates JSONPath to JSONata paths against msg', () => {
+    expect(service.toJsonata('$.payload.mrn')).toBe('payload.mrn');
+    expect(service.toJsonata("$.payload['first name'][0]")).toBe('payload.`first name`[0]');
+    expect(service.toJsonata('$.items[*].id')).toBe('items.*.id');
+    expect(service.toJsonata('$')).toBe('$');
+  });
+
+  it('rejects invalid or unsupported syntax', () => {
+    expect(() => service.parse('payload.mrn')).toThrow('Invalid expression "payload.mrn": must start with "$"');
+    expect(() => service.parse('$.payload[')).toThrow('unsupported selector');
+    expect(() => service.parse('$..mrn')).toThrow('recursive descent');
+    expect(() => service.parse('$.items[?(@.id)]')).toThrow('filters and slices are not supported');
+  });
+
+  it('collects nested expression tokens with their parameter paths', () => {
+    const result = service.compileExpressions({
+      url: 'https://example.com',
+      patient: { expression: '$.payload.patient' },
+      headers: { 'x-mrn': { expression: '$.payload.mrn' }, bad: { expression: '$.[' } },
+      apiKey: { secret: { type: 'secretRef', ref: 'env://API_KEY' } },
+    });
+
+    expect(result.expressions).toEqual([
+      { param: 'patient', expression: '$.payload.patient', jsonata: 'payload.patient' },
+      { param: 'headers["x-mrn"]', expression: '$.payload.mrn', jsonata: 'payload.mrn' },
+    ]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.param).toBe('headers.bad');
+  });
+});
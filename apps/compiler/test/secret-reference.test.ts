@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { ChannelIR } from '@gapjunction/ir-schema';
+
+import { SecretReferenceService } from '../src/services/secret-reference.service.js';
+
+describe('SecretReferenceService', () => {
+  let service: SecretReferenceService;
+
+  beforeEach(() => {
+    service = new SecretReferenceService();
+  });
+
+  it('replaces nested secret tokens with env references', () => {
+    const value = service.replaceWithEnvReferences('http-1', {
+      apiKey: { secret: { ref: 'env://API_KEY' } },
+      auth: { password: { secret: { ref: 'vault://db/password' } }, user: 'svc' },
+    });
+
+    expect(value).toEqual({
+      apiKey: '${GJ_SECRET_HTTP_1_APIKEY}',
+      auth: { password: '${GJ_SECRET_HTTP_1_AUTH_PASSWORD}', user: 'svc' },
+    });
+  });
+
+  it('collects every secret reference of a channel', () => {
+    const channel = {
+      stages: [
+        { id: 'http-1', nexonId: 'http.request', params: { apiKey: { secret: { ref: 'env://API_KEY' } }, url: 'x' } },
+        { id: 'tcp-1', nexonId: 'tcp.listener', params: { port: 8080 } },
+      ],
+    } as unknown as ChannelIR;
+
+    expect(service.collectSecretReferences(channel)).toEqual({
+      'http-1.apiKey': { type: 'secretRef', ref: 'env://API_KEY', envVar: 'GJ_SECRET_HTTP_1_APIKEY' },
+    });
+  });
+
+  it('moves credentials blocks out of flow nodes', () => {
+    const nodes: Array<Record<string, unknown>> = [
+      { id: 'req', type: 'http request', credentials: { user: '', password: '${GJ_SECRET_HTTP_1_APIKEY}' } },
+      { id: 'fn', type: 'function' },
+    ];
+
+    expect(service.extractNodeCredentials(nodes)).toEqual({
+      req: { user: '', password: '${GJ_SECRET_HTTP_1_APIKEY}' },
+    });
+    expect(nodes[0]).not.toHaveProperty('credentials');
+  });
+});
@@ -0,0 +1,181 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { ChannelIR } from '@gapjunction/ir-schema';
+
+import { HashingService } from '../src/services/hashing.service.js';
+import type { PolicyViolation } from '../src/services/policy.service.js';
+import { SecurityAckService } from '../src/services/security-ack.service.js';
+
+const channel = {
+  version: 1,
+  channelId: 'channel-1',
+  title: 'Channel',
+  runtime: { target: 'onprem' },
+  security: { allowInternetHttpOut: true },
+  stages: [
+    { id: 'http-1', nexonId: 'http.request', params: { url: 'https://a.example.com' } },
+    { id: 'http-2', nexonId: 'http.request', params: { url: 'https://b.example.com' } },
+  ],
+  edges: [{ id: 'e1', from: { stageId: 'http-1' }, to: { stageId: 'http-2' } }],
+} as unknown as ChannelIR;
+
+function createViolations(): PolicyViolation[] {
+  return [
+    { ruleId: 'CAP002', ruleName: 'Denied Capability', severity: 'error', category: 'security', message: '', stageId: 'http-1' },
+    { ruleId: 'CAP002', ruleName: 'Denied Capability', severity: 'error', category: 'security', message: '', stageId: 'http-2' },
+    { ruleId: 'SEC001', ruleName: 'Internet HTTP Access', severity: 'warning', category: 'security', message: '' },
+  ];
+}
+
+describe('SecurityAckService', () => {
+  let rootPath: string;
+  let service: SecurityAckService;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'gj-security-acks-'));
+    service = new SecurityAckService(new HashingService(), rootPath);
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('acknowledges a violation only for its stage and content', async () => {
+    await service.acknowledge({
+      channelId: 'channel-1',
+      userId: 'alice',
+      reason: 'Partner endpoint approved',
+      violations: [{ ruleId: 'CAP002', stageId: 'http-1', contentHash: service.contentHash(channel, 'http-1') }],
+    });
+
+    const violations = createViolations();
+    await service.applyAcknowledgements(channel, violations);
+
+    expect(violations.map((violation) => violation.acknowledged)).toEqual([true, false, false]);
+    expect(violations[0]?.contentHash).toBe(service.contentHash(channel, 'http-1'));
+  });
+
+  it('ignores editor-only changes but invalidates acks when the relevant IR changes', async () => {
+    await service.acknowledge({
+      channelId: 'channel-1',
+      userId: 'alice',
+      reason: 'Partner endpoint approved',
+      violations: [
+        { ruleId: 'CAP002', stageId: 'http-1', contentHash: service.contentHash(channel, 'http-1') },
+        { ruleId: 'SEC001', contentHash: service.contentHash(channel) },
+      ],
+    });
+
+    const moved = {
+      ...channel,
+      stages: channel.stages.map((stage) => ({ ...stage, title: 'Renamed', position: { x: 1, y: 2 } })),
+    };
+    const unchanged = createViolations();
+    await service.applyAcknowledgements(moved, unchanged);
+    expect(unchanged.map((violation) => violation.acknowledged)).toEqual([true, false, true]);
+
+    const changed = {
+      ...channel,
+      stages: [{ ...channel.stages[0], params: { url: 'https://c.example.com' } }, channel.stages[1]],
+    } as ChannelIR;
+    const violations = createViolations();
+    await service.applyAcknowledgements(changed, violations);
+    expect(violations.map((violation) => violation.acknowledged)).toEqual([false, false, false]);
+
+    const records = await service.listAcknowledgements({ channelId: 'channel-1' });
+    expect(records.map((record) => [record.ruleId, record.status])).toEqual([
+      ['CAP002', 'invalidated'],
+      ['SEC001', 'invalidated'],
+    ]);
+    expect(records[0]?.invalidatedByHash).toBe(service.contentHash(changed, 'http-1'));
+
+    // Reverting the change does not revive an invalidated ack
+    const reverted = createViolations();
+    await service.applyAcknowledgements(channel, reverted);
+    expect(reverted[0]?.acknowledged).toBe(false);
+  });
+
+  it('does not invalidate acks when applied read-only', async () => {
+    await service.acknowledge({
+      channelId: 'channel-1',
+      userId: 'alice',
+      reason: 'Partner endpoint approved',
+      violations: [{ ruleId: 'CAP002', stageId: 'http-1', contentHash: service.contentHash(channel, 'http-1') }],
+    });
+
+    const changed = {
+      ...channel,
+      stages: [{ ...channel.stages[0], params: { url: 'https://c.example.com' } }, channel.stages[1]],
+    } as ChannelIR;
+    const previewed = createViolations();
+    await service.applyAcknowledgements(changed, previewed, { readOnly: true });
+    expect(previewed[0]?.acknowledged).toBe(false);
+
+    const records = await service.listAcknowledgements({ channelId: 'channel-1' });
+    expect(records.map((record) => record.status)).toEqual(['active']);
+    const violations = createViolations();
+    await service.applyAcknowledgements(channel, violations);
+    expect(violations[0]?.acknowledged).toBe(true);
+  });
+
+  it('records who, why and when and supports auditor queries', async () => {
+    const { acknowledgements } = await service.acknowledge({
+      channelId: 'channel-1',
+      userId: 'alice',
+      reason: '  Approved until the VPN is ready  ',
+      expiresAt: '2999-01-01T00:00:00.000Z',
+      violations: [{ ruleId: 'SEC001', contentHash: service.contentHash(channel) }],
+    });
+    await service.acknowledge({
+      channelId: 'channel-2',
+      userId: 'bob',
+      reason: 'Approved',
+      violations: [{ ruleId: 'SEC001', contentHash: service.contentHash(channel) }],
+    });
+
+    expect(acknowledgements[0]).toMatchObject({
+      channelId: 'channel-1',
+      ruleId: 'SEC001',
+      stageId: null,
+      acknowledgedBy: 'alice',
+      reason: 'Approved until the VPN is ready',
+      expiresAt: '2999-01-01T00:00:00.000Z',
+    });
+    expect(await service.listAcknowledgements({ acknowledgedBy: 'bob' })).toEqual([
+      expect.objectContaining({ channelId: 'channel-2', status: 'active' }),
+    ]);
+    expect(await service.listAcknowledgements({ ruleId: 'SEC001', status: 'active' })).toHaveLength(2);
+  });
+
+  it('does not apply expired acks and rejects invalid requests', async () => {
+    const contentHash = service.contentHash(channel);
+
+    await expect(service.acknowledge({
+      channelId: 'channel-1', userId: 'alice', reason: ' ', violations: [{ ruleId: 'SEC001', contentHash }],
+    })).rejects.toThrow('requires a reason');
+    await expect(service.acknowledge({
+      channelId: 'channel-1', userId: 'alice', reason: 'x', expiresAt: '2000-01-01T00:00:00Z', violations: [{ ruleId: 'SEC001', contentHash }],
+    })).rejects.toThrow('must be a future ISO date');
+    await expect(service.acknowledge({
+      channelId: 'channel-1', userId: 'alice', reason: 'x', violations: [{ ruleId: 'SEC001', contentHash: 'abc' }],
+    })).rejects.toThrow('Invalid content hash for rule "SEC001"');
+
+    await service.acknowledge({
+      channelId: 'channel-1',
+      userId: 'alice',
+      reason: 'Short-lived',
+      expiresAt: new Date(Date.now() + 50).toISOString(),
+      violations: [{ ruleId: 'SEC001', contentHash }],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    const violations = createViolations();
+    await service.applyAcknowledgements(channel, violations);
+    expect(violations[2]?.acknowledged).toBe(false);
+    expect((await service.listAcknowledgements())[0]?.status).toBe('expired');
+  });
+});
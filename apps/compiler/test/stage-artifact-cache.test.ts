@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ArtifactsService } from '../src/services/artifacts.service.js';
+import { FlowLayoutService } from '../src/services/flow-layout.service.js';
+import { HashingService } from '../src/services/hashing.service.js';
+import { IdGeneratorService } from '../src/services/id-generator.service.js';
+import type { NexonManifest, NexonTemplate } from '../src/services/nexon-template.service.js';
+import { ParameterSubstitutionService } from '../src/services/parameter-substitution.service.js';
+import { RuntimeExpressionService } from '../src/services/runtime-expression.service.js';
+import { SecretReferenceService } from '../src/services/secret-reference.service.js';
+import { StageArtifactCacheService } from '../src/services/stage-artifact-cache.service.js';
+import { StagePortService } from '../src/services/stage-port.service.js';
+import { TemplateExpressionService } from '../src/services/template-expression.service.js';
+
+import { createTcpChannel } from './fixtures/channels.js';
+import { createTemplateService } from './utils/nexon-templates.js';
+
+const manifest: NexonManifest = {
+  id: 'tcp.listener',
+  version: '1.0.0',
+  title: 'TCP Listener',
+  description: 'Listen for incoming TCP connections',
+  capabilities: {},
+  parameters: {},
+};
+
+describe('StageArtifactCacheService', () => {
+  let templates: Map<string, NexonTemplate>;
+  let cache: StageArtifactCacheService;
+  let artifactsService: ArtifactsService;
+
+  beforeEach(() => {
+    templates = new Map([
+      ['tcp.listener', { manifest, template: [{ id: 'listener', type: 'tcp in', port: '{{params.port}}', wires: [[]] }] }],
+    ]);
+    const nexonTemplateService = createTemplateService(templates);
+    const secretReferenceService = new SecretReferenceService();
+    cache = new StageArtifactCacheService(new HashingService());
+    const idGenerator = new IdGeneratorService();
+    artifactsService = new ArtifactsService({
+      nexonTemplateService,
+      parameterSubstitutionService: new ParameterSubstitutionService(new TemplateExpressionService(), new RuntimeExpressionService(), secretReferenceService),
+      idGenerator,
+      stagePortService: new StagePortService(nexonTemplateService),
+      secretReferenceService,
+      stageCache: cache,
+      flowLayoutService: new FlowLayoutService(idGenerator),
+    });
+  });
+
+  it('only regenerates stages whose params changed', async () => {
+    const first = await artifactsService.generateArtifacts(createTcpChannel([1000, 2000, 3000]), { buildId: 'build-1', mode: 'TEST' });
+    expect(first.stageCache).toEqual({ hits: 0, misses: 3, hitStageIds: [] });
+
+    const second = await artifactsService.generateArtifacts(createTcpChannel([1000, 2001, 3000]), { buildId: 'build-2', mode: 'TEST' });
+    expect(second.stageCache).toEqual({ hits: 2, misses: 1, hitStageIds: ['tcp-0', 'tcp-2'] });
+
+    cache.clear();
+    const rebuilt = await artifactsService.generateArtifacts(createTcpChannel([1000, 2001, 3000]), { buildId: 'build-3', mode: 'TEST' });
+    expect(rebuilt.stageCache.hits).toBe(0);
+    expect(rebuilt.flowsJson).toEqual(second.flowsJson);
+  });
+
+  it('returns copies that wiring cannot corrupt', async () => {
+    const channel = createTcpChannel([1000, 2000]);
+    const first = await artifactsService.generateArtifacts(channel, { buildId: 'build-1', mode: 'TEST' });
+    const second = await artifactsService.generateArtifacts(channel, { buildId: 'build-2', mode: 'TEST' });
+
+    expect(second.stageCache.hits).toBe(2);
+    expect(second.flowsJson).toEqual(first.flowsJson);
+  });
+
+  it('misses when the template content changes', async () => {
+    const channel = createTcpChannel([1000]);
+    await artifactsService.generateArtifacts(channel, { buildId: 'build-1', mode: 'TEST' });
+
+    templates.set('tcp.listener', { manifest, template: [{ id: 'listener', type: 'tcp in', port: '{{params.port}}', host: '0.0.0.0', wires: [[]] }] });
+    const result = await artifactsService.generateArtifacts(channel, { buildId: 'build-2', mode: 'TEST' });
+
+    expect(result.stageCache.misses).toBe(1);
+    expect((result.flowsJson as Array<Record<string, unknown>>).some((node) => node['host'] === '0.0.0.0')).toBe(true);
+  });
+
+  it('hits across builds because templates cannot read the build id', async () => {
+    templates.set('tcp.listener', { manifest, template: [{ id: 'listener', type: 'tcp in', name: '{{runtime.buildId}}', wires: [[]] }] });
+    const channel = createTcpChannel([1000]);
+
+    const first = await artifactsService.generateArtifacts(channel, { buildId: 'build-1', mode: 'TEST' });
+    const result = await artifactsService.generateArtifacts(channel, { buildId: 'build-2', mode: 'TEST' });
+
+    expect(result.stageCache.hits).toBe(1);
+    expect(result.flowsJson).toEqual(first.flowsJson);
+    expect(JSON.stringify(result.flowsJson)).not.toContain('build-');
+  });
+
+  it('evicts the least recently used entries', () => {
+    const small = new StageArtifactCacheService(new HashingService(), 2);
+    small.set('a', { nodes: [], resolver: null });
+    small.set('b', { nodes: [], resolver: null });
+    small.get('a');
+    small.set('c', { nodes: [], resolver: null });
+
+    expect(small.size).toBe(2);
+    expect(small.get('a')).toBeDefined();
+    expect(small.get('b')).toBeUndefined();
+  });
+});
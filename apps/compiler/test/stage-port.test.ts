@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { ChannelIR, Edge, Stage } from '@gapjunction/ir-schema';
+
+import type { NexonManifest } from '../src/services/nexon-template.service.js';
+import { StagePortService } from '../src/services/stage-port.service.js';
+
+import { createChannel } from './fixtures/channels.js';
+import { createTemplateService } from './utils/nexon-templates.js';
+
+const tcpManifest: NexonManifest = {
+  id: 'tcp.listener',
+  version: '1.0.0',
+  title: 'TCP Listener',
+  description: 'Listen for incoming TCP connections',
+  capabilities: {},
+  parameters: {},
+  continuation: {
+    outlets: {
+      data: { node: 'data-processor-node', output: 0, default: true },
+      connection: { node: 'connection-monitor-node', output: 0 },
+    },
+  },
+};
+
+const httpManifest: NexonManifest = {
+  ...tcpManifest,
+  id: 'http.request',
+  continuation: {
+    inlets: { request: { node: 'input-prep-node' } },
+    outlets: { response: { node: 'output-node' } },
+  },
+};
+
+const templateService = createTemplateService([
+  { manifest: tcpManifest, template: [] },
+  { manifest: httpManifest, template: [] },
+]);
+
+const tcpStage: Stage = { id: 'tcp-1', nexonId: 'tcp.listener' };
+const httpStage: Stage = { id: 'http-1', nexonId: 'http.request' };
+
+function createEdgeChannel(edge: Edge): ChannelIR {
+  return createChannel([tcpStage, httpStage], { edges: [edge] });
+}
+
+describe('StagePortService', () => {
+  let service: StagePortService;
+
+  beforeEach(() => {
+    service = new StagePortService(templateService);
+  });
+
+  it('resolves named outlets to template nodes', () => {
+    expect(service.resolveOutlet(tcpStage, tcpManifest, 'connection')).toEqual({
+      name: 'connection',
+      nodeId: 'connection-monitor-node',
+      output: 0,
+    });
+  });
+
+  it('falls back to the stage continuation outlet, then the default outlet', () => {
+    const stage: Stage = { ...tcpStage, continuation: { outlet: 'connection' } };
+
+    expect(service.resolveOutlet(stage, tcpManifest).name).toBe('connection');
+    expect(service.resolveOutlet(tcpStage, tcpManifest).name).toBe('data');
+  });
+
+  it('uses legacy wiring for templates without a manifest', () => {
+    expect(service.resolveInlet(httpStage, null, 'anything')).toEqual({ name: 'anything', nodeId: null, output: 0 });
+  });
+
+  it('reports unknown outlets and inlets as validation errors', async () => {
+    const result = await service.validateChannelPorts(createEdgeChannel({
+      id: 'edge-1',
+      from: { stageId: 'tcp-1', outlet: 'errors' },
+      to: { stageId: 'http-1', inlet: 'body' },
+    }));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'Edge "edge-1": Stage "tcp-1" (tcp.listener) has no outlet "errors"; available: data, connection',
+      'Edge "edge-1": Stage "http-1" (http.request) has no inlet "body"; available: request',
+    ]);
+  });
+
+  it('rejects named inlets on templates that declare none', async () => {
+    const result = await service.validateChannelPorts(createEdgeChannel({
+      id: 'edge-1',
+      from: { stageId: 'http-1' },
+      to: { stageId: 'tcp-1', inlet: 'in' },
+    }));
+
+    expect(result.errors).toEqual([
+      'Edge "edge-1": Stage "tcp-1" (tcp.listener) declares no inlets, cannot use inlet "in"',
+    ]);
+  });
+});
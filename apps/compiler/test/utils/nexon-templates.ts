@@ -0,0 +1,49 @@
+import { NexonTemplateService } from '../../src/services/nexon-template.service.js';
+import type { NexonManifest, NexonTemplate } from '../../src/services/nexon-template.service.js';
+
+/**
+ * Typed Nexon template helpers for unit tests. Kept apart from `test-helpers.ts`,
+ * which still loads the NestJS testing modules of the integration suites.
+ */
+
+class InMemoryNexonTemplateService extends NexonTemplateService {
+  private readonly _templates: Map<string, NexonTemplate>;
+
+  constructor(templates: Map<string, NexonTemplate>) {
+    super();
+    this._templates = templates;
+  }
+
+  override async fetchTemplate(nexonId: string): Promise<NexonTemplate> {
+    const template = this._templates.get(nexonId);
+    if (!template) {
+      throw new Error(`Nexon template not found: ${nexonId}`);
+    }
+    return template;
+  }
+}
+
+/**
+ * Manifest of a Nexon without parameters or capabilities, with `overrides` applied on top
+ */
+export function createManifest(id: string, overrides: Partial<NexonManifest> = {}): NexonManifest {
+  return {
+    id,
+    version: '1.0.0',
+    title: id,
+    description: `Test Nexon ${id}`,
+    capabilities: {},
+    parameters: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Template service that serves the given templates by Nexon id instead of reading the catalog.
+ * A map is read on every fetch, so tests can swap templates between builds.
+ */
+export function createTemplateService(templates: NexonTemplate[] | Map<string, NexonTemplate>): NexonTemplateService {
+  return new InMemoryNexonTemplateService(
+    templates instanceof Map ? templates : new Map(templates.map((template) => [template.manifest.id, template]))
+  );
+}
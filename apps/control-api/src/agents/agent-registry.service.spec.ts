@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createMockLogger, createMockRevocationStore } from '../../test/utils/test-helpers.js';
+import { TokenService } from '../tokens/token.service.js';
+import { WebSocketService } from '../websocket/websocket.service.js';
+
+import { AgentRegistryService } from './agent-registry.service.js';
+
+import type { Agent, AgentFilter, AgentStatusCondition } from '../common/types/index.js';
+import type { SupabaseService } from '../services/supabase.service.js';
+import type { Socket } from 'socket.io';
+
+const HOUR_SEC = 3600;
+const OFFLINE_AFTER_SEC = 180;
+const MS_PER_SECOND = 1000;
+
+function createAgent(agentId: string, overrides: Partial<Agent> = {}): Agent {
+  return {
+    agentId,
+    runtimeId: 'runtime-1',
+    orgId: 'org-1',
+    version: '1.0.0',
+    os: 'linux',
+    status: 'ONLINE',
+    lastHeartbeat: new Date(),
+    channels: [],
+    labels: {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('AgentRegistryService', () => {
+  let agents: Map<string, Agent>;
+  let supabaseService: Record<string, ReturnType<typeof vi.fn>>;
+  let tokenService: TokenService;
+  let websocketService: WebSocketService;
+  let service: AgentRegistryService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    agents = new Map([['agent-1', createAgent('agent-1')]]);
+
+    supabaseService = {
+      getAgent: vi.fn().mockImplementation(async (agentId: string) => agents.get(agentId) ?? null),
+      updateAgent: vi.fn().mockImplementation(async (agentId: string, updates: Partial<Agent>) => {
+        const updated = { ...createAgent(agentId), ...agents.get(agentId), ...updates };
+        agents.set(agentId, updated);
+        return updated;
+      }),
+      updateAgentWhere: vi.fn().mockImplementation(async (agentId: string, updates: Partial<Agent>, condition: AgentStatusCondition) => {
+        const agent = agents.get(agentId);
+        if (!agent || (condition.status && agent.status !== condition.status) || agent.status === condition.notStatus) {
+          return null;
+        }
+        const updated = { ...agent, ...updates };
+        agents.set(agentId, updated);
+        return updated;
+      }),
+      upsertAgent: vi.fn().mockImplementation(async (agent: Partial<Agent> & { agentId: string }) => {
+        const recorded = { ...createAgent(agent.agentId), ...agents.get(agent.agentId), ...agent };
+        agents.set(agent.agentId, recorded);
+        return recorded;
+      }),
+      listAgents: vi.fn().mockImplementation(async (filter: AgentFilter) =>
+        [...agents.values()].filter((agent) => !filter.status || agent.status === filter.status)),
+    };
+    tokenService = new TokenService({
+      agent: { secret: 'agent-secret' },
+      enrollment: { secret: 'enrollment-secret' },
+      capability: { secret: 'capability-secret' },
+    }, createMockRevocationStore(), createMockLogger());
+    websocketService = new WebSocketService(tokenService, createMockLogger());
+    service = new AgentRegistryService(
+      { supabaseService: supabaseService as unknown as SupabaseService, websocketService, tokenService },
+      createMockLogger(),
+      { offlineAfterSec: OFFLINE_AFTER_SEC, sweepIntervalSec: 30 }
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record version, OS, overlay IP and channels from heartbeats', async () => {
+    agents.set('agent-1', createAgent('agent-1', { status: 'OFFLINE' }));
+
+    await service.recordHeartbeat('agent-1', 'runtime-1', {
+      version: '1.1.0',
+      os: 'darwin',
+      nebulaIp: '10.42.0.7',
+      channels: [
+        { channelId: 'channel-1', buildId: 'build-2', state: 'running', pid: 4242, health: 'healthy' },
+        { channelId: 'channel-2', state: 'paused' },
+        { state: 'running' },
+      ],
+    });
+
+    expect(agents.get('agent-1')).toMatchObject({
+      status: 'ONLINE',
+      version: '1.1.0',
+      os: 'darwin',
+      nebulaIp: '10.42.0.7',
+      channels: [
+        { channelId: 'channel-1', buildId: 'build-2', state: 'RUNNING', pid: 4242, health: 'HEALTHY' },
+        { channelId: 'channel-2', state: 'STOPPED' },
+      ],
+    });
+  });
+
+  it('should record enrolled agents as PENDING but refuse decommissioned ones', async () => {
+    const enrolled = { runtimeId: 'runtime-1', orgId: 'org-1', version: '1.0.0', os: 'linux' };
+    agents.set('agent-2', createAgent('agent-2', { status: 'DECOMMISSIONED', decommissionedAt: new Date() }));
+
+    expect((await service.recordEnrolled({ agentId: 'agent-3', ...enrolled })).status).toBe('PENDING');
+    await expect(service.recordEnrolled({ agentId: 'agent-2', ...enrolled })).rejects.toThrow('Agent agent-2 is decommissioned');
+    expect(agents.get('agent-2')).toMatchObject({ status: 'DECOMMISSIONED', decommissionedAt: expect.any(Date) });
+  });
+
+  it('should only let enrolled, active agents of the right runtime come online', async () => {
+    agents.set('agent-2', createAgent('agent-2', { status: 'DECOMMISSIONED' }));
+
+    await expect(service.markOnline('agent-3', 'runtime-1')).rejects.toThrow('Agent agent-3 is not enrolled');
+    await expect(service.markOnline('agent-2', 'runtime-1')).rejects.toThrow('Agent agent-2 is decommissioned');
+    await expect(service.markOnline('agent-1', 'runtime-2')).rejects.toThrow('enrolled for runtime runtime-1');
+    expect((await service.markOnline('agent-1', 'runtime-1')).status).toBe('ONLINE');
+  });
+
+  it('should mark agents that disconnect OFFLINE but keep decommissioned ones', async () => {
+    agents.set('agent-2', createAgent('agent-2', { status: 'DECOMMISSIONED' }));
+
+    await service.markOffline('agent-1', 'runtime-1');
+    await service.markOffline('agent-2', 'runtime-1');
+
+    expect(agents.get('agent-1')?.status).toBe('OFFLINE');
+    expect(agents.get('agent-2')?.status).toBe('DECOMMISSIONED');
+  });
+
+  it('should revoke the tokens of a decommissioned agent and disconnect it', async () => {
+    const token = tokenService.sign('agent', { agentId: 'agent-1', runtimeId: 'runtime-1', orgId: 'org-1' }, HOUR_SEC);
+    const socket = { disconnect: vi.fn() };
+    websocketService.registerAgent(socket as unknown as Socket, 'agent-1', 'runtime-1');
+
+    const agent = await service.decommission('agent-1');
+
+    expect(agent).toMatchObject({ status: 'DECOMMISSIONED', decommissionedAt: expect.any(Date) });
+    await expect(tokenService.verify('agent', token)).rejects.toThrow('revoked');
+    expect(socket.disconnect).toHaveBeenCalledWith(true);
+    expect(await websocketService.isAgentConnected('agent-1', 'runtime-1')).toBe(false);
+    expect(await service.decommission('agent-3')).toBeNull();
+  });
+
+  it('should set and remove labels', async () => {
+    agents.set('agent-1', createAgent('agent-1', { labels: { site: 'lab', env: 'dev' } }));
+
+    const agent = await service.updateLabels('agent-1', { env: 'prod', site: null, rack: 'r1' });
+
+    expect(agent?.labels).toEqual({ env: 'prod', rack: 'r1' });
+    expect(await service.updateLabels('agent-3', { env: 'prod' })).toBeNull();
+  });
+
+  it('should mark agents OFFLINE once they miss their heartbeats', async () => {
+    agents.set('agent-2', createAgent('agent-2', { status: 'PENDING' }));
+    agents.set('agent-3', createAgent('agent-3'));
+
+    vi.advanceTimersByTime(OFFLINE_AFTER_SEC * MS_PER_SECOND);
+    expect(await service.sweep()).toBe(0);
+
+    await service.recordHeartbeat('agent-3', 'runtime-1', {});
+    vi.advanceTimersByTime(MS_PER_SECOND);
+
+    expect(await service.sweep()).toBe(1);
+    expect(agents.get('agent-1')?.status).toBe('OFFLINE');
+    expect(agents.get('agent-2')?.status).toBe('PENDING');
+    expect(agents.get('agent-3')?.status).toBe('ONLINE');
+  });
+
+  it('should not revive an agent decommissioned while a sweep or heartbeat is in flight', async () => {
+    vi.advanceTimersByTime((OFFLINE_AFTER_SEC + 1) * MS_PER_SECOND);
+    supabaseService['listAgents']?.mockImplementationOnce(async () => {
+      const listed = [...agents.values()];
+      await service.decommission('agent-1');
+      return listed;
+    });
+
+    expect(await service.sweep()).toBe(0);
+    expect(agents.get('agent-1')?.status).toBe('DECOMMISSIONED');
+
+    await service.recordHeartbeat('agent-1', 'runtime-1', { version: '1.1.0' });
+    expect(agents.get('agent-1')).toMatchObject({ status: 'DECOMMISSIONED', version: '1.0.0' });
+  });
+});
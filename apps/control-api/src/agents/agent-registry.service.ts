@@ -0,0 +1,237 @@
+import { clearInterval, setInterval } from 'timers';
+
+import type { Agent, AgentChannel, AgentFilter } from '../common/types/index.js';
+import type { SupabaseService } from '../services/supabase.service.js';
+import type { TokenService } from '../tokens/token.service.js';
+import type { WebSocketService } from '../websocket/websocket.service.js';
+import type * as winston from 'winston';
+
+const MS_PER_SECOND = 1000;
+const DEFAULT_OPTIONS: AgentRegistryOptions = { offlineAfterSec: 180, sweepIntervalSec: 30 };
+
+// Channel states as agents report them in heartbeats
+const CHANNEL_STATES: Record<string, AgentChannel['state']> = {
+  running: 'RUNNING',
+  stopped: 'STOPPED',
+  failed: 'FAILED',
+};
+const CHANNEL_HEALTH = new Set(['HEALTHY', 'UNHEALTHY', 'UNKNOWN']);
+
+function errorMessageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function toAgentChannel(channel: Record<string, unknown>): AgentChannel {
+  const state = CHANNEL_STATES[String(channel['state']).toLowerCase()] ?? 'STOPPED';
+  const health = String(channel['health']).toUpperCase();
+
+  return {
+    channelId: String(channel['channelId']),
+    state,
+    ...(typeof channel['buildId'] === 'string' ? { buildId: channel['buildId'] } : {}),
+    ...(typeof channel['pid'] === 'number' ? { pid: channel['pid'] } : {}),
+    ...(typeof channel['version'] === 'string' ? { version: channel['version'] } : {}),
+    ...(CHANNEL_HEALTH.has(health) ? { health: health as NonNullable<AgentChannel['health']> } : {}),
+  };
+}
+
+// Fields of an agent record a heartbeat updates
+function fromHeartbeat(payload: Record<string, unknown>): Partial<Agent> {
+  const channels = payload['channels'];
+
+  return {
+    ...(typeof payload['version'] === 'string' ? { version: payload['version'] } : {}),
+    ...(typeof payload['os'] === 'string' ? { os: payload['os'] } : {}),
+    ...(typeof payload['nebulaIp'] === 'string' ? { nebulaIp: payload['nebulaIp'] } : {}),
+    ...(Array.isArray(channels) ? {
+      channels: channels
+        .filter((channel: Record<string, unknown>) => typeof channel['channelId'] === 'string')
+        .map(toAgentChannel),
+    } : {}),
+  };
+}
+
+export interface AgentRegistryOptions {
+  // An ONLINE agent without a heartbeat for this long is marked OFFLINE
+  offlineAfterSec: number;
+  sweepIntervalSec: number;
+}
+
+export interface AgentRegistryServiceDependencies {
+  supabaseService: SupabaseService;
+  websocketService: WebSocketService;
+  tokenService: TokenService;
+}
+
+/**
+ * Persisted inventory of enrolled agents: their status, last heartbeat, version, OS, overlay IP, labels and
+ * the channels running on each. Agents are recorded PENDING at enrollment, go ONLINE when they authenticate
+ * and OFFLINE when they disconnect or miss heartbeats.
+ */
+export class AgentRegistryService {
+  private readonly _logger: winston.Logger;
+  private readonly _supabaseService: SupabaseService;
+  private readonly _websocketService: WebSocketService;
+  private readonly _tokenService: TokenService;
+  private _sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    dependencies: AgentRegistryServiceDependencies,
+    logger: winston.Logger,
+    private readonly _options: AgentRegistryOptions = DEFAULT_OPTIONS
+  ) {
+    this._supabaseService = dependencies.supabaseService;
+    this._websocketService = dependencies.websocketService;
+    this._tokenService = dependencies.tokenService;
+    this._logger = logger;
+  }
+
+  /**
+   * Record an enrolled agent as PENDING; a decommissioned agent cannot enroll again under its ID
+   */
+  async recordEnrolled(agent: Pick<Agent, 'agentId' | 'runtimeId' | 'orgId' | 'version' | 'os'>): Promise<Agent> {
+    const existing = await this._supabaseService.getAgent(agent.agentId);
+    if (existing?.status === 'DECOMMISSIONED') {
+      throw new Error(`Agent ${agent.agentId} is decommissioned`);
+    }
+
+    return await this._supabaseService.upsertAgent({ ...agent, status: 'PENDING' });
+  }
+
+  /**
+   * Mark an authenticated agent ONLINE; rejects agents that are unknown, decommissioned or of another runtime
+   */
+  async markOnline(agentId: string, runtimeId: string): Promise<Agent> {
+    const agent = await this._supabaseService.getAgent(agentId);
+    if (!agent) {
+      throw new Error(`Agent ${agentId} is not enrolled`);
+    }
+    if (agent.status === 'DECOMMISSIONED') {
+      throw new Error(`Agent ${agentId} is decommissioned`);
+    }
+    if (agent.runtimeId !== runtimeId) {
+      throw new Error(`Agent ${agentId} is enrolled for runtime ${agent.runtimeId}`);
+    }
+
+    this._logger.info(`Agent ${agentId}@${runtimeId} is ONLINE`);
+    return await this._supabaseService.updateAgent(agentId, { status: 'ONLINE', lastHeartbeat: new Date() });
+  }
+
+  async recordHeartbeat(agentId: string, runtimeId: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      // A heartbeat still in flight when the agent is decommissioned must not bring it back ONLINE
+      const agent = await this._supabaseService.updateAgentWhere(agentId, {
+        ...fromHeartbeat(payload),
+        status: 'ONLINE',
+        lastHeartbeat: new Date(),
+      }, { notStatus: 'DECOMMISSIONED' });
+      if (!agent) {
+        this._logger.warn(`Ignoring heartbeat of decommissioned or unknown agent ${agentId}@${runtimeId}`);
+      }
+    } catch (error: unknown) {
+      this._logger.error('Recording heartbeat failed', { error: errorMessageOf(error), agentId, runtimeId });
+      throw new Error('Failed to record heartbeat');
+    }
+  }
+
+  async markOffline(agentId: string, runtimeId: string): Promise<void> {
+    try {
+      // Decommissioned and never connected agents keep their status
+      const agent = await this._supabaseService.updateAgentWhere(agentId, { status: 'OFFLINE' }, { status: 'ONLINE' });
+      if (agent) {
+        this._logger.info(`Agent ${agentId}@${runtimeId} is OFFLINE`);
+      }
+    } catch (error: unknown) {
+      this._logger.error('Marking agent offline failed', { error: errorMessageOf(error), agentId, runtimeId });
+      throw new Error('Failed to mark agent offline');
+    }
+  }
+
+  async list(filter: AgentFilter = {}): Promise<Agent[]> {
+    return await this._supabaseService.listAgents(filter);
+  }
+
+  async get(agentId: string): Promise<Agent | null> {
+    return await this._supabaseService.getAgent(agentId);
+  }
+
+  /**
+   * Revoke an agent's tokens, disconnect it and mark it DECOMMISSIONED; returns null for unknown agents
+   */
+  async decommission(agentId: string): Promise<Agent | null> {
+    const agent = await this._supabaseService.getAgent(agentId);
+    if (!agent) {
+      return null;
+    }
+
+    await this._tokenService.revokeAgent(agentId);
+    const decommissioned = await this._supabaseService.updateAgent(agentId, {
+      status: 'DECOMMISSIONED',
+      decommissionedAt: new Date(),
+      channels: [],
+    });
+    // Disconnect only once the record is updated, so the socket closing does not mark the agent OFFLINE
+    this._websocketService.disconnectAgent(agentId, agent.runtimeId);
+    this._logger.info(`Decommissioned agent ${agentId}@${agent.runtimeId}`);
+    return decommissioned;
+  }
+
+  /**
+   * Set labels on an agent; a null value removes the label. Returns null for unknown agents
+   */
+  async updateLabels(agentId: string, labels: Record<string, string | null>): Promise<Agent | null> {
+    const agent = await this._supabaseService.getAgent(agentId);
+    if (!agent) {
+      return null;
+    }
+
+    const merged = Object.entries({ ...agent.labels, ...labels })
+      .filter((entry): entry is [string, string] => entry[1] !== null);
+
+    return await this._supabaseService.updateAgent(agentId, { labels: Object.fromEntries(merged) });
+  }
+
+  /**
+   * Mark ONLINE agents that missed their heartbeats OFFLINE; returns how many were marked
+   */
+  async sweep(): Promise<number> {
+    try {
+      const cutoff = Date.now() - this._options.offlineAfterSec * MS_PER_SECOND;
+      const stale = (await this._supabaseService.listAgents({ status: 'ONLINE' }))
+        .filter((agent) => (agent.lastHeartbeat?.getTime() ?? 0) < cutoff);
+
+      let marked = 0;
+      for (const agent of stale) {
+        // Skips agents decommissioned or gone OFFLINE since they were listed
+        if (!await this._supabaseService.updateAgentWhere(agent.agentId, { status: 'OFFLINE' }, { status: 'ONLINE' })) {
+          continue;
+        }
+        marked += 1;
+        this._logger.warn(`Agent ${agent.agentId}@${agent.runtimeId} missed its heartbeats, marked OFFLINE`, {
+          lastHeartbeat: agent.lastHeartbeat?.toISOString(),
+        });
+      }
+      return marked;
+    } catch (error: unknown) {
+      this._logger.error('Agent heartbeat sweep failed', { error: errorMessageOf(error) });
+      return 0;
+    }
+  }
+
+  start(): void {
+    if (this._sweepTimer) {
+      return;
+    }
+    this._sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, this._options.sweepIntervalSec * MS_PER_SECOND);
+    this._sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this._sweepTimer) {
+      clearInterval(this._sweepTimer);
+      this._sweepTimer = null;
+    }
+  }
+}
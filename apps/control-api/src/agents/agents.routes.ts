@@ -0,0 +1,229 @@
+import {
+  AgentEnrollRequestSchema,
+  AgentEnrollResponseSchema,
+  AgentLabelsRequestSchema,
+  AgentListQuerySchema,
+  AgentRenewResponseSchema,
+  AgentSchema,
+} from '../common/dto/index.js';
+
+import type { AgentRegistryService } from './agent-registry.service.js';
+import type { AgentsService } from './agents.service.js';
+import type { AgentEnrollRequestBody, AgentLabelsRequestBody, AgentListQuery } from '../common/dto/index.js';
+import type { AgentFilter } from '../common/types/index.js';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type * as winston from 'winston';
+
+type AuthHook = (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+
+interface AgentParams {
+  agentId: string;
+}
+
+const HTTP_STATUS = {
+  unauthorized: 401,
+  notFound: 404,
+  internalServerError: 500,
+} as const;
+
+const AgentParamsSchema = {
+  type: 'object',
+  required: ['agentId'],
+  properties: {
+    agentId: { type: 'string' }
+  }
+} as const;
+
+// `label=env=prod&label=site=lab` becomes `{ env: 'prod', site: 'lab' }`
+function toAgentFilter(query: AgentListQuery): AgentFilter {
+  const labels = Object.fromEntries((query.label ?? []).map((selector) => {
+    const separator = selector.indexOf('=');
+    return [selector.slice(0, separator), selector.slice(separator + 1)];
+  }));
+
+  return {
+    ...(query.runtimeId ? { runtimeId: query.runtimeId } : {}),
+    ...(query.orgId ? { orgId: query.orgId } : {}),
+    ...(query.status ? { status: query.status } : {}),
+    labels,
+  };
+}
+
+export interface AgentRoutesServices {
+  agentsService: AgentsService;
+  agentRegistryService: AgentRegistryService;
+}
+
+/**
+ * Agent enrollment and token renewal, used by agents, and the fleet inventory endpoints behind `authHook`
+ */
+export function registerAgentsEndpoints(
+  server: FastifyInstance,
+  services: AgentRoutesServices,
+  authHook: AuthHook,
+  logger: winston.Logger
+): void {
+  server.post<{ Body: AgentEnrollRequestBody }>('/v1/agents/enroll', {
+    schema: {
+      tags: ['agents'],
+      summary: 'Enroll a new agent',
+      body: AgentEnrollRequestSchema,
+      response: {
+        200: AgentEnrollResponseSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Body: AgentEnrollRequestBody }>, reply: FastifyReply) => {
+    const enrollRequest = request.body;
+
+    try {
+      const result = await services.agentsService.enroll(enrollRequest);
+      reply.send(result);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Agent enrollment failed', { error: errorMessage, runtimeId: enrollRequest.runtimeId });
+      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Agent enrollment failed' });
+    }
+  });
+
+  server.post('/v1/agents/renew', {
+    schema: {
+      tags: ['agents'],
+      summary: 'Rotate an agent JWT',
+      description: 'Exchanges the agent JWT in the Authorization header for a new one and revokes the old token',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: AgentRenewResponseSchema
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const authHeader = request.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      reply.code(HTTP_STATUS.unauthorized).send({ error: 'Missing or invalid authorization header' });
+      return;
+    }
+
+    try {
+      const result = await services.agentsService.renew(authHeader.slice('Bearer '.length));
+      reply.send(result);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Agent token renewal failed', { error: errorMessage });
+      reply.code(HTTP_STATUS.unauthorized).send({ error: 'Agent token renewal failed' });
+    }
+  });
+
+  server.get<{ Querystring: AgentListQuery }>('/v1/agents', {
+    preHandler: [authHook],
+    schema: {
+      tags: ['agents'],
+      summary: 'List agents',
+      description: 'Lists enrolled agents, optionally filtered by runtime, organization, status and labels',
+      security: [{ bearerAuth: [] }],
+      querystring: AgentListQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            agents: { type: 'array', items: AgentSchema }
+          }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Querystring: AgentListQuery }>, reply: FastifyReply) => {
+    try {
+      const agents = await services.agentRegistryService.list(toAgentFilter(request.query));
+      reply.send({ agents });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Agent listing failed', { error: errorMessage });
+      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to list agents' });
+    }
+  });
+
+  server.get<{ Params: AgentParams }>('/v1/agents/:agentId', {
+    preHandler: [authHook],
+    schema: {
+      tags: ['agents'],
+      summary: 'Inspect an agent',
+      security: [{ bearerAuth: [] }],
+      params: AgentParamsSchema,
+      response: {
+        200: AgentSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: AgentParams }>, reply: FastifyReply) => {
+    const { agentId } = request.params;
+
+    try {
+      const agent = await services.agentRegistryService.get(agentId);
+      if (!agent) {
+        reply.code(HTTP_STATUS.notFound).send({ error: 'Agent not found' });
+        return;
+      }
+      reply.send(agent);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Agent lookup failed', { error: errorMessage, agentId });
+      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to get agent' });
+    }
+  });
+
+  server.post<{ Params: AgentParams }>('/v1/agents/:agentId/decommission', {
+    preHandler: [authHook],
+    schema: {
+      tags: ['agents'],
+      summary: 'Decommission an agent',
+      description: 'Revokes the agent\'s tokens, disconnects it and keeps its record as DECOMMISSIONED',
+      security: [{ bearerAuth: [] }],
+      params: AgentParamsSchema,
+      response: {
+        200: AgentSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: AgentParams }>, reply: FastifyReply) => {
+    const { agentId } = request.params;
+
+    try {
+      const agent = await services.agentRegistryService.decommission(agentId);
+      if (!agent) {
+        reply.code(HTTP_STATUS.notFound).send({ error: 'Agent not found' });
+        return;
+      }
+      reply.send(agent);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Agent decommission failed', { error: errorMessage, agentId });
+      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to decommission agent' });
+    }
+  });
+
+  server.patch<{ Params: AgentParams; Body: AgentLabelsRequestBody }>('/v1/agents/:agentId/labels', {
+    preHandler: [authHook],
+    schema: {
+      tags: ['agents'],
+      summary: 'Label an agent',
+      description: 'Sets the given labels on the agent; a null value removes the label',
+      security: [{ bearerAuth: [] }],
+      params: AgentParamsSchema,
+      body: AgentLabelsRequestSchema,
+      response: {
+        200: AgentSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: AgentParams; Body: AgentLabelsRequestBody }>, reply: FastifyReply) => {
+    const { agentId } = request.params;
+
+    try {
+      const agent = await services.agentRegistryService.updateLabels(agentId, request.body.labels);
+      if (!agent) {
+        reply.code(HTTP_STATUS.notFound).send({ error: 'Agent not found' });
+        return;
+      }
+      reply.send(agent);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Agent labelling failed', { error: errorMessage, agentId });
+      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to update agent labels' });
+    }
+  });
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createMockLogger, createMockRevocationStore } from '../../test/utils/test-helpers.js';
+import { TokenService } from '../tokens/token.service.js';
+
+import { AgentsService } from './agents.service.js';
+
+import type { AgentRegistryService } from './agent-registry.service.js';
+import type { AgentEnrollRequestBody } from '../common/dto/index.js';
+import type { CompilerService } from '../services/compiler.service.js';
+import type { DnService } from '../services/dn.service.js';
+
+const HOUR_SEC = 3600;
+const SIGNING_KEYS = [
+  { keyId: 'key-2', algorithm: 'ed25519', publicKey: 'public-key-2', current: true },
+  { keyId: 'key-1', algorithm: 'ed25519', publicKey: 'public-key-1', current: false },
+];
+
+describe('AgentsService', () => {
+  let tokenService: TokenService;
+  let agentRegistry: Record<string, ReturnType<typeof vi.fn>>;
+  let dnService: Record<string, ReturnType<typeof vi.fn>>;
+  let compilerService: Record<string, ReturnType<typeof vi.fn>>;
+  let service: AgentsService;
+  let bootstrapToken: string;
+
+  function enrollRequest(overrides: { runtimeId?: string; bootstrapToken?: string } = {}): AgentEnrollRequestBody {
+    return { runtimeId: 'runtime-1', bootstrapToken, version: '1.2.0', os: 'linux', ...overrides };
+  }
+
+  beforeEach(() => {
+    tokenService = new TokenService({
+      agent: { secret: 'agent-secret' },
+      enrollment: { secret: 'enrollment-secret' },
+      capability: { secret: 'capability-secret' },
+    }, createMockRevocationStore(), createMockLogger());
+    agentRegistry = {
+      recordEnrolled: vi.fn().mockResolvedValue({}),
+      get: vi.fn().mockResolvedValue({ agentId: 'agent-1', status: 'ONLINE' }),
+    };
+    dnService = {
+      createEnrollment: vi.fn().mockResolvedValue({ enrollmentCode: 'dn-code', lighthouses: ['198.51.100.1:4242'] }),
+    };
+    compilerService = {
+      getSigningKeys: vi.fn().mockResolvedValue(SIGNING_KEYS),
+    };
+    service = new AgentsService({
+      tokenService,
+      agentRegistryService: agentRegistry as unknown as AgentRegistryService,
+      dnService: dnService as unknown as DnService,
+      compilerService: compilerService as unknown as CompilerService,
+    }, createMockLogger(), HOUR_SEC);
+    bootstrapToken = tokenService.sign('enrollment', {
+      runtimeId: 'runtime-1',
+      orgId: 'org-1',
+      userId: 'user-1',
+      agentId: 'agent-1',
+      useP2p: false,
+    }, HOUR_SEC);
+  });
+
+  describe('enroll', () => {
+    it('should exchange an enrollment code for an agent JWT', async () => {
+      const result = await service.enroll(enrollRequest());
+
+      expect(result).toEqual({
+        agentId: 'agent-1',
+        agentJwt: expect.any(String),
+        overlay: { enabled: false },
+        trustedBundleKeys: [
+          { keyId: 'key-2', publicKey: 'public-key-2' },
+          { keyId: 'key-1', publicKey: 'public-key-1' },
+        ],
+      });
+      await expect(tokenService.verify('agent', result.agentJwt)).resolves.toMatchObject({
+        agentId: 'agent-1',
+        runtimeId: 'runtime-1',
+        orgId: 'org-1',
+      });
+      expect(agentRegistry['recordEnrolled']).toHaveBeenCalledWith({
+        agentId: 'agent-1',
+        runtimeId: 'runtime-1',
+        orgId: 'org-1',
+        version: '1.2.0',
+        os: 'linux',
+      });
+    });
+
+    it('should return the DN enrollment code and lighthouses of P2P agents', async () => {
+      const p2pToken = tokenService.sign('enrollment', {
+        runtimeId: 'runtime-1',
+        orgId: 'org-1',
+        userId: 'user-1',
+        agentId: 'agent-1',
+        useP2p: true,
+      }, HOUR_SEC);
+
+      const result = await service.enroll(enrollRequest({ bootstrapToken: p2pToken }));
+
+      expect(dnService['createEnrollment']).toHaveBeenCalledWith('agent-1', 'runtime-1');
+      expect(result.overlay).toEqual({ enabled: true, enrollmentCode: 'dn-code', lighthouses: ['198.51.100.1:4242'] });
+    });
+
+    it('should keep the enrollment code usable when the signing keys are unavailable', async () => {
+      compilerService['getSigningKeys']?.mockRejectedValueOnce(new Error('Failed to get bundle signing keys'));
+
+      await expect(service.enroll(enrollRequest())).rejects.toThrow('Agent enrollment failed');
+      await expect(service.enroll(enrollRequest())).resolves.toMatchObject({ agentId: 'agent-1' });
+    });
+
+    it('should accept an enrollment code only once', async () => {
+      await service.enroll(enrollRequest());
+
+      await expect(service.enroll(enrollRequest())).rejects.toThrow('Agent enrollment failed');
+    });
+
+    it('should let only one of concurrent enrollments with a code succeed', async () => {
+      const results = await Promise.allSettled([service.enroll(enrollRequest()), service.enroll(enrollRequest())]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(agentRegistry['recordEnrolled']).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject codes issued for another runtime or not signed by the control API', async () => {
+      await expect(service.enroll(enrollRequest({ runtimeId: 'runtime-2' }))).rejects.toThrow('Agent enrollment failed');
+      await expect(service.enroll(enrollRequest({ bootstrapToken: 'mock-enrollment-code-token' })))
+        .rejects.toThrow('Agent enrollment failed');
+    });
+  });
+
+  describe('renew', () => {
+    it('should issue a new agent JWT and revoke the old one', async () => {
+      const { agentJwt } = await service.enroll(enrollRequest());
+
+      const renewed = await service.renew(agentJwt);
+
+      expect((await tokenService.verify('agent', renewed.agentJwt)).agentId).toBe('agent-1');
+      await expect(tokenService.verify('agent', agentJwt)).rejects.toThrow('revoked');
+    });
+
+    it('should refuse to renew tokens of decommissioned agents', async () => {
+      const { agentJwt } = await service.enroll(enrollRequest());
+      agentRegistry['get']?.mockResolvedValue({ agentId: 'agent-1', status: 'DECOMMISSIONED' });
+
+      await expect(service.renew(agentJwt)).rejects.toThrow('Agent token renewal failed');
+    });
+  });
+});
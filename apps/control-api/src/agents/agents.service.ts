@@ -1,48 +1,78 @@
-import { ulid } from 'ulid';
-
-import type { AgentEnrollRequestBody, AgentEnrollResponseBody } from '../common/dto/index.js';
+import type { AgentRegistryService } from './agent-registry.service.js';
+import type { AgentEnrollRequestBody, AgentEnrollResponseBody, AgentRenewResponseBody } from '../common/dto/index.js';
+import type { CompilerService } from '../services/compiler.service.js';
+import type { DnService } from '../services/dn.service.js';
+import type { TokenService } from '../tokens/token.service.js';
 import type * as winston from 'winston';
 
+// 30 days
+const DEFAULT_AGENT_TOKEN_TTL_SEC = 2_592_000;
+
+export interface AgentsServiceDependencies {
+  tokenService: TokenService;
+  agentRegistryService: AgentRegistryService;
+  dnService: DnService;
+  compilerService: CompilerService;
+}
 
 export class AgentsService {
   private readonly _logger: winston.Logger;
+  private readonly _tokenService: TokenService;
+  private readonly _agentRegistry: AgentRegistryService;
+  private readonly _dnService: DnService;
+  private readonly _compilerService: CompilerService;
 
-  constructor(logger: winston.Logger) {
+  constructor(
+    dependencies: AgentsServiceDependencies,
+    logger: winston.Logger,
+    private readonly _agentTokenTtlSec = DEFAULT_AGENT_TOKEN_TTL_SEC
+  ) {
+    this._tokenService = dependencies.tokenService;
+    this._agentRegistry = dependencies.agentRegistryService;
+    this._dnService = dependencies.dnService;
+    this._compilerService = dependencies.compilerService;
     this._logger = logger;
   }
 
+  /**
+   * Exchange a single-use enrollment code (bootstrap token) for a long-lived agent JWT
+   */
   async enroll(request: AgentEnrollRequestBody): Promise<AgentEnrollResponseBody> {
     try {
       this._logger.info(`Agent enrollment request for runtime ${request.runtimeId}`);
 
-      // TODO: Implement full enrollment flow:
-      // 1. Validate bootstrap token (JWT)
-      // 2. Extract orgId, userId, agentId, useP2p from token
-      // 3. Generate long-lived Agent JWT
-      // 4. If useP2p is true, fetch DN enrollment code from DN API
-      // 5. Return agent credentials and overlay config
+      // Without signing keys the agent would reject every deployment; fetched first so a compiler outage does not use up the code
+      const signingKeys = await this._compilerService.getSigningKeys();
 
-      // For now, simulate token validation
-      // TODO: Verify JWT signature and expiration
-      // if (!tokenValid) {
-      //   throw new Error('Invalid bootstrap token');
-      // }
-      await Promise.resolve(); // Placeholder for future async operations
+      // Enrollment codes are single use: claimed before any other step, so concurrent enrollments with one code fail
+      const enrollment = await this._tokenService.claim('enrollment', request.bootstrapToken);
+      if (enrollment.runtimeId !== request.runtimeId) {
+        throw new Error(`Bootstrap token was issued for runtime ${enrollment.runtimeId}`);
+      }
 
-      // Generate agent ID and JWT
-      const agentId = ulid();
-      const agentJwt = 'mock-agent-jwt-token'; // TODO: Generate real JWT
+      const { agentId } = enrollment;
+      const overlay = enrollment.useP2p ? await this._dnService.createEnrollment(agentId, enrollment.runtimeId) : null;
+      const agentJwt = this._tokenService.sign('agent', {
+        agentId,
+        runtimeId: enrollment.runtimeId,
+        orgId: enrollment.orgId,
+      }, this._agentTokenTtlSec);
 
-      this._logger.info(`Generated agent ID ${agentId} for runtime ${request.runtimeId}`);
+      await this._agentRegistry.recordEnrolled({
+        agentId,
+        runtimeId: enrollment.runtimeId,
+        orgId: enrollment.orgId,
+        version: request.version,
+        os: request.os,
+      });
+
+      this._logger.info(`Enrolled agent ${agentId} for runtime ${request.runtimeId}`);
 
       return {
         agentId,
         agentJwt,
-        overlay: {
-          enabled: true, // TODO: Extract from bootstrap token
-          enrollmentCode: 'mock-dn-enrollment-code', // TODO: Fetch from DN API
-          lighthouses: ['1.2.3.4:4242', '5.6.7.8:4242'], // TODO: Get from config
-        },
+        overlay: { enabled: enrollment.useP2p, ...overlay },
+        trustedBundleKeys: signingKeys.map(({ keyId, publicKey }) => ({ keyId, publicKey })),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -50,4 +80,32 @@ export class AgentsService {
       throw new Error('Agent enrollment failed');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Issue a fresh agent JWT for a valid one and revoke the old token
+   */
+  async renew(agentJwt: string): Promise<AgentRenewResponseBody> {
+    try {
+      const claims = await this._tokenService.verify('agent', agentJwt);
+      // Decommissioning revokes the agent's tokens; the registry record is checked too, as the source of truth
+      const agent = await this._agentRegistry.get(claims.agentId);
+      if (agent?.status === 'DECOMMISSIONED') {
+        throw new Error(`Agent ${claims.agentId} is decommissioned`);
+      }
+
+      const renewed = this._tokenService.sign('agent', {
+        agentId: claims.agentId,
+        runtimeId: claims.runtimeId,
+        orgId: claims.orgId,
+      }, this._agentTokenTtlSec);
+      await this._tokenService.revoke('agent', agentJwt);
+
+      this._logger.info(`Renewed token of agent ${claims.agentId}`);
+      return { agentId: claims.agentId, agentJwt: renewed };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Agent token renewal failed', { error: errorMessage });
+      throw new Error('Agent token renewal failed');
+    }
+  }
+}
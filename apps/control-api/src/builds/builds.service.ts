@@ -1,7 +1,5 @@
-import { ulid } from 'ulid';
-
-
 import type { DeployRequestBody, DeployResponseBody } from '../common/dto/index.js';
+import type { DeploymentsService } from '../deployments/deployments.service.js';
 import type { SupabaseService } from '../services/supabase.service.js';
 import type { WebSocketService } from '../websocket/websocket.service.js';
 import type * as winston from 'winston';
@@ -12,42 +10,45 @@ export class BuildsService {
   constructor(
     private readonly _supabaseService: SupabaseService,
     private readonly _websocketService: WebSocketService,
+    private readonly _deploymentsService: DeploymentsService,
     logger: winston.Logger
   ) {
     this._logger = logger;
   }
 
+  /**
+   * Record a QUEUED deployment of a compiled build and roll it out in the background
+   */
   async deploy(buildId: string, request: DeployRequestBody): Promise<DeployResponseBody> {
     try {
       this._logger.info(`Received deploy request for build ${buildId}`, {
         runtimeId: request.runtimeId,
+        runtimeIds: request.runtimeIds,
         channelId: request.channelId,
         mode: request.mode,
         strategy: request.strategy,
       });
 
-      // TODO: Implement the full deploy flow:
-      // 1. Validate build exists and is in COMPILED status
-      // 2. Generate deployment ID
-      // 3. Update bundle record with deployment info
-      // 4. Download bundle from Supabase Storage
-      // 5. Send deploy command to agent via WebSocket
-      // 6. Wait for agent response
-      // 7. Update deployment status
-      // 8. Broadcast success/failure to Editor
+      const build = await this._supabaseService.getBuild(buildId);
+      if (!build) {
+        throw new Error(`Build ${buildId} not found`);
+      }
+      if (build.buildStatus !== 'COMPILED') {
+        throw new Error(`Build ${buildId} is ${build.buildStatus}, only COMPILED builds can be deployed`);
+      }
+      if (build.channelId !== request.channelId) {
+        throw new Error('Channel ID mismatch between build and request body');
+      }
 
-      // For now, simulate validation
-      // TODO: Check Supabase for build existence and status
-      // TODO: Check build status is COMPILED
-      await Promise.resolve(); // Placeholder for future async operations
+      const deployment = await this._deploymentsService.create(build, request);
 
-      // Generate deployment ID
-      const deployId = ulid();
+      this._logger.info(`Queued deployment ${deployment.deploymentId} for build ${buildId}`);
 
-      this._logger.info(`Generated deployment ID ${deployId} for build ${buildId}`);
+      // run records every failure on the deployment, so nothing is left to handle here
+      void this._deploymentsService.run(deployment, build);
 
       return {
-        deployId,
+        deployId: deployment.deploymentId,
         status: 'QUEUED',
       };
     } catch (error: unknown) {
@@ -56,4 +57,4 @@ export class BuildsService {
       throw new Error('Deployment failed');
     }
   }
-}
\ No newline at end of file
+}
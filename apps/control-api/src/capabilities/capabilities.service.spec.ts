@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createMockLogger, createMockRevocationStore } from '../../test/utils/test-helpers.js';
+import { TokenService } from '../tokens/token.service.js';
+
+import { CapabilitiesService } from './capabilities.service.js';
+
+import type { AgentRegistryService } from '../agents/agent-registry.service.js';
+import type { EnrollmentCodeRequestBody } from '../common/dto/index.js';
+import type { Agent, AgentFilter } from '../common/types/index.js';
+import type { DnService } from '../services/dn.service.js';
+
+const HOUR_SEC = 3600;
+const MAX_BYTES = 1024;
+
+function createAgent(agentId: string, runtimeId: string, orgId: string, status: Agent['status'] = 'ONLINE'): Agent {
+  return {
+    agentId,
+    runtimeId,
+    orgId,
+    version: '1.0.0',
+    os: 'linux',
+    status,
+    channels: [],
+    labels: {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('CapabilitiesService', () => {
+  let agents: Agent[];
+  let dnConfigured: boolean;
+  let tokenService: TokenService;
+  let service: CapabilitiesService;
+
+  function enrollmentRequest(overrides: Partial<EnrollmentCodeRequestBody> = {}): EnrollmentCodeRequestBody {
+    return {
+      organizationId: 'org-1',
+      userId: 'user-1',
+      runtimeId: 'runtime-1',
+      agentId: 'agent-3',
+      useP2p: false,
+      ttlSec: HOUR_SEC,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    agents = [
+      createAgent('agent-1', 'runtime-1', 'org-1'),
+      createAgent('agent-2', 'runtime-2', 'org-2'),
+      createAgent('agent-4', 'runtime-4', 'org-1', 'DECOMMISSIONED'),
+    ];
+    dnConfigured = false;
+    tokenService = new TokenService({
+      agent: { secret: 'agent-secret' },
+      enrollment: { secret: 'enrollment-secret' },
+      capability: { secret: 'capability-secret' },
+    }, createMockRevocationStore(), createMockLogger());
+
+    const agentRegistry = {
+      list: vi.fn().mockImplementation(async (filter: AgentFilter) =>
+        agents.filter((agent) => agent.runtimeId === filter.runtimeId)),
+      get: vi.fn().mockImplementation(async (agentId: string) =>
+        agents.find((agent) => agent.agentId === agentId) ?? null),
+    };
+    service = new CapabilitiesService({
+      tokenService,
+      agentRegistryService: agentRegistry as unknown as AgentRegistryService,
+      dnService: { isConfigured: () => dnConfigured } as unknown as DnService,
+    }, createMockLogger());
+  });
+
+  describe('issueRouteToken', () => {
+    it('should issue route tokens between runtimes of one organization', async () => {
+      agents.push(createAgent('agent-3', 'runtime-3', 'org-1'));
+
+      const { token } = await service.issueRouteToken({
+        fromRuntime: 'runtime-1',
+        toRuntime: 'runtime-3',
+        channelId: 'channel-1',
+        maxBytes: MAX_BYTES,
+        ttlSec: HOUR_SEC,
+      });
+
+      await expect(tokenService.verify('capability', token)).resolves.toMatchObject({
+        fromRuntime: 'runtime-1',
+        toRuntime: 'runtime-3',
+        channelId: 'channel-1',
+        maxBytes: MAX_BYTES,
+      });
+    });
+
+    it('should refuse runtimes without active agents or of another organization', async () => {
+      const route = { fromRuntime: 'runtime-1', channelId: 'channel-1', maxBytes: MAX_BYTES, ttlSec: HOUR_SEC };
+
+      await expect(service.issueRouteToken({ ...route, toRuntime: 'runtime-4' })).rejects.toThrow('Failed to issue route token');
+      await expect(service.issueRouteToken({ ...route, toRuntime: 'runtime-2' })).rejects.toThrow('Failed to issue route token');
+    });
+  });
+
+  describe('issueEnrollmentCode', () => {
+    it('should issue enrollment codes for new and re-enrolling agents', async () => {
+      const { token } = await service.issueEnrollmentCode(enrollmentRequest());
+
+      await expect(tokenService.verify('enrollment', token)).resolves.toMatchObject({
+        runtimeId: 'runtime-1',
+        orgId: 'org-1',
+        userId: 'user-1',
+        agentId: 'agent-3',
+        useP2p: false,
+      });
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ agentId: 'agent-1' }))).resolves.toEqual({
+        token: expect.any(String),
+      });
+    });
+
+    it('should refuse runtimes and agents of another organization or runtime, and decommissioned agents', async () => {
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ runtimeId: 'runtime-2' })))
+        .rejects.toThrow('Failed to issue enrollment code');
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ agentId: 'agent-2' })))
+        .rejects.toThrow('Failed to issue enrollment code');
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ runtimeId: 'runtime-4', agentId: 'agent-4' })))
+        .rejects.toThrow('Failed to issue enrollment code');
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ userId: '' })))
+        .rejects.toThrow('Failed to issue enrollment code');
+    });
+
+    it('should refuse P2P enrollment until the overlay is configured', async () => {
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ useP2p: true })))
+        .rejects.toThrow('Failed to issue enrollment code');
+
+      dnConfigured = true;
+      await expect(service.issueEnrollmentCode(enrollmentRequest({ useP2p: true }))).resolves.toEqual({
+        token: expect.any(String),
+      });
+    });
+  });
+});
@@ -1,16 +1,34 @@
-import type { 
+import type { AgentRegistryService } from '../agents/agent-registry.service.js';
+import type {
   RouteTokenRequestBody,
   RouteTokenResponseBody,
   EnrollmentCodeRequestBody,
   EnrollmentCodeResponseBody
 } from '../common/dto/index.js';
+import type { Agent } from '../common/types/index.js';
+import type { DnService } from '../services/dn.service.js';
+import type { TokenService } from '../tokens/token.service.js';
 import type * as winston from 'winston';
 
+export interface CapabilitiesServiceDependencies {
+  tokenService: TokenService;
+  agentRegistryService: AgentRegistryService;
+  dnService: DnService;
+}
 
 export class CapabilitiesService {
   private readonly _logger: winston.Logger;
+  private readonly _tokenService: TokenService;
+  private readonly _agentRegistry: AgentRegistryService;
+  private readonly _dnService: DnService;
 
-  constructor(logger: winston.Logger) {
+  constructor(
+    dependencies: CapabilitiesServiceDependencies,
+    logger: winston.Logger
+  ) {
+    this._tokenService = dependencies.tokenService;
+    this._agentRegistry = dependencies.agentRegistryService;
+    this._dnService = dependencies.dnService;
     this._logger = logger;
   }
 
@@ -22,14 +40,28 @@ export class CapabilitiesService {
         ttlSec: request.ttlSec,
       });
 
-      // TODO: Implement route token generation:
-      // 1. Validate fromRuntime and toRuntime exist and are accessible
-      // 2. Generate JWT with capability claims
-      // 3. Set expiration based on ttlSec
-      // 4. Sign with capability token secret
-      await Promise.resolve(); // Placeholder for future async operations
+      if (request.maxBytes <= 0 || request.ttlSec <= 0) {
+        throw new Error('maxBytes and ttlSec must be positive');
+      }
 
-      const token = 'mock-route-capability-token'; // TODO: Generate real JWT
+      // Both ends need an active agent, and a route may not cross organizations
+      const [fromOrgId, toOrgId] = await Promise.all([
+        this._runtimeOrgId(request.fromRuntime),
+        this._runtimeOrgId(request.toRuntime),
+      ]);
+      if (!fromOrgId || !toOrgId) {
+        throw new Error(`Runtime ${fromOrgId ? request.toRuntime : request.fromRuntime} has no active agents`);
+      }
+      if (fromOrgId !== toOrgId) {
+        throw new Error(`Runtimes ${request.fromRuntime} and ${request.toRuntime} belong to different organizations`);
+      }
+
+      const token = this._tokenService.sign('capability', {
+        fromRuntime: request.fromRuntime,
+        toRuntime: request.toRuntime,
+        channelId: request.channelId,
+        maxBytes: request.maxBytes,
+      }, request.ttlSec);
 
       return { token };
     } catch (error: unknown) {
@@ -53,15 +85,15 @@ export class CapabilitiesService {
         ttlSec: request.ttlSec,
       });
 
-      // TODO: Implement enrollment code generation:
-      // 1. Validate organizationId, userId, runtimeId
-      // 2. Generate JWT with enrollment claims
-      // 3. Set expiration based on ttlSec
-      // 4. Sign with enrollment token secret
-      // 5. If useP2p is true, prepare DN integration
-      await Promise.resolve(); // Placeholder for future async operations
+      await this._validateEnrollment(request);
 
-      const token = 'mock-enrollment-code-token'; // TODO: Generate real JWT
+      const token = this._tokenService.sign('enrollment', {
+        runtimeId: request.runtimeId,
+        orgId: request.organizationId,
+        userId: request.userId,
+        agentId: request.agentId,
+        useP2p: request.useP2p,
+      }, request.ttlSec);
 
       return { token };
     } catch (error: unknown) {
@@ -73,4 +105,42 @@ export class CapabilitiesService {
       throw new Error('Failed to issue enrollment code');
     }
   }
-}
\ No newline at end of file
+
+  // Organization of the runtime's active agents; null when it has none
+  private async _runtimeOrgId(runtimeId: string): Promise<string | null> {
+    const agents = await this._activeAgents(runtimeId);
+    return agents[0]?.orgId ?? null;
+  }
+
+  private async _activeAgents(runtimeId: string): Promise<Agent[]> {
+    const agents = await this._agentRegistry.list({ runtimeId });
+    return agents.filter((agent) => agent.status !== 'DECOMMISSIONED');
+  }
+
+  private async _validateEnrollment(request: EnrollmentCodeRequestBody): Promise<void> {
+    if (!request.organizationId || !request.userId || !request.runtimeId || !request.agentId) {
+      throw new Error('organizationId, userId, runtimeId and agentId are required');
+    }
+    if (request.ttlSec <= 0) {
+      throw new Error('ttlSec must be positive');
+    }
+    if (request.useP2p && !this._dnService.isConfigured()) {
+      throw new Error('P2P overlay is not configured');
+    }
+
+    // A runtime belongs to the organization its agents were enrolled for
+    const otherOrgAgent = (await this._activeAgents(request.runtimeId))
+      .find((agent) => agent.orgId !== request.organizationId);
+    if (otherOrgAgent) {
+      throw new Error(`Runtime ${request.runtimeId} belongs to organization ${otherOrgAgent.orgId}`);
+    }
+
+    const agent = await this._agentRegistry.get(request.agentId);
+    if (agent?.status === 'DECOMMISSIONED') {
+      throw new Error(`Agent ${request.agentId} is decommissioned`);
+    }
+    if (agent && (agent.runtimeId !== request.runtimeId || agent.orgId !== request.organizationId)) {
+      throw new Error(`Agent ${request.agentId} is enrolled for runtime ${agent.runtimeId} of organization ${agent.orgId}`);
+    }
+  }
+}
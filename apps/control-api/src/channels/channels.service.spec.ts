@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createMockLogger } from '../../test/utils/test-helpers.js';
+import { CompilerRejectedError, CompilerTimeoutError } from '../services/compiler.service.js';
+import { AgentNotConnectedError, AgentTimeoutError } from '../websocket/websocket.service.js';
+
+import { ChannelsService } from './channels.service.js';
+
+import type { CompileRequestBody } from '../common/dto/index.js';
+import type { Build } from '../common/types/index.js';
+import type { CompilerService } from '../services/compiler.service.js';
+import type { SupabaseService } from '../services/supabase.service.js';
+import type { WebSocketService } from '../websocket/websocket.service.js';
+
+const request: CompileRequestBody = {
+  orgId: 'org-1',
+  projectId: 'project-1',
+  userId: 'user-1',
+  runtimeId: 'runtime-1',
+  runtimeType: 'onprem',
+  mode: 'TEST',
+  channelId: 'channel-1',
+  irVersion: 1,
+  irContent: { channelId: 'channel-1', stages: [], edges: [] },
+  policyProfile: 'hipaa-strict',
+};
+
+const queuedBuild = {
+  buildId: 'build-1',
+  orgId: 'org-1',
+  channelId: 'channel-1',
+  buildStatus: 'QUEUED',
+} as Build;
+
+const compiled = {
+  success: true,
+  buildId: 'compiler-build-1',
+  bundle: Buffer.from('bundle-bytes').toString('base64'),
+  bundleHash: 'bundle-hash',
+  merkleRoot: 'merkle-root',
+  warnings: ['Stage "tcp-1" has no title'],
+};
+
+describe('ChannelsService', () => {
+  let compilerService: {
+    enqueue: ReturnType<typeof vi.fn>;
+    awaitResult: ReturnType<typeof vi.fn>;
+    cancel: ReturnType<typeof vi.fn>;
+  };
+  let supabaseService: {
+    createBuild: ReturnType<typeof vi.fn>;
+    updateBuild: ReturnType<typeof vi.fn>;
+    uploadBundle: ReturnType<typeof vi.fn>;
+    broadcastToEditor: ReturnType<typeof vi.fn>;
+  };
+  let websocketService: { getRuntimeAgents: ReturnType<typeof vi.fn>; request: ReturnType<typeof vi.fn> };
+  let service: ChannelsService;
+
+  beforeEach(() => {
+    compilerService = {
+      enqueue: vi.fn().mockResolvedValue({ buildId: 'compiler-build-1', status: 'queued', position: 0 }),
+      awaitResult: vi.fn().mockResolvedValue(compiled),
+      cancel: vi.fn().mockResolvedValue(true),
+    };
+    supabaseService = {
+      createBuild: vi.fn().mockResolvedValue(queuedBuild),
+      updateBuild: vi.fn().mockImplementation(async (buildId: string, updates: Partial<Build>) => ({ ...queuedBuild, buildId, ...updates })),
+      uploadBundle: vi.fn().mockResolvedValue('bundles/build-1.tgz'),
+      broadcastToEditor: vi.fn().mockResolvedValue(undefined),
+    };
+    websocketService = {
+      getRuntimeAgents: vi.fn().mockReturnValue(['agent-1', 'agent-2']),
+      request: vi.fn().mockResolvedValue({ ok: true }),
+    };
+    service = new ChannelsService(
+      {
+        compilerService: compilerService as unknown as CompilerService,
+        supabaseService: supabaseService as unknown as SupabaseService,
+        websocketService: websocketService as unknown as WebSocketService,
+      },
+      createMockLogger(),
+      { maxAttempts: 3, delayMs: 0 }
+    );
+  });
+
+  describe('compile', () => {
+    it('should record a QUEUED build and return its id', async () => {
+      const runBuild = vi.spyOn(service, 'runBuild').mockResolvedValue(queuedBuild);
+
+      await expect(service.compile('channel-1', request)).resolves.toEqual({ buildId: 'build-1', status: 'QUEUED' });
+      expect(supabaseService.createBuild).toHaveBeenCalledWith(expect.objectContaining({
+        channelId: 'channel-1',
+        orgId: 'org-1',
+        runtimeId: 'runtime-1',
+        irContent: request.irContent,
+      }));
+      expect(runBuild).toHaveBeenCalledWith(queuedBuild, request);
+    });
+
+    it('should reject a channel ID mismatch', async () => {
+      await expect(service.compile('channel-2', request)).rejects.toThrow('Compilation failed');
+      expect(supabaseService.createBuild).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runBuild', () => {
+    it('should compile, upload and move the build through COMPILING to COMPILED', async () => {
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(compilerService.enqueue).toHaveBeenCalledWith({
+        channel: request.irContent,
+        orgId: 'org-1',
+        userId: 'user-1',
+        policyProfile: 'hipaa-strict',
+      });
+      expect(compilerService.awaitResult).toHaveBeenCalledWith('compiler-build-1');
+      expect(supabaseService.uploadBundle).toHaveBeenCalledWith('build-1', Buffer.from('bundle-bytes'));
+      expect(supabaseService.updateBuild.mock.calls.map(([, updates]) => updates.buildStatus)).toEqual(['COMPILING', 'COMPILED']);
+      expect(build).toMatchObject({
+        buildStatus: 'COMPILED',
+        bundleTarball: 'bundles/build-1.tgz',
+        compilerBundleId: 'compiler-build-1',
+        buildTime: expect.any(Number),
+      });
+      expect(supabaseService.broadcastToEditor.mock.calls.map(([, event]) => event)).toEqual(['build_status', 'build_completed']);
+      expect(supabaseService.broadcastToEditor).toHaveBeenLastCalledWith('channel-1', 'build_completed', expect.objectContaining({
+        buildId: 'build-1',
+        bundleHash: 'bundle-hash',
+        merkleRoot: 'merkle-root',
+        warnings: compiled.warnings,
+      }));
+    });
+
+    it('should retry queueing when the compiler is unavailable', async () => {
+      compilerService.enqueue
+        .mockRejectedValueOnce(new Error('Failed to queue build'))
+        .mockResolvedValueOnce({ buildId: 'compiler-build-1', status: 'queued', position: 0 });
+
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(compilerService.enqueue).toHaveBeenCalledTimes(2);
+      expect(build.buildStatus).toBe('COMPILED');
+    });
+
+    it('should follow the same compiler build after a dropped connection', async () => {
+      compilerService.awaitResult
+        .mockRejectedValueOnce(new Error('Failed to get build result'))
+        .mockResolvedValueOnce(compiled);
+
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(compilerService.enqueue).toHaveBeenCalledTimes(1);
+      expect(compilerService.awaitResult.mock.calls).toEqual([['compiler-build-1'], ['compiler-build-1']]);
+      expect(build.buildStatus).toBe('COMPILED');
+    });
+
+    it('should fail without retrying when the compiler refuses the request', async () => {
+      compilerService.enqueue.mockRejectedValue(new CompilerRejectedError('Compiler rejected the build: body/channel must be object'));
+
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(compilerService.enqueue).toHaveBeenCalledTimes(1);
+      expect(compilerService.awaitResult).not.toHaveBeenCalled();
+      expect(build).toMatchObject({ buildStatus: 'FAILED', error: 'Compiler rejected the build: body/channel must be object' });
+    });
+
+    it('should cancel a compiler build that does not finish in time', async () => {
+      compilerService.awaitResult.mockRejectedValue(new CompilerTimeoutError('Build compiler-build-1 did not finish within 600000ms'));
+
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(compilerService.awaitResult).toHaveBeenCalledTimes(1);
+      expect(compilerService.cancel).toHaveBeenCalledWith('compiler-build-1');
+      expect(build).toMatchObject({ buildStatus: 'FAILED', error: 'Build compiler-build-1 did not finish within 600000ms' });
+    });
+
+    it('should fail without retrying when the compiler rejects the channel', async () => {
+      compilerService.awaitResult.mockResolvedValue({ success: false, buildId: 'compiler-build-1', errors: ['Policy lint failed'] });
+
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(compilerService.awaitResult).toHaveBeenCalledTimes(1);
+      expect(supabaseService.uploadBundle).not.toHaveBeenCalled();
+      expect(build).toMatchObject({ buildStatus: 'FAILED', buildTime: expect.any(Number), error: 'Policy lint failed' });
+      expect(supabaseService.broadcastToEditor).toHaveBeenLastCalledWith('channel-1', 'build_failed', expect.objectContaining({
+        buildId: 'build-1',
+        errors: ['Policy lint failed'],
+      }));
+    });
+
+    it('should mark the build FAILED once the upload retries are used up', async () => {
+      supabaseService.uploadBundle.mockRejectedValue(new Error('Failed to upload bundle'));
+
+      const build = await service.runBuild(queuedBuild, request);
+
+      expect(supabaseService.uploadBundle).toHaveBeenCalledTimes(3);
+      expect(build.buildStatus).toBe('FAILED');
+      expect(supabaseService.broadcastToEditor).toHaveBeenLastCalledWith('channel-1', 'build_failed', expect.objectContaining({
+        errors: ['Failed to upload bundle after 3 attempts: Failed to upload bundle'],
+      }));
+    });
+
+    it('should not fail the build when a broadcast fails', async () => {
+      supabaseService.broadcastToEditor.mockRejectedValue(new Error('Failed to broadcast to editor'));
+
+      await expect(service.runBuild(queuedBuild, request)).resolves.toMatchObject({ buildStatus: 'COMPILED' });
+    });
+  });
+
+  describe('channel control', () => {
+    it('should stop the channel on every agent of the runtime once they acknowledge', async () => {
+      await expect(service.stop('channel-1', 'runtime-1')).resolves.toEqual({ channelId: 'channel-1', status: 'STOPPED' });
+
+      expect(websocketService.request).toHaveBeenCalledWith('agent-1', 'runtime-1', { type: 'stop_channel', payload: { channelId: 'channel-1' } });
+      expect(websocketService.request).toHaveBeenCalledWith('agent-2', 'runtime-1', { type: 'stop_channel', payload: { channelId: 'channel-1' } });
+    });
+
+    it('should fail when an agent refuses or does not answer', async () => {
+      websocketService.request.mockResolvedValueOnce({ ok: false, error: 'channel not deployed' });
+      await expect(service.start('channel-1', 'runtime-1')).rejects.toThrow('Failed to start channel');
+
+      websocketService.request.mockRejectedValueOnce(new AgentTimeoutError('Agent agent-1@runtime-1 did not answer stop_channel within 10000ms'));
+      await expect(service.stop('channel-1', 'runtime-1')).rejects.toMatchObject({
+        message: 'Failed to stop channel',
+        cause: expect.any(AgentTimeoutError),
+      });
+
+      websocketService.getRuntimeAgents.mockReturnValue([]);
+      await expect(service.start('channel-1', 'runtime-1')).rejects.toMatchObject({
+        message: 'Failed to start channel',
+        cause: expect.any(AgentNotConnectedError),
+      });
+    });
+
+    it('should report the channel state each agent returns', async () => {
+      websocketService.request
+        .mockResolvedValueOnce({
+          channels: [
+            { channelId: 'channel-2', state: 'running' },
+            { channelId: 'channel-1', state: 'running', buildId: 'build-1', pid: 4242, health: 'healthy', lastErrors: [] },
+          ],
+        })
+        .mockRejectedValueOnce(new Error('Agent agent-2@runtime-1 disconnected before answering get_status'));
+
+      await expect(service.getStatus('channel-1', 'runtime-1')).resolves.toEqual({
+        channelId: 'channel-1',
+        runtimeId: 'runtime-1',
+        agents: [
+          { agentId: 'agent-1', state: 'RUNNING', buildId: 'build-1', pid: 4242, health: 'HEALTHY', lastErrors: [] },
+          {
+            agentId: 'agent-2',
+            state: 'UNREACHABLE',
+            health: 'UNKNOWN',
+            lastErrors: [],
+            error: 'Agent agent-2@runtime-1 disconnected before answering get_status',
+          },
+        ],
+      });
+      expect(websocketService.request).toHaveBeenCalledWith('agent-1', 'runtime-1', { type: 'get_status', payload: { channelId: 'channel-1' } });
+    });
+
+    it('should report agents that send a malformed status as UNREACHABLE', async () => {
+      websocketService.request.mockResolvedValueOnce({ channels: null }).mockResolvedValueOnce({ channels: [null] });
+
+      const status = await service.getStatus('channel-1', 'runtime-1');
+
+      expect(status.agents).toEqual([
+        { agentId: 'agent-1', state: 'UNREACHABLE', health: 'UNKNOWN', lastErrors: [], error: 'Malformed status reply' },
+        { agentId: 'agent-2', state: 'STOPPED', health: 'UNKNOWN', lastErrors: [] },
+      ]);
+    });
+
+    it('should fail with a timeout when no agent answers', async () => {
+      websocketService.request.mockRejectedValue(new AgentTimeoutError('Agent did not answer get_status within 10000ms'));
+
+      await expect(service.getStatus('channel-1', 'runtime-1')).rejects.toMatchObject({
+        message: 'Failed to get channel status',
+        cause: expect.any(AgentTimeoutError),
+      });
+    });
+
+    it('should report a channel the agent does not run as STOPPED', async () => {
+      websocketService.getRuntimeAgents.mockReturnValue(['agent-1']);
+      websocketService.request.mockResolvedValue({ channels: [] });
+
+      const status = await service.getStatus('channel-1', 'runtime-1');
+
+      expect(status.agents).toEqual([{ agentId: 'agent-1', state: 'STOPPED', health: 'UNKNOWN', lastErrors: [] }]);
+    });
+  });
+});
@@ -1,24 +1,81 @@
-import { ulid } from 'ulid';
+import { setTimeout as delay } from 'timers/promises';
 
+import { CompilerRejectedError, CompilerTimeoutError } from '../services/compiler.service.js';
+import { AgentNotConnectedError, AgentTimeoutError } from '../websocket/websocket.service.js';
 
-import type { CompileRequestBody, CompileResponseBody, ChannelControlResponseBody } from '../common/dto/index.js';
+import type {
+  ChannelAgentStatusBody,
+  ChannelControlResponseBody,
+  ChannelStatusResponseBody,
+  CompileRequestBody,
+  CompileResponseBody,
+} from '../common/dto/index.js';
+import type { AgentChannelStatusPayload, Build, CompilerResponse } from '../common/types/index.js';
 import type { CompilerService } from '../services/compiler.service.js';
 import type { SupabaseService } from '../services/supabase.service.js';
 import type { WebSocketService } from '../websocket/websocket.service.js';
 import type * as winston from 'winston';
 
+const DEFAULT_RETRY: CompileRetryOptions = { maxAttempts: 3, delayMs: 1000 };
+
+// Channel states as agents report them
+const CHANNEL_STATES: Record<string, ChannelAgentStatusBody['state']> = {
+  running: 'RUNNING',
+  starting: 'STARTING',
+  draining: 'DRAINING',
+  stopped: 'STOPPED',
+  error: 'FAILED',
+  failed: 'FAILED',
+};
+const CHANNEL_HEALTH = new Set(['HEALTHY', 'UNHEALTHY']);
+
+// A channel the agent does not report is not running there
+function toAgentStatus(agentId: string, channel: AgentChannelStatusPayload | undefined): ChannelAgentStatusBody {
+  const health = String(channel?.health).toUpperCase();
+
+  return {
+    agentId,
+    state: CHANNEL_STATES[String(channel?.state).toLowerCase()] ?? 'STOPPED',
+    ...(channel?.buildId ? { buildId: channel.buildId } : {}),
+    ...(typeof channel?.pid === 'number' ? { pid: channel.pid } : {}),
+    health: CHANNEL_HEALTH.has(health) ? health as ChannelAgentStatusBody['health'] : 'UNKNOWN',
+    lastErrors: channel?.lastErrors ?? [],
+  };
+}
+
+export interface CompileRetryOptions {
+  // Attempts per step (compile, upload, status update) before the build fails
+  maxAttempts: number;
+  // Delay before the first retry, doubled for each further retry
+  delayMs: number;
+}
+
+export interface ChannelsServiceDependencies {
+  compilerService: CompilerService;
+  supabaseService: SupabaseService;
+  websocketService: WebSocketService;
+}
+
 export class ChannelsService {
   private readonly _logger: winston.Logger;
+  private readonly _compilerService: CompilerService;
+  private readonly _supabaseService: SupabaseService;
+  private readonly _websocketService: WebSocketService;
 
   constructor(
-    private readonly _compilerService: CompilerService,
-    private readonly _supabaseService: SupabaseService,
-    private readonly _websocketService: WebSocketService,
-    logger: winston.Logger
+    dependencies: ChannelsServiceDependencies,
+    logger: winston.Logger,
+    private readonly _retry: CompileRetryOptions = DEFAULT_RETRY
   ) {
+    this._compilerService = dependencies.compilerService;
+    this._supabaseService = dependencies.supabaseService;
+    this._websocketService = dependencies.websocketService;
     this._logger = logger;
   }
 
+  /**
+   * Record a QUEUED build and compile it in the background; progress is broadcast to the Editor
+   */
   async compile(channelId: string, request: CompileRequestBody): Promise<CompileResponseBody> {
     try {
       this._logger.info(`Received compile request for channel ${channelId}`, {
@@ -33,22 +90,26 @@ export class ChannelsService {
         throw new Error('Channel ID mismatch between URL and request body');
       }
 
-      // Generate build ID
-      const buildId = ulid();
+      const build = await this._supabaseService.createBuild({
+        orgId: request.orgId,
+        projectId: request.projectId,
+        userId: request.userId,
+        runtimeId: request.runtimeId,
+        runtimeType: request.runtimeType,
+        channelId,
+        mode: request.mode,
+        irContent: request.irContent,
+        irVersion: request.irVersion,
+        ...(request.notes ? { notes: request.notes } : {}),
+      });
 
-      // TODO: Implement the full compile flow:
-      // 1. Create bundle record in Supabase with QUEUED status
-      // 2. Call compiler service
-      // 3. Upload bundle to Supabase Storage
-      // 4. Update bundle record with COMPILED status
-      // 5. Broadcast success/failure to Editor via /api/broadcast
-      await Promise.resolve(); // Placeholder for future async operations
+      this._logger.info(`Queued build ${build.buildId} for channel ${channelId}`);
 
-      this._logger.info(`Generated build ID ${buildId} for channel ${channelId}`);
+      // runBuild records every failure on the build, so nothing is left to handle here
+      void this.runBuild(build, request);
 
-      // For now, return immediate response
       return {
-        buildId,
+        buildId: build.buildId,
         status: 'QUEUED',
       };
     } catch (error: unknown) {
@@ -58,15 +119,69 @@ export class ChannelsService {
     }
   }
 
+  /**
+   * Compile a queued build, upload its bundle and move it through COMPILING to COMPILED or FAILED.
+   * Transient compiler, storage and status update failures are retried; the outcome is broadcast to the Editor.
+   */
+  async runBuild(build: Build, request: CompileRequestBody): Promise<Build> {
+    const startedAt = Date.now();
+    const { buildId, channelId } = build;
+
+    try {
+      await this._retrying('mark build compiling', async () =>
+        await this._supabaseService.updateBuild(buildId, { buildStatus: 'COMPILING', userId: request.userId })
+      );
+      await this._broadcast(channelId, 'build_status', { buildId, status: 'COMPILING' });
+
+      const queued = await this._retrying('queue compile', async () =>
+        await this._compilerService.enqueue({
+          channel: request.irContent,
+          orgId: request.orgId,
+          userId: request.userId,
+          ...(request.policyProfile ? { policyProfile: request.policyProfile } : {}),
+        })
+      );
+      const result = await this._compilerResult(queued.buildId);
+
+      if (!result.success || !result.bundle) {
+        return await this._failBuild(build, request, {
+          startedAt,
+          errors: result.errors?.length ? result.errors.map(String) : ['Compiler returned no bundle'],
+        });
+      }
+
+      const bundle = Buffer.from(result.bundle, 'base64');
+      const bundlePath = await this._retrying('upload bundle', async () =>
+        await this._supabaseService.uploadBundle(buildId, bundle)
+      );
+
+      const buildTime = Date.now() - startedAt;
+      const compiled = await this._retrying('mark build compiled', async () =>
+        await this._supabaseService.updateBuild(buildId, {
+          buildStatus: 'COMPILED',
+          bundleTarball: bundlePath,
+          compilerBundleId: result.buildId,
+          buildTime,
+          userId: request.userId,
+        })
+      );
+
+      this._logger.info(`Build ${buildId} compiled in ${buildTime}ms`, { channelId, compilerBuildId: result.buildId });
+      await this._broadcast(channelId, 'build_completed', this._completedPayload(buildId, result, buildTime));
+      return compiled;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return await this._failBuild(build, request, { startedAt, errors: [errorMessage] });
+    }
+  }
+
+  /**
+   * Stop a channel on every agent of the runtime and wait for each to acknowledge
+   */
   async stop(channelId: string, runtimeId: string): Promise<ChannelControlResponseBody> {
     try {
       this._logger.info(`Stopping channel ${channelId} on runtime ${runtimeId}`);
-
-      // TODO: Implement channel stop logic:
-      // 1. Send stop command to agent via WebSocket
-      // 2. Wait for confirmation
-      // 3. Update channel status
-      await Promise.resolve(); // Placeholder for future async operations
+      await this._commandAgents('stop_channel', channelId, runtimeId);
 
       return {
         channelId,
@@ -75,19 +190,17 @@ export class ChannelsService {
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this._logger.error('Stop channel operation failed', { error: errorMessage, channelId, runtimeId });
-      throw new Error('Failed to stop channel');
+      throw new Error('Failed to stop channel', { cause: error });
     }
   }
 
+  /**
+   * Start a channel on every agent of the runtime and wait for each to acknowledge
+   */
   async start(channelId: string, runtimeId: string): Promise<ChannelControlResponseBody> {
     try {
       this._logger.info(`Starting channel ${channelId} on runtime ${runtimeId}`);
-
-      // TODO: Implement channel start logic:
-      // 1. Send start command to agent via WebSocket
-      // 2. Wait for confirmation
-      // 3. Update channel status
-      await Promise.resolve(); // Placeholder for future async operations
+      await this._commandAgents('start_channel', channelId, runtimeId);
 
       return {
         channelId,
@@ -96,32 +209,162 @@ export class ChannelsService {
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this._logger.error('Start channel operation failed', { error: errorMessage, channelId, runtimeId });
-      throw new Error('Failed to start channel');
+      throw new Error('Failed to start channel', { cause: error });
     }
   }
 
-  async getStatus(channelId: string, runtimeId: string): Promise<Record<string, unknown>> {
+  /**
+   * Ask every agent of the runtime for the channel's state; agents that do not answer are UNREACHABLE
+   */
+  async getStatus(channelId: string, runtimeId: string): Promise<ChannelStatusResponseBody> {
     try {
       this._logger.info(`Getting status for channel ${channelId} on runtime ${runtimeId}`);
 
-      // TODO: Implement status retrieval:
-      // 1. Query agent for current channel status
-      // 2. Return current state, PID, health, last errors
-      await Promise.resolve(); // Placeholder for future async operations
+      const agentIds = this._runtimeAgents(runtimeId);
+      const replies = await Promise.allSettled(agentIds.map(async (agentId) =>
+        await this._websocketService.request(agentId, runtimeId, { type: 'get_status', payload: { channelId } })
+      ));
 
-      const PID_PLACEHOLDER = 12345;
-      return {
-        channelId,
-        runtimeId,
-        state: 'RUNNING',
-        pid: PID_PLACEHOLDER,
-        health: 'HEALTHY',
-        lastErrors: [],
-      };
+      if (replies.every((reply) => reply.status === 'rejected' && reply.reason instanceof AgentTimeoutError)) {
+        throw new AgentTimeoutError(`No agent of runtime ${runtimeId} answered get_status in time`);
+      }
+
+      const agents = replies.map((reply, index): ChannelAgentStatusBody => {
+        const agentId = agentIds[index] ?? '';
+        if (reply.status === 'rejected') {
+          const errorMessage = reply.reason instanceof Error ? reply.reason.message : 'Unknown error';
+          return { agentId, state: 'UNREACHABLE', health: 'UNKNOWN', lastErrors: [], error: errorMessage };
+        }
+
+        // Replies are agent input: a status without a channel list is reported per agent
+        const channels: unknown = reply.value.channels;
+        if (!Array.isArray(channels)) {
+          return { agentId, state: 'UNREACHABLE', health: 'UNKNOWN', lastErrors: [], error: 'Malformed status reply' };
+        }
+        return toAgentStatus(agentId, (channels as Array<AgentChannelStatusPayload | null>)
+          .find((channel) => channel?.channelId === channelId) ?? undefined);
+      });
+
+      return { channelId, runtimeId, agents };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this._logger.error('Get status operation failed', { error: errorMessage, channelId, runtimeId });
-      throw new Error('Failed to get channel status');
+      throw new Error('Failed to get channel status', { cause: error });
+    }
+  }
+
+  private async _failBuild(
+    build: Build,
+    request: CompileRequestBody,
+    failure: { startedAt: number; errors: string[] }
+  ): Promise<Build> {
+    const buildTime = Date.now() - failure.startedAt;
+    this._logger.error(`Build ${build.buildId} failed`, { channelId: build.channelId, errors: failure.errors });
+
+    let failed: Build = { ...build, buildStatus: 'FAILED', buildTime };
+    try {
+      failed = await this._retrying('mark build failed', async () =>
+        await this._supabaseService.updateBuild(build.buildId, {
+          buildStatus: 'FAILED',
+          buildTime,
+          error: failure.errors.join('\n'),
+          userId: request.userId,
+        })
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error(`Could not record build ${build.buildId} as failed`, { error: errorMessage });
+    }
+
+    await this._broadcast(build.channelId, 'build_failed', {
+      buildId: build.buildId,
+      status: 'FAILED',
+      buildTime,
+      errors: failure.errors,
+    });
+    return failed;
+  }
+
+  private _completedPayload(buildId: string, result: CompilerResponse, buildTime: number): Record<string, unknown> {
+    return {
+      buildId,
+      status: 'COMPILED',
+      compilerBuildId: result.buildId,
+      bundleHash: result.bundleHash,
+      merkleRoot: result.merkleRoot,
+      buildTime,
+      warnings: result.warnings ?? [],
+    };
+  }
+
+  /**
+   * Broadcast build progress to the Editor. A failed broadcast is logged and does not fail the build.
+   */
+  private async _broadcast(channelId: string, event: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      await this._supabaseService.broadcastToEditor(channelId, event, payload);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.warn(`Failed to broadcast ${event}`, { error: errorMessage, channelId });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Run an operation, retrying with exponential backoff until it succeeds or the attempts run out
+   */
+  /**
+   * Follow one compiler build to its result; dropped connections are retried against the same build,
+   * and a build that does not finish in time is cancelled so it stops using a compiler slot
+   */
+  private async _compilerResult(compilerBuildId: string): Promise<CompilerResponse> {
+    try {
+      return await this._retrying('compile', async () => await this._compilerService.awaitResult(compilerBuildId));
+    } catch (error: unknown) {
+      if (error instanceof CompilerTimeoutError) {
+        await this._compilerService.cancel(compilerBuildId).catch((cancelError: unknown) => {
+          const errorMessage = cancelError instanceof Error ? cancelError.message : 'Unknown error';
+          this._logger.warn(`Could not cancel compiler build ${compilerBuildId}`, { error: errorMessage });
+        });
+      }
+      throw error;
+    }
+  }
+
+  // Rejections and timeouts are not retried: another attempt would get the same answer
+  private async _retrying<T>(step: string, operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await operation();
+      } catch (error: unknown) {
+        if (error instanceof CompilerRejectedError || error instanceof CompilerTimeoutError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (attempt >= this._retry.maxAttempts) {
+          throw new Error(`Failed to ${step} after ${attempt} attempts: ${errorMessage}`);
+        }
+
+        const retryInMs = this._retry.delayMs * 2 ** (attempt - 1);
+        this._logger.warn(`Failed to ${step}, retrying in ${retryInMs}ms`, { attempt, error: errorMessage });
+        await delay(retryInMs);
+      }
+    }
+  }
+
+  private _runtimeAgents(runtimeId: string): string[] {
+    const agentIds = this._websocketService.getRuntimeAgents(runtimeId);
+    if (agentIds.length === 0) {
+      throw new AgentNotConnectedError(`No agent connected for runtime ${runtimeId}`);
+    }
+    return agentIds;
+  }
+
+  private async _commandAgents(type: 'stop_channel' | 'start_channel', channelId: string, runtimeId: string): Promise<void> {
+    await Promise.all(this._runtimeAgents(runtimeId).map(async (agentId) => {
+      const ack = await this._websocketService.request(agentId, runtimeId, { type, payload: { channelId } });
+      if (!ack.ok) {
+        throw new Error(`Agent ${agentId}@${runtimeId} refused ${type}: ${ack.error ?? 'no reason given'}`);
+      }
+    }));
+  }
+}
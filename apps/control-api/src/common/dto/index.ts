@@ -49,7 +49,7 @@ export const CompileResponseSchema = {
 
 // Deploy request/response interfaces and schemas
 export interface DeploymentStrategyBody {
-  type: 'blueGreen' | 'rolling' | 'recreate';
+  type: 'rolling' | 'recreate';
   healthTimeoutSec?: number;
   maxUnavailable?: number;
 }
@@ -58,7 +58,7 @@ export const DeploymentStrategySchema = {
   type: 'object',
   required: ['type'],
   properties: {
-    type: { type: 'string', enum: ['blueGreen', 'rolling', 'recreate'] },
+    type: { type: 'string', enum: ['rolling', 'recreate'] },
     healthTimeoutSec: { type: 'number' },
     maxUnavailable: { type: 'number' }
   }
@@ -67,6 +67,8 @@ export const DeploymentStrategySchema = {
 export interface DeployRequestBody {
   strategy: DeploymentStrategyBody;
   runtimeId: string;
+  // Further runtimes rolled out together with runtimeId under the same strategy
+  runtimeIds?: string[];
   channelId: string;
   mode: 'PROD' | 'TEST';
 }
@@ -77,6 +79,7 @@ export const DeployRequestSchema = {
   properties: {
     strategy: DeploymentStrategySchema,
     runtimeId: { type: 'string' },
+    runtimeIds: { type: 'array', items: { type: 'string' } },
     channelId: { type: 'string' },
     mode: { type: 'string', enum: ['PROD', 'TEST'] }
   }
@@ -123,18 +126,65 @@ export const ChannelControlResponseSchema = {
   }
 } as const;
 
+// A channel on one agent of the runtime, as the agent reported it
+export interface ChannelAgentStatusBody {
+  agentId: string;
+  // UNREACHABLE: the agent did not answer the status request
+  state: 'RUNNING' | 'STARTING' | 'DRAINING' | 'STOPPED' | 'FAILED' | 'UNREACHABLE';
+  buildId?: string;
+  pid?: number;
+  health: 'HEALTHY' | 'UNHEALTHY' | 'UNKNOWN';
+  lastErrors: string[];
+  error?: string;
+}
+
+export interface ChannelStatusResponseBody {
+  channelId: string;
+  runtimeId: string;
+  agents: ChannelAgentStatusBody[];
+}
+
+export const ChannelStatusResponseSchema = {
+  type: 'object',
+  required: ['channelId', 'runtimeId', 'agents'],
+  properties: {
+    channelId: { type: 'string' },
+    runtimeId: { type: 'string' },
+    agents: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['agentId', 'state', 'health', 'lastErrors'],
+        properties: {
+          agentId: { type: 'string' },
+          state: { type: 'string', enum: ['RUNNING', 'STARTING', 'DRAINING', 'STOPPED', 'FAILED', 'UNREACHABLE'] },
+          buildId: { type: 'string' },
+          pid: { type: 'number' },
+          health: { type: 'string', enum: ['HEALTHY', 'UNHEALTHY', 'UNKNOWN'] },
+          lastErrors: { type: 'array', items: { type: 'string' } },
+          error: { type: 'string' }
+        }
+      }
+    }
+  }
+} as const;
+
 // Agent enrollment interfaces and schemas
 export interface AgentEnrollRequestBody {
   runtimeId: string;
   bootstrapToken: string;
+  version: string;
+  os: string;
 }
 
 export const AgentEnrollRequestSchema = {
   type: 'object',
-  required: ['runtimeId', 'bootstrapToken'],
+  required: ['runtimeId', 'bootstrapToken', 'version', 'os'],
   properties: {
     runtimeId: { type: 'string' },
-    bootstrapToken: { type: 'string' }
+    bootstrapToken: { type: 'string' },
+    version: { type: 'string' },
+    os: { type: 'string' }
   }
 } as const;
 
@@ -157,19 +207,130 @@ export const OverlayConfigSchema = {
   }
 } as const;
 
+export interface TrustedBundleKeyBody {
+  keyId: string;
+  publicKey: string;
+}
+
+export const TrustedBundleKeySchema = {
+  type: 'object',
+  required: ['keyId', 'publicKey'],
+  properties: {
+    keyId: { type: 'string' },
+    publicKey: { type: 'string' }
+  }
+} as const;
+
 export interface AgentEnrollResponseBody {
   agentId: string;
   agentJwt: string;
   overlay: OverlayConfigBody;
+  // Keys the agent verifies bundle signatures with: the compiler's current and retired signing keys
+  trustedBundleKeys: TrustedBundleKeyBody[];
 }
 
 export const AgentEnrollResponseSchema = {
   type: 'object',
-  required: ['agentId', 'agentJwt', 'overlay'],
+  required: ['agentId', 'agentJwt', 'overlay', 'trustedBundleKeys'],
   properties: {
     agentId: { type: 'string' },
     agentJwt: { type: 'string' },
-    overlay: OverlayConfigSchema
+    overlay: OverlayConfigSchema,
+    trustedBundleKeys: {
+      type: 'array',
+      items: TrustedBundleKeySchema
+    }
+  }
+} as const;
+
+export interface AgentRenewResponseBody {
+  agentId: string;
+  agentJwt: string;
+}
+
+export const AgentRenewResponseSchema = {
+  type: 'object',
+  required: ['agentId', 'agentJwt'],
+  properties: {
+    agentId: { type: 'string' },
+    agentJwt: { type: 'string' }
+  }
+} as const;
+
+// Agent registry interfaces and schemas
+export interface AgentListQuery {
+  runtimeId?: string;
+  orgId?: string;
+  status?: 'ONLINE' | 'OFFLINE' | 'PENDING' | 'DECOMMISSIONED';
+  // `key=value` selectors; agents must carry all of them
+  label?: string[];
+}
+
+export const AgentListQuerySchema = {
+  type: 'object',
+  properties: {
+    runtimeId: { type: 'string' },
+    orgId: { type: 'string' },
+    status: { type: 'string', enum: ['ONLINE', 'OFFLINE', 'PENDING', 'DECOMMISSIONED'] },
+    label: {
+      type: 'array',
+      items: { type: 'string', pattern: '^[^=]+=.*$' }
+    }
+  }
+} as const;
+
+export const AgentChannelSchema = {
+  type: 'object',
+  required: ['channelId', 'state'],
+  properties: {
+    channelId: { type: 'string' },
+    state: { type: 'string', enum: ['RUNNING', 'STOPPED', 'FAILED'] },
+    buildId: { type: 'string' },
+    pid: { type: 'number' },
+    version: { type: 'string' },
+    health: { type: 'string', enum: ['HEALTHY', 'UNHEALTHY', 'UNKNOWN'] }
+  }
+} as const;
+
+export const AgentSchema = {
+  type: 'object',
+  required: ['agentId', 'runtimeId', 'orgId', 'status', 'channels', 'labels'],
+  properties: {
+    agentId: { type: 'string' },
+    runtimeId: { type: 'string' },
+    orgId: { type: 'string' },
+    version: { type: 'string' },
+    os: { type: 'string' },
+    nebulaIp: { type: 'string' },
+    status: { type: 'string', enum: ['ONLINE', 'OFFLINE', 'PENDING', 'DECOMMISSIONED'] },
+    lastHeartbeat: { type: 'string', format: 'date-time' },
+    channels: {
+      type: 'array',
+      items: AgentChannelSchema
+    },
+    labels: {
+      type: 'object',
+      additionalProperties: { type: 'string' }
+    },
+    decommissionedAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+} as const;
+
+export interface AgentLabelsRequestBody {
+  // A null value removes the label
+  labels: Record<string, string | null>;
+}
+
+export const AgentLabelsRequestSchema = {
+  type: 'object',
+  required: ['labels'],
+  properties: {
+    labels: {
+      type: 'object',
+      additionalProperties: { type: ['string', 'null'] }
+    }
   }
 } as const;
 
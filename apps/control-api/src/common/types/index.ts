@@ -47,6 +47,8 @@ export interface Build {
   compilerBundleId?: string;
   buildStatus: 'QUEUED' | 'COMPILING' | 'COMPILED' | 'FAILED';
   buildTime?: number;
+  // Why a FAILED build failed, one error per line
+  error?: string;
   deploymentStatus?: 'QUEUED' | 'DEPLOYING' | 'DEPLOYED' | 'FAILED' | null;
   deploymentId?: string;
   deploymentTime?: number;
@@ -62,14 +64,30 @@ export interface Deployment {
   channelId: string;
   mode: 'PROD' | 'TEST';
   strategy: DeploymentStrategy;
-  status: 'QUEUED' | 'DEPLOYING' | 'DEPLOYED' | 'FAILED';
+  status: DeploymentStatus;
+  // Every runtime the build is rolled out to, runtimeId first
+  runtimeIds: string[];
+  targets: DeploymentTarget[];
+  error?: string;
   startedAt?: Date;
   completedAt?: Date;
   attestation?: DeploymentAttestation;
 }
 
+export type DeploymentStatus = 'QUEUED' | 'DEPLOYING' | 'DEPLOYED' | 'ROLLING_BACK' | 'ROLLED_BACK' | 'FAILED';
+
+// One connected agent of a target runtime
+export interface DeploymentTarget {
+  agentId: string;
+  runtimeId: string;
+  status: 'PENDING' | 'DEPLOYING' | 'HEALTHY' | 'FAILED' | 'ROLLED_BACK';
+  // Build the channel ran on this runtime before the deployment; restored when it fails
+  previousBuildId?: string;
+  error?: string;
+}
+
 export interface DeploymentStrategy {
-  type: 'blueGreen' | 'rolling' | 'recreate';
+  type: 'rolling' | 'recreate';
   healthTimeoutSec?: number;
   maxUnavailable?: number;
 }
@@ -90,21 +108,41 @@ export interface Agent {
   version: string;
   os: string;
   nebulaIp?: string;
-  status: 'ONLINE' | 'OFFLINE' | 'PENDING';
+  status: AgentStatus;
   lastHeartbeat?: Date;
   channels: AgentChannel[];
+  labels: Record<string, string>;
+  decommissionedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// PENDING: enrolled but not connected yet; DECOMMISSIONED agents can no longer authenticate
+export type AgentStatus = 'ONLINE' | 'OFFLINE' | 'PENDING' | 'DECOMMISSIONED';
+
 export interface AgentChannel {
   channelId: string;
   state: 'RUNNING' | 'STOPPED' | 'FAILED';
+  buildId?: string;
   pid?: number;
   version?: string;
   health?: 'HEALTHY' | 'UNHEALTHY' | 'UNKNOWN';
 }
 
+// Stored status an agent must (or must not) have for a conditional update to apply
+export interface AgentStatusCondition {
+  status?: AgentStatus;
+  notStatus?: AgentStatus;
+}
+
+export interface AgentFilter {
+  runtimeId?: string;
+  orgId?: string;
+  status?: AgentStatus;
+  // Agents carrying all of these labels
+  labels?: Record<string, string>;
+}
+
 // Token related types
 export interface AgentJWT {
   agentId: string;
@@ -133,6 +171,22 @@ export interface CapabilityToken {
   exp: number;
 }
 
+export type TokenKind = 'agent' | 'enrollment' | 'capability';
+
+// Claim set signed for each kind of token
+export interface TokenClaims {
+  agent: AgentJWT;
+  enrollment: EnrollmentToken;
+  capability: CapabilityToken;
+}
+
+// Claims the TokenService adds to every token it signs
+export interface TokenRegisteredClaims {
+  iss: string;
+  aud: string;
+  jti: string;
+}
+
 // WebSocket message types
 export type WebSocketMessageType = 
   | 'enroll' | 'auth' | 'auth_ok' | 'auth_error'
@@ -146,7 +200,9 @@ export type WebSocketMessageType =
   | 'rotate_enrollment' | 'rotate_result'
   | 'stop_channel' | 'start_channel'
   | 'get_status' | 'status'
-  | 'error';
+  | 'ack'
+  // Socket.IO reserves `error`, so agents report a failed command as `command_error`
+  | 'command_error';
 
 export interface WebSocketMessage {
   type: WebSocketMessageType;
@@ -155,6 +211,46 @@ export interface WebSocketMessage {
   timestamp?: string;
 }
 
+// Commands sent with WebSocketService.request, which waits for the agent's correlated reply
+export type AgentCommandType = 'deploy' | 'stop_channel' | 'start_channel' | 'get_status';
+
+export interface AgentAckPayload {
+  ok: boolean;
+  error?: string;
+}
+
+export interface AgentDeployResultPayload {
+  status: 'DEPLOYED' | 'FAILED';
+  error?: string;
+}
+
+// One channel as an agent reports it in a `status` reply
+export interface AgentChannelStatusPayload {
+  channelId: string;
+  state: string;
+  buildId?: string;
+  pid?: number;
+  health?: string;
+  lastErrors?: string[];
+}
+
+export interface AgentStatusPayload {
+  channels: AgentChannelStatusPayload[];
+}
+
+// Reply payload of each command: `deploy_result`, `status`, or an `ack` for channel start/stop
+export type AgentCommandReply<C extends AgentCommandType> =
+  C extends 'deploy' ? AgentDeployResultPayload
+    : C extends 'get_status' ? AgentStatusPayload
+      : AgentAckPayload;
+
+// A message received from a connected agent
+export interface AgentMessageEvent {
+  agentId: string;
+  runtimeId: string;
+  message: WebSocketMessage;
+}
+
 // Supabase related types
 export interface SupabaseConfig {
   url: string;
@@ -162,18 +258,63 @@ export interface SupabaseConfig {
   projectRef: string;
 }
 
+// Secret resolution types
+// credentials.json from a compiled bundle: secret references keyed by `<stageId>.<paramPath>`
+export interface SecretReferenceEntry {
+  type: 'secretRef';
+  ref: string;
+  envVar: string;
+}
+
+// Secret references (`CredentialsRef.ref`) are URIs whose scheme selects the provider
+export interface SecretReference {
+  raw: string;
+  scheme: string;
+  path: string;
+  key?: string;
+}
+
+export interface SecretProvider {
+  readonly scheme: string;
+  resolve: (reference: SecretReference) => Promise<string>;
+}
+
+export interface FileVaultDocument {
+  version: number;
+  cipher: string;
+  kdf: { name: 'scrypt'; salt: string };
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface HashiCorpVaultOptions {
+  address: string;
+  token: string;
+  kvVersion: 1 | 2;
+  namespace?: string;
+}
+
+export interface CredentialsMap {
+  version: number;
+  channelId: string;
+  credentials: Record<string, SecretReferenceEntry>;
+  nodeCredentials?: Record<string, Record<string, string>>;
+}
+
 // Compiler integration types
 export interface CompilerRequest {
   channel: any;
   orgId: string;
   userId?: string;
-  acknowledgedViolations?: string[];
+  policyProfile?: string;
 }
 
 export interface CompilerResponse {
   success: boolean;
   buildId: string;
-  bundle?: Buffer;
+  // Base64-encoded bundle
+  bundle?: string;
   bundleHash?: string;
   merkleRoot?: string;
   artifactHashes?: Record<string, string>;
@@ -182,4 +323,51 @@ export interface CompilerResponse {
   validation?: any;
   policyLint?: any;
   metadata?: any;
+}
+
+export interface CompilerQueuedBuild {
+  buildId: string;
+  status: 'queued';
+  position: number;
+}
+
+export type CompilerBuildStatus =
+  | 'queued'
+  | 'validating'
+  | 'linting'
+  | 'generating'
+  | 'bundling'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+// Event streamed by the compiler's `/compiler/builds/:buildId/events` on every status change of a build
+export interface CompilerProgressEvent {
+  buildId: string;
+  status: CompilerBuildStatus;
+  timestamp: string;
+  position?: number;
+  success?: boolean;
+  errors?: string[];
+}
+
+// Public bundle signing key listed by the compiler's `/compiler/signing-keys`
+export interface CompilerSigningKey {
+  keyId: string;
+  algorithm: string;
+  publicKey: string;
+  // false for keys rotated out that agents still trust
+  current: boolean;
+}
+
+// Build record returned by the compiler's `/compiler/status/:buildId`
+export interface CompilerBuildRecord {
+  buildId: string;
+  status: CompilerBuildStatus;
+  validation?: Record<string, unknown>;
+  policyLint?: Record<string, unknown>;
+  artifactHashes?: Record<string, string>;
+  bundleHash?: string;
+  merkleRoot?: string;
+  error?: string;
 }
\ No newline at end of file
@@ -0,0 +1,282 @@
+import nacl from 'tweetnacl';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { extractAndVerifyBundle } from '@gapjunction/bundle-integrity';
+
+import { createMockLogger } from '../../test/utils/test-helpers.js';
+import { EnvSecretProvider } from '../secrets/providers/env.provider.js';
+import { SecretsService } from '../secrets/secrets.service.js';
+import { WebSocketService } from '../websocket/websocket.service.js';
+
+import { DeploymentsService } from './deployments.service.js';
+
+import type { DeployRequestBody } from '../common/dto/index.js';
+import type { Build, Deployment, WebSocketMessage } from '../common/types/index.js';
+import type { SupabaseService } from '../services/supabase.service.js';
+import type { TokenService } from '../tokens/token.service.js';
+import type { Socket } from 'socket.io';
+
+vi.mock('@gapjunction/bundle-integrity', () => ({
+  extractAndVerifyBundle: vi.fn(),
+}));
+
+// How a fake agent answers a deploy command
+type AgentBehaviour = 'healthy' | 'fail' | 'unhealthy';
+
+// How a fake agent answers a stop_channel command
+type StopBehaviour = 'ack' | 'refuse' | 'silent';
+
+function createBuild(buildId: string): Build {
+  return {
+    buildId,
+    channelId: 'channel-1',
+    mode: 'PROD',
+    buildStatus: 'COMPILED',
+    bundleTarball: `bundles/${buildId}.tgz`,
+  } as Build;
+}
+
+function deployRequest(strategy: DeployRequestBody['strategy'], runtimeIds: string[] = []): DeployRequestBody {
+  return { runtimeId: 'runtime-1', runtimeIds, channelId: 'channel-1', mode: 'PROD', strategy };
+}
+
+describe('DeploymentsService', () => {
+  const deviceKeys = nacl.box.keyPair();
+  let websocketService: WebSocketService;
+  let supabaseService: Record<string, ReturnType<typeof vi.fn>>;
+  let service: DeploymentsService;
+  let builds: Map<string, Build>;
+  // Commands as agents received them, e.g. `agent-1:deploy:build-2`
+  let received: string[];
+
+  function connectAgent(
+    agentId: string,
+    runtimeId: string,
+    behaviour: (buildId: string) => AgentBehaviour,
+    stopBehaviour: StopBehaviour = 'ack'
+  ): void {
+    const emit = (type: string, message: WebSocketMessage): void => {
+      if (type !== 'deploy') {
+        received.push(`${agentId}:${type}`);
+        if (type === 'stop_channel' && stopBehaviour !== 'silent') {
+          setTimeout(() => {
+            websocketService.handleReply(agentId, runtimeId, {
+              type: 'ack',
+              requestId: message.requestId ?? '',
+              payload: stopBehaviour === 'ack' ? { ok: true } : { ok: false, error: 'channel busy' },
+            });
+          }, 0);
+        }
+        return;
+      }
+      const buildId = message.payload.bundle.buildId as string;
+      received.push(`${agentId}:deploy:${buildId}`);
+      const outcome = behaviour(buildId);
+
+      setTimeout(() => {
+        websocketService.handleDeployResult(agentId, runtimeId, {
+          type: 'deploy_result',
+          requestId: message.requestId ?? '',
+          payload: outcome === 'fail' ? { status: 'FAILED', error: 'flows failed to start' } : { status: 'DEPLOYED' },
+        });
+        if (outcome === 'healthy') {
+          websocketService.handleHeartbeat(agentId, runtimeId, {
+            channels: [{ channelId: 'channel-1', buildId, state: 'running' }],
+          });
+        }
+      }, 0);
+    };
+
+    websocketService.registerAgent({ emit } as unknown as Socket, agentId, runtimeId);
+    websocketService.handleHeartbeat(agentId, runtimeId, {
+      devicePublicKey: Buffer.from(deviceKeys.publicKey).toString('base64'),
+      channels: [],
+    });
+  }
+
+  async function deploy(buildId: string, request: DeployRequestBody): Promise<Deployment> {
+    const build = builds.get(buildId) ?? createBuild(buildId);
+    const deployment = await service.create(build, request);
+    return await service.run(deployment, build);
+  }
+
+  beforeEach(() => {
+    received = [];
+    builds = new Map(['build-0', 'build-1', 'build-2'].map((buildId) => [buildId, createBuild(buildId)]));
+    websocketService = new WebSocketService({} as TokenService, createMockLogger());
+    supabaseService = {
+      getLatestDeployment: vi.fn().mockImplementation(async (_channelId: string, runtimeId: string) =>
+        ({ buildId: runtimeId === 'runtime-1' ? 'build-1' : 'build-0' })),
+      createDeployment: vi.fn().mockImplementation(async (deployment: Omit<Deployment, 'deploymentId'>) => ({
+        deploymentId: 'deploy-1',
+        ...deployment,
+      })),
+      updateDeployment: vi.fn().mockResolvedValue({}),
+      getBuild: vi.fn().mockImplementation(async (buildId: string) => builds.get(buildId) ?? null),
+      updateBuild: vi.fn().mockResolvedValue({}),
+      downloadBundle: vi.fn().mockImplementation(async (path: string) => Buffer.from(path)),
+      broadcastToEditor: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new DeploymentsService(
+      {
+        supabaseService: supabaseService as unknown as SupabaseService,
+        websocketService,
+        secretsService: new SecretsService([new EnvSecretProvider({ DB_PASSWORD: 'hunter2' })], createMockLogger()),
+      },
+      createMockLogger(),
+      { healthTimeoutSec: 1 }
+    );
+
+    vi.mocked(extractAndVerifyBundle).mockResolvedValue({
+      files: new Map([['credentials.map.json', Buffer.from(JSON.stringify({
+        version: 1,
+        channelId: 'channel-1',
+        buildId: 'build-2',
+        credentials: { 'db.password': { type: 'secretRef', ref: 'env://DB_PASSWORD', envVar: 'GJ_SECRET_DB_PASSWORD' } },
+      }))]]),
+      verification: { valid: true, errors: [] },
+    } as unknown as Awaited<ReturnType<typeof extractAndVerifyBundle>>);
+  });
+
+  it('should record a QUEUED deployment for every agent of the target runtimes', async () => {
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+    connectAgent('agent-2', 'runtime-2', () => 'healthy');
+
+    const deployment = await service.create(createBuild('build-2'), deployRequest({ type: 'rolling' }, ['runtime-2']));
+
+    expect(deployment).toMatchObject({
+      status: 'QUEUED',
+      runtimeIds: ['runtime-1', 'runtime-2'],
+      targets: [
+        { agentId: 'agent-1', runtimeId: 'runtime-1', status: 'PENDING', previousBuildId: 'build-1' },
+        { agentId: 'agent-2', runtimeId: 'runtime-2', status: 'PENDING', previousBuildId: 'build-0' },
+      ],
+    });
+    expect(supabaseService['getLatestDeployment']).toHaveBeenCalledWith('channel-1', 'runtime-2');
+  });
+
+  it('should refuse runtimes without a connected agent', async () => {
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+
+    await expect(service.create(createBuild('build-2'), deployRequest({ type: 'recreate' }, ['runtime-2'])))
+      .rejects.toThrow('No agent connected for runtime runtime-2');
+    expect(supabaseService['createDeployment']).not.toHaveBeenCalled();
+  });
+
+  it('should roll out one batch at a time and wait for each to be healthy', async () => {
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+    connectAgent('agent-2', 'runtime-2', () => 'healthy');
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'rolling', maxUnavailable: 1 }, ['runtime-2']));
+
+    expect(deployment.status).toBe('DEPLOYED');
+    expect(deployment.targets.map((target) => target.status)).toEqual(['HEALTHY', 'HEALTHY']);
+    expect(received).toEqual(['agent-1:deploy:build-2', 'agent-2:deploy:build-2']);
+    expect(supabaseService['updateBuild']).toHaveBeenLastCalledWith('build-2', expect.objectContaining({ deploymentStatus: 'DEPLOYED' }));
+    expect(supabaseService['updateDeployment']).toHaveBeenCalledWith('deploy-1', expect.objectContaining({ status: 'DEPLOYED' }));
+  });
+
+  it('should seal the bundle secrets for each agent', async () => {
+    const sent: WebSocketMessage[] = [];
+    const sendToAgent = websocketService.sendToAgent.bind(websocketService);
+    vi.spyOn(websocketService, 'sendToAgent').mockImplementation(async (agentId, runtimeId, message) => {
+      sent.push(message);
+      return await sendToAgent(agentId, runtimeId, message);
+    });
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+
+    await deploy('build-2', deployRequest({ type: 'rolling' }));
+
+    const sealed: Uint8Array = sent[0]?.payload.secretPayload;
+    const nonceEnd = nacl.box.publicKeyLength + nacl.box.nonceLength;
+    const opened = nacl.box.open(
+      sealed.subarray(nonceEnd),
+      sealed.subarray(nacl.box.publicKeyLength, nonceEnd),
+      sealed.subarray(0, nacl.box.publicKeyLength),
+      deviceKeys.secretKey
+    );
+    expect(JSON.parse(Buffer.from(opened ?? []).toString('utf8'))).toEqual({ 'env://DB_PASSWORD': 'hunter2' });
+  });
+
+  it('should roll every target of a failed batch back to the build its runtime ran before', async () => {
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+    connectAgent('agent-2', 'runtime-2', (buildId) => (buildId === 'build-2' ? 'fail' : 'healthy'));
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'rolling', maxUnavailable: 2 }, ['runtime-2']));
+
+    expect(deployment.status).toBe('ROLLED_BACK');
+    expect(deployment.error).toBe('Agent agent-2@runtime-2 failed to deploy: flows failed to start');
+    expect(deployment.targets.map((target) => target.status)).toEqual(['ROLLED_BACK', 'ROLLED_BACK']);
+    expect(received).toEqual([
+      'agent-1:deploy:build-2', 'agent-2:deploy:build-2',
+      'agent-1:deploy:build-1', 'agent-2:deploy:build-0',
+    ]);
+    expect(supabaseService['updateBuild']).toHaveBeenLastCalledWith('build-2', expect.objectContaining({ deploymentStatus: 'FAILED' }));
+    expect(supabaseService['broadcastToEditor']).toHaveBeenCalledWith('channel-1', 'deployment_failed', expect.objectContaining({
+      status: 'ROLLED_BACK',
+    }));
+  });
+
+  it('should stop a rolling deployment at the first unhealthy batch and roll back only what it touched', async () => {
+    connectAgent('agent-1', 'runtime-1', (buildId) => (buildId === 'build-2' ? 'unhealthy' : 'healthy'));
+    connectAgent('agent-2', 'runtime-2', () => 'healthy');
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'rolling', healthTimeoutSec: 0.05 }, ['runtime-2']));
+
+    expect(deployment.status).toBe('ROLLED_BACK');
+    expect(deployment.error).toBe('Agent agent-1@runtime-1 did not report a healthy deployment within 0.05s');
+    expect(deployment.targets.map((target) => target.status)).toEqual(['ROLLED_BACK', 'PENDING']);
+    expect(received).toEqual(['agent-1:deploy:build-2', 'agent-1:deploy:build-1']);
+  });
+
+  it('should stop the channel when there is no previous build to restore', async () => {
+    supabaseService['getLatestDeployment']?.mockResolvedValue(null);
+    connectAgent('agent-1', 'runtime-1', () => 'fail');
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'recreate' }));
+
+    expect(deployment.status).toBe('ROLLED_BACK');
+    expect(received).toEqual(['agent-1:stop_channel', 'agent-1:deploy:build-2', 'agent-1:stop_channel']);
+  });
+
+  it('should not recreate the channel when an agent refuses to stop it', async () => {
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+    connectAgent('agent-2', 'runtime-2', () => 'healthy', 'refuse');
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'recreate' }, ['runtime-2']));
+
+    expect(deployment.status).toBe('ROLLED_BACK');
+    expect(deployment.error).toBe('Agent agent-2@runtime-2 failed to stop the channel: channel busy');
+    expect(received).toEqual([
+      'agent-1:stop_channel', 'agent-2:stop_channel',
+      'agent-1:deploy:build-1', 'agent-2:deploy:build-0',
+    ]);
+  });
+
+  it('should fail the rollback when a stop is not acknowledged', async () => {
+    supabaseService['getLatestDeployment']?.mockResolvedValue(null);
+    connectAgent('agent-1', 'runtime-1', () => 'fail', 'silent');
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'rolling', healthTimeoutSec: 0.05 }));
+
+    expect(deployment.status).toBe('FAILED');
+    expect(deployment.error).toBe(
+      'Agent agent-1@runtime-1 failed to deploy: flows failed to start; rollback failed: Agent agent-1@runtime-1 did not answer stop_channel within 50ms'
+    );
+    expect(deployment.targets.map((target) => target.status)).toEqual(['FAILED']);
+  });
+
+  it('should fail without touching agents when the bundle does not verify', async () => {
+    vi.mocked(extractAndVerifyBundle).mockResolvedValue({
+      files: new Map(),
+      verification: { valid: false, errors: ['flows.json: hash mismatch'] },
+    } as unknown as Awaited<ReturnType<typeof extractAndVerifyBundle>>);
+    connectAgent('agent-1', 'runtime-1', () => 'healthy');
+
+    const deployment = await deploy('build-2', deployRequest({ type: 'rolling' }));
+
+    expect(deployment.status).toBe('FAILED');
+    expect(deployment.error).toBe('Bundle of build build-2 failed verification: flows.json: hash mismatch');
+    expect(received).toEqual([]);
+  });
+});
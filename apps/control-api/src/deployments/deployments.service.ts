@@ -0,0 +1,408 @@
+import { clearTimeout, setTimeout } from 'timers';
+
+import { extractAndVerifyBundle } from '@gapjunction/bundle-integrity';
+
+import type { DeployRequestBody } from '../common/dto/index.js';
+import type { AgentMessageEvent, Build, CredentialsMap, Deployment, DeploymentTarget } from '../common/types/index.js';
+import type { SecretsService } from '../secrets/secrets.service.js';
+import type { SupabaseService } from '../services/supabase.service.js';
+import type { WebSocketService } from '../websocket/websocket.service.js';
+import type * as winston from 'winston';
+
+// A build's bundle as sent to agents
+interface PreparedBundle {
+  buildId: string;
+  bundle: Record<string, unknown>;
+  credentialsMap?: CredentialsMap;
+}
+
+// One pass of deploy commands: the rollout itself or the rollback to the previous build
+interface Rollout {
+  prepared: PreparedBundle;
+  requestId: string;
+  // Status of a target once the agent confirms the bundle is running
+  confirmedStatus: 'HEALTHY' | 'ROLLED_BACK';
+}
+
+const MS_PER_SECOND = 1000;
+const CREDENTIALS_FILE = 'credentials.map.json';
+const DEFAULT_OPTIONS: DeploymentOptions = { healthTimeoutSec: 120 };
+
+function errorMessageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// Whether a heartbeat reports the channel running the given build
+function isRunning(payload: Record<string, unknown> | undefined, channelId: string, buildId: string): boolean {
+  const channels = payload?.['channels'];
+  return Array.isArray(channels) && channels.some((channel: Record<string, unknown>) =>
+    channel['channelId'] === channelId && channel['buildId'] === buildId && channel['state'] === 'running');
+}
+
+export interface DeploymentOptions {
+  // Used when the request's strategy sets no healthTimeoutSec
+  healthTimeoutSec: number;
+}
+
+export interface DeploymentsServiceDependencies {
+  supabaseService: SupabaseService;
+  websocketService: WebSocketService;
+  secretsService: SecretsService;
+}
+
+export class DeploymentsService {
+  private readonly _logger: winston.Logger;
+  private readonly _supabaseService: SupabaseService;
+  private readonly _websocketService: WebSocketService;
+  private readonly _secretsService: SecretsService;
+
+  constructor(
+    dependencies: DeploymentsServiceDependencies,
+    logger: winston.Logger,
+    private readonly _options: DeploymentOptions = DEFAULT_OPTIONS
+  ) {
+    this._supabaseService = dependencies.supabaseService;
+    this._websocketService = dependencies.websocketService;
+    this._secretsService = dependencies.secretsService;
+    this._logger = logger;
+  }
+
+  /**
+   * Record a QUEUED deployment of a build to every connected agent of the requested runtimes
+   */
+  async create(build: Build, request: DeployRequestBody): Promise<Deployment> {
+    const runtimeIds = [...new Set([request.runtimeId, ...(request.runtimeIds ?? [])])];
+    const targets: DeploymentTarget[] = [];
+
+    for (const runtimeId of runtimeIds) {
+      const agentIds = this._websocketService.getRuntimeAgents(runtimeId);
+      if (agentIds.length === 0) {
+        throw new Error(`No agent connected for runtime ${runtimeId}`);
+      }
+
+      const previous = await this._supabaseService.getLatestDeployment(request.channelId, runtimeId);
+      const previousBuildId = previous && previous.buildId !== build.buildId ? previous.buildId : undefined;
+      targets.push(...agentIds.map((agentId) => ({
+        agentId,
+        runtimeId,
+        status: 'PENDING' as const,
+        ...(previousBuildId ? { previousBuildId } : {}),
+      })));
+    }
+
+    return await this._supabaseService.createDeployment({
+      buildId: build.buildId,
+      runtimeId: request.runtimeId,
+      runtimeIds,
+      channelId: request.channelId,
+      mode: request.mode,
+      strategy: request.strategy,
+      status: 'QUEUED',
+      targets,
+    });
+  }
+
+  /**
+   * Roll a deployment out with its strategy. When it fails, the targets already touched are rolled back
+   * to the build their runtime ran before, or have the channel stopped when there is none. Every step is persisted.
+   */
+  async run(deployment: Deployment, build: Build): Promise<Deployment> {
+    const current: Deployment = { ...deployment, targets: deployment.targets.map((target) => ({ ...target })) };
+    const startedAt = new Date();
+
+    await this._save(current, { status: 'DEPLOYING', startedAt });
+    await this._saveBuild(build.buildId, { deploymentStatus: 'DEPLOYING', deploymentId: current.deploymentId });
+
+    try {
+      await this._rollOut(current, {
+        prepared: await this._prepare(build),
+        requestId: current.deploymentId,
+        confirmedStatus: 'HEALTHY',
+      });
+
+      await this._save(current, { status: 'DEPLOYED', completedAt: new Date() });
+      await this._saveBuild(build.buildId, { deploymentStatus: 'DEPLOYED', deploymentTime: Date.now() - startedAt.getTime() });
+      this._logger.info(`Deployment ${current.deploymentId} of build ${build.buildId} is healthy on ${current.targets.length} agent(s)`);
+      await this._broadcast(current, 'deployment_completed');
+      return current;
+    } catch (error: unknown) {
+      const errorMessage = errorMessageOf(error);
+      this._logger.error(`Deployment ${current.deploymentId} failed`, { error: errorMessage, buildId: build.buildId });
+
+      await this._rollBack(current, errorMessage);
+      await this._saveBuild(build.buildId, { deploymentStatus: 'FAILED', deploymentTime: Date.now() - startedAt.getTime() });
+      await this._broadcast(current, 'deployment_failed');
+      return current;
+    }
+  }
+
+  private async _rollOut(deployment: Deployment, rollout: Rollout): Promise<void> {
+    const { strategy, targets } = deployment;
+
+    if (strategy.type === 'recreate') {
+      // Every target stops the running build before the new one starts
+      await this._runBatch(deployment, targets, 'DEPLOYING', async (target) => {
+        await this._stopTarget(deployment, target);
+      });
+      await this._deployBatch(deployment, targets, rollout);
+    } else {
+      const batchSize = Math.max(1, strategy.maxUnavailable ?? 1);
+      for (let start = 0; start < targets.length; start += batchSize) {
+        await this._deployBatch(deployment, targets.slice(start, start + batchSize), rollout);
+      }
+    }
+  }
+
+  private async _rollBack(deployment: Deployment, errorMessage: string): Promise<void> {
+    const touched = deployment.targets.filter((target) => target.status !== 'PENDING');
+    if (touched.length === 0) {
+      await this._save(deployment, { status: 'FAILED', error: errorMessage, completedAt: new Date() });
+      return;
+    }
+
+    await this._save(deployment, { status: 'ROLLING_BACK', error: errorMessage });
+
+    const byPreviousBuild = new Map<string | undefined, DeploymentTarget[]>();
+    for (const target of touched) {
+      byPreviousBuild.set(target.previousBuildId, [...(byPreviousBuild.get(target.previousBuildId) ?? []), target]);
+    }
+
+    const errors: string[] = [];
+    for (const [previousBuildId, targets] of byPreviousBuild) {
+      try {
+        await this._rollBackTo(deployment, targets, previousBuildId);
+      } catch (error: unknown) {
+        errors.push(errorMessageOf(error));
+      }
+    }
+
+    if (errors.length === 0) {
+      await this._save(deployment, { status: 'ROLLED_BACK', completedAt: new Date() });
+      return;
+    }
+
+    const rollbackError = errors.join('; ');
+    this._logger.error(`Rollback of deployment ${deployment.deploymentId} failed`, { error: rollbackError });
+    await this._save(deployment, {
+      status: 'FAILED',
+      error: `${errorMessage}; rollback failed: ${rollbackError}`,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Restore the build the targets ran before, or stop the channel on them when nothing ran before
+   */
+  private async _rollBackTo(deployment: Deployment, targets: DeploymentTarget[], previousBuildId: string | undefined): Promise<void> {
+    if (!previousBuildId) {
+      await this._runBatch(deployment, targets, 'ROLLED_BACK', async (target) => {
+        await this._stopTarget(deployment, target);
+      });
+      return;
+    }
+
+    const previous = await this._supabaseService.getBuild(previousBuildId);
+    if (!previous) {
+      throw new Error(`Previous build ${previousBuildId} not found`);
+    }
+    this._logger.info(`Rolling back ${targets.length} agent(s) of deployment ${deployment.deploymentId} to build ${previousBuildId}`);
+    await this._deployBatch(deployment, targets, {
+      prepared: await this._prepare(previous),
+      requestId: `${deployment.deploymentId}-rollback`,
+      confirmedStatus: 'ROLLED_BACK',
+    });
+  }
+
+  private async _deployBatch(deployment: Deployment, batch: DeploymentTarget[], rollout: Rollout): Promise<void> {
+    await this._runBatch(deployment, batch, rollout.confirmedStatus, async (target) => {
+      await this._deployTarget(deployment, target, rollout);
+    });
+  }
+
+  /**
+   * Run a step on a batch of targets at once; fails with every target's error once all have settled
+   */
+  private async _runBatch(
+    deployment: Deployment,
+    batch: DeploymentTarget[],
+    doneStatus: DeploymentTarget['status'],
+    step: (target: DeploymentTarget) => Promise<void>
+  ): Promise<void> {
+    for (const target of batch) {
+      target.status = 'DEPLOYING';
+      delete target.error;
+    }
+    await this._save(deployment, {});
+
+    const results = await Promise.allSettled(batch.map(step));
+
+    const errors: string[] = [];
+    results.forEach((result, index) => {
+      const target = batch[index];
+      if (!target) {
+        return;
+      }
+      if (result.status === 'fulfilled') {
+        target.status = doneStatus;
+      } else {
+        target.status = 'FAILED';
+        target.error = errorMessageOf(result.reason);
+        errors.push(target.error);
+      }
+    });
+    await this._save(deployment, {});
+
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
+  /**
+   * Send the deploy command and wait for the agent's deploy_result and a heartbeat reporting the channel
+   * running the build, both within the strategy's health timeout
+   */
+  private async _deployTarget(deployment: Deployment, target: DeploymentTarget, rollout: Rollout): Promise<void> {
+    const { agentId, runtimeId } = target;
+    const key = `${agentId}@${runtimeId}`;
+    const timeoutSec = deployment.strategy.healthTimeoutSec ?? this._options.healthTimeoutSec;
+    const secretPayload = await this._secretPayload(rollout.prepared, target);
+    const unsubscribe: Array<() => void> = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let deployed = false;
+        let healthy = false;
+        const fromTarget = (event: AgentMessageEvent): boolean => event.agentId === agentId && event.runtimeId === runtimeId;
+        const settle = (): void => {
+          if (deployed && healthy) {
+            resolve();
+          }
+        };
+
+        unsubscribe.push(this._websocketService.onAgentMessage('deploy_result', (event) => {
+          if (!fromTarget(event) || event.message.requestId !== rollout.requestId) {
+            return;
+          }
+          if (event.message.payload?.status === 'DEPLOYED') {
+            deployed = true;
+            settle();
+          } else {
+            reject(new Error(`Agent ${key} failed to deploy: ${event.message.payload?.error ?? 'unknown error'}`));
+          }
+        }));
+        unsubscribe.push(this._websocketService.onAgentMessage('heartbeat', (event) => {
+          if (fromTarget(event) && isRunning(event.message.payload, deployment.channelId, rollout.prepared.buildId)) {
+            healthy = true;
+            settle();
+          }
+        }));
+
+        timer = setTimeout(() => {
+          reject(new Error(`Agent ${key} did not report a healthy deployment within ${timeoutSec}s`));
+        }, timeoutSec * MS_PER_SECOND);
+
+        this._websocketService.sendDeployCommand(agentId, runtimeId, rollout.requestId, {
+          bundle: rollout.prepared.bundle,
+          strategy: { ...deployment.strategy },
+          ...(secretPayload ? { secretPayload } : {}),
+        }).then((sent) => {
+          if (!sent) {
+            reject(new Error(`Agent ${key} is not connected`));
+          }
+        }, reject);
+      });
+    } finally {
+      clearTimeout(timer);
+      unsubscribe.forEach((remove) => {
+        remove();
+      });
+    }
+  }
+
+  /**
+   * Stop the channel on a target; fails unless the agent acknowledges it within the strategy's health timeout
+   */
+  private async _stopTarget(deployment: Deployment, target: DeploymentTarget): Promise<void> {
+    const timeoutSec = deployment.strategy.healthTimeoutSec ?? this._options.healthTimeoutSec;
+    const reply = await this._websocketService.request(target.agentId, target.runtimeId, {
+      type: 'stop_channel',
+      payload: { channelId: deployment.channelId },
+      timeoutMs: timeoutSec * MS_PER_SECOND,
+    });
+    if (!reply.ok) {
+      throw new Error(`Agent ${target.agentId}@${target.runtimeId} failed to stop the channel: ${reply.error ?? 'unknown error'}`);
+    }
+  }
+
+  /**
+   * Download and verify a build's bundle and read its credentials map
+   */
+  private async _prepare(build: Build): Promise<PreparedBundle> {
+    if (!build.bundleTarball) {
+      throw new Error(`Build ${build.buildId} has no bundle`);
+    }
+
+    const bundle = await this._supabaseService.downloadBundle(build.bundleTarball);
+    const { files, verification } = await extractAndVerifyBundle(bundle);
+    if (!verification.valid) {
+      throw new Error(`Bundle of build ${build.buildId} failed verification: ${verification.errors.join('; ')}`);
+    }
+
+    const credentials = files.get(CREDENTIALS_FILE);
+    return {
+      buildId: build.buildId,
+      bundle: {
+        buildId: build.buildId,
+        channelId: build.channelId,
+        mode: build.mode,
+        content: bundle.toString('base64'),
+      },
+      ...(credentials ? { credentialsMap: JSON.parse(credentials.toString('utf8')) as CredentialsMap } : {}),
+    };
+  }
+
+  private async _secretPayload(prepared: PreparedBundle, target: DeploymentTarget): Promise<Uint8Array | undefined> {
+    if (!prepared.credentialsMap || Object.keys(prepared.credentialsMap.credentials).length === 0) {
+      return undefined;
+    }
+
+    const devicePublicKey = this._websocketService.getDevicePublicKey(target.agentId, target.runtimeId);
+    if (!devicePublicKey) {
+      throw new Error(`Agent ${target.agentId}@${target.runtimeId} has not reported a device key to seal secrets for`);
+    }
+    return await this._secretsService.createSecretPayload(prepared.credentialsMap, devicePublicKey);
+  }
+
+  // Persistence is best effort: a failed write must not fail or roll back the rollout itself
+  private async _save(deployment: Deployment, updates: Partial<Deployment>): Promise<void> {
+    Object.assign(deployment, updates);
+    try {
+      await this._supabaseService.updateDeployment(deployment.deploymentId, { ...updates, targets: deployment.targets });
+    } catch (error: unknown) {
+      this._logger.error(`Failed to persist deployment ${deployment.deploymentId}`, { error: errorMessageOf(error) });
+    }
+  }
+
+  private async _saveBuild(buildId: string, updates: Partial<Build>): Promise<void> {
+    try {
+      await this._supabaseService.updateBuild(buildId, updates);
+    } catch (error: unknown) {
+      this._logger.error(`Failed to record deployment on build ${buildId}`, { error: errorMessageOf(error) });
+    }
+  }
+
+  private async _broadcast(deployment: Deployment, event: string): Promise<void> {
+    try {
+      await this._supabaseService.broadcastToEditor(deployment.channelId, event, {
+        deploymentId: deployment.deploymentId,
+        buildId: deployment.buildId,
+        status: deployment.status,
+        targets: deployment.targets,
+        ...(deployment.error ? { error: deployment.error } : {}),
+      });
+    } catch (error: unknown) {
+      this._logger.warn(`Failed to broadcast ${event}`, { error: errorMessageOf(error), deploymentId: deployment.deploymentId });
+    }
+  }
+}
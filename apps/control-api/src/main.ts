@@ -3,18 +3,31 @@ import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import * as dotenv from 'dotenv';
 import fastify, { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
-import { Server } from 'socket.io';
 import * as winston from 'winston';
 
 // Import converted services
+import { AgentRegistryService } from './agents/agent-registry.service.js';
+import { registerAgentsEndpoints } from './agents/agents.routes.js';
 import { AgentsService } from './agents/agents.service.js';
 import { BuildsService } from './builds/builds.service.js';
 import { CapabilitiesService } from './capabilities/capabilities.service.js';
 import { ChannelsService } from './channels/channels.service.js';
 import { IdempotencyService } from './common/services/idempotency.service.js';
+import { DeploymentsService } from './deployments/deployments.service.js';
+import { EnvSecretProvider } from './secrets/providers/env.provider.js';
+import { FileVaultSecretProvider } from './secrets/providers/file-vault.provider.js';
+import { HashiCorpVaultSecretProvider } from './secrets/providers/hashicorp-vault.provider.js';
+import { KeyringSecretProvider } from './secrets/providers/keyring.provider.js';
+import { SecretsService } from './secrets/secrets.service.js';
 import { CompilerService } from './services/compiler.service.js';
+import { DnService } from './services/dn.service.js';
 import { SupabaseService } from './services/supabase.service.js';
-import { WebSocketService } from './websocket/websocket.service.js';
+import { TokenService } from './tokens/token.service.js';
+import { registerSocketIO } from './websocket/websocket.gateway.js';
+import { AgentNotConnectedError, AgentTimeoutError, WebSocketService } from './websocket/websocket.service.js';
+
+import type { SecretProvider } from './common/types/index.js';
+import type { TokenKeyConfig } from './tokens/token.service.js';
 
 // Load environment variables
 dotenv.config();
@@ -24,7 +37,9 @@ const HTTP_STATUS = {
   ok: 200,
   accepted: 202,
   unauthorized: 401,
+  conflict: 409,
   internalServerError: 500,
+  gatewayTimeout: 504,
 } as const;
 
 // Configure Winston logger
@@ -72,10 +87,14 @@ interface Services {
   compilerService: CompilerService;
   channelsService: ChannelsService;
   buildsService: BuildsService;
+  deploymentsService: DeploymentsService;
   agentsService: AgentsService;
+  agentRegistryService: AgentRegistryService;
   capabilitiesService: CapabilitiesService;
   webSocketService: WebSocketService;
   idempotencyService: IdempotencyService;
+  secretsService: SecretsService;
+  tokenService: TokenService;
 }
 
 // Request/Response interfaces
@@ -95,22 +114,16 @@ interface CompileRequestBody {
 
 interface DeployRequestBody {
   runtimeId: string;
+  runtimeIds?: string[];
   channelId: string;
   mode: 'PROD' | 'TEST';
   strategy: {
-    type: 'blueGreen' | 'rolling' | 'recreate';
+    type: 'rolling' | 'recreate';
     healthTimeoutSec?: number;
     maxUnavailable?: number;
   };
 }
 
-interface AgentEnrollRequestBody {
-  runtimeId: string;
-  bootstrapToken: string;
-  version: string;
-  os: string;
-}
-
 interface RouteTokenRequestBody {
   fromRuntime: string;
   toRuntime: string;
@@ -215,50 +228,31 @@ async function registerSwagger(server: FastifyInstance): Promise<void> {
   }
 }
 
-async function registerSocketIO(server: FastifyInstance, services: Services): Promise<void> {
-  await Promise.resolve(); // Placeholder for future async operations
-  
-  const io = new Server(server.server, {
-    cors: {
-      origin: process.env['NODE_ENV'] === 'production' ? false : true,
-      credentials: true
-    },
-    path: '/socket.io/'
-  });
-
-  io.on('connection', (socket) => {
-    logger.info(`WebSocket client connected: ${socket.id}`);
-
-    socket.on('enroll', async (data: AgentEnrollRequestBody) => {
-      logger.info('Agent enrollment request', { socketId: socket.id, runtimeId: data.runtimeId });
-      try {
-        const result = await services.agentsService.enroll(data);
-        socket.emit('enroll_result', result);
-      } catch (error) {
-        logger.error('Agent enrollment failed', error);
-        socket.emit('enroll_error', { error: 'Enrollment failed' });
-      }
-    });
-
-    socket.on('heartbeat', async (data: Record<string, unknown>) => {
-      logger.debug('Agent heartbeat', { socketId: socket.id, agentId: data['agentId'] });
-      try {
-        await services.webSocketService.handleHeartbeat(
-          data['agentId'] as string,
-          data['runtimeId'] as string,
-          data
-        );
-      } catch (error) {
-        logger.error('Heartbeat processing failed', error);
-      }
-    });
-
-    socket.on('disconnect', () => {
-      logger.info(`WebSocket client disconnected: ${socket.id}`);
-    });
-  });
+function createSecretProviders(configService: ConfigService): SecretProvider[] {
+  const vaultNamespace = configService.get<string>('VAULT_NAMESPACE', '');
+
+  return [
+    new EnvSecretProvider(),
+    new FileVaultSecretProvider(configService.get<string>('SECRETS_FILE_VAULT_PASSPHRASE', '')),
+    new HashiCorpVaultSecretProvider({
+      address: configService.get<string>('VAULT_ADDR', ''),
+      token: configService.get<string>('VAULT_TOKEN', ''),
+      kvVersion: configService.get<string>('VAULT_KV_VERSION', '2') === '1' ? 1 : 2,
+      ...(vaultNamespace ? { namespace: vaultNamespace } : {}),
+    }),
+    new KeyringSecretProvider(),
+  ];
+}
 
-  logger.info('Socket.IO server initialized');
+// <PREFIX>_SECRET signs new tokens; <PREFIX>_PREVIOUS_SECRETS (comma-separated) still verify after a rotation
+function tokenKeyConfig(configService: ConfigService, prefix: string): TokenKeyConfig {
+  return {
+    secret: configService.get<string>(`${prefix}_SECRET`, ''),
+    previousSecrets: configService.get<string>(`${prefix}_PREVIOUS_SECRETS`, '')
+      .split(',')
+      .map((secret) => secret.trim())
+      .filter(Boolean),
+  };
 }
 
 function initializeServices(): Services {
@@ -267,35 +261,70 @@ function initializeServices(): Services {
   // Initialize core services
   const supabaseService = new SupabaseService(configService, logger);
   const compilerService = new CompilerService(configService, logger);
-  const webSocketService = new WebSocketService(logger);
+  const tokenService = new TokenService({
+    agent: tokenKeyConfig(configService, 'AGENT_JWT'),
+    enrollment: tokenKeyConfig(configService, 'ENROLLMENT_JWT'),
+    capability: tokenKeyConfig(configService, 'CAPABILITY_JWT'),
+  }, supabaseService, logger);
+  const dnService = new DnService(configService, logger);
+  const webSocketService = new WebSocketService(tokenService, logger, {
+    requestTimeoutMs: Number(configService.get<string>('AGENT_REQUEST_TIMEOUT_MS', '10000')),
+  });
   const idempotencyService = new IdempotencyService(logger);
+  const secretsService = new SecretsService(createSecretProviders(configService), logger);
   
   // Initialize business logic services with dependencies
   const channelsService = new ChannelsService(
-    compilerService,
-    supabaseService,
-    webSocketService,
-    logger
+    { compilerService, supabaseService, websocketService: webSocketService },
+    logger,
+    {
+      maxAttempts: Number(configService.get<string>('COMPILE_MAX_ATTEMPTS', '3')),
+      delayMs: Number(configService.get<string>('COMPILE_RETRY_DELAY_MS', '1000')),
+    }
   );
   
+  const deploymentsService = new DeploymentsService(
+    { supabaseService, websocketService: webSocketService, secretsService },
+    logger,
+    { healthTimeoutSec: Number(configService.get<string>('DEPLOY_HEALTH_TIMEOUT_SEC', '120')) }
+  );
+
   const buildsService = new BuildsService(
     supabaseService,
     webSocketService,
+    deploymentsService,
     logger
   );
   
-  const agentsService = new AgentsService(logger);
-  const capabilitiesService = new CapabilitiesService(logger);
+  const agentRegistryService = new AgentRegistryService(
+    { supabaseService, websocketService: webSocketService, tokenService },
+    logger,
+    {
+      offlineAfterSec: Number(configService.get<string>('AGENT_OFFLINE_AFTER_SEC', '180')),
+      sweepIntervalSec: Number(configService.get<string>('AGENT_SWEEP_INTERVAL_SEC', '30')),
+    }
+  );
+
+  const agentsService = new AgentsService(
+    { tokenService, agentRegistryService, dnService, compilerService },
+    logger,
+    Number(configService.get<string>('AGENT_JWT_TTL_SEC', '2592000'))
+  );
+  const capabilitiesService = new CapabilitiesService({ tokenService, agentRegistryService, dnService }, logger);
 
   return {
     supabaseService,
     compilerService,
     channelsService,
     buildsService,
+    deploymentsService,
     agentsService,
+    agentRegistryService,
     capabilitiesService,
     webSocketService,
-    idempotencyService
+    idempotencyService,
+    secretsService,
+    tokenService
   };
 }
 
@@ -383,6 +412,18 @@ function registerHealthEndpoints(server: FastifyInstance, services: Services): v
   }));
 }
 
+// Channel commands fail with 409 when no agent of the runtime is connected and 504 when agents do not answer
+function channelCommandStatus(error: unknown): number {
+  const cause = error instanceof Error ? error.cause : undefined;
+  if (cause instanceof AgentNotConnectedError) {
+    return HTTP_STATUS.conflict;
+  }
+  if (cause instanceof AgentTimeoutError) {
+    return HTTP_STATUS.gatewayTimeout;
+  }
+  return HTTP_STATUS.internalServerError;
+}
+
 function registerChannelsEndpoints(server: FastifyInstance, services: Services): void {
   // Compile endpoint
   server.post<{ Params: { channelId: string }; Body: CompileRequestBody }>('/v1/channels/:channelId/compile', {
@@ -480,7 +521,7 @@ function registerChannelsEndpoints(server: FastifyInstance, services: Services):
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Stop channel failed', { error: errorMessage, channelId, runtimeId });
-      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to stop channel' });
+      reply.code(channelCommandStatus(error)).send({ error: 'Failed to stop channel' });
     }
   });
 
@@ -514,7 +555,7 @@ function registerChannelsEndpoints(server: FastifyInstance, services: Services):
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Start channel failed', { error: errorMessage, channelId, runtimeId });
-      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to start channel' });
+      reply.code(channelCommandStatus(error)).send({ error: 'Failed to start channel' });
     }
   });
 
@@ -548,7 +589,7 @@ function registerChannelsEndpoints(server: FastifyInstance, services: Services):
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Get channel status failed', { error: errorMessage, channelId, runtimeId });
-      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Failed to get channel status' });
+      reply.code(channelCommandStatus(error)).send({ error: 'Failed to get channel status' });
     }
   });
 }
@@ -558,7 +599,7 @@ function registerBuildsEndpoints(server: FastifyInstance, services: Services): v
     preHandler: [jwtAuthHook],
     schema: {
       tags: ['builds'],
-      summary: 'Deploy a compiled build to a runtime',
+      summary: 'Deploy a compiled build to one or more runtimes',
       security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
@@ -571,12 +612,13 @@ function registerBuildsEndpoints(server: FastifyInstance, services: Services): v
         required: ['runtimeId', 'channelId', 'mode', 'strategy'],
         properties: {
           runtimeId: { type: 'string' },
+          runtimeIds: { type: 'array', items: { type: 'string' } },
           channelId: { type: 'string' },
           mode: { type: 'string', enum: ['PROD', 'TEST'] },
           strategy: {
             type: 'object',
             properties: {
-              type: { type: 'string', enum: ['blueGreen', 'rolling', 'recreate'] },
+              type: { type: 'string', enum: ['rolling', 'recreate'] },
               healthTimeoutSec: { type: 'number' },
               maxUnavailable: { type: 'number' }
             }
@@ -608,53 +650,6 @@ function registerBuildsEndpoints(server: FastifyInstance, services: Services): v
   });
 }
 
-function registerAgentsEndpoints(server: FastifyInstance, services: Services): void {
-  server.post<{ Body: AgentEnrollRequestBody }>('/v1/agents/enroll', {
-    schema: {
-      tags: ['agents'],
-      summary: 'Enroll a new agent',
-      body: {
-        type: 'object',
-        required: ['runtimeId', 'bootstrapToken', 'version', 'os'],
-        properties: {
-          runtimeId: { type: 'string' },
-          bootstrapToken: { type: 'string' },
-          version: { type: 'string' },
-          os: { type: 'string' }
-        }
-      },
-      response: {
-        200: {
-          type: 'object',
-          properties: {
-            agentId: { type: 'string' },
-            agentJwt: { type: 'string' },
-            overlay: {
-              type: 'object',
-              properties: {
-                enabled: { type: 'boolean' },
-                enrollmentCode: { type: 'string' },
-                lighthouses: { type: 'array', items: { type: 'string' } }
-              }
-            }
-          }
-        }
-      }
-    }
-  }, async (request: FastifyRequest<{ Body: AgentEnrollRequestBody }>, reply: FastifyReply) => {
-    const enrollRequest = request.body;
-
-    try {
-      const result = await services.agentsService.enroll(enrollRequest);
-      reply.send(result);
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Agent enrollment failed', { error: errorMessage, runtimeId: enrollRequest.runtimeId });
-      reply.code(HTTP_STATUS.internalServerError).send({ error: 'Agent enrollment failed' });
-    }
-  });
-}
-
 function registerCapabilitiesEndpoints(server: FastifyInstance, services: Services): void {
   server.post<{ Body: RouteTokenRequestBody }>('/v1/capabilities/route-token', {
     preHandler: [jwtAuthHook],
@@ -747,15 +742,21 @@ async function createServer(): Promise<FastifyInstance> {
   await registerSwagger(server);
 
   const services = initializeServices();
+  // Mark agents that miss their heartbeats OFFLINE
+  services.agentRegistryService.start();
+  server.addHook('onClose', (_instance, done) => {
+    services.agentRegistryService.stop();
+    done();
+  });
 
   // Register Socket.IO
-  await registerSocketIO(server, services);
+  await registerSocketIO(server, services, logger);
 
   // Register all endpoints
   registerHealthEndpoints(server, services);
   registerChannelsEndpoints(server, services);
   registerBuildsEndpoints(server, services);
-  registerAgentsEndpoints(server, services);
+  registerAgentsEndpoints(server, services, jwtAuthHook, logger);
   registerCapabilitiesEndpoints(server, services);
 
   return await server;
@@ -0,0 +1,18 @@
+import type { SecretProvider, SecretReference } from '../../common/types/index.js';
+
+/**
+ * Resolves `env://NAME` from the control-api process environment
+ */
+export class EnvSecretProvider implements SecretProvider {
+  readonly scheme = 'env';
+
+  constructor(private readonly _env: Record<string, string | undefined> = process.env) {}
+
+  async resolve(reference: SecretReference): Promise<string> {
+    const value = this._env[reference.path];
+    if (value === undefined) {
+      throw new Error(`Environment variable ${reference.path} is not set`);
+    }
+    return await Promise.resolve(value);
+  }
+}
@@ -0,0 +1,72 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+
+import type { FileVaultDocument, SecretProvider, SecretReference } from '../../common/types/index.js';
+
+/**
+ * Local encrypted vault file: a JSON object of secrets encrypted with AES-256-GCM,
+ * keyed by a passphrase through scrypt. Referenced as `file://<vault path>#<secret name>`.
+ */
+const deriveKey = promisify(scrypt) as (passphrase: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export async function encryptFileVault(secrets: Record<string, string>, passphrase: string): Promise<FileVaultDocument> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', await deriveKey(passphrase, salt, KEY_LENGTH), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    kdf: { name: 'scrypt', salt: salt.toString('base64') },
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+export async function decryptFileVault(document: FileVaultDocument, passphrase: string): Promise<Record<string, string>> {
+  if (document.version !== 1 || document.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported vault format ${document.cipher} v${document.version}`);
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(document.kdf.salt, 'base64'), KEY_LENGTH);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(document.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(document.tag, 'base64'));
+
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(document.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8')) as Record<string, string>;
+  } catch {
+    throw new Error('Vault could not be decrypted (wrong passphrase or corrupted file)');
+  }
+}
+
+export class FileVaultSecretProvider implements SecretProvider {
+  readonly scheme = 'file';
+
+  constructor(private readonly _passphrase: string) {}
+
+  async resolve(reference: SecretReference): Promise<string> {
+    if (!this._passphrase) {
+      throw new Error('File vault passphrase is not configured');
+    }
+    if (!reference.key) {
+      throw new Error('File vault references must name a secret, e.g. file:///path/to/secrets.vault#name');
+    }
+
+    const document = JSON.parse(await fs.readFile(reference.path, 'utf8')) as FileVaultDocument;
+    const secrets = await decryptFileVault(document, this._passphrase);
+    const value = secrets[reference.key];
+
+    if (value === undefined) {
+      throw new Error(`Secret "${reference.key}" not found in vault ${reference.path}`);
+    }
+    return value;
+  }
+}
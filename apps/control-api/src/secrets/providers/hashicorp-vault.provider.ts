@@ -0,0 +1,52 @@
+import type { HashiCorpVaultOptions, SecretProvider, SecretReference } from '../../common/types/index.js';
+
+interface KvResponse {
+  data?: Record<string, unknown> & { data?: Record<string, unknown> };
+}
+
+/**
+ * Reads fields from a HashiCorp Vault KV secrets engine.
+ * `vault://<mount>/<path>#<field>`, e.g. `vault://secret/gapjunction/http#apiKey`.
+ */
+export class HashiCorpVaultSecretProvider implements SecretProvider {
+  readonly scheme = 'vault';
+
+  constructor(private readonly _options: HashiCorpVaultOptions) {}
+
+  async resolve(reference: SecretReference): Promise<string> {
+    if (!this._options.address || !this._options.token) {
+      throw new Error('HashiCorp Vault is not configured (VAULT_ADDR and VAULT_TOKEN)');
+    }
+    if (!reference.key) {
+      throw new Error('Vault references must name a field, e.g. vault://secret/app#password');
+    }
+
+    const response = await globalThis.fetch(this._url(reference.path), { headers: this._headers() });
+    if (!response.ok) {
+      throw new Error(`Vault responded with HTTP ${response.status} for ${reference.path}`);
+    }
+
+    const body = await response.json() as KvResponse;
+    const fields = this._options.kvVersion === 2 ? body.data?.data : body.data;
+    const value = fields?.[reference.key];
+
+    if (typeof value !== 'string') {
+      throw new Error(`Field "${reference.key}" not found in ${reference.path}`);
+    }
+    return value;
+  }
+
+  private _url(path: string): string {
+    const [mount, ...rest] = path.replace(/^\/+/, '').split('/');
+    const secretPath = this._options.kvVersion === 2 ? ['data', ...rest] : rest;
+    return `${this._options.address.replace(/\/+$/, '')}/v1/${[mount, ...secretPath].join('/')}`;
+  }
+
+  private _headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'X-Vault-Token': this._options.token };
+    if (this._options.namespace) {
+      headers['X-Vault-Namespace'] = this._options.namespace;
+    }
+    return headers;
+  }
+}
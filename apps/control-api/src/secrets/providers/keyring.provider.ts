@@ -0,0 +1,24 @@
+import { AsyncEntry } from '@napi-rs/keyring';
+
+import type { SecretProvider, SecretReference } from '../../common/types/index.js';
+
+/**
+ * Reads passwords from the OS keyring: `keyring://<service>/<account>`
+ */
+export class KeyringSecretProvider implements SecretProvider {
+  readonly scheme = 'keyring';
+
+  async resolve(reference: SecretReference): Promise<string> {
+    const separator = reference.path.indexOf('/');
+    if (separator <= 0) {
+      throw new Error('Keyring references must be keyring://<service>/<account>');
+    }
+
+    const entry = new AsyncEntry(reference.path.slice(0, separator), reference.path.slice(separator + 1));
+    const value = await entry.getPassword();
+    if (value === undefined) {
+      throw new Error(`No keyring entry for ${reference.path}`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,27 @@
+import type { SecretReference } from '../common/types/index.js';
+
+/**
+ * Secret references (`CredentialsRef.ref`) are URIs whose scheme selects the provider:
+ *
+ * - `env://API_KEY`
+ * - `file:///etc/gapjunction/secrets.vault#api-key`
+ * - `vault://secret/gapjunction/http#apiKey`
+ * - `keyring://gapjunction/api-key`
+ */
+const SECRET_REF_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/([^#]*)(?:#(.+))?$/i;
+
+export function parseSecretRef(ref: string): SecretReference {
+  const match = SECRET_REF_PATTERN.exec(ref);
+  const scheme = match?.[1];
+  const path = match?.[2];
+
+  if (!scheme || !path) {
+    throw new Error(`Invalid secret reference "${ref}": expected <scheme>://<path>[#key]`);
+  }
+
+  const reference: SecretReference = { raw: ref, scheme: scheme.toLowerCase(), path };
+  if (match[3]) {
+    reference.key = match[3];
+  }
+  return reference;
+}
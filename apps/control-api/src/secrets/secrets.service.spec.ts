@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import { createServer, type Server } from 'http';
+import { join } from 'path';
+
+import nacl from 'tweetnacl';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { cleanupTempDir, createMockLogger, createTempDir } from '../../test/utils/test-helpers.js';
+
+import { EnvSecretProvider } from './providers/env.provider.js';
+import { encryptFileVault, FileVaultSecretProvider } from './providers/file-vault.provider.js';
+import { HashiCorpVaultSecretProvider } from './providers/hashicorp-vault.provider.js';
+import { parseSecretRef } from './secret-provider.js';
+import { SecretsService } from './secrets.service.js';
+
+import type { AddressInfo } from 'net';
+
+describe('SecretsService', () => {
+  describe('parseSecretRef', () => {
+    it('should split scheme, path and key', () => {
+      expect(parseSecretRef('vault://secret/gapjunction/http#apiKey')).toEqual({
+        raw: 'vault://secret/gapjunction/http#apiKey',
+        scheme: 'vault',
+        path: 'secret/gapjunction/http',
+        key: 'apiKey',
+      });
+    });
+
+    it('should reject refs without a scheme', () => {
+      expect(() => parseSecretRef('API_KEY')).toThrow('Invalid secret reference "API_KEY"');
+    });
+  });
+
+  describe('resolveAll', () => {
+    it('should resolve env refs keyed by ref', async () => {
+      const service = new SecretsService([new EnvSecretProvider({ API_KEY: 'key-123' })], createMockLogger());
+
+      await expect(service.resolveAll(['env://API_KEY', 'env://API_KEY'])).resolves.toEqual({
+        'env://API_KEY': 'key-123',
+      });
+    });
+
+    it('should report every unresolved ref', async () => {
+      const service = new SecretsService([new EnvSecretProvider({})], createMockLogger());
+
+      await expect(service.resolveAll(['env://MISSING', 'gcp://projects/p/secrets/s'])).rejects.toThrow(
+        'Failed to resolve secrets: "env://MISSING": Environment variable MISSING is not set; ' +
+          '"gcp://projects/p/secrets/s": No secret provider registered for gcp://'
+      );
+    });
+  });
+
+  describe('file vault provider', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await createTempDir();
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('should decrypt secrets from an encrypted vault file', async () => {
+      const vaultPath = join(tempDir, 'secrets.vault');
+      await fs.writeFile(vaultPath, JSON.stringify(await encryptFileVault({ dbPassword: 's3cret' }, 'passphrase')));
+
+      const service = new SecretsService([new FileVaultSecretProvider('passphrase')], createMockLogger());
+
+      await expect(service.resolve(`file://${vaultPath}#dbPassword`)).resolves.toBe('s3cret');
+      await expect(
+        new SecretsService([new FileVaultSecretProvider('wrong')], createMockLogger()).resolve(`file://${vaultPath}#dbPassword`)
+      ).rejects.toThrow('wrong passphrase');
+    });
+  });
+
+  describe('HashiCorp Vault provider', () => {
+    let server: Server;
+    let address: string;
+    let requests: Array<{ url: string | undefined; token: string | string[] | undefined }>;
+
+    beforeEach(async () => {
+      requests = [];
+      server = createServer((request, response) => {
+        requests.push({ url: request.url, token: request.headers['x-vault-token'] });
+        if (request.url === '/v1/secret/data/gapjunction/http') {
+          response.writeHead(200, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify({ data: { data: { apiKey: 'vault-key' }, metadata: { version: 1 } } }));
+          return;
+        }
+        response.writeHead(404);
+        response.end('{}');
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should read a field from a KV v2 secret', async () => {
+      const provider = new HashiCorpVaultSecretProvider({ address, token: 'root', kvVersion: 2 });
+      const service = new SecretsService([provider], createMockLogger());
+
+      await expect(service.resolve('vault://secret/gapjunction/http#apiKey')).resolves.toBe('vault-key');
+      expect(requests).toEqual([{ url: '/v1/secret/data/gapjunction/http', token: 'root' }]);
+    });
+
+    it('should fail for missing secrets', async () => {
+      const provider = new HashiCorpVaultSecretProvider({ address, token: 'root', kvVersion: 2 });
+      const service = new SecretsService([provider], createMockLogger());
+
+      await expect(service.resolve('vault://secret/missing#apiKey')).rejects.toThrow('HTTP 404');
+    });
+  });
+
+  describe('createSecretPayload', () => {
+    it('should seal resolved secrets for the agent public key', async () => {
+      const agentKeys = nacl.box.keyPair();
+      const service = new SecretsService([new EnvSecretProvider({ API_KEY: 'key-123' })], createMockLogger());
+
+      const payload = await service.createSecretPayload(
+        {
+          version: 2,
+          channelId: 'channel-1',
+          credentials: {
+            'http-1.apiKey': { type: 'secretRef', ref: 'env://API_KEY', envVar: 'GJ_SECRET_HTTP_1_APIKEY' },
+          },
+        },
+        Buffer.from(agentKeys.publicKey).toString('base64')
+      );
+
+      expect(payload).toBeDefined();
+      const sealed = payload as Uint8Array;
+      const nonceOffset = nacl.box.publicKeyLength;
+      const ciphertextOffset = nonceOffset + nacl.box.nonceLength;
+      const opened = nacl.box.open(
+        sealed.subarray(ciphertextOffset),
+        sealed.subarray(nonceOffset, ciphertextOffset),
+        sealed.subarray(0, nonceOffset),
+        agentKeys.secretKey
+      );
+
+      expect(JSON.parse(Buffer.from(opened as Uint8Array).toString('utf8'))).toEqual({ 'env://API_KEY': 'key-123' });
+    });
+
+    it('should return undefined when the bundle has no secrets', async () => {
+      const service = new SecretsService([], createMockLogger());
+
+      await expect(
+        service.createSecretPayload({ version: 2, channelId: 'c', credentials: {} }, 'unused')
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import nacl from 'tweetnacl';
+
+import { parseSecretRef } from './secret-provider.js';
+
+import type { CredentialsMap, SecretProvider } from '../common/types/index.js';
+import type * as winston from 'winston';
+
+const NONCE_LENGTH = nacl.box.nonceLength;
+
+export class SecretsService {
+  private readonly _logger: winston.Logger;
+  private readonly _providers = new Map<string, SecretProvider>();
+
+  constructor(providers: SecretProvider[], logger: winston.Logger) {
+    this._logger = logger;
+    for (const provider of providers) {
+      this._providers.set(provider.scheme, provider);
+    }
+  }
+
+  async resolve(ref: string): Promise<string> {
+    const reference = parseSecretRef(ref);
+    const provider = this._providers.get(reference.scheme);
+
+    if (!provider) {
+      throw new Error(`No secret provider registered for ${reference.scheme}://`);
+    }
+    return await provider.resolve(reference);
+  }
+
+  /**
+   * Resolve every reference, keyed by ref. Fails with all unresolved refs (never their values).
+   */
+  async resolveAll(refs: string[]): Promise<Record<string, string>> {
+    const secrets: Record<string, string> = {};
+    const failures: string[] = [];
+
+    for (const ref of new Set(refs)) {
+      try {
+        secrets[ref] = await this.resolve(ref);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        failures.push(`"${ref}": ${errorMessage}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      this._logger.error('Secret resolution failed', { failures });
+      throw new Error(`Failed to resolve secrets: ${failures.join('; ')}`);
+    }
+
+    this._logger.info(`Resolved ${Object.keys(secrets).length} secret reference(s)`);
+    return secrets;
+  }
+
+  /**
+   * Seal secrets for an agent's X25519 public key (base64).
+   * Layout: ephemeral public key (32 bytes) | nonce (24 bytes) | NaCl box ciphertext.
+   */
+  sealForAgent(secrets: Record<string, string>, devicePublicKey: string): Uint8Array {
+    const recipientKey = new Uint8Array(Buffer.from(devicePublicKey, 'base64'));
+    if (recipientKey.length !== nacl.box.publicKeyLength) {
+      throw new Error('Invalid device public key');
+    }
+
+    const ephemeral = nacl.box.keyPair();
+    const nonce = nacl.randomBytes(NONCE_LENGTH);
+    const message = new Uint8Array(Buffer.from(JSON.stringify(secrets), 'utf8'));
+    const ciphertext = nacl.box(message, nonce, recipientKey, ephemeral.secretKey);
+
+    return new Uint8Array(Buffer.concat([ephemeral.publicKey, nonce, ciphertext]));
+  }
+
+  /**
+   * Resolve the references of a bundle's credentials map and seal them for the target agent.
+   * Returns undefined when the bundle references no secrets.
+   */
+  async createSecretPayload(credentialsMap: CredentialsMap, devicePublicKey: string): Promise<Uint8Array | undefined> {
+    const refs = Object.values(credentialsMap.credentials).map((entry) => entry.ref);
+    if (refs.length === 0) {
+      return undefined;
+    }
+
+    const secrets = await this.resolveAll(refs);
+    return this.sealForAgent(secrets, devicePublicKey);
+  }
+}
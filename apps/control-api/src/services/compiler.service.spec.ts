@@ -1,7 +1,8 @@
+import { Readable } from 'stream';
+
 import axios from 'axios';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
-import { createMockCompilerResponse } from '../../test/fixtures/index.js';
 import { createMockConfigService, createMockLogger } from '../../test/utils/test-helpers.js';
 
 import { CompilerService } from './compiler.service.js';
@@ -15,6 +16,10 @@ vi.mock('axios', () => ({
   },
 }));
 
+function progressFrame(event: Record<string, unknown>): string {
+  return `event: progress\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
 describe('CompilerService', () => {
   let service: CompilerService;
   let mockConfigService: any;
@@ -65,21 +70,54 @@ describe('CompilerService', () => {
   });
 
   describe('compile', () => {
-    it('should compile successfully', async () => {
+    it('should queue the build, follow its progress and download the bundle', async () => {
       const mockRequest = {
         channel: { channelId: 'test-channel', version: 1 },
         orgId: 'test-org-123',
         userId: 'test-user-123',
-        acknowledgedViolations: [],
+      };
+      const buildId = 'test-build-123';
+      const record = {
+        buildId,
+        status: 'done',
+        validation: { valid: true, errors: [], warnings: [] },
+        bundleHash: 'bundle-hash',
+        merkleRoot: 'merkle-root',
+        artifactHashes: { flowsJson: 'flows-hash' },
       };
 
-      const mockResponse = createMockCompilerResponse(true);
-      mockAxiosInstance.post.mockResolvedValue({ data: mockResponse });
+      mockAxiosInstance.post.mockResolvedValue({ data: { buildId, status: 'queued', position: 0 } });
+      mockAxiosInstance.get.mockImplementation(async (url: string) => {
+        if (url.endsWith('/events')) {
+          // The done event arrives split across chunks
+          return { data: Readable.from([
+            progressFrame({ buildId, status: 'queued', position: 0 }),
+            progressFrame({ buildId, status: 'bundling' }) + 'event: progress\ndata: {"buildId":"test-build-123",',
+            '"status":"done","success":true}\n\n',
+          ]) };
+        }
+        if (url.endsWith('/bundle')) {
+          return { data: Buffer.from('bundle-bytes') };
+        }
+        return { data: record };
+      });
 
       const result = await service.compile(mockRequest);
 
       expect(mockAxiosInstance.post).toHaveBeenCalledWith('/compiler/compile', mockRequest);
-      expect(result).toEqual(mockResponse);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(`/compiler/builds/${buildId}/events`, expect.objectContaining({
+        responseType: 'stream',
+      }));
+      expect(result).toEqual({
+        success: true,
+        buildId,
+        bundle: Buffer.from('bundle-bytes').toString('base64'),
+        bundleHash: 'bundle-hash',
+        merkleRoot: 'merkle-root',
+        artifactHashes: { flowsJson: 'flows-hash' },
+        validation: record.validation,
+        errors: [],
+      });
       expect(mockLogger.info).toHaveBeenCalledWith(
         `Compiling channel for org ${mockRequest.orgId}`,
         expect.objectContaining({
@@ -89,10 +127,36 @@ describe('CompilerService', () => {
       );
       expect(mockLogger.info).toHaveBeenCalledWith(
         expect.stringContaining('Compilation completed in'),
-        expect.objectContaining({
-          success: mockResponse.success,
-          buildId: mockResponse.buildId,
-        })
+        expect.objectContaining({ success: true, buildId })
+      );
+    });
+
+    it('should report a failed build without downloading a bundle', async () => {
+      const buildId = 'test-build-123';
+      mockAxiosInstance.post.mockResolvedValue({ data: { buildId, status: 'queued', position: 0 } });
+      mockAxiosInstance.get.mockImplementation(async (url: string) => {
+        if (url.endsWith('/events')) {
+          return { data: Readable.from([progressFrame({ buildId, status: 'failed', success: false, errors: ['Policy lint failed'] })]) };
+        }
+        return { data: { buildId, status: 'failed', error: 'Policy lint failed' } };
+      });
+
+      const result = await service.compile({ channel: {}, orgId: 'test-org-123' });
+
+      expect(result).toEqual({ success: false, buildId, errors: ['Policy lint failed'] });
+      expect(mockAxiosInstance.get).not.toHaveBeenCalledWith(`/compiler/builds/${buildId}/bundle`, expect.anything());
+    });
+
+    it('should fail when the progress stream ends before the build finishes', async () => {
+      const buildId = 'test-build-123';
+      mockAxiosInstance.post.mockResolvedValue({ data: { buildId, status: 'queued', position: 0 } });
+      mockAxiosInstance.get.mockResolvedValue({ data: Readable.from([progressFrame({ buildId, status: 'validating' })]) });
+      (axios.isAxiosError as any).mockReturnValue(false);
+
+      await expect(service.compile({ channel: {}, orgId: 'test-org-123' })).rejects.toThrow('Internal compilation error');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Compiler error:',
+        `Progress of build ${buildId} ended before the build finished`
       );
     });
 
@@ -192,6 +256,47 @@ describe('CompilerService', () => {
     });
   });
 
+  describe('enqueue', () => {
+    it('should queue a build without waiting for it', async () => {
+      const mockRequest = {
+        channel: { channelId: 'test-channel', version: 1 },
+        orgId: 'test-org-123',
+        userId: 'test-user-123',
+      };
+      const queued = { buildId: 'test-build-123', status: 'queued', position: 0 };
+      mockAxiosInstance.post.mockResolvedValue({ data: queued });
+
+      const result = await service.enqueue(mockRequest);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/compiler/compile', mockRequest);
+      expect(result).toEqual(queued);
+    });
+
+    it('should report a full compile queue', async () => {
+      const error = {
+        isAxiosError: true,
+        response: { status: 503, data: { message: 'Compile queue is full, retry later' } },
+      };
+      mockAxiosInstance.post.mockRejectedValue(error);
+      (axios.isAxiosError as any).mockReturnValue(true);
+
+      await expect(service.enqueue({ channel: {}, orgId: 'test-org-123' })).rejects.toThrow(
+        'Compile queue is full'
+      );
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a build', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { buildId: 'test-build-123', cancelled: true } });
+
+      const result = await service.cancel('test-build-123');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/compiler/builds/test-build-123/cancel');
+      expect(result).toBe(true);
+    });
+  });
+
   describe('getStatus', () => {
     it('should get build status successfully', async () => {
       const buildId = 'test-build-123';
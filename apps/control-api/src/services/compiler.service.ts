@@ -1,17 +1,73 @@
+import { clearTimeout, setTimeout } from 'timers';
+
 import axios from 'axios';
 
-import type { CompilerRequest, CompilerResponse } from '../common/types/index.js';
+import type {
+  CompilerBuildRecord,
+  CompilerBuildStatus,
+  CompilerProgressEvent,
+  CompilerQueuedBuild,
+  CompilerRequest,
+  CompilerResponse,
+  CompilerSigningKey,
+} from '../common/types/index.js';
 import type { AxiosInstance } from 'axios';
+import type { Readable } from 'stream';
 import type * as winston from 'winston';
 
 interface ConfigService {
   get: <T>(key: string, defaultValue?: T) => T;
 }
 
+const TERMINAL_BUILD_STATUSES = new Set<CompilerBuildStatus>(['done', 'failed', 'cancelled']);
+
+// A server-sent event frame: `event: progress\ndata: {...}`
+function parseProgressEvent(frame: string): CompilerProgressEvent | null {
+  const data = frame.split('\n').find((line) => line.startsWith('data: '));
+  if (!data) {
+    return null;
+  }
+  try {
+    return JSON.parse(data.slice('data: '.length)) as CompilerProgressEvent;
+  } catch {
+    return null;
+  }
+}
+
+// HTTP 4xx answer from the compiler
+function isClientError(error: unknown): boolean {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  const HTTP_BAD_REQUEST = 400;
+  const HTTP_SERVER_ERROR = 500;
+  return status !== undefined && status >= HTTP_BAD_REQUEST && status < HTTP_SERVER_ERROR;
+}
+
+// `message` of the compiler's error response, e.g. the validation errors of a rejected channel
+function responseMessage(error: unknown): string | undefined {
+  const data: unknown = axios.isAxiosError(error) ? error.response?.data : undefined;
+  const message = typeof data === 'object' && data !== null ? (data as { message?: unknown }).message : undefined;
+  return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * The compiler refused a request (HTTP 4xx, e.g. an invalid channel IR); sending it again gets the same answer
+ */
+export class CompilerRejectedError extends Error {
+  override readonly name = 'CompilerRejectedError';
+}
+
+/**
+ * A compiler build did not finish within COMPILER_BUILD_TIMEOUT_MS
+ */
+export class CompilerTimeoutError extends Error {
+  override readonly name = 'CompilerTimeoutError';
+}
+
 export class CompilerService {
   private readonly _logger: winston.Logger;
   private readonly _httpClient: AxiosInstance;
   private readonly _compilerUrl: string;
+  private readonly _buildTimeoutMs: number;
 
   constructor(
     private readonly _configService: ConfigService,
@@ -19,6 +75,7 @@ export class CompilerService {
   ) {
     this._logger = logger;
     this._compilerUrl = this._configService.get<string>('COMPILER_URL', 'http://localhost:3001');
+    this._buildTimeoutMs = Number(this._configService.get<string>('COMPILER_BUILD_TIMEOUT_MS', '600000'));
     
     this._httpClient = axios.create({
       baseURL: this._compilerUrl,
@@ -52,6 +109,9 @@ export class CompilerService {
     );
   }
 
+  /**
+   * Queue a compile, follow its progress events until the build finishes and return its result and bundle
+   */
   async compile(request: CompilerRequest): Promise<CompilerResponse> {
     try {
       this._logger.info(`Compiling channel for org ${request.orgId}`, {
@@ -61,15 +121,17 @@ export class CompilerService {
 
       const startTime = Date.now();
       
-      const response = await this._httpClient.post('/compiler/compile', request);
+      const queued = await this._queue(request);
+      const finished = await this._awaitBuild(queued.buildId);
+      const result = await this._buildResult(finished);
       
       const duration = Date.now() - startTime;
       this._logger.info(`Compilation completed in ${duration}ms`, {
-        success: response.data.success,
-        buildId: response.data.buildId,
+        success: result.success,
+        buildId: result.buildId,
       });
 
-      return response.data;
+      return result;
     } catch (error: unknown) {
       if (axios.isAxiosError(error)) {
         if (error.response) {
@@ -90,6 +152,58 @@ export class CompilerService {
     }
   }
 
+  /**
+   * Queue a compile without waiting for it; follow it with awaitResult or getStatus.
+   * Throws CompilerRejectedError when the compiler refuses the request.
+   */
+  async enqueue(request: CompilerRequest): Promise<CompilerQueuedBuild> {
+    try {
+      return await this._queue(request);
+    } catch (error: unknown) {
+      const HTTP_SERVICE_UNAVAILABLE = 503;
+      if (axios.isAxiosError(error) && error.response?.status === HTTP_SERVICE_UNAVAILABLE) {
+        throw new Error('Compile queue is full');
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Failed to queue build', { error: errorMessage });
+      if (isClientError(error)) {
+        throw new CompilerRejectedError(`Compiler rejected the build: ${responseMessage(error) ?? errorMessage}`);
+      }
+      throw new Error('Failed to queue build', { cause: error });
+    }
+  }
+
+  /**
+   * Follow a queued build until it finishes and return its result and bundle. Can be called again for the
+   * same build after a dropped connection. Throws CompilerTimeoutError when the build deadline passes.
+   */
+  async awaitResult(buildId: string): Promise<CompilerResponse> {
+    try {
+      return await this._buildResult(await this._awaitBuild(buildId));
+    } catch (error: unknown) {
+      if (error instanceof CompilerTimeoutError) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error(`Failed to get the result of build ${buildId}`, { error: errorMessage });
+      if (isClientError(error)) {
+        throw new CompilerRejectedError(`Compiler has no result for build ${buildId}: ${responseMessage(error) ?? errorMessage}`);
+      }
+      throw new Error('Failed to get build result', { cause: error });
+    }
+  }
+
+  async cancel(buildId: string): Promise<boolean> {
+    try {
+      const response = await this._httpClient.post(`/compiler/builds/${buildId}/cancel`);
+      return response.data.cancelled;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error(`Failed to cancel build ${buildId}`, { error: errorMessage });
+      throw new Error('Failed to cancel build');
+    }
+  }
+
   async getStatus(buildId: string): Promise<Record<string, unknown>> {
     try {
       this._logger.debug(`Getting compilation status for build ${buildId}`);
@@ -103,6 +217,20 @@ export class CompilerService {
     }
   }
 
+  /**
+   * Public keys bundles are signed with: the current key and the retired ones agents still trust
+   */
+  async getSigningKeys(): Promise<CompilerSigningKey[]> {
+    try {
+      const response = await this._httpClient.get<{ keys: CompilerSigningKey[] }>('/compiler/signing-keys');
+      return response.data.keys;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Failed to get bundle signing keys', { error: errorMessage });
+      throw new Error('Failed to get bundle signing keys');
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const HEALTH_CHECK_TIMEOUT = 5000;
@@ -115,4 +243,80 @@ export class CompilerService {
       return false;
     }
   }
-}
\ No newline at end of file
+
+  private async _queue(request: CompilerRequest): Promise<CompilerQueuedBuild> {
+    const response = await this._httpClient.post<CompilerQueuedBuild>('/compiler/compile', request);
+    this._logger.info(`Queued build ${response.data.buildId} for org ${request.orgId}`, {
+      position: response.data.position,
+    });
+    return response.data;
+  }
+
+  /**
+   * Resolve with the event that finishes a build, read from the compiler's progress stream
+   */
+  private async _awaitBuild(buildId: string): Promise<CompilerProgressEvent> {
+    const response = await this._httpClient.get<Readable>(`/compiler/builds/${buildId}/events`, {
+      responseType: 'stream',
+      // Events are sparse while a build is queued; the build deadline bounds the wait instead
+      timeout: 0,
+    });
+    const stream = response.data;
+
+    return await new Promise<CompilerProgressEvent>((resolve, reject) => {
+      let buffered = '';
+      const deadline = setTimeout(() => {
+        stream.destroy(new CompilerTimeoutError(`Build ${buildId} did not finish within ${this._buildTimeoutMs}ms`));
+      }, this._buildTimeoutMs);
+
+      stream.on('data', (chunk: Buffer) => {
+        const frames = (buffered + chunk.toString('utf8')).split('\n\n');
+        buffered = frames.pop() ?? '';
+
+        const finished = frames
+          .map(parseProgressEvent)
+          .find((event) => event !== null && TERMINAL_BUILD_STATUSES.has(event.status));
+        if (finished) {
+          clearTimeout(deadline);
+          stream.destroy();
+          resolve(finished);
+        }
+      });
+      stream.on('error', (error: Error) => {
+        clearTimeout(deadline);
+        reject(error);
+      });
+      stream.on('end', () => {
+        clearTimeout(deadline);
+        reject(new Error(`Progress of build ${buildId} ended before the build finished`));
+      });
+    });
+  }
+
+  private async _buildResult(finished: CompilerProgressEvent): Promise<CompilerResponse> {
+    const { buildId } = finished;
+    const record = (await this._httpClient.get<CompilerBuildRecord>(`/compiler/status/${buildId}`)).data;
+    const success = record.status === 'done';
+    const errors = finished.errors ?? (record.error ? [record.error] : []);
+
+    let bundle: string | undefined;
+    if (success) {
+      const download = await this._httpClient.get<ArrayBuffer>(`/compiler/builds/${buildId}/bundle`, {
+        responseType: 'arraybuffer',
+      });
+      bundle = Buffer.from(download.data).toString('base64');
+    }
+
+    return {
+      success,
+      buildId,
+      ...(bundle ? { bundle } : {}),
+      ...(record.bundleHash ? { bundleHash: record.bundleHash } : {}),
+      ...(record.merkleRoot ? { merkleRoot: record.merkleRoot } : {}),
+      ...(record.artifactHashes ? { artifactHashes: record.artifactHashes } : {}),
+      ...(record.validation ? { validation: record.validation } : {}),
+      ...(record.policyLint ? { policyLint: record.policyLint } : {}),
+      errors,
+    };
+  }
+}
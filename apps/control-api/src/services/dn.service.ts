@@ -0,0 +1,96 @@
+import axios from 'axios';
+
+import type { AxiosInstance } from 'axios';
+import type * as winston from 'winston';
+
+interface ConfigService {
+  get: <T>(key: string, defaultValue?: T) => T;
+}
+
+// Response of POST /v1/host-and-enrollment-code
+interface DnHostAndEnrollmentCode {
+  data: {
+    host: { id: string };
+    enrollmentCode: { code: string; lifetimeSeconds: number };
+  };
+}
+
+const DN_REQUEST_TIMEOUT_MS = 10_000;
+
+export interface OverlayEnrollment {
+  enrollmentCode: string;
+  lighthouses: string[];
+}
+
+/**
+ * Defined Networking (DN) API client for the agents' Nebula overlay. Each enrolling agent with `useP2p` gets a
+ * host in `DN_NETWORK_ID` and a one-time code its DN client enrolls with.
+ */
+export class DnService {
+  private readonly _logger: winston.Logger;
+  private readonly _httpClient: AxiosInstance;
+  private readonly _apiKey: string;
+  private readonly _networkId: string;
+  private readonly _roleId: string;
+  private readonly _lighthouses: string[];
+
+  constructor(
+    private readonly _configService: ConfigService,
+    logger: winston.Logger
+  ) {
+    this._logger = logger;
+    this._apiKey = this._configService.get<string>('DN_API_KEY', '');
+    this._networkId = this._configService.get<string>('DN_NETWORK_ID', '');
+    this._roleId = this._configService.get<string>('DN_ROLE_ID', '');
+    this._lighthouses = this._configService.get<string>('DN_LIGHTHOUSES', '')
+      .split(',')
+      .map((lighthouse) => lighthouse.trim())
+      .filter(Boolean);
+
+    this._httpClient = axios.create({
+      baseURL: this._configService.get<string>('DN_API_URL', 'https://api.defined.net'),
+      timeout: DN_REQUEST_TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this._apiKey}`,
+      },
+    });
+
+    if (!this.isConfigured()) {
+      this._logger.warn('DN_API_KEY or DN_NETWORK_ID is not set, agents cannot join the P2P overlay');
+    }
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this._apiKey && this._networkId);
+  }
+
+  /**
+   * Create a DN host for an agent and return the code it enrolls with, with the overlay's lighthouses
+   */
+  async createEnrollment(agentId: string, runtimeId: string): Promise<OverlayEnrollment> {
+    if (!this.isConfigured()) {
+      throw new Error('P2P overlay is not configured (DN_API_KEY, DN_NETWORK_ID)');
+    }
+
+    try {
+      const response = await this._httpClient.post<DnHostAndEnrollmentCode>('/v1/host-and-enrollment-code', {
+        name: `${agentId}@${runtimeId}`,
+        networkID: this._networkId,
+        ...(this._roleId ? { roleID: this._roleId } : {}),
+        isLighthouse: false,
+        isRelay: false,
+      });
+      const { host, enrollmentCode } = response.data.data;
+
+      this._logger.info(`Created DN host ${host.id} for agent ${agentId}@${runtimeId}`, {
+        lifetimeSeconds: enrollmentCode.lifetimeSeconds,
+      });
+      return { enrollmentCode: enrollmentCode.code, lighthouses: this._lighthouses };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('DN enrollment code request failed', { error: errorMessage, agentId, runtimeId });
+      throw new Error('Failed to create DN enrollment code');
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 
-import type { Build, SupabaseConfig } from '../common/types/index.js';
+import type { Agent, AgentFilter, AgentStatusCondition, Build, Deployment, SupabaseConfig } from '../common/types/index.js';
+import type { TokenRevocationStore } from '../tokens/token.service.js';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type * as winston from 'winston';
 
@@ -8,7 +9,25 @@ interface ConfigService {
   get: <T>(key: string, defaultValue?: T) => T;
 }
 
-export class SupabaseService {
+// Postgres error code for a duplicate primary key
+const UNIQUE_VIOLATION = '23505';
+
+// Columns of the `agents` table an update writes; undefined values are left out by the client
+function toAgentUpdate(updates: Partial<Agent>): Record<string, unknown> {
+  return {
+    version: updates.version,
+    os: updates.os,
+    nebulaIp: updates.nebulaIp,
+    status: updates.status,
+    lastHeartbeat: updates.lastHeartbeat?.toISOString(),
+    channels: updates.channels,
+    labels: updates.labels,
+    decommissionedAt: updates.decommissionedAt?.toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export class SupabaseService implements TokenRevocationStore {
   private readonly _logger: winston.Logger;
   private readonly _supabase: SupabaseClient;
   private readonly _config: SupabaseConfig;
@@ -92,6 +111,7 @@ export class SupabaseService {
           compilerBundleId: updates.compilerBundleId,
           buildStatus: updates.buildStatus,
           buildTime: updates.buildTime,
+          error: updates.error,
           deploymentStatus: updates.deploymentStatus,
           deploymentId: updates.deploymentId,
           deploymentTime: updates.deploymentTime,
@@ -141,6 +161,334 @@ export class SupabaseService {
     }
   }
 
+  // Deployment operations
+  async createDeployment(deployment: Omit<Deployment, 'deploymentId'>): Promise<Deployment> {
+    try {
+      this._logger.info(`Creating deployment record for build ${deployment.buildId}`);
+
+      const { data, error } = await this._supabase
+        .from('deployments')
+        .insert({
+          buildId: deployment.buildId,
+          runtimeId: deployment.runtimeId,
+          runtimeIds: deployment.runtimeIds,
+          channelId: deployment.channelId,
+          mode: deployment.mode,
+          strategy: deployment.strategy,
+          status: deployment.status,
+          targets: deployment.targets,
+          error: null,
+          startedAt: null,
+          completedAt: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        const errorMessage = `Failed to create deployment record: ${error.message}`;
+        this._logger.error('Failed to create deployment record', { error: error.message, buildId: deployment.buildId });
+        throw new Error(errorMessage);
+      }
+
+      this._logger.info(`Created deployment record with ID ${data.id}`);
+      return this._mapDeploymentFromDb(data);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Create deployment operation failed', { error: errorMessage, buildId: deployment.buildId });
+      throw new Error('Failed to create deployment record');
+    }
+  }
+
+  async updateDeployment(deploymentId: string, updates: Partial<Deployment>): Promise<Deployment> {
+    try {
+      this._logger.info(`Updating deployment ${deploymentId}`);
+
+      const { data, error } = await this._supabase
+        .from('deployments')
+        .update({
+          status: updates.status,
+          targets: updates.targets,
+          error: updates.error,
+          startedAt: updates.startedAt?.toISOString(),
+          completedAt: updates.completedAt?.toISOString(),
+          updatedAt: new Date().toISOString(),
+        })
+        .eq('id', deploymentId)
+        .select()
+        .single();
+
+      if (error) {
+        const errorMessage = `Failed to update deployment: ${error.message}`;
+        this._logger.error(`Failed to update deployment ${deploymentId}`, { error: error.message });
+        throw new Error(errorMessage);
+      }
+
+      return this._mapDeploymentFromDb(data);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Update deployment operation failed', { error: errorMessage, deploymentId });
+      throw new Error('Failed to update deployment');
+    }
+  }
+
+  // Most recent successful deployment of a channel that targeted a runtime
+  async getLatestDeployment(channelId: string, runtimeId: string): Promise<Deployment | null> {
+    try {
+      const { data, error } = await this._supabase
+        .from('deployments')
+        .select('*')
+        .eq('channelId', channelId)
+        .contains('runtimeIds', [runtimeId])
+        .eq('status', 'DEPLOYED')
+        .order('completedAt', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        const errorMessage = `Failed to get latest deployment: ${error.message}`;
+        this._logger.error(`Failed to get latest deployment of channel ${channelId}`, { error: error.message, runtimeId });
+        throw new Error(errorMessage);
+      }
+
+      return data ? this._mapDeploymentFromDb(data) : null;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Get latest deployment operation failed', { error: errorMessage, channelId, runtimeId });
+      throw new Error('Failed to get latest deployment');
+    }
+  }
+
+  // Agent registry operations
+  async upsertAgent(agent: Pick<Agent, 'agentId' | 'runtimeId' | 'orgId' | 'version' | 'os' | 'status'>): Promise<Agent> {
+    try {
+      this._logger.info(`Recording agent ${agent.agentId}@${agent.runtimeId}`);
+
+      const record = {
+        id: agent.agentId,
+        runtimeId: agent.runtimeId,
+        organizationId: agent.orgId,
+        version: agent.version,
+        os: agent.os,
+        status: agent.status,
+        updatedAt: new Date().toISOString(),
+      };
+      const inserted = await this._supabase
+        .from('agents')
+        .upsert(record, { onConflict: 'id', ignoreDuplicates: true });
+      if (inserted.error) {
+        throw new Error(`Failed to record agent: ${inserted.error.message}`);
+      }
+
+      // Labels and heartbeat data of a re-enrolled agent are kept; a decommissioned record is left alone
+      const { data, error } = await this._supabase
+        .from('agents')
+        .update(record)
+        .eq('id', agent.agentId)
+        .neq('status', 'DECOMMISSIONED')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        const errorMessage = `Failed to record agent: ${error.message}`;
+        this._logger.error(`Failed to record agent ${agent.agentId}`, { error: error.message });
+        throw new Error(errorMessage);
+      }
+      if (!data) {
+        throw new Error(`Agent ${agent.agentId} is decommissioned`);
+      }
+
+      return this._mapAgentFromDb(data);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Upsert agent operation failed', { error: errorMessage, agentId: agent.agentId });
+      throw new Error('Failed to record agent');
+    }
+  }
+
+  async updateAgent(agentId: string, updates: Partial<Agent>): Promise<Agent> {
+    try {
+      const { data, error } = await this._supabase
+        .from('agents')
+        .update(toAgentUpdate(updates))
+        .eq('id', agentId)
+        .select()
+        .single();
+
+      if (error) {
+        const errorMessage = `Failed to update agent: ${error.message}`;
+        this._logger.error(`Failed to update agent ${agentId}`, { error: error.message });
+        throw new Error(errorMessage);
+      }
+
+      return this._mapAgentFromDb(data);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Update agent operation failed', { error: errorMessage, agentId });
+      throw new Error('Failed to update agent');
+    }
+  }
+
+  // Update an agent only while its stored status matches the condition; null when it does not
+  async updateAgentWhere(agentId: string, updates: Partial<Agent>, condition: AgentStatusCondition): Promise<Agent | null> {
+    try {
+      let query = this._supabase.from('agents').update(toAgentUpdate(updates)).eq('id', agentId);
+      if (condition.status) {
+        query = query.eq('status', condition.status);
+      }
+      if (condition.notStatus) {
+        query = query.neq('status', condition.notStatus);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) {
+        const errorMessage = `Failed to update agent: ${error.message}`;
+        this._logger.error(`Failed to update agent ${agentId}`, { error: error.message, condition });
+        throw new Error(errorMessage);
+      }
+
+      return data ? this._mapAgentFromDb(data) : null;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Conditional update agent operation failed', { error: errorMessage, agentId });
+      throw new Error('Failed to update agent');
+    }
+  }
+
+  async getAgent(agentId: string): Promise<Agent | null> {
+    try {
+      const { data, error } = await this._supabase
+        .from('agents')
+        .select('*')
+        .eq('id', agentId)
+        .maybeSingle();
+
+      if (error) {
+        const errorMessage = `Failed to get agent: ${error.message}`;
+        this._logger.error(`Failed to get agent ${agentId}`, { error: error.message });
+        throw new Error(errorMessage);
+      }
+
+      return data ? this._mapAgentFromDb(data) : null;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Get agent operation failed', { error: errorMessage, agentId });
+      throw new Error('Failed to get agent');
+    }
+  }
+
+  async listAgents(filter: AgentFilter = {}): Promise<Agent[]> {
+    try {
+      let query = this._supabase.from('agents').select('*');
+      if (filter.runtimeId) {
+        query = query.eq('runtimeId', filter.runtimeId);
+      }
+      if (filter.orgId) {
+        query = query.eq('organizationId', filter.orgId);
+      }
+      if (filter.status) {
+        query = query.eq('status', filter.status);
+      }
+      if (filter.labels && Object.keys(filter.labels).length > 0) {
+        query = query.contains('labels', filter.labels);
+      }
+
+      const { data, error } = await query.order('createdAt', { ascending: true });
+
+      if (error) {
+        const errorMessage = `Failed to list agents: ${error.message}`;
+        this._logger.error('Failed to list agents', { error: error.message, filter });
+        throw new Error(errorMessage);
+      }
+
+      return data.map((record) => this._mapAgentFromDb(record));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('List agents operation failed', { error: errorMessage });
+      throw new Error('Failed to list agents');
+    }
+  }
+
+  // Token revocation operations
+  async revokeToken(tokenId: string, expiresAt: Date): Promise<boolean> {
+    try {
+      const { error } = await this._supabase
+        .from('token_revocations')
+        .insert({ id: tokenId, expiresAt: expiresAt.toISOString(), createdAt: new Date().toISOString() });
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return false;
+      }
+      if (error) {
+        throw new Error(`Failed to revoke token: ${error.message}`);
+      }
+
+      // Expired tokens are refused anyway, their revocations are no longer needed
+      await this._supabase.from('token_revocations').delete().lt('expiresAt', new Date().toISOString());
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Revoke token operation failed', { error: errorMessage, tokenId });
+      throw new Error('Failed to revoke token');
+    }
+  }
+
+  async isTokenRevoked(tokenId: string): Promise<boolean> {
+    try {
+      const { data, error } = await this._supabase
+        .from('token_revocations')
+        .select('id')
+        .eq('id', tokenId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to check token revocation: ${error.message}`);
+      }
+
+      return data !== null;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Check token revocation operation failed', { error: errorMessage, tokenId });
+      throw new Error('Failed to check token revocation');
+    }
+  }
+
+  async revokeAgentTokens(agentId: string, issuedUpTo: Date): Promise<void> {
+    try {
+      const { error } = await this._supabase
+        .from('agent_token_revocations')
+        .upsert({ id: agentId, revokedAt: issuedUpTo.toISOString() }, { onConflict: 'id' });
+
+      if (error) {
+        throw new Error(`Failed to revoke agent tokens: ${error.message}`);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Revoke agent tokens operation failed', { error: errorMessage, agentId });
+      throw new Error('Failed to revoke agent tokens');
+    }
+  }
+
+  async getAgentTokensRevokedAt(agentId: string): Promise<Date | null> {
+    try {
+      const { data, error } = await this._supabase
+        .from('agent_token_revocations')
+        .select('revokedAt')
+        .eq('id', agentId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get agent token revocation: ${error.message}`);
+      }
+
+      return data ? new Date(data.revokedAt) : null;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this._logger.error('Get agent token revocation operation failed', { error: errorMessage, agentId });
+      throw new Error('Failed to get agent token revocation');
+    }
+  }
+
   // Storage operations
   async uploadBundle(buildId: string, bundle: Buffer): Promise<string> {
     try {
@@ -260,6 +608,7 @@ export class SupabaseService {
       compilerBundleId: data.compilerBundleId,
       buildStatus: data.buildStatus,
       buildTime: data.buildTime,
+      ...(data.error ? { error: data.error } : {}),
       deploymentStatus: data.deploymentStatus,
       deploymentId: data.deploymentId,
       deploymentTime: data.deploymentTime,
@@ -267,4 +616,41 @@ export class SupabaseService {
       updatedAt: new Date(data.updatedAt),
     };
   }
+
+  // Helper method to map database record to Deployment type
+  private _mapDeploymentFromDb(data: any): Deployment {
+    return {
+      deploymentId: data.id,
+      buildId: data.buildId,
+      runtimeId: data.runtimeId,
+      runtimeIds: data.runtimeIds ?? [data.runtimeId],
+      channelId: data.channelId,
+      mode: data.mode,
+      strategy: data.strategy,
+      status: data.status,
+      targets: data.targets ?? [],
+      ...(data.error ? { error: data.error } : {}),
+      ...(data.startedAt ? { startedAt: new Date(data.startedAt) } : {}),
+      ...(data.completedAt ? { completedAt: new Date(data.completedAt) } : {}),
+    };
+  }
+
+  // Helper method to map database record to Agent type
+  private _mapAgentFromDb(data: any): Agent {
+    return {
+      agentId: data.id,
+      runtimeId: data.runtimeId,
+      orgId: data.organizationId,
+      version: data.version,
+      os: data.os,
+      status: data.status,
+      channels: data.channels ?? [],
+      labels: data.labels ?? {},
+      ...(data.nebulaIp ? { nebulaIp: data.nebulaIp } : {}),
+      ...(data.lastHeartbeat ? { lastHeartbeat: new Date(data.lastHeartbeat) } : {}),
+      ...(data.decommissionedAt ? { decommissionedAt: new Date(data.decommissionedAt) } : {}),
+      createdAt: new Date(data.createdAt),
+      updatedAt: new Date(data.updatedAt),
+    };
+  }
 }
\ No newline at end of file
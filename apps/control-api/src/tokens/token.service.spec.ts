@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createMockLogger, createMockRevocationStore } from '../../test/utils/test-helpers.js';
+
+import { TokenService } from './token.service.js';
+
+import type { TokenKeyConfig, TokenRevocationStore } from './token.service.js';
+import type { TokenKind } from '../common/types/index.js';
+
+const agentClaims = { agentId: 'agent-1', runtimeId: 'runtime-1', orgId: 'org-1' };
+const HOUR_SEC = 3600;
+// 2026-01-01T00:00:00Z
+const NOW_SEC = 1767225600;
+
+function createService(
+  agent: TokenKeyConfig = { secret: 'agent-secret' },
+  revocations: TokenRevocationStore = createMockRevocationStore()
+): TokenService {
+  const keys: Record<TokenKind, TokenKeyConfig> = {
+    agent,
+    enrollment: { secret: 'enrollment-secret' },
+    capability: { secret: 'capability-secret' },
+  };
+  return new TokenService(keys, revocations, createMockLogger());
+}
+
+function decodeHeader(token: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split('.')[0] ?? '', 'base64url').toString('utf8'));
+}
+
+describe('TokenService', () => {
+  let service: TokenService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW_SEC * 1000);
+    service = createService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sign claims that verify with issuer, audience, lifetime and a token ID', async () => {
+    const token = service.sign('agent', agentClaims, HOUR_SEC);
+
+    expect(decodeHeader(token)).toMatchObject({ alg: 'HS256', typ: 'JWT', kid: expect.any(String) });
+    await expect(service.verify('agent', token)).resolves.toEqual({
+      ...agentClaims,
+      iss: 'gapjunction-control-api',
+      aud: 'gapjunction:agent',
+      jti: expect.any(String),
+      iat: NOW_SEC,
+      exp: NOW_SEC + HOUR_SEC,
+    });
+  });
+
+  it('should reject tokens of another kind', async () => {
+    const token = service.sign('capability', {
+      fromRuntime: 'runtime-1',
+      toRuntime: 'runtime-2',
+      channelId: 'channel-1',
+      maxBytes: 1024,
+    }, HOUR_SEC);
+
+    await expect(service.verify('agent', token)).rejects.toThrow('Invalid agent token: unknown key');
+  });
+
+  it('should reject tampered claims', async () => {
+    const [header, , signature] = service.sign('agent', agentClaims, HOUR_SEC).split('.');
+    const payload = Buffer.from(JSON.stringify({ ...agentClaims, agentId: 'agent-2' })).toString('base64url');
+
+    await expect(service.verify('agent', `${header}.${payload}.${signature}`)).rejects.toThrow('Invalid agent token: bad signature');
+  });
+
+  it('should reject expired tokens', async () => {
+    const token = service.sign('agent', agentClaims, HOUR_SEC);
+
+    vi.advanceTimersByTime(2 * HOUR_SEC * 1000);
+
+    await expect(service.verify('agent', token)).rejects.toThrow('Invalid agent token: expired');
+  });
+
+  it('should keep accepting tokens signed with a rotated-out secret', async () => {
+    const before = service.sign('agent', agentClaims, HOUR_SEC);
+    const rotated = createService({ secret: 'agent-secret-2', previousSecrets: ['agent-secret'] });
+    const after = rotated.sign('agent', agentClaims, HOUR_SEC);
+
+    expect(decodeHeader(after)['kid']).not.toBe(decodeHeader(before)['kid']);
+    expect((await rotated.verify('agent', before)).agentId).toBe('agent-1');
+    await expect(createService({ secret: 'agent-secret-2' }).verify('agent', before)).rejects.toThrow('unknown key');
+  });
+
+  it('should reject revoked tokens and every earlier token of a revoked agent', async () => {
+    const first = service.sign('agent', agentClaims, HOUR_SEC);
+    const second = service.sign('agent', agentClaims, HOUR_SEC);
+
+    await service.revoke('agent', first);
+    await expect(service.verify('agent', first)).rejects.toThrow('Invalid agent token: revoked');
+    expect((await service.verify('agent', second)).agentId).toBe('agent-1');
+
+    await service.revokeAgent('agent-1');
+    await expect(service.verify('agent', second)).rejects.toThrow('Invalid agent token: revoked');
+
+    vi.advanceTimersByTime(1000);
+    expect((await service.verify('agent', service.sign('agent', agentClaims, HOUR_SEC))).agentId).toBe('agent-1');
+  });
+
+  it('should keep revocations in the store across instances', async () => {
+    const revocations = createMockRevocationStore();
+    const token = service.sign('agent', agentClaims, HOUR_SEC);
+
+    await createService(undefined, revocations).revoke('agent', token);
+
+    expect(revocations.revokeToken).toHaveBeenCalledWith(expect.any(String), new Date((NOW_SEC + HOUR_SEC) * 1000));
+    await expect(createService(undefined, revocations).verify('agent', token)).rejects.toThrow('Invalid agent token: revoked');
+  });
+
+  it('should refuse to sign without a configured secret', () => {
+    expect(() => createService({ secret: '' }).sign('agent', agentClaims, HOUR_SEC))
+      .toThrow('No signing key configured for agent tokens (AGENT_JWT_SECRET)');
+  });
+});
@@ -0,0 +1,261 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+import { ulid } from 'ulid';
+
+import type { TokenClaims, TokenKind, TokenRegisteredClaims } from '../common/types/index.js';
+import type * as winston from 'winston';
+
+interface SigningKey {
+  kid: string;
+  secret: Buffer;
+}
+
+interface Keyring {
+  // Signs new tokens; null when no secret is configured
+  current: SigningKey | null;
+  // Every key tokens are verified against, by key ID
+  keys: Map<string, SigningKey>;
+}
+
+interface TokenHeader {
+  alg: string;
+  typ: string;
+  kid: string;
+}
+
+const ALGORITHM = 'HS256';
+const ISSUER = 'gapjunction-control-api';
+const KEY_ID_LENGTH = 16;
+const MS_PER_SECOND = 1000;
+// Tolerated clock difference between the control API and token holders
+const CLOCK_SKEW_SEC = 30;
+const TOKEN_SEGMENTS = 3;
+
+const AUDIENCES: Record<TokenKind, string> = {
+  agent: 'gapjunction:agent',
+  enrollment: 'gapjunction:enrollment',
+  capability: 'gapjunction:capability',
+};
+
+const SECRET_VARIABLES: Record<TokenKind, string> = {
+  agent: 'AGENT_JWT_SECRET',
+  enrollment: 'ENROLLMENT_JWT_SECRET',
+  capability: 'CAPABILITY_JWT_SECRET',
+};
+
+// Key IDs are derived from the secret, so every instance sharing a secret agrees on its kid
+function keyId(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, KEY_ID_LENGTH);
+}
+
+function toSigningKey(secret: string): SigningKey {
+  return { kid: keyId(secret), secret: Buffer.from(secret, 'utf8') };
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+function signature(key: SigningKey, signingInput: string): Buffer {
+  return createHmac('sha256', key.secret).update(signingInput).digest();
+}
+
+function nowSec(): number {
+  return Math.floor(Date.now() / MS_PER_SECOND);
+}
+
+/**
+ * Durable record of revoked tokens, shared by every control API instance
+ */
+export interface TokenRevocationStore {
+  // Keep a revoked token ID until the token expires; resolves false when it was revoked already
+  revokeToken: (tokenId: string, expiresAt: Date) => Promise<boolean>;
+  isTokenRevoked: (tokenId: string) => Promise<boolean>;
+  // Reject agent tokens issued up to `issuedUpTo`
+  revokeAgentTokens: (agentId: string, issuedUpTo: Date) => Promise<void>;
+  getAgentTokensRevokedAt: (agentId: string) => Promise<Date | null>;
+}
+
+export interface TokenKeyConfig {
+  // Signs new tokens
+  secret: string;
+  // Rotated-out secrets; tokens they signed are accepted until they expire
+  previousSecrets?: string[];
+}
+
+/**
+ * Signs and verifies the control API's HS256 JWTs: agent tokens, enrollment codes and route capabilities.
+ * Each kind has its own keys and audience. Tokens carry the key ID (`kid`) they were signed with, so a
+ * secret can be rotated while tokens signed with the previous one stay valid. Revocations are kept in a
+ * `TokenRevocationStore`, so they hold across restarts and instances.
+ */
+export class TokenService {
+  private readonly _logger: winston.Logger;
+  private readonly _keyrings = new Map<TokenKind, Keyring>();
+  // Token IDs this instance revoked, with their expiry; refused without waiting for the store
+  private readonly _revokedTokens = new Map<string, number>();
+
+  constructor(
+    keys: Record<TokenKind, TokenKeyConfig>,
+    private readonly _revocations: TokenRevocationStore,
+    logger: winston.Logger
+  ) {
+    this._logger = logger;
+
+    for (const [kind, config] of Object.entries(keys) as Array<[TokenKind, TokenKeyConfig]>) {
+      const current = config.secret ? toSigningKey(config.secret) : null;
+      const verifying = [...(current ? [current] : []), ...(config.previousSecrets ?? []).filter(Boolean).map(toSigningKey)];
+      this._keyrings.set(kind, { current, keys: new Map(verifying.map((key) => [key.kid, key])) });
+
+      if (!current) {
+        this._logger.warn(`${SECRET_VARIABLES[kind]} is not set, ${kind} tokens cannot be issued`);
+      }
+    }
+  }
+
+  sign<K extends TokenKind>(kind: K, claims: Omit<TokenClaims[K], 'iat' | 'exp'>, ttlSec: number): string {
+    const key = this._keyring(kind).current;
+    if (!key) {
+      throw new Error(`No signing key configured for ${kind} tokens (${SECRET_VARIABLES[kind]})`);
+    }
+
+    const iat = nowSec();
+    const header: TokenHeader = { alg: ALGORITHM, typ: 'JWT', kid: key.kid };
+    const payload = { ...claims, iss: ISSUER, aud: AUDIENCES[kind], jti: ulid(), iat, exp: iat + ttlSec };
+    const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+
+    return `${signingInput}.${signature(key, signingInput).toString('base64url')}`;
+  }
+
+  /**
+   * Verify signature, issuer, audience, lifetime and revocation, and return the claims
+   */
+  async verify<K extends TokenKind>(kind: K, token: string): Promise<TokenClaims[K] & TokenRegisteredClaims> {
+    const claims = this._decode(kind, token);
+    await this._verifyNotRevoked(kind, claims);
+    return claims;
+  }
+
+  /**
+   * Reject a valid token from now on, e.g. a used enrollment code or a renewed agent token
+   */
+  async revoke(kind: TokenKind, token: string): Promise<void> {
+    const { jti, exp } = await this.verify(kind, token);
+    this._revokedTokens.set(jti, exp);
+    this._pruneRevoked();
+    await this._revocations.revokeToken(jti, new Date(exp * MS_PER_SECOND));
+    this._logger.info(`Revoked ${kind} token ${jti}`);
+  }
+
+  /**
+   * Verify a single-use token, e.g. an enrollment code, and revoke it in one step. Of concurrent claims of a
+   * token only the first succeeds, on this instance or another.
+   */
+  async claim<K extends TokenKind>(kind: K, token: string): Promise<TokenClaims[K] & TokenRegisteredClaims> {
+    const claims = this._decode(kind, token);
+    // Marked before anything is awaited, so a concurrent claim on this instance is refused
+    if (this._revokedTokens.has(claims.jti)) {
+      throw new Error(`Invalid ${kind} token: revoked`);
+    }
+    this._revokedTokens.set(claims.jti, claims.exp);
+    this._pruneRevoked();
+
+    // The store refuses a token revoked already, also by another instance
+    if (!await this._revocations.revokeToken(claims.jti, new Date(claims.exp * MS_PER_SECOND))) {
+      throw new Error(`Invalid ${kind} token: revoked`);
+    }
+    this._logger.info(`Claimed ${kind} token ${claims.jti}`);
+    return claims;
+  }
+
+  /**
+   * Reject every agent token issued to an agent so far
+   */
+  async revokeAgent(agentId: string): Promise<void> {
+    await this._revocations.revokeAgentTokens(agentId, new Date(nowSec() * MS_PER_SECOND));
+    this._logger.info(`Revoked tokens of agent ${agentId}`);
+  }
+
+  // Signature, issuer, audience and lifetime
+  private _decode<K extends TokenKind>(kind: K, token: string): TokenClaims[K] & TokenRegisteredClaims {
+    const segments = token.split('.');
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    if (segments.length !== TOKEN_SEGMENTS || !encodedHeader || !encodedPayload || !encodedSignature) {
+      throw new Error(`Invalid ${kind} token: malformed`);
+    }
+
+    let header: TokenHeader;
+    let claims: TokenClaims[K] & TokenRegisteredClaims;
+    try {
+      header = decodeSegment<TokenHeader>(encodedHeader);
+      claims = decodeSegment<TokenClaims[K] & TokenRegisteredClaims>(encodedPayload);
+    } catch {
+      throw new Error(`Invalid ${kind} token: malformed`);
+    }
+
+    if (header.alg !== ALGORITHM) {
+      throw new Error(`Invalid ${kind} token: unsupported algorithm ${String(header.alg)}`);
+    }
+    const key = this._keyring(kind).keys.get(header.kid);
+    if (!key) {
+      throw new Error(`Invalid ${kind} token: unknown key ${String(header.kid)}`);
+    }
+
+    const expected = signature(key, `${encodedHeader}.${encodedPayload}`);
+    const actual = Buffer.from(encodedSignature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new Error(`Invalid ${kind} token: bad signature`);
+    }
+
+    this._verifyClaims(kind, claims);
+    return claims;
+  }
+
+  private _verifyClaims<K extends TokenKind>(kind: K, claims: TokenClaims[K] & TokenRegisteredClaims): void {
+    const now = nowSec();
+
+    if (claims.iss !== ISSUER || claims.aud !== AUDIENCES[kind]) {
+      throw new Error(`Invalid ${kind} token: wrong issuer or audience`);
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SEC <= now) {
+      throw new Error(`Invalid ${kind} token: expired`);
+    }
+    if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SEC > now) {
+      throw new Error(`Invalid ${kind} token: issued in the future`);
+    }
+  }
+
+  private async _verifyNotRevoked<K extends TokenKind>(kind: K, claims: TokenClaims[K] & TokenRegisteredClaims): Promise<void> {
+    if (this._revokedTokens.has(claims.jti) || await this._revocations.isTokenRevoked(claims.jti)) {
+      throw new Error(`Invalid ${kind} token: revoked`);
+    }
+
+    const agentRevokedAt = 'agentId' in claims && kind === 'agent'
+      ? await this._revocations.getAgentTokensRevokedAt(claims.agentId)
+      : null;
+    if (agentRevokedAt && claims.iat * MS_PER_SECOND <= agentRevokedAt.getTime()) {
+      throw new Error(`Invalid ${kind} token: revoked`);
+    }
+  }
+
+  private _keyring(kind: TokenKind): Keyring {
+    const keyring = this._keyrings.get(kind);
+    if (!keyring) {
+      throw new Error(`No keys configured for ${kind} tokens`);
+    }
+    return keyring;
+  }
+
+  private _pruneRevoked(): void {
+    const now = nowSec();
+    for (const [jti, exp] of this._revokedTokens) {
+      if (exp + CLOCK_SKEW_SEC <= now) {
+        this._revokedTokens.delete(jti);
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { createServer } from 'http';
+
+import { io as Client } from 'socket.io-client';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createMockLogger } from '../../test/utils/test-helpers.js';
+
+import { registerSocketIO } from './websocket.gateway.js';
+import { WebSocketService } from './websocket.service.js';
+
+import type { GatewayServices } from './websocket.gateway.js';
+import type { AgentRegistryService } from '../agents/agent-registry.service.js';
+import type { AgentsService } from '../agents/agents.service.js';
+import type { WebSocketMessage } from '../common/types/index.js';
+import type { TokenService } from '../tokens/token.service.js';
+import type { FastifyInstance } from 'fastify';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Socket as ClientSocket } from 'socket.io-client';
+
+const REQUEST_TIMEOUT_MS = 2000;
+
+describe('registerSocketIO', () => {
+  let httpServer: Server;
+  let webSocketService: WebSocketService;
+  let client: ClientSocket;
+
+  async function connect(): Promise<ClientSocket> {
+    const { port } = httpServer.address() as AddressInfo;
+    const socket = Client(`http://127.0.0.1:${port}`, { path: '/socket.io/', transports: ['websocket'] });
+    await new Promise<void>((resolve) => socket.once('connect', resolve));
+    return socket;
+  }
+
+  async function authenticate(socket: ClientSocket): Promise<void> {
+    const authenticated = new Promise<void>((resolve) => {
+      socket.once('auth_ok', () => {
+        resolve();
+      });
+    });
+    socket.emit('auth', { agentId: 'agent-1', runtimeId: 'runtime-1', token: 'agent-jwt' });
+    await authenticated;
+  }
+
+  beforeEach(async () => {
+    httpServer = createServer();
+    webSocketService = new WebSocketService({} as TokenService, createMockLogger(), { requestTimeoutMs: REQUEST_TIMEOUT_MS });
+    vi.spyOn(webSocketService, 'validateAgentToken').mockResolvedValue(true);
+    const services: GatewayServices = {
+      agentsService: {} as AgentsService,
+      agentRegistryService: {
+        markOnline: vi.fn().mockResolvedValue({}),
+        markOffline: vi.fn().mockResolvedValue(undefined),
+        recordHeartbeat: vi.fn().mockResolvedValue(undefined),
+      } as unknown as AgentRegistryService,
+      webSocketService,
+    };
+
+    await registerSocketIO({ server: httpServer } as FastifyInstance, services, createMockLogger());
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should fail the request a command_error answers', async () => {
+    client.on('start_channel', (message: WebSocketMessage) => {
+      client.emit('command_error', {
+        type: 'command_error',
+        requestId: message.requestId,
+        payload: { code: 'NOT_DEPLOYED', message: 'channel-1 is not deployed' },
+      });
+    });
+    await authenticate(client);
+
+    const reply = webSocketService.request('agent-1', 'runtime-1', { type: 'start_channel', payload: { channelId: 'channel-1' } });
+
+    await expect(reply).rejects.toThrow('Agent agent-1@runtime-1 failed start_channel: channel-1 is not deployed');
+  });
+
+  it('should ignore command errors from unauthenticated sockets and malformed ones', async () => {
+    const handleError = vi.spyOn(webSocketService, 'handleError');
+    const other = await connect();
+
+    other.emit('command_error', { type: 'command_error', requestId: 'request-1', payload: { message: 'spoofed' } });
+    await authenticate(client);
+    client.emit('command_error', 'not a message');
+    client.emit('command_error', { type: 'command_error', requestId: 'request-2', payload: { message: 'unknown request' } });
+    await vi.waitFor(() => {
+      expect(handleError).toHaveBeenCalledTimes(1);
+    });
+
+    expect(handleError).toHaveBeenCalledWith('agent-1', 'runtime-1', expect.objectContaining({ requestId: 'request-2' }));
+    other.disconnect();
+  });
+});
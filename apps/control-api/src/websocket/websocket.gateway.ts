@@ -0,0 +1,174 @@
+import { Server } from 'socket.io';
+
+import type { WebSocketService } from './websocket.service.js';
+import type { AgentRegistryService } from '../agents/agent-registry.service.js';
+import type { AgentsService } from '../agents/agents.service.js';
+import type { AgentEnrollRequestBody } from '../common/dto/index.js';
+import type { WebSocketMessage } from '../common/types/index.js';
+import type { FastifyInstance } from 'fastify';
+import type * as winston from 'winston';
+
+interface AgentAuthMessage {
+  agentId: string;
+  runtimeId: string;
+  token: string;
+}
+
+// Socket.IO passes on whatever an agent emitted; anything but an object is not a message
+function isMessage(data: unknown): data is WebSocketMessage {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
+
+// An `auth` message names the agent and carries its JWT, all as strings
+function isAuthMessage(data: unknown): data is AgentAuthMessage {
+  if (!isMessage(data)) {
+    return false;
+  }
+  const { agentId, runtimeId, token } = data as unknown as Record<string, unknown>;
+  return typeof agentId === 'string' && typeof runtimeId === 'string' && typeof token === 'string';
+}
+
+export interface GatewayServices {
+  agentsService: AgentsService;
+  agentRegistryService: AgentRegistryService;
+  webSocketService: WebSocketService;
+}
+
+/**
+ * Socket.IO endpoint agents connect to. An agent authenticates with its JWT (`auth`) before its heartbeats,
+ * deploy results and command replies are accepted.
+ */
+export async function registerSocketIO(server: FastifyInstance, services: GatewayServices, logger: winston.Logger): Promise<void> {
+  await Promise.resolve(); // Placeholder for future async operations
+  
+  const io = new Server(server.server, {
+    cors: {
+      origin: process.env['NODE_ENV'] === 'production' ? false : true,
+      credentials: true
+    },
+    path: '/socket.io/'
+  });
+
+  io.on('connection', (socket) => {
+    logger.info(`WebSocket client connected: ${socket.id}`);
+
+    socket.on('enroll', async (data: AgentEnrollRequestBody) => {
+      logger.info('Agent enrollment request', { socketId: socket.id, runtimeId: data.runtimeId });
+      try {
+        const result = await services.agentsService.enroll(data);
+        socket.emit('enroll_result', result);
+      } catch (error) {
+        logger.error('Agent enrollment failed', error);
+        socket.emit('enroll_error', { error: 'Enrollment failed' });
+      }
+    });
+
+    // Set once the agent authenticates with its JWT; heartbeats and results are attributed to it
+    let agent: { agentId: string; runtimeId: string } | null = null;
+
+    socket.on('auth', async (data: unknown) => {
+      if (!isAuthMessage(data)) {
+        logger.warn('Rejecting malformed auth message', { socketId: socket.id });
+        socket.emit('auth_error', { error: 'Malformed auth message' });
+        socket.disconnect(true);
+        return;
+      }
+
+      try {
+        const valid = await services.webSocketService.validateAgentToken(data.token, data.agentId, data.runtimeId);
+        if (!valid) {
+          socket.emit('auth_error', { error: 'Invalid agent token' });
+          socket.disconnect(true);
+          return;
+        }
+
+        // Rejects unknown and decommissioned agents
+        await services.agentRegistryService.markOnline(data.agentId, data.runtimeId);
+        services.webSocketService.registerAgent(socket, data.agentId, data.runtimeId);
+        agent = { agentId: data.agentId, runtimeId: data.runtimeId };
+        socket.emit('auth_ok', agent);
+      } catch (error) {
+        logger.error('Agent authentication failed', error);
+        socket.emit('auth_error', { error: 'Authentication failed' });
+        socket.disconnect(true);
+      }
+    });
+
+    socket.on('heartbeat', async (data: Record<string, unknown>) => {
+      if (!agent) {
+        logger.warn('Ignoring heartbeat from unauthenticated socket', { socketId: socket.id });
+        return;
+      }
+      logger.debug('Agent heartbeat', { socketId: socket.id, agentId: agent.agentId });
+      try {
+        services.webSocketService.handleHeartbeat(agent.agentId, agent.runtimeId, data);
+        await services.agentRegistryService.recordHeartbeat(agent.agentId, agent.runtimeId, data);
+      } catch (error) {
+        logger.error('Heartbeat processing failed', error);
+      }
+    });
+
+    socket.on('deploy_result', (message: WebSocketMessage) => {
+      if (!agent) {
+        logger.warn('Ignoring deploy result from unauthenticated socket', { socketId: socket.id });
+        return;
+      }
+      try {
+        services.webSocketService.handleDeployResult(agent.agentId, agent.runtimeId, message);
+      } catch (error) {
+        logger.error('Deploy result processing failed', error);
+      }
+    });
+
+    // Replies to commands sent with WebSocketService.request
+    const onReply = (message: unknown): void => {
+      if (!agent) {
+        logger.warn('Ignoring reply from unauthenticated socket', { socketId: socket.id });
+        return;
+      }
+      if (!isMessage(message)) {
+        logger.warn('Ignoring malformed reply', { socketId: socket.id, agentId: agent.agentId });
+        return;
+      }
+      try {
+        services.webSocketService.handleReply(agent.agentId, agent.runtimeId, message);
+      } catch (error) {
+        logger.error('Reply processing failed', error);
+      }
+    };
+    socket.on('ack', onReply);
+    socket.on('status', onReply);
+
+    socket.on('command_error', (message: unknown) => {
+      if (!agent) {
+        logger.warn('Ignoring command error from unauthenticated socket', { socketId: socket.id });
+        return;
+      }
+      if (!isMessage(message)) {
+        logger.warn('Ignoring malformed command error', { socketId: socket.id, agentId: agent.agentId });
+        return;
+      }
+      try {
+        services.webSocketService.handleError(agent.agentId, agent.runtimeId, message);
+      } catch (error) {
+        logger.error('Command error processing failed', error);
+      }
+    });
+
+    socket.on('disconnect', async () => {
+      logger.info(`WebSocket client disconnected: ${socket.id}`);
+      if (agent) {
+        try {
+          // A socket replaced by a reconnect must not mark the agent OFFLINE
+          if (services.webSocketService.unregisterAgent(socket, agent.agentId, agent.runtimeId)) {
+            await services.agentRegistryService.markOffline(agent.agentId, agent.runtimeId);
+          }
+        } catch (error) {
+          logger.error('Agent unregistration failed', error);
+        }
+      }
+    });
+  });
+
+  logger.info('Socket.IO server initialized');
+}
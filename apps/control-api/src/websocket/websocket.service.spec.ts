@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createMockLogger } from '../../test/utils/test-helpers.js';
+
+import { AgentNotConnectedError, AgentTimeoutError, WebSocketService } from './websocket.service.js';
+
+import type { WebSocketMessage } from '../common/types/index.js';
+import type { TokenService } from '../tokens/token.service.js';
+import type { Socket } from 'socket.io';
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+describe('WebSocketService', () => {
+  let service: WebSocketService;
+  // Commands as the agent received them
+  let sent: WebSocketMessage[];
+  let socket: { emit: ReturnType<typeof vi.fn>; disconnect: ReturnType<typeof vi.fn> };
+
+  function lastRequestId(): string {
+    return sent.at(-1)?.requestId ?? '';
+  }
+
+  beforeEach(() => {
+    sent = [];
+    socket = {
+      emit: vi.fn().mockImplementation((_type: string, message: WebSocketMessage) => {
+        sent.push(message);
+      }),
+      disconnect: vi.fn(),
+    };
+    service = new WebSocketService({} as TokenService, createMockLogger(), { requestTimeoutMs: REQUEST_TIMEOUT_MS });
+    service.registerAgent(socket as unknown as Socket, 'agent-1', 'runtime-1');
+  });
+
+  describe('request', () => {
+    it('should resolve with the reply that carries the request ID', async () => {
+      const reply = service.request('agent-1', 'runtime-1', { type: 'get_status', payload: { channelId: 'channel-1' } });
+
+      expect(socket.emit).toHaveBeenCalledWith('get_status', expect.objectContaining({
+        type: 'get_status',
+        requestId: expect.any(String),
+        payload: { runtimeId: 'runtime-1', channelId: 'channel-1' },
+      }));
+
+      const channels = [{ channelId: 'channel-1', state: 'running' }];
+      service.handleReply('agent-1', 'runtime-1', { type: 'status', requestId: 'other-request', payload: { channels: [] } });
+      service.handleReply('agent-1', 'runtime-1', { type: 'ack', requestId: lastRequestId(), payload: { ok: true } });
+      service.handleReply('agent-1', 'runtime-1', { type: 'status', requestId: lastRequestId(), payload: { channels } });
+
+      await expect(reply).resolves.toEqual({ channels });
+    });
+
+    it('should correlate deploy results and ignore replies from other agents', async () => {
+      const reply = service.request('agent-1', 'runtime-1', { type: 'deploy', payload: { deployId: 'deploy-1' } });
+      const requestId = lastRequestId();
+
+      service.handleDeployResult('agent-2', 'runtime-1', { type: 'deploy_result', requestId, payload: { status: 'FAILED' } });
+      service.handleDeployResult('agent-1', 'runtime-1', { type: 'deploy_result', requestId, payload: { status: 'DEPLOYED' } });
+
+      await expect(reply).resolves.toEqual({ status: 'DEPLOYED' });
+    });
+
+    it('should reject when the agent does not answer in time', async () => {
+      const reply = service.request('agent-1', 'runtime-1', {
+        type: 'stop_channel',
+        payload: { channelId: 'channel-1' },
+        timeoutMs: 10,
+      });
+
+      await expect(reply).rejects.toThrow(AgentTimeoutError);
+      await expect(reply).rejects.toThrow('Agent agent-1@runtime-1 did not answer stop_channel within 10ms');
+    });
+
+    it('should reject pending requests when the agent disconnects', async () => {
+      const reply = service.request('agent-1', 'runtime-1', { type: 'start_channel', payload: { channelId: 'channel-1' } });
+      const assertion = expect(reply).rejects.toThrow('Agent agent-1@runtime-1 disconnected before answering start_channel');
+
+      expect(service.unregisterAgent(socket as unknown as Socket, 'agent-1', 'runtime-1')).toBe(true);
+
+      await assertion;
+    });
+
+    it('should keep an agent that reconnected registered when its old socket closes', async () => {
+      const reconnected = { emit: vi.fn(), disconnect: vi.fn() };
+      service.registerAgent(reconnected as unknown as Socket, 'agent-1', 'runtime-1');
+      const reply = service.request('agent-1', 'runtime-1', { type: 'get_status', payload: {} });
+      const requestId = (reconnected.emit.mock.calls[0]?.[1] as WebSocketMessage).requestId ?? '';
+
+      expect(service.unregisterAgent(socket as unknown as Socket, 'agent-1', 'runtime-1')).toBe(false);
+      service.handleReply('agent-1', 'runtime-1', { type: 'status', requestId, payload: { channels: [] } });
+
+      await expect(reply).resolves.toEqual({ channels: [] });
+      expect(await service.isAgentConnected('agent-1', 'runtime-1')).toBe(true);
+    });
+
+    it('should reject when the agent answers with an error', async () => {
+      const reply = service.request('agent-1', 'runtime-1', { type: 'start_channel', payload: { channelId: 'channel-1' } });
+
+      service.handleError('agent-1', 'runtime-1', {
+        type: 'command_error',
+        requestId: lastRequestId(),
+        payload: { code: 'NOT_DEPLOYED', message: 'channel-1 is not deployed' },
+      });
+
+      await expect(reply).rejects.toThrow('Agent agent-1@runtime-1 failed start_channel: channel-1 is not deployed');
+    });
+
+    it('should refuse agents that are not connected', async () => {
+      const reply = service.request('agent-2', 'runtime-1', { type: 'get_status', payload: {} });
+
+      await expect(reply).rejects.toThrow(AgentNotConnectedError);
+      await expect(reply).rejects.toThrow('Agent agent-2@runtime-1 is not connected');
+    });
+  });
+});
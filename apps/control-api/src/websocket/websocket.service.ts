@@ -1,27 +1,89 @@
-import type { WebSocketMessage } from '../common/types/index.js';
+import { EventEmitter } from 'events';
+import { clearTimeout, setTimeout } from 'timers';
+
+import { ulid } from 'ulid';
+
+import type {
+  AgentCommandReply,
+  AgentCommandType,
+  AgentMessageEvent,
+  WebSocketMessage,
+  WebSocketMessageType,
+} from '../common/types/index.js';
+import type { TokenService } from '../tokens/token.service.js';
 import type { Socket } from 'socket.io';
 import type * as winston from 'winston';
 
+// A command sent with request() that is waiting for the agent's reply
+interface PendingRequest {
+  agentKey: string;
+  type: AgentCommandType;
+  resolve: (payload: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_OPTIONS: WebSocketOptions = { requestTimeoutMs: 10_000 };
+
+// Message type a command is answered with
+function replyTypeOf(command: AgentCommandType): WebSocketMessageType {
+  switch (command) {
+    case 'deploy':
+      return 'deploy_result';
+    case 'get_status':
+      return 'status';
+    case 'stop_channel':
+    case 'start_channel':
+      return 'ack';
+  }
+}
+
+/**
+ * A command was sent for an agent that is not connected
+ */
+export class AgentNotConnectedError extends Error {
+  override readonly name = 'AgentNotConnectedError';
+}
+
+/**
+ * An agent did not answer a command within its timeout
+ */
+export class AgentTimeoutError extends Error {
+  override readonly name = 'AgentTimeoutError';
+}
+
+export interface WebSocketOptions {
+  // How long request() waits for a reply unless the caller sets a timeout
+  requestTimeoutMs: number;
+}
 
 export class WebSocketService {
   private readonly _logger: winston.Logger;
   private readonly _connectedAgents = new Map<string, Socket>();
+  private readonly _events = new EventEmitter();
+  // X25519 device keys reported in heartbeats, used to seal deploy secrets
+  private readonly _deviceKeys = new Map<string, string>();
+  // Requests awaiting a reply, by requestId
+  private readonly _pendingRequests = new Map<string, PendingRequest>();
 
-  constructor(logger: winston.Logger) {
+  constructor(
+    private readonly _tokenService: TokenService,
+    logger: winston.Logger,
+    private readonly _options: WebSocketOptions = DEFAULT_OPTIONS
+  ) {
     this._logger = logger;
   }
 
   async validateAgentToken(token: string, agentId: string, runtimeId: string): Promise<boolean> {
     try {
-      // TODO: Implement JWT validation
-      // 1. Verify JWT signature
-      // 2. Check expiration
-      // 3. Validate agentId and runtimeId claims
-      // 4. Check if agent is still active
-      await Promise.resolve(); // Placeholder for future async operations
-      
-      this._logger.debug(`Validating token for agent ${agentId}@${runtimeId}`);
-      return true; // Mock validation for now
+      // Tokens of decommissioned agents are revoked; the gateway also checks the registry record (markOnline)
+      const claims = await this._tokenService.verify('agent', token);
+      if (claims.agentId !== agentId || claims.runtimeId !== runtimeId) {
+        throw new Error(`Token was issued for agent ${claims.agentId}@${claims.runtimeId}`);
+      }
+
+      this._logger.debug(`Validated token for agent ${agentId}@${runtimeId}`);
+      return true;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this._logger.error('Token validation failed', { error: errorMessage, agentId, runtimeId });
@@ -29,13 +91,12 @@ export class WebSocketService {
     }
   }
 
-  async registerAgent(client: Socket, agentId: string, runtimeId: string): Promise<void> {
+  registerAgent(client: Socket, agentId: string, runtimeId: string): void {
     try {
       const key = `${agentId}@${runtimeId}`;
       this._connectedAgents.set(key, client);
       
-      // TODO: Update agent status in database to ONLINE
-      await Promise.resolve(); // Placeholder for future async operations
+      // The agent record is set ONLINE by the AgentRegistryService when the agent authenticates
       this._logger.info(`Registered agent ${key}`);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -44,14 +105,24 @@ export class WebSocketService {
     }
   }
 
-  async unregisterAgent(client: Socket, agentId: string, runtimeId: string): Promise<void> {
+  /**
+   * Forget an agent's socket when it closes; returns false when the agent has reconnected on another socket
+   * since, which stays registered
+   */
+  unregisterAgent(client: Socket, agentId: string, runtimeId: string): boolean {
     try {
       const key = `${agentId}@${runtimeId}`;
+      if (this._connectedAgents.get(key) !== client) {
+        this._logger.debug(`Ignoring close of a replaced socket of agent ${key}`);
+        return false;
+      }
+
       this._connectedAgents.delete(key);
+      this._rejectPending(key, 'disconnected');
       
-      // TODO: Update agent status in database to OFFLINE
-      await Promise.resolve(); // Placeholder for future async operations
+      // The agent record is set OFFLINE by the AgentRegistryService
       this._logger.info(`Unregistered agent ${key}`);
+      return true;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this._logger.error('Agent unregistration failed', { error: errorMessage, agentId, runtimeId });
@@ -59,13 +130,13 @@ export class WebSocketService {
     }
   }
 
-  async handleHeartbeat(agentId: string, runtimeId: string, payload: Record<string, unknown>): Promise<void> {
+  handleHeartbeat(agentId: string, runtimeId: string, payload: Record<string, unknown>): void {
     try {
-      // TODO: Process heartbeat data
-      // 1. Update last heartbeat timestamp
-      // 2. Update agent status and channel states
-      // 3. Store health metrics
-      await Promise.resolve(); // Placeholder for future async operations
+      // Agent records (last heartbeat, version, channels) are updated by the AgentRegistryService
+      if (typeof payload['devicePublicKey'] === 'string') {
+        this._deviceKeys.set(`${agentId}@${runtimeId}`, payload['devicePublicKey']);
+      }
+      this._emit(agentId, runtimeId, { type: 'heartbeat', payload });
       
       this._logger.debug(`Processed heartbeat from ${agentId}@${runtimeId}`, {
         version: payload['version'],
@@ -99,13 +170,11 @@ export class WebSocketService {
     }
   }
 
-  async handleDeployResult(agentId: string, runtimeId: string, message: WebSocketMessage): Promise<void> {
+  handleDeployResult(agentId: string, runtimeId: string, message: WebSocketMessage): void {
     try {
-      // TODO: Process deployment results
-      // 1. Update deployment status in database
-      // 2. Store deployment metadata
-      // 3. Broadcast results to Editor via /api/broadcast
-      await Promise.resolve(); // Placeholder for future async operations
+      // Deployment records are updated by the DeploymentsService waiting for this result
+      this._emit(agentId, runtimeId, message);
+      this._settle(agentId, runtimeId, message);
       
       this._logger.info(`Processed deploy result from ${agentId}@${runtimeId}`, {
         requestId: message.requestId,
@@ -178,14 +247,26 @@ export class WebSocketService {
     }
   }
 
-  async handleError(agentId: string, runtimeId: string, message: WebSocketMessage): Promise<void> {
+  /**
+   * Handle an `ack` or `status` reply to a command sent with request()
+   */
+  handleReply(agentId: string, runtimeId: string, message: WebSocketMessage): void {
+    this._emit(agentId, runtimeId, message);
+
+    if (!this._settle(agentId, runtimeId, message)) {
+      this._logger.debug(`Ignoring uncorrelated ${message.type} from ${agentId}@${runtimeId}`, {
+        requestId: message.requestId,
+      });
+    }
+  }
+
+  /**
+   * Handle a `command_error`; one answering a command sent with request() fails that request
+   */
+  handleError(agentId: string, runtimeId: string, message: WebSocketMessage): void {
     try {
-      // TODO: Process error reports
-      // 1. Log error details
-      // 2. Update relevant status records
-      // 3. Broadcast error to Editor if needed
-      await Promise.resolve(); // Placeholder for future async operations
-      
+      this._settle(agentId, runtimeId, message);
+
       this._logger.error(`Error from ${agentId}@${runtimeId}`, {
         requestId: message.requestId,
         code: message.payload?.code,
@@ -219,12 +300,49 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Send a command and wait for the agent's reply with the same requestId. Rejects when the agent is not
+   * connected, answers with an `error`, disconnects or does not answer within the timeout.
+   */
+  async request<C extends AgentCommandType>(
+    agentId: string,
+    runtimeId: string,
+    command: { type: C; payload: Record<string, unknown>; timeoutMs?: number }
+  ): Promise<AgentCommandReply<C>> {
+    const agentKey = `${agentId}@${runtimeId}`;
+    const client = this._connectedAgents.get(agentKey);
+    if (!client) {
+      throw new AgentNotConnectedError(`Agent ${agentKey} is not connected`);
+    }
+
+    const requestId = ulid();
+    const timeoutMs = command.timeoutMs ?? this._options.requestTimeoutMs;
+    const message: WebSocketMessage = {
+      type: command.type,
+      requestId,
+      payload: { runtimeId, ...command.payload },
+      timestamp: new Date().toISOString(),
+    };
+
+    const reply = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._pendingRequests.delete(requestId);
+        reject(new AgentTimeoutError(`Agent ${agentKey} did not answer ${command.type} within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this._pendingRequests.set(requestId, { agentKey, type: command.type, resolve, reject, timer });
+    });
+
+    client.emit(command.type, message);
+    this._logger.debug(`Sent ${command.type} to ${agentKey}, awaiting ${replyTypeOf(command.type)}`, { requestId });
+    return await reply as AgentCommandReply<C>;
+  }
+
   // Helper methods for sending specific command types
   async sendDeployCommand(
     agentId: string,
     runtimeId: string,
     deploymentId: string,
-    deploymentData: { bundle: Record<string, unknown>; strategy: Record<string, unknown> }
+    deploymentData: { bundle: Record<string, unknown>; strategy: Record<string, unknown>; secretPayload?: Uint8Array }
   ): Promise<boolean> {
     const message: WebSocketMessage = {
       type: 'deploy',
@@ -234,6 +352,8 @@ export class WebSocketService {
         runtimeId,
         bundle: deploymentData.bundle,
         strategy: deploymentData.strategy,
+        // Resolved secrets sealed for the agent's device key (see SecretsService.createSecretPayload)
+        ...(deploymentData.secretPayload ? { secretPayload: deploymentData.secretPayload } : {}),
       },
       timestamp: new Date().toISOString(),
     };
@@ -286,6 +406,45 @@ export class WebSocketService {
     return await this.sendToAgent(agentId, runtimeId, message);
   }
 
+  /**
+   * Listen for messages of one type from any agent; returns a function that removes the listener
+   */
+  onAgentMessage(type: WebSocketMessageType, listener: (event: AgentMessageEvent) => void): () => void {
+    this._events.on(type, listener);
+    return () => {
+      this._events.off(type, listener);
+    };
+  }
+
+  /**
+   * Close an agent's connection, e.g. when it is decommissioned; returns false if it was not connected
+   */
+  disconnectAgent(agentId: string, runtimeId: string): boolean {
+    const key = `${agentId}@${runtimeId}`;
+    const client = this._connectedAgents.get(key);
+    if (!client) {
+      return false;
+    }
+
+    this._connectedAgents.delete(key);
+    this._deviceKeys.delete(key);
+    this._rejectPending(key, 'was disconnected');
+    client.disconnect(true);
+    this._logger.info(`Disconnected agent ${key}`);
+    return true;
+  }
+
+  // IDs of the agents connected for a runtime
+  getRuntimeAgents(runtimeId: string): string[] {
+    return Array.from(this._connectedAgents.keys())
+      .filter((key) => key.endsWith(`@${runtimeId}`))
+      .map((key) => key.slice(0, key.length - runtimeId.length - 1));
+  }
+
+  getDevicePublicKey(agentId: string, runtimeId: string): string | undefined {
+    return this._deviceKeys.get(`${agentId}@${runtimeId}`);
+  }
+
   async getConnectedAgents(): Promise<string[]> {
     try {
       await Promise.resolve(); // Placeholder for future async operations
@@ -308,4 +467,37 @@ export class WebSocketService {
       return false;
     }
   }
+
+  private _emit(agentId: string, runtimeId: string, message: WebSocketMessage): void {
+    const event: AgentMessageEvent = { agentId, runtimeId, message };
+    this._events.emit(message.type, event);
+  }
+
+  // Resolve or, for a `command_error`, reject the request a reply answers; false if it answers none
+  private _settle(agentId: string, runtimeId: string, message: WebSocketMessage): boolean {
+    const pending = message.requestId ? this._pendingRequests.get(message.requestId) : undefined;
+    const isError = message.type === 'command_error';
+    if (!pending || pending.agentKey !== `${agentId}@${runtimeId}` || (!isError && replyTypeOf(pending.type) !== message.type)) {
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    this._pendingRequests.delete(message.requestId ?? '');
+    if (isError) {
+      pending.reject(new Error(`Agent ${pending.agentKey} failed ${pending.type}: ${String(message.payload?.message ?? 'unknown error')}`));
+    } else {
+      pending.resolve(message.payload ?? {});
+    }
+    return true;
+  }
+
+  private _rejectPending(agentKey: string, reason: string): void {
+    for (const [requestId, pending] of this._pendingRequests) {
+      if (pending.agentKey === agentKey) {
+        clearTimeout(pending.timer);
+        this._pendingRequests.delete(requestId);
+        pending.reject(new Error(`Agent ${agentKey} ${reason} before answering ${pending.type}`));
+      }
+    }
+  }
 }
\ No newline at end of file
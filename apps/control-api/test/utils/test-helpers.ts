@@ -6,6 +6,7 @@ import fastify from 'fastify';
 import { ulid } from 'ulid';
 import { vi, expect } from 'vitest';
 
+import type { TokenRevocationStore } from '../../src/tokens/token.service.js';
 import type { FastifyInstance } from 'fastify';
 import type * as winston from 'winston';
 
@@ -78,6 +79,27 @@ export function createMockLogger(): winston.Logger {
   } as any;
 }
 
+/**
+ * Creates an in-memory token revocation store for testing
+ */
+export function createMockRevocationStore(): TokenRevocationStore {
+  const revokedTokens = new Set<string>();
+  const revokedAgents = new Map<string, Date>();
+
+  return {
+    revokeToken: vi.fn().mockImplementation(async (tokenId: string) => {
+      const added = !revokedTokens.has(tokenId);
+      revokedTokens.add(tokenId);
+      return added;
+    }),
+    isTokenRevoked: vi.fn().mockImplementation(async (tokenId: string) => revokedTokens.has(tokenId)),
+    revokeAgentTokens: vi.fn().mockImplementation(async (agentId: string, issuedUpTo: Date) => {
+      revokedAgents.set(agentId, issuedUpTo);
+    }),
+    getAgentTokensRevokedAt: vi.fn().mockImplementation(async (agentId: string) => revokedAgents.get(agentId) ?? null),
+  };
+}
+
 /**
  * Creates a test Fastify server instance
  */
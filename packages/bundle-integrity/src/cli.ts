@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+// packages/bundle-integrity/src/cli.ts
+// gj-verify-bundle <bundle> [--merkle-root <hex>] [--trusted-keys <keys.json>] [--json]
+//
+// Exit codes: 0 = bundle intact, 1 = verification failed, 2 = usage or read error
+
+import { readFile } from 'fs/promises';
+
+import { extractAndVerifyBundle } from './verify.js';
+
+import type { TrustedKey } from './signature.js';
+import type { BundleVerificationResult, VerifyOptions } from './verify.js';
+
+const USAGE = 'Usage: gj-verify-bundle <bundle> [--merkle-root <hex>] [--trusted-keys <keys.json>] [--json]';
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const STATUS_COLUMN_WIDTH = 10;
+
+interface CliArguments {
+  bundlePath: string;
+  merkleRoot?: string;
+  // JSON file with an array of { keyId, publicKey }
+  trustedKeysPath?: string;
+  json: boolean;
+}
+
+// Options that take a value
+const VALUE_OPTIONS = new Map<string, 'merkleRoot' | 'trustedKeysPath'>([
+  ['--merkle-root', 'merkleRoot'],
+  ['--trusted-keys', 'trustedKeysPath'],
+]);
+
+function parseArguments(argv: string[]): CliArguments | null {
+  let bundlePath: string | undefined;
+  const values: Partial<Record<'merkleRoot' | 'trustedKeysPath', string>> = {};
+  let json = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index] ?? '';
+    const option = VALUE_OPTIONS.get(argument);
+    if (argument === '--json') {
+      json = true;
+    } else if (option) {
+      const value = argv[++index];
+      if (!value) {
+        return null;
+      }
+      values[option] = value;
+    } else if (!argument.startsWith('--') && !bundlePath) {
+      bundlePath = argument;
+    } else {
+      return null;
+    }
+  }
+
+  return bundlePath ? { bundlePath, json, ...values } : null;
+}
+
+function print(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+function printError(line: string): void {
+  process.stderr.write(`${line}\n`);
+}
+
+function printReport(verification: BundleVerificationResult): void {
+  for (const file of verification.files) {
+    print(`${file.status.toUpperCase().padEnd(STATUS_COLUMN_WIDTH)} ${file.path}`);
+  }
+  print(`Merkle root: ${verification.merkleRoot.computed ?? 'n/a'}`);
+  if (verification.signature) {
+    print(`Signature:   ${verification.signature.status}${verification.signature.keyId ? ` (key ${verification.signature.keyId})` : ''}`);
+  }
+  for (const error of verification.errors) {
+    printError(`error: ${error}`);
+  }
+
+  const tampered = verification.tamperedFiles.length > 0 ? verification.tamperedFiles.join(', ') : verification.errors[0] ?? '';
+  print(verification.valid ? 'Bundle verified' : `Bundle verification FAILED: ${tampered}`);
+}
+
+async function main(): Promise<number> {
+  const args = parseArguments(process.argv.slice(2));
+  if (!args) {
+    printError(USAGE);
+    return EXIT_USAGE;
+  }
+
+  let bundle: Buffer;
+  const options: VerifyOptions = args.merkleRoot ? { merkleRoot: args.merkleRoot } : {};
+  try {
+    bundle = await readFile(args.bundlePath);
+    if (args.trustedKeysPath) {
+      options.trustedKeys = JSON.parse(await readFile(args.trustedKeysPath, 'utf8')) as TrustedKey[];
+    }
+  } catch (error: unknown) {
+    printError(`Cannot read input: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_USAGE;
+  }
+
+  const { compression, verification } = await extractAndVerifyBundle(bundle, options);
+  if (args.json) {
+    print(JSON.stringify({ compression, ...verification }, null, 2));
+  } else {
+    print(`Compression: ${compression}`);
+    printReport(verification);
+  }
+
+  return verification.valid ? EXIT_OK : EXIT_FAILED;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    printError(error instanceof Error ? error.message : String(error));
+    process.exitCode = EXIT_USAGE;
+  }
+);
@@ -0,0 +1,104 @@
+// packages/bundle-integrity/src/compression.ts
+// Bundle compression: the tar is stored raw, gzip- or zstd-compressed; readers detect the format from its magic bytes
+
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+import { compress as zstdCompress, decompress as zstdDecompress, init as initZstd } from '@bokuweb/zstd-wasm';
+
+type CompressionFormat = 'gzip' | 'zstd' | 'none';
+
+const COMPRESSION_FORMATS: readonly CompressionFormat[] = ['gzip', 'zstd', 'none'];
+const GZIP_MAGIC = Buffer.from('1f8b', 'hex');
+const ZSTD_MAGIC = Buffer.from('28b52ffd', 'hex');
+const ZSTD_LEVEL = 19;
+
+const FILE_EXTENSIONS: Record<CompressionFormat, string> = {
+  gzip: '.tar.gz',
+  zstd: '.tar.zst',
+  none: '.tar',
+};
+
+const CONTENT_TYPES: Record<CompressionFormat, string> = {
+  gzip: 'application/gzip',
+  zstd: 'application/zstd',
+  none: 'application/x-tar',
+};
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// The zstd WebAssembly module is instantiated once, on first use
+let zstdReady: Promise<void> | null = null;
+
+async function loadZstd(): Promise<void> {
+  zstdReady ??= initZstd();
+  await zstdReady;
+}
+
+function isCompressionFormat(value: unknown): value is CompressionFormat {
+  return COMPRESSION_FORMATS.includes(value as CompressionFormat);
+}
+
+function detectCompression(bundle: Buffer): CompressionFormat {
+  if (bundle.subarray(0, GZIP_MAGIC.length).equals(GZIP_MAGIC)) {
+    return 'gzip';
+  }
+  if (bundle.subarray(0, ZSTD_MAGIC.length).equals(ZSTD_MAGIC)) {
+    return 'zstd';
+  }
+  return 'none';
+}
+
+async function compressBundle(tar: Buffer, format: CompressionFormat): Promise<Buffer> {
+  switch (format) {
+    case 'gzip': {
+      return await gzipAsync(tar);
+    }
+    case 'zstd': {
+      await loadZstd();
+      return Buffer.from(zstdCompress(tar, ZSTD_LEVEL));
+    }
+    case 'none': {
+      return tar;
+    }
+  }
+}
+
+/**
+ * Decompress a bundle in whichever supported format it was written
+ */
+async function decompressBundle(bundle: Buffer): Promise<{ format: CompressionFormat; tar: Buffer }> {
+  const format = detectCompression(bundle);
+  switch (format) {
+    case 'gzip': {
+      return { format, tar: await gunzipAsync(bundle) };
+    }
+    case 'zstd': {
+      await loadZstd();
+      return { format, tar: Buffer.from(zstdDecompress(bundle)) };
+    }
+    case 'none': {
+      return { format, tar: bundle };
+    }
+  }
+}
+
+function bundleFileExtension(format: CompressionFormat): string {
+  return FILE_EXTENSIONS[format];
+}
+
+function bundleContentType(format: CompressionFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export type { CompressionFormat };
+export {
+  COMPRESSION_FORMATS,
+  bundleContentType,
+  bundleFileExtension,
+  compressBundle,
+  decompressBundle,
+  detectCompression,
+  isCompressionFormat,
+};
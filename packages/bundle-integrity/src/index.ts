@@ -0,0 +1,8 @@
+// packages/bundle-integrity/src/index.ts
+// Integrity manifests, signatures and offline verification of GapJunction bundles
+
+export * from './compression.js';
+export * from './integrity.js';
+export * from './signature.js';
+export * from './tar.js';
+export * from './verify.js';
@@ -0,0 +1,56 @@
+// packages/bundle-integrity/src/integrity.ts
+// Integrity manifest of a bundle: the hash of every file and the Merkle root over them
+
+import { createHash } from 'crypto';
+
+import { MerkleTree } from 'merkletreejs';
+
+export const INTEGRITY_FILE = 'integrity.json';
+export const HASH_ALGORITHM = 'sha256';
+
+export interface BundleFile {
+  name: string;
+  content: string | Buffer;
+}
+
+export interface IntegrityEntry {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+/**
+ * Written to `integrity.json` inside the bundle. Files are listed in bundle order,
+ * which is also the leaf order of the Merkle tree.
+ */
+export interface IntegrityManifest {
+  version: 1;
+  algorithm: typeof HASH_ALGORITHM;
+  files: IntegrityEntry[];
+  merkleRoot: string;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash(HASH_ALGORITHM).update(content).digest('hex');
+}
+
+export function computeMerkleRoot(hashes: string[]): string {
+  const leaves = hashes.map((hash) => Buffer.from(hash, 'hex'));
+  const tree = new MerkleTree(leaves, (data: Buffer) => createHash(HASH_ALGORITHM).update(data).digest());
+  return tree.getRoot().toString('hex');
+}
+
+export function createIntegrityManifest(files: BundleFile[]): IntegrityManifest {
+  const entries = files.map((file) => ({
+    path: file.name,
+    hash: hashContent(file.content),
+    size: Buffer.isBuffer(file.content) ? file.content.length : Buffer.byteLength(file.content, 'utf8'),
+  }));
+
+  return {
+    version: 1,
+    algorithm: HASH_ALGORITHM,
+    files: entries,
+    merkleRoot: computeMerkleRoot(entries.map((entry) => entry.hash)),
+  };
+}
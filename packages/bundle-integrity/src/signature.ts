@@ -0,0 +1,171 @@
+// packages/bundle-integrity/src/signature.ts
+// Detached Ed25519 signature over a bundle's Merkle root and manifest, stored as `signature.json`
+
+import { createHash, createPublicKey, sign, verify } from 'crypto';
+
+import { HASH_ALGORITHM, hashContent } from './integrity.js';
+
+import type { KeyObject } from 'crypto';
+
+const SIGNATURE_FILE = 'signature.json';
+const SIGNATURE_ALGORITHM = 'ed25519';
+
+const KEY_ID_LENGTH = 16;
+
+/**
+ * Written to `signature.json` inside the bundle. The signature covers every other field.
+ */
+interface BundleSignature {
+  version: 1;
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  keyId: string;
+  merkleRoot: string;
+  // Hash of manifest.json as stored in the bundle
+  manifestHash: string;
+  // Base64
+  signature: string;
+}
+
+/**
+ * A public key the verifier accepts signatures from. Several keys can be trusted at once,
+ * which is how signing keys are rotated: trust the new key, switch the signer, drop the old key.
+ */
+interface TrustedKey {
+  keyId: string;
+  // SPKI PEM
+  publicKey: string;
+}
+
+interface SigningKey {
+  keyId: string;
+  privateKey: KeyObject;
+}
+
+type SignatureStatus = 'valid' | 'unsigned' | 'untrusted' | 'invalid';
+
+interface SignatureVerification {
+  status: SignatureStatus;
+  keyId: string | null;
+  errors: string[];
+}
+
+/**
+ * Key ID derived from the public key, so the same key always gets the same ID
+ */
+function computeKeyId(publicKey: KeyObject | string): string {
+  const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  return createHash(HASH_ALGORITHM)
+    .update(key.export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .substring(0, KEY_ID_LENGTH);
+}
+
+// Fixed field order, so signer and verifier produce the same bytes
+function signedPayload(fields: Omit<BundleSignature, 'signature'>): Buffer {
+  return Buffer.from(JSON.stringify({
+    version: fields.version,
+    algorithm: fields.algorithm,
+    keyId: fields.keyId,
+    merkleRoot: fields.merkleRoot,
+    manifestHash: fields.manifestHash,
+  }), 'utf8');
+}
+
+function signBundle(merkleRoot: string, manifestContent: string | Buffer, key: SigningKey): BundleSignature {
+  const fields = {
+    version: 1 as const,
+    algorithm: SIGNATURE_ALGORITHM as typeof SIGNATURE_ALGORITHM,
+    keyId: key.keyId,
+    merkleRoot,
+    manifestHash: hashContent(manifestContent),
+  };
+
+  return { ...fields, signature: sign(null, signedPayload(fields), key.privateKey).toString('base64') };
+}
+
+function parseSignature(content: Buffer): BundleSignature {
+  const parsed = JSON.parse(content.toString('utf8')) as Partial<BundleSignature>;
+  if (
+    parsed.version !== 1 ||
+    parsed.algorithm !== SIGNATURE_ALGORITHM ||
+    typeof parsed.keyId !== 'string' ||
+    typeof parsed.merkleRoot !== 'string' ||
+    typeof parsed.manifestHash !== 'string' ||
+    typeof parsed.signature !== 'string'
+  ) {
+    throw new Error(`${SIGNATURE_FILE} is not a valid bundle signature`);
+  }
+  return parsed as BundleSignature;
+}
+
+/**
+ * Errors in a parsed signature made by a trusted key
+ */
+function checkSignature(
+  signature: BundleSignature,
+  trusted: TrustedKey,
+  bundle: { files: Map<string, Buffer>; merkleRoot: string }
+): string[] {
+  const errors: string[] = [];
+  if (signature.merkleRoot !== bundle.merkleRoot) {
+    errors.push(`${SIGNATURE_FILE}: signed Merkle root does not match the bundle`);
+  }
+  const manifest = bundle.files.get('manifest.json');
+  if (!manifest || hashContent(manifest) !== signature.manifestHash) {
+    errors.push(`${SIGNATURE_FILE}: signed manifest hash does not match manifest.json`);
+  }
+
+  const { signature: encoded, ...fields } = signature;
+  try {
+    if (!verify(null, signedPayload(fields), createPublicKey(trusted.publicKey), Buffer.from(encoded, 'base64'))) {
+      errors.push(`${SIGNATURE_FILE}: signature does not verify with key ${signature.keyId}`);
+    }
+  } catch (error: unknown) {
+    errors.push(`${SIGNATURE_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return errors;
+}
+
+/**
+ * Check that `signature.json` was made by a trusted key over this bundle's Merkle root and manifest
+ */
+function verifyBundleSignature(
+  files: Map<string, Buffer>,
+  merkleRoot: string,
+  trustedKeys: TrustedKey[]
+): SignatureVerification {
+  const content = files.get(SIGNATURE_FILE);
+  if (!content) {
+    return { status: 'unsigned', keyId: null, errors: [`Bundle has no ${SIGNATURE_FILE}`] };
+  }
+
+  let signature: BundleSignature;
+  try {
+    signature = parseSignature(content);
+  } catch (error: unknown) {
+    return { status: 'invalid', keyId: null, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const trusted = trustedKeys.find((key) => key.keyId === signature.keyId);
+  if (!trusted) {
+    return { status: 'untrusted', keyId: signature.keyId, errors: [`${SIGNATURE_FILE}: key ${signature.keyId} is not trusted`] };
+  }
+
+  const errors = checkSignature(signature, trusted, { files, merkleRoot });
+  return { status: errors.length === 0 ? 'valid' : 'invalid', keyId: signature.keyId, errors };
+}
+
+export type {
+  BundleSignature,
+  SignatureStatus,
+  SignatureVerification,
+  SigningKey,
+  TrustedKey,
+};
+export {
+  SIGNATURE_ALGORITHM,
+  SIGNATURE_FILE,
+  computeKeyId,
+  signBundle,
+  verifyBundleSignature,
+};
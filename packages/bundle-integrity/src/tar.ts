@@ -0,0 +1,34 @@
+// packages/bundle-integrity/src/tar.ts
+// In-memory tar extraction
+
+import tarStream from 'tar-stream';
+
+/**
+ * Read every regular file of a tar archive, keyed by entry name
+ */
+export async function readTarEntries(bundle: Buffer): Promise<Map<string, Buffer>> {
+  const extract = tarStream.extract();
+  const files = new Map<string, Buffer>();
+
+  extract.on('entry', (header, stream, next) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+    });
+    stream.on('end', () => {
+      if (header.type === 'file') {
+        files.set(header.name.replace(/^\.\//, ''), Buffer.concat(chunks));
+      }
+      next();
+    });
+    stream.resume();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    extract.on('finish', resolve);
+    extract.on('error', reject);
+    extract.end(bundle);
+  });
+
+  return files;
+}
@@ -0,0 +1,202 @@
+// packages/bundle-integrity/src/verify.ts
+// Offline bundle verification: recompute file hashes and the Merkle root and compare them
+// with the bundle's integrity manifest (and, when known, the Merkle root recorded at build time),
+// then check the bundle signature against the trusted keys
+
+import { decompressBundle } from './compression.js';
+import { INTEGRITY_FILE, computeMerkleRoot, hashContent } from './integrity.js';
+import { SIGNATURE_FILE, verifyBundleSignature } from './signature.js';
+import { readTarEntries } from './tar.js';
+
+import type { CompressionFormat } from './compression.js';
+import type { IntegrityEntry, IntegrityManifest } from './integrity.js';
+import type { SignatureVerification, TrustedKey } from './signature.js';
+
+type FileStatus = 'ok' | 'modified' | 'missing' | 'unexpected';
+
+interface FileVerification {
+  path: string;
+  status: FileStatus;
+  expectedHash?: string;
+  actualHash?: string;
+}
+
+interface BundleVerificationResult {
+  valid: boolean;
+  files: FileVerification[];
+  // Files that were changed, removed or added after the bundle was built
+  tamperedFiles: string[];
+  merkleRoot: {
+    // From the integrity manifest inside the bundle
+    recorded: string | null;
+    // Supplied by the caller, e.g. from the build registry
+    expected: string | null;
+    computed: string | null;
+  };
+  // null when no trusted keys were given
+  signature: SignatureVerification | null;
+  errors: string[];
+}
+
+interface VerifyOptions {
+  // Trusted Merkle root of the build; without it a consistently rewritten integrity.json goes unnoticed
+  merkleRoot?: string;
+  // When set, the bundle must carry a valid signature by one of these keys
+  trustedKeys?: TrustedKey[];
+}
+
+interface VerifiedBundle {
+  // Format the bundle was compressed with, detected from its content
+  compression: CompressionFormat;
+  files: Map<string, Buffer>;
+  integrity: IntegrityManifest | null;
+  verification: BundleVerificationResult;
+}
+
+function parseIntegrityManifest(content: Buffer): IntegrityManifest {
+  const parsed = JSON.parse(content.toString('utf8')) as Partial<IntegrityManifest>;
+  const isEntry = (entry: Partial<IntegrityEntry>): boolean =>
+    typeof entry.path === 'string' && typeof entry.hash === 'string' && typeof entry.size === 'number';
+
+  if (
+    parsed.version !== 1 ||
+    parsed.algorithm !== 'sha256' ||
+    !Array.isArray(parsed.files) ||
+    !parsed.files.every(isEntry) ||
+    typeof parsed.merkleRoot !== 'string'
+  ) {
+    throw new Error(`${INTEGRITY_FILE} is not a valid integrity manifest`);
+  }
+  return parsed as IntegrityManifest;
+}
+
+/**
+ * Compare the files found in the bundle with the entries of its integrity manifest
+ */
+function verifyEntries(files: Map<string, Buffer>, integrity: IntegrityManifest, errors: string[]): FileVerification[] {
+  const results: FileVerification[] = integrity.files.map((entry) => {
+    const content = files.get(entry.path);
+    if (!content) {
+      errors.push(`${entry.path}: missing from bundle`);
+      return { path: entry.path, status: 'missing', expectedHash: entry.hash };
+    }
+
+    const actualHash = hashContent(content);
+    if (actualHash !== entry.hash) {
+      errors.push(`${entry.path}: hash mismatch (expected ${entry.hash}, got ${actualHash})`);
+      return { path: entry.path, status: 'modified', expectedHash: entry.hash, actualHash };
+    }
+    return { path: entry.path, status: 'ok', expectedHash: entry.hash, actualHash };
+  });
+
+  const listed = new Set(integrity.files.map((entry) => entry.path));
+  for (const [path, content] of files) {
+    if (path !== INTEGRITY_FILE && path !== SIGNATURE_FILE && !listed.has(path)) {
+      errors.push(`${path}: not listed in ${INTEGRITY_FILE}`);
+      results.push({ path, status: 'unexpected', actualHash: hashContent(content) });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Errors attributable to integrity.json itself
+ */
+function verifyMerkleRoot(
+  integrity: IntegrityManifest,
+  roots: { computed: string; expected: string | null; filesIntact: boolean }
+): string[] {
+  const errors: string[] = [];
+  // With every file matching its entry, a root mismatch means integrity.json itself was edited
+  if (roots.filesIntact && roots.computed !== integrity.merkleRoot) {
+    errors.push(`${INTEGRITY_FILE}: Merkle root does not match the listed file hashes`);
+  }
+  if (roots.expected && integrity.merkleRoot !== roots.expected) {
+    errors.push(`${INTEGRITY_FILE}: Merkle root ${integrity.merkleRoot} does not match the expected ${roots.expected}`);
+  }
+  return errors;
+}
+
+/**
+ * Verify files already extracted from a bundle
+ */
+function verifyBundleFiles(
+  files: Map<string, Buffer>,
+  options: VerifyOptions = {}
+): { integrity: IntegrityManifest | null; verification: BundleVerificationResult } {
+  const expected = options.merkleRoot ?? null;
+  const errors: string[] = [];
+  let integrity: IntegrityManifest | null = null;
+
+  try {
+    const integrityContent = files.get(INTEGRITY_FILE);
+    if (!integrityContent) {
+      throw new Error(`Bundle has no ${INTEGRITY_FILE}`);
+    }
+    integrity = parseIntegrityManifest(integrityContent);
+  } catch (error: unknown) {
+    errors.push(error instanceof Error ? error.message : String(error));
+    return {
+      integrity,
+      verification: {
+        valid: false,
+        files: [],
+        tamperedFiles: [],
+        merkleRoot: { recorded: null, expected, computed: null },
+        signature: null,
+        errors,
+      },
+    };
+  }
+
+  const results = verifyEntries(files, integrity, errors);
+  const tamperedFiles = results.filter((result) => result.status !== 'ok').map((result) => result.path);
+
+  // Leaves are the hashes of the files as found, so any modified file changes the root
+  const computed = computeMerkleRoot(integrity.files.map((entry) => {
+    const content = files.get(entry.path);
+    return content ? hashContent(content) : entry.hash;
+  }));
+
+  const integrityErrors = verifyMerkleRoot(integrity, { computed, expected, filesIntact: tamperedFiles.length === 0 });
+  if (integrityErrors.length > 0) {
+    errors.push(...integrityErrors);
+    tamperedFiles.push(INTEGRITY_FILE);
+  }
+
+  const signature = options.trustedKeys ? verifyBundleSignature(files, integrity.merkleRoot, options.trustedKeys) : null;
+  if (signature) {
+    errors.push(...signature.errors);
+  }
+
+  return {
+    integrity,
+    verification: {
+      valid: errors.length === 0,
+      files: results,
+      tamperedFiles,
+      merkleRoot: { recorded: integrity.merkleRoot, expected, computed },
+      signature,
+      errors,
+    },
+  };
+}
+
+/**
+ * Decompress and unpack a bundle (tar, tar.gz or tar.zst) and verify it
+ */
+async function extractAndVerifyBundle(bundle: Buffer, options: VerifyOptions = {}): Promise<VerifiedBundle> {
+  const { format, tar } = await decompressBundle(bundle);
+  const files = await readTarEntries(tar);
+  return { compression: format, files, ...verifyBundleFiles(files, options) };
+}
+
+export type {
+  BundleVerificationResult,
+  FileStatus,
+  FileVerification,
+  VerifiedBundle,
+  VerifyOptions,
+};
+export { extractAndVerifyBundle, verifyBundleFiles };
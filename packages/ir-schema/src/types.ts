@@ -94,6 +94,8 @@ export interface SecurityIntent {
   allowInternetUdpOut?: boolean;
   /** Allow public HTTP-In listeners (default false; else bind to localhost/VPN only). */
   allowHttpInPublic?: boolean;
+  /** Allow inbound TCP listeners (default false). */
+  allowTcpIn?: boolean;
 }
 
 /**
@@ -118,7 +120,6 @@ export interface ChannelIR {
 export interface BundleManifest {
   version: 1;
   channelId: string;
-  buildId: string;                  // unique build identifier
   mode: 'TEST' | 'PROD';
   artifacts: {
     flowsJsonPath: string;          // path inside bundle tar (e.g., "./flows.json")